@@ -21,6 +21,14 @@ import SubscriptionPlans from "@/pages/subscription-plans";
 import Payment from "@/pages/payment";
 import MyBookings from "@/pages/my-bookings";
 import PaymentHistory from "@/pages/payment-history";
+import Billing from "@/pages/billing";
+import OfflinePayments from "@/pages/offline-payments";
+import Expenses from "@/pages/expenses";
+import SocietyFunds from "@/pages/society-funds";
+import StaffManagement from "@/pages/staff-management";
+import StaffDashboard from "@/pages/staff-dashboard";
+import ComplaintSettings from "@/pages/complaint-settings";
+import ManageFacilities from "@/pages/manage-facilities";
 import type { User } from "@shared/schema";
 
 function Router() {
@@ -55,10 +63,19 @@ function Router() {
           <Route path="/payment" component={Payment} />
           <Route path="/my-bookings" component={MyBookings} />
           <Route path="/payment-history" component={PaymentHistory} />
+          <Route path="/billing" component={Billing} />
+          <Route path="/offline-payments" component={OfflinePayments} />
+          <Route path="/expenses" component={Expenses} />
+          <Route path="/funds" component={SocietyFunds} />
+          <Route path="/staff" component={StaffManagement} />
+          <Route path="/work-queue" component={StaffDashboard} />
+          <Route path="/complaint-settings" component={ComplaintSettings} />
+          <Route path="/facilities" component={ManageFacilities} />
           <Route path="/" component={() => {
             if (user?.role === 'super_admin') return <SuperAdminDashboard />;
             if (user?.role === 'admin') return <AdminDashboard />;
             if (user?.role === 'resident') return <ResidentDashboard />;
+            if (user?.role === 'staff') return <StaffDashboard />;
             return <Landing />; // Fallback if role is not recognized
           }} />
         </>
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AccountBalance, BalanceSheet, IncomeExpenditureStatement, JournalEntryWithLines, TrialBalance } from "@shared/schema";
+
+const formatAmount = (amount: number) => amount === 0 ? "—" : `₹${amount.toLocaleString('en-IN')}`;
+
+function startOfFinancialYear() {
+  // Indian financial years run April to March
+  const today = new Date();
+  const year = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+  return `${year}-04-01`;
+}
+
+function BalanceRows({ title, accounts, total }: { title: string; accounts: AccountBalance[]; total: number }) {
+  return (
+    <>
+      <TableRow className="bg-muted/50">
+        <TableCell colSpan={2} className="font-semibold">{title}</TableCell>
+      </TableRow>
+      {accounts.filter(account => account.balance !== 0).map((account) => (
+        <TableRow key={account.accountId}>
+          <TableCell className="pl-6">{account.code} {account.name}</TableCell>
+          <TableCell className="text-right">{formatAmount(account.balance)}</TableCell>
+        </TableRow>
+      ))}
+      <TableRow>
+        <TableCell className="font-medium">Total {title}</TableCell>
+        <TableCell className="text-right font-semibold">{formatAmount(total)}</TableCell>
+      </TableRow>
+    </>
+  );
+}
+
+export function AccountingStatements() {
+  const [from, setFrom] = useState(startOfFinancialYear());
+  const [to, setTo] = useState(new Date().toISOString().slice(0, 10));
+  const range = `from=${from}&to=${to}`;
+
+  const { data: trialBalance } = useQuery<TrialBalance>({
+    queryKey: [`/api/accounting/trial-balance?${range}`],
+  });
+
+  const { data: incomeExpenditure } = useQuery<IncomeExpenditureStatement>({
+    queryKey: [`/api/accounting/income-expenditure?${range}`],
+  });
+
+  const { data: balanceSheet } = useQuery<BalanceSheet>({
+    queryKey: [`/api/accounting/balance-sheet?asOf=${to}`],
+  });
+
+  const { data: journal = [] } = useQuery<JournalEntryWithLines[]>({
+    queryKey: [`/api/accounting/journal?${range}`],
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-4">
+        <CardTitle>Books of Account</CardTitle>
+        <div className="flex gap-3">
+          <div>
+            <Label htmlFor="accounts-from">From</Label>
+            <Input
+              id="accounts-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              data-testid="input-accounts-from"
+            />
+          </div>
+          <div>
+            <Label htmlFor="accounts-to">To</Label>
+            <Input
+              id="accounts-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-accounts-to"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="trial-balance">
+          <TabsList className="grid w-full grid-cols-4" data-testid="accounting-tabs">
+            <TabsTrigger value="trial-balance" data-testid="tab-trial-balance">Trial Balance</TabsTrigger>
+            <TabsTrigger value="income-expenditure" data-testid="tab-income-expenditure">Income & Expenditure</TabsTrigger>
+            <TabsTrigger value="balance-sheet" data-testid="tab-balance-sheet">Balance Sheet</TabsTrigger>
+            <TabsTrigger value="journal" data-testid="tab-journal">Journal</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="trial-balance">
+            {trialBalance && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trialBalance.accounts.map((account) => (
+                    <TableRow key={account.accountId} data-testid={`row-trial-balance-${account.code}`}>
+                      <TableCell>{account.code} {account.name}</TableCell>
+                      <TableCell className="text-right">{formatAmount(account.debit)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(account.credit)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right" data-testid="text-trial-balance-debit">
+                      {formatAmount(trialBalance.totalDebit)}
+                    </TableCell>
+                    <TableCell className="text-right" data-testid="text-trial-balance-credit">
+                      {formatAmount(trialBalance.totalCredit)}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="income-expenditure">
+            {incomeExpenditure && (
+              <Table>
+                <TableBody>
+                  <BalanceRows title="Income" accounts={incomeExpenditure.income} total={incomeExpenditure.totalIncome} />
+                  <BalanceRows title="Expenditure" accounts={incomeExpenditure.expenditure} total={incomeExpenditure.totalExpenditure} />
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>
+                      {incomeExpenditure.surplus >= 0 ? "Excess of income over expenditure" : "Excess of expenditure over income"}
+                    </TableCell>
+                    <TableCell className="text-right" data-testid="text-surplus">
+                      {formatAmount(Math.abs(incomeExpenditure.surplus))}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="balance-sheet">
+            {balanceSheet && (
+              <Table>
+                <TableBody>
+                  <BalanceRows
+                    title="Liabilities & Funds"
+                    accounts={[
+                      ...balanceSheet.liabilities,
+                      ...balanceSheet.equity,
+                      {
+                        accountId: "accumulated-surplus",
+                        code: "",
+                        name: "Income & Expenditure Account",
+                        type: "equity",
+                        debit: 0,
+                        credit: 0,
+                        balance: balanceSheet.accumulatedSurplus,
+                      },
+                    ]}
+                    total={balanceSheet.totalLiabilities + balanceSheet.totalEquity}
+                  />
+                  <BalanceRows title="Assets" accounts={balanceSheet.assets} total={balanceSheet.totalAssets} />
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="journal">
+            {journal.length === 0 ? (
+              <div className="text-center text-muted-foreground py-6" data-testid="text-no-journal-entries">
+                No journal entries in this period
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Particulars</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {journal.flatMap((entry) => (
+                    entry.lines.map((line, index) => (
+                      <TableRow key={line.id} data-testid={index === 0 ? `row-journal-entry-${entry.id}` : undefined}>
+                        <TableCell className="whitespace-nowrap">
+                          {index === 0 && new Date(entry.entryDate).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <div className={line.credit > 0 ? "pl-6" : ""}>{line.accountName}</div>
+                          {index === entry.lines.length - 1 && (
+                            <div className="text-xs text-muted-foreground">({entry.description})</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(line.debit)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(line.credit)}</TableCell>
+                      </TableRow>
+                    ))
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
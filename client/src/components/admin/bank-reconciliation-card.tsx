@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileCheck, Upload } from "lucide-react";
+import type { ReconciliationResult } from "@shared/schema";
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+export function BankReconciliationCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      const res = await apiRequest("/api/payments/reconciliation/preview", "POST", { csv });
+      return (await res.json()) as ReconciliationResult;
+    },
+    onSuccess: (data) => setResult(data),
+    onError,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/payments/reconciliation/confirm", "POST", {
+        matches: result!.matches.map(match => ({
+          paymentId: match.paymentId,
+          statementReference: `${match.row.date} ${match.row.reference || match.row.description}`.trim(),
+        })),
+      });
+      return (await res.json()) as { reconciled: number };
+    },
+    onSuccess: (data) => {
+      toast({ title: "Reconciliation Saved", description: `${data.reconciled} payments marked as reconciled` });
+      setResult(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+    },
+    onError,
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    previewMutation.mutate(await file.text());
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bank Reconciliation</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="statement-file">Bank statement (CSV)</Label>
+            <Input
+              id="statement-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+              data-testid="input-statement-file"
+            />
+          </div>
+          {previewMutation.isPending && (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Upload className="h-4 w-4 mr-2" />
+              Matching statement...
+            </div>
+          )}
+          {result && result.matches.length > 0 && (
+            <Button
+              onClick={() => confirmMutation.mutate()}
+              disabled={confirmMutation.isPending}
+              data-testid="button-confirm-reconciliation"
+            >
+              <FileCheck className="h-4 w-4 mr-2" />
+              {confirmMutation.isPending ? "Saving..." : `Mark ${result.matches.length} Reconciled`}
+            </Button>
+          )}
+        </div>
+
+        {result && (
+          <>
+            {result.errors.map((error, index) => (
+              <p key={index} className="text-xs text-destructive">{error}</p>
+            ))}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Statement Line</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Payment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.matches.map((match) => (
+                  <TableRow key={match.paymentId} data-testid={`row-reconciliation-match-${match.paymentId}`}>
+                    <TableCell>
+                      <div>{match.row.date}</div>
+                      <div className="text-xs text-muted-foreground">{match.row.reference || match.row.description}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(match.row.amount)}</TableCell>
+                    <TableCell>
+                      <div>{match.receiptNumber} • {match.residentName}</div>
+                      <Badge variant={match.matchedOn === 'reference' ? "default" : "secondary"}>
+                        {match.matchedOn === 'reference' ? "matched on reference" : "matched on amount and date"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {result.unmatchedRows.map((row) => (
+                  <TableRow key={`row-${row.rowNumber}`} data-testid={`row-reconciliation-unmatched-${row.rowNumber}`}>
+                    <TableCell>
+                      <div>{row.date}</div>
+                      <div className="text-xs text-muted-foreground">{row.reference || row.description}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(row.amount)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">no recorded payment</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {result.unmatchedPayments.map((payment) => (
+                  <TableRow key={payment.id} data-testid={`row-reconciliation-missing-${payment.id}`}>
+                    <TableCell className="text-muted-foreground">Not in statement</TableCell>
+                    <TableCell className="text-right">{formatAmount(payment.amount)}</TableCell>
+                    <TableCell>
+                      <div>{payment.receiptNumber} • {payment.residentName}</div>
+                      <Badge variant="destructive">not found in bank</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
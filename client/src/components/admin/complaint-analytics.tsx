@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { MapPin } from "lucide-react";
+import type { ComplaintAnalytics, ComplaintBreakdownRow } from "@shared/schema";
+
+type Period = ComplaintAnalytics["period"];
+
+const backlogConfig = {
+  backlog: { label: "Backlog", color: "var(--chart-1)" },
+  opened: { label: "Raised", color: "var(--chart-3)" },
+  resolved: { label: "Resolved", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const breakdownConfig = {
+  open: { label: "Open", color: "var(--chart-5)" },
+  resolved: { label: "Resolved", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const hotspotKindLabels: Record<string, string> = {
+  flat: "Flat",
+  tower: "Tower",
+  common_area: "Common area",
+};
+
+// Hours read better as days once a complaint has been open for more than a couple of days
+export const formatDuration = (hours: number | null) => {
+  if (hours === null) return "—";
+  if (hours < 48) return `${Math.round(hours)} hrs`;
+  return `${Math.round((hours / 24) * 10) / 10} days`;
+};
+
+const formatBucket = (date: string, period: Period) =>
+  new Date(date).toLocaleDateString(undefined, period === 'year' ? { month: "short" } : { day: "numeric", month: "short" });
+
+function BreakdownChart({ title, rows, testId }: { title: string; rows: ComplaintBreakdownRow[]; testId: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8" data-testid={`text-no-${testId}`}>
+            No complaints raised in this period
+          </div>
+        ) : (
+          <>
+            <ChartContainer config={breakdownConfig} className="h-56 w-full aspect-auto" data-testid={`chart-${testId}`}>
+              <BarChart data={rows} layout="vertical" margin={{ left: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="label" width={96} className="capitalize" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="open" stackId="status" fill="var(--color-open)" />
+                <Bar dataKey="resolved" stackId="status" fill="var(--color-resolved)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ChartContainer>
+            <div className="mt-3 space-y-1">
+              {rows.map((row) => (
+                <div key={row.key} className="flex justify-between text-xs text-muted-foreground">
+                  <span className="capitalize">{row.label}</span>
+                  <span>avg. {formatDuration(row.averageResolutionHours)} to resolve</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Resolution times, backlog trend, breakdowns and repeat-issue hotspots for the admin's society
+export function ComplaintAnalyticsReport() {
+  const [period, setPeriod] = useState<Period>("month");
+
+  const { data: analytics, isLoading } = useQuery<ComplaintAnalytics>({
+    queryKey: [`/api/reports/complaints/${period}`],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {(["month", "quarter", "year"] as const).map((option) => (
+          <Button
+            key={option}
+            variant={period === option ? "default" : "outline"}
+            onClick={() => setPeriod(option)}
+            data-testid={`button-complaint-period-${option}`}
+          >
+            {option.charAt(0).toUpperCase() + option.slice(1)}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading || !analytics ? (
+        <div className="text-center text-muted-foreground py-12">Loading complaint analytics...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            {[
+              { label: "Raised", value: analytics.raised, testId: "raised" },
+              { label: "Resolved", value: analytics.resolved, testId: "resolved" },
+              { label: "Open Now", value: analytics.openNow, testId: "open-now" },
+              { label: "Mean Time to Resolve", value: formatDuration(analytics.meanResolutionHours), testId: "mean-resolution" },
+              { label: "Median Time to Resolve", value: formatDuration(analytics.medianResolutionHours), testId: "median-resolution" },
+            ].map((stat) => (
+              <Card key={stat.label}>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">{stat.label}</p>
+                  <p className="text-2xl font-bold text-foreground mt-1" data-testid={`text-complaints-${stat.testId}`}>
+                    {stat.value}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Backlog Over Time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={backlogConfig} className="h-72 w-full aspect-auto" data-testid="chart-complaint-backlog">
+                <LineChart data={analytics.backlog}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={(date) => formatBucket(date, analytics.period)} minTickGap={16} />
+                  <YAxis allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(date) => formatBucket(String(date), analytics.period)} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="backlog" type="monotone" stroke="var(--color-backlog)" strokeWidth={2} dot={false} />
+                  <Line dataKey="opened" type="monotone" stroke="var(--color-opened)" strokeWidth={1.5} dot={false} />
+                  <Line dataKey="resolved" type="monotone" stroke="var(--color-resolved)" strokeWidth={1.5} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <BreakdownChart title="By Category" rows={analytics.byCategory} testId="complaints-by-category" />
+            <BreakdownChart title="By Priority" rows={analytics.byPriority} testId="complaints-by-priority" />
+            <BreakdownChart title="By Assignee" rows={analytics.byAssignee} testId="complaints-by-assignee" />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-primary" />
+                Repeat-Issue Hotspots
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analytics.hotspots.length === 0 ? (
+                <div className="text-center text-muted-foreground" data-testid="text-no-hotspots">
+                  No flat, tower or common area had more than one complaint in this period
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Complaints</TableHead>
+                      <TableHead>Most Common Issue</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analytics.hotspots.map((hotspot) => (
+                      <TableRow key={`${hotspot.kind}:${hotspot.location}`} data-testid={`row-hotspot-${hotspot.kind}-${hotspot.location}`}>
+                        <TableCell className="font-medium">{hotspot.location}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{hotspotKindLabels[hotspot.kind]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{hotspot.complaintCount}</TableCell>
+                        <TableCell className="capitalize">
+                          {hotspot.topCategory} ({hotspot.topCategoryCount})
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Complaint, ComplaintAssignee } from "@shared/schema";
+
+interface ComplaintAssigneeSelectProps {
+  complaint: Complaint;
+  assignees: ComplaintAssignee[];
+}
+
+// Select values carry both the assignee type and id, e.g. "vendor:1234"
+const toValue = (type: string, id: string) => `${type}:${id}`;
+
+export function ComplaintAssigneeSelect({ complaint, assignees }: ComplaintAssigneeSelectProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const current = complaint.assignedTo && complaint.assigneeType
+    ? toValue(complaint.assigneeType, complaint.assignedTo)
+    : "unassigned";
+
+  const assignMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const [type, id] = value.split(":");
+      return await apiRequest(`/api/complaints/${complaint.id}/assign`, "PATCH", {
+        assignee: value === "unassigned" ? null : { type, id },
+      });
+    },
+    onSuccess: (_data, value) => {
+      const assignee = assignees.find(row => toValue(row.type, row.id) === value);
+      toast({
+        title: assignee ? "Complaint Assigned" : "Complaint Unassigned",
+        description: assignee ? `${complaint.title} is now with ${assignee.name}` : `${complaint.title} is back in the unassigned pool`,
+      });
+      // Covers the list, the workload summary and any open complaint timeline
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/complaints"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Merged duplicates are worked through the complaint they joined
+  const isFinished = complaint.status === 'resolved' || complaint.status === 'closed' || !!complaint.parentId;
+
+  return (
+    <Select
+      value={current}
+      onValueChange={(value) => assignMutation.mutate(value)}
+      disabled={isFinished || assignMutation.isPending}
+    >
+      <SelectTrigger className="w-44" data-testid={`select-complaint-assignee-${complaint.id}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="unassigned">Unassigned</SelectItem>
+        {assignees
+          .filter(assignee => assignee.isActive || toValue(assignee.type, assignee.id) === current)
+          .map((assignee) => (
+            <SelectItem key={toValue(assignee.type, assignee.id)} value={toValue(assignee.type, assignee.id)}>
+              {assignee.name}{assignee.type === 'vendor' ? " (vendor)" : ""}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Pencil, Route } from "lucide-react";
+import { complaintPriorities, type ComplaintAssignee, type ComplaintCategoryWithRouting } from "@shared/schema";
+
+interface ComplaintCategoriesCardProps {
+  categories: ComplaintCategoryWithRouting[];
+  isLoading: boolean;
+}
+
+// Select values carry both the assignee type and id, e.g. "vendor:1234"
+const UNROUTED = "unassigned";
+
+const emptyCategory = {
+  name: "",
+  defaultPriority: "medium",
+  assignee: UNROUTED,
+  firstResponseHours: "",
+  resolutionHours: "",
+};
+
+type CategoryForm = typeof emptyCategory;
+
+const toForm = (category: ComplaintCategoryWithRouting): CategoryForm => ({
+  name: category.name,
+  defaultPriority: category.defaultPriority,
+  assignee: category.defaultAssigneeType && category.defaultAssigneeId
+    ? `${category.defaultAssigneeType}:${category.defaultAssigneeId}`
+    : UNROUTED,
+  firstResponseHours: category.firstResponseHours?.toString() || "",
+  resolutionHours: category.resolutionHours?.toString() || "",
+});
+
+const toBody = (form: CategoryForm) => {
+  const [type, id] = form.assignee.split(":");
+  return {
+    defaultPriority: form.defaultPriority,
+    defaultAssigneeType: form.assignee === UNROUTED ? null : type,
+    defaultAssigneeId: form.assignee === UNROUTED ? null : id,
+    firstResponseHours: form.firstResponseHours ? parseInt(form.firstResponseHours) : null,
+    resolutionHours: form.resolutionHours ? parseInt(form.resolutionHours) : null,
+  };
+};
+
+// Each society's category list, with the priority, assignee and SLA new complaints in it start with
+export function ComplaintCategoriesCard({ categories, isLoading }: ComplaintCategoriesCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newCategory, setNewCategory] = useState(emptyCategory);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState(emptyCategory);
+
+  const { data: assignees = [] } = useQuery<ComplaintAssignee[]>({
+    queryKey: ["/api/complaint-assignees"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Category SLA targets are stored as SLA policies, so both lists change together
+  const invalidateCategories = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/complaint-categories"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sla-policies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sla-compliance"] });
+  };
+
+  const createCategoryMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/complaint-categories", "POST", { name: newCategory.name, ...toBody(newCategory) });
+    },
+    onSuccess: () => {
+      toast({ title: "Category Added", description: `Residents can now raise ${newCategory.name} complaints` });
+      setNewCategory(emptyCategory);
+      invalidateCategories();
+    },
+    onError,
+  });
+
+  const updateCategoryMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, unknown> }) => {
+      return await apiRequest(`/api/complaint-categories/${id}`, "PATCH", updates);
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      invalidateCategories();
+    },
+    onError,
+  });
+
+  const openEditor = (category: ComplaintCategoryWithRouting) => {
+    setEditForm(toForm(category));
+    setEditingId(category.id);
+  };
+
+  const renderRuleFields = (form: CategoryForm, setForm: (form: CategoryForm) => void, prefix: string) => (
+    <>
+      <div>
+        <Label>Default priority</Label>
+        <Select value={form.defaultPriority} onValueChange={(defaultPriority) => setForm({ ...form, defaultPriority })}>
+          <SelectTrigger data-testid={`select-${prefix}-priority`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {complaintPriorities.map((priority) => (
+              <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label>Route to</Label>
+        <Select value={form.assignee} onValueChange={(assignee) => setForm({ ...form, assignee })}>
+          <SelectTrigger data-testid={`select-${prefix}-assignee`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNROUTED}>Nobody (admin assigns)</SelectItem>
+            {assignees
+              .filter(assignee => assignee.isActive || `${assignee.type}:${assignee.id}` === form.assignee)
+              .map((assignee) => (
+                <SelectItem key={`${assignee.type}:${assignee.id}`} value={`${assignee.type}:${assignee.id}`}>
+                  {assignee.name}{assignee.type === 'vendor' ? " (vendor)" : ""}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor={`${prefix}-first-response`}>First response (hours)</Label>
+        <Input
+          id={`${prefix}-first-response`}
+          type="number"
+          min="1"
+          placeholder="No target"
+          value={form.firstResponseHours}
+          onChange={(e) => setForm({ ...form, firstResponseHours: e.target.value })}
+          data-testid={`input-${prefix}-first-response`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${prefix}-resolution`}>Resolution (hours)</Label>
+        <Input
+          id={`${prefix}-resolution`}
+          type="number"
+          min="1"
+          placeholder="No target"
+          value={form.resolutionHours}
+          onChange={(e) => setForm({ ...form, resolutionHours: e.target.value })}
+          data-testid={`input-${prefix}-resolution`}
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5 text-primary" />
+          Categories & Routing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-2 gap-3 content-start">
+          <div className="col-span-2">
+            <Label htmlFor="category-name">New category</Label>
+            <Input
+              id="category-name"
+              placeholder="e.g. Lift"
+              value={newCategory.name}
+              onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+              data-testid="input-category-name"
+            />
+          </div>
+          {renderRuleFields(newCategory, setNewCategory, "category")}
+          <Button
+            className="col-span-2"
+            onClick={() => createCategoryMutation.mutate()}
+            disabled={!newCategory.name.trim() || createCategoryMutation.isPending}
+            data-testid="button-add-category"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {createCategoryMutation.isPending ? "Adding..." : "Add Category"}
+          </Button>
+        </div>
+
+        <div className="lg:col-span-2">
+          {isLoading ? (
+            <div className="text-center text-muted-foreground">Loading categories...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Routed To</TableHead>
+                  <TableHead>SLA</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categories.map((category) => (
+                  <TableRow key={category.id} data-testid={`row-category-${category.id}`}>
+                    <TableCell className="font-medium capitalize">{category.name}</TableCell>
+                    <TableCell className="capitalize">{category.defaultPriority}</TableCell>
+                    <TableCell>{category.defaultAssigneeName || <span className="text-muted-foreground">Admin assigns</span>}</TableCell>
+                    <TableCell className="text-sm">
+                      {category.firstResponseHours && category.resolutionHours
+                        ? `${category.firstResponseHours}h / ${category.resolutionHours}h`
+                        : <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={category.isActive}
+                        onCheckedChange={(isActive) => updateCategoryMutation.mutate({ id: category.id, updates: { isActive } })}
+                        data-testid={`switch-category-${category.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditor(category)}
+                        data-testid={`button-edit-category-${category.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={editingId !== null} onOpenChange={(open) => !open && setEditingId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="capitalize">{editForm.name}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            {renderRuleFields(editForm, setEditForm, "edit-category")}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingId(null)} data-testid="button-cancel-edit-category">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateCategoryMutation.mutate({ id: editingId!, updates: toBody(editForm) })}
+              disabled={updateCategoryMutation.isPending}
+              data-testid="button-save-category"
+            >
+              {updateCategoryMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
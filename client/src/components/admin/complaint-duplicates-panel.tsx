@@ -0,0 +1,91 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Copy, GitMerge } from "lucide-react";
+import type { Complaint, ComplaintDuplicates } from "@shared/schema";
+
+interface ComplaintDuplicatesPanelProps {
+  complaint: Complaint;
+}
+
+// Likely duplicates of the complaint being viewed, which the admin can fold into it
+export function ComplaintDuplicatesPanel({ complaint }: ComplaintDuplicatesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: duplicates } = useQuery<ComplaintDuplicates>({
+    queryKey: [`/api/complaints/${complaint.id}/duplicates`],
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (duplicate: Complaint) => {
+      return await apiRequest(`/api/complaints/${duplicate.id}/merge`, "POST", { parentId: complaint.id });
+    },
+    onSuccess: (_data, duplicate) => {
+      toast({
+        title: "Complaints Merged",
+        description: `The resident who raised "${duplicate.title}" will now follow this complaint`,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/complaints"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!duplicates || (duplicates.candidates.length === 0 && duplicates.merged.length === 0)) return null;
+
+  return (
+    <div className="p-3 rounded-lg border space-y-2" data-testid="panel-complaint-duplicates">
+      {duplicates.merged.length > 0 && (
+        <p className="text-sm text-muted-foreground" data-testid="text-merged-count">
+          <GitMerge className="h-4 w-4 inline mr-1" />
+          {duplicates.merged.length} duplicate report{duplicates.merged.length === 1 ? "" : "s"} merged into this complaint
+        </p>
+      )}
+      {duplicates.candidates.length > 0 && (
+        <>
+          <p className="text-sm font-medium text-foreground flex items-center gap-1">
+            <Copy className="h-4 w-4" />
+            Possible duplicates
+          </p>
+          {duplicates.candidates.map(({ complaint: candidate, similarity }) => (
+            <div
+              key={candidate.id}
+              className="flex items-center justify-between gap-3 p-2 bg-muted rounded"
+              data-testid={`duplicate-candidate-${candidate.id}`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{candidate.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  Raised {new Date(candidate.createdAt!).toLocaleString()} • {(candidate.status || 'open').replace('_', ' ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge variant="outline">{Math.round(similarity * 100)}% match</Badge>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => mergeMutation.mutate(candidate)}
+                  disabled={mergeMutation.isPending}
+                  data-testid={`button-merge-duplicate-${candidate.id}`}
+                >
+                  <GitMerge className="h-4 w-4 mr-1" />
+                  Merge Here
+                </Button>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
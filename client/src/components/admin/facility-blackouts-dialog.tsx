@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Trash2 } from "lucide-react";
+import type { Facility, FacilityBlackout } from "@shared/schema";
+
+interface FacilityBlackoutsDialogProps {
+  facility: Facility | null;
+  onClose: () => void;
+}
+
+// Days the facility is closed for maintenance or society events; residents can't book them
+export function FacilityBlackoutsDialog({ facility, onClose }: FacilityBlackoutsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const blackoutsKey = `/api/facilities/${facility?.id}/blackouts`;
+  const { data: blackouts = [] } = useQuery<FacilityBlackout[]>({
+    queryKey: [blackoutsKey],
+    enabled: !!facility,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateBlackouts = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(`/api/facilities/${facility?.id}/`),
+    });
+  };
+
+  const addBlackoutMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(blackoutsKey, "POST", { date, reason: reason || null });
+    },
+    onSuccess: () => {
+      setDate("");
+      setReason("");
+      invalidateBlackouts();
+    },
+    onError,
+  });
+
+  const removeBlackoutMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/facility-blackouts/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      invalidateBlackouts();
+    },
+    onError,
+  });
+
+  const today = new Date().toISOString().split('T')[0];
+  const upcoming = blackouts.filter((blackout) => blackout.date >= today);
+
+  return (
+    <Dialog open={facility !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Blackout Dates{facility ? ` — ${facility.name}` : ""}</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="blackout-date">Date</Label>
+            <Input
+              id="blackout-date"
+              type="date"
+              min={today}
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              data-testid="input-blackout-date"
+            />
+          </div>
+          <div>
+            <Label htmlFor="blackout-reason">Reason</Label>
+            <Input
+              id="blackout-reason"
+              placeholder="e.g. Annual maintenance"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-blackout-reason"
+            />
+          </div>
+          <Button
+            className="col-span-2"
+            onClick={() => addBlackoutMutation.mutate()}
+            disabled={!date || addBlackoutMutation.isPending}
+            data-testid="button-add-blackout"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {addBlackoutMutation.isPending ? "Adding..." : "Add Blackout Date"}
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-center text-muted-foreground" data-testid="text-no-blackouts">
+              No upcoming blackout dates
+            </p>
+          ) : (
+            upcoming.map((blackout) => (
+              <div
+                key={blackout.id}
+                className="flex items-center justify-between p-2 bg-muted rounded"
+                data-testid={`row-blackout-${blackout.id}`}
+              >
+                <div>
+                  <p className="text-sm font-medium">{new Date(`${blackout.date}T00:00:00`).toLocaleDateString()}</p>
+                  {blackout.reason && <p className="text-xs text-muted-foreground">{blackout.reason}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeBlackoutMutation.mutate(blackout.id)}
+                  disabled={removeBlackoutMutation.isPending}
+                  data-testid={`button-remove-blackout-${blackout.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { FlatBalance } from "@shared/schema";
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+export function FlatBalancesCard() {
+  const { data: balances = [], isLoading } = useQuery<FlatBalance[]>({
+    queryKey: ["/api/billing/balances"],
+  });
+
+  const totalOutstanding = balances.reduce((sum, balance) => sum + balance.outstanding, 0);
+  const totalCredit = balances.reduce((sum, balance) => sum + balance.credit, 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Flat Balances</CardTitle>
+        <div className="text-sm text-muted-foreground" data-testid="text-balances-summary">
+          {formatAmount(totalOutstanding)} outstanding • {formatAmount(totalCredit)} advance credit
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-muted-foreground">Loading balances...</div>
+        ) : balances.length === 0 ? (
+          <div className="text-center text-muted-foreground" data-testid="text-no-flat-balances">
+            No flats registered yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Flat</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Advance Credit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {balances.map((balance) => (
+                <TableRow key={balance.flatId} data-testid={`row-flat-balance-${balance.flatId}`}>
+                  <TableCell className="font-medium">{balance.flatNumber}</TableCell>
+                  <TableCell className={`text-right ${balance.outstanding > 0 ? "text-destructive font-semibold" : ""}`}>
+                    {formatAmount(balance.outstanding)}
+                  </TableCell>
+                  <TableCell className={`text-right ${balance.credit > 0 ? "text-green-600 font-semibold" : ""}`}>
+                    {formatAmount(balance.credit)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
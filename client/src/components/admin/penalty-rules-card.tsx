@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Trash2, RefreshCw } from "lucide-react";
+import type { PenaltyRule } from "@shared/schema";
+
+const typeLabels: Record<PenaltyRule["type"], string> = {
+  flat_fee: "Flat fee",
+  daily_interest: "Daily interest",
+  monthly_interest: "Monthly interest",
+};
+
+function describeRule(rule: PenaltyRule) {
+  const value = rule.type === 'flat_fee'
+    ? `₹${rule.value.toLocaleString('en-IN')}`
+    : `${(rule.value / 100).toFixed(2)}% per ${rule.type === 'daily_interest' ? "day" : "month"}`;
+  const cap = rule.capAmount != null ? `, capped at ₹${rule.capAmount.toLocaleString('en-IN')}` : "";
+  return `${value} after ${rule.graceDays} grace days${cap}`;
+}
+
+export function PenaltyRulesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newRule, setNewRule] = useState({
+    name: "",
+    type: "flat_fee" as PenaltyRule["type"],
+    value: "",
+    graceDays: "0",
+    capAmount: "",
+  });
+
+  const { data: rules = [], isLoading } = useQuery<PenaltyRule[]>({
+    queryKey: ["/api/billing/penalty-rules"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: async () => {
+      const value = parseFloat(newRule.value);
+      return await apiRequest("/api/billing/penalty-rules", "POST", {
+        name: newRule.name,
+        type: newRule.type,
+        // Interest is entered as a percentage and stored in basis points
+        value: newRule.type === 'flat_fee' ? Math.round(value) : Math.round(value * 100),
+        graceDays: parseInt(newRule.graceDays) || 0,
+        capAmount: newRule.capAmount ? Math.round(parseFloat(newRule.capAmount)) : null,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Penalty Rule Added", description: `${newRule.name} applies to overdue bills from the next accrual` });
+      setNewRule({ name: "", type: "flat_fee", value: "", graceDays: "0", capAmount: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/penalty-rules"] });
+    },
+    onError,
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest(`/api/billing/penalty-rules/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/penalty-rules"] });
+    },
+    onError,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/billing/penalty-rules/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/penalty-rules"] });
+    },
+    onError,
+  });
+
+  const accrueMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/billing/penalties/accrue", "POST", {});
+      return (await res.json()) as { updated: number; totalPenalties: number };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Penalties Accrued",
+        description: `${result.updated} bills updated, ₹${result.totalPenalties.toLocaleString('en-IN')} in outstanding penalties`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Late-Payment Penalties</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => accrueMutation.mutate()}
+          disabled={accrueMutation.isPending}
+          data-testid="button-accrue-penalties"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          {accrueMutation.isPending ? "Accruing..." : "Accrue Now"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center text-muted-foreground">Loading penalty rules...</div>
+        ) : rules.length === 0 ? (
+          <div className="text-center text-muted-foreground" data-testid="text-no-penalty-rules">
+            No penalty rules defined yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id} data-testid={`row-penalty-rule-${rule.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{rule.name}</div>
+                    <div className="text-xs text-muted-foreground">{describeRule(rule)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(isActive) => toggleRuleMutation.mutate({ id: rule.id, isActive })}
+                      data-testid={`switch-penalty-rule-${rule.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (window.confirm(`Delete penalty rule "${rule.name}"?`)) {
+                          deleteRuleMutation.mutate(rule.id);
+                        }
+                      }}
+                      data-testid={`button-delete-penalty-rule-${rule.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="border-t pt-4 grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="penalty-name">Name</Label>
+            <Input
+              id="penalty-name"
+              placeholder="e.g. Late fee"
+              value={newRule.name}
+              onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+              data-testid="input-penalty-name"
+            />
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select
+              value={newRule.type}
+              onValueChange={(value) => setNewRule({ ...newRule, type: value as PenaltyRule["type"] })}
+            >
+              <SelectTrigger data-testid="select-penalty-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(typeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="penalty-value">{newRule.type === 'flat_fee' ? "Fee (₹)" : "Interest (%)"}</Label>
+            <Input
+              id="penalty-value"
+              type="number"
+              min="0"
+              step={newRule.type === 'flat_fee' ? "1" : "0.01"}
+              value={newRule.value}
+              onChange={(e) => setNewRule({ ...newRule, value: e.target.value })}
+              data-testid="input-penalty-value"
+            />
+          </div>
+          <div>
+            <Label htmlFor="penalty-grace">Grace Days</Label>
+            <Input
+              id="penalty-grace"
+              type="number"
+              min="0"
+              value={newRule.graceDays}
+              onChange={(e) => setNewRule({ ...newRule, graceDays: e.target.value })}
+              data-testid="input-penalty-grace-days"
+            />
+          </div>
+          <div className="col-span-2">
+            <Label htmlFor="penalty-cap">Cap per Bill (₹, optional)</Label>
+            <Input
+              id="penalty-cap"
+              type="number"
+              min="0"
+              value={newRule.capAmount}
+              onChange={(e) => setNewRule({ ...newRule, capAmount: e.target.value })}
+              data-testid="input-penalty-cap"
+            />
+          </div>
+          <Button
+            className="col-span-2"
+            onClick={() => createRuleMutation.mutate()}
+            disabled={!newRule.name || !newRule.value || createRuleMutation.isPending}
+            data-testid="button-add-penalty-rule"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {createRuleMutation.isPending ? "Adding..." : "Add Penalty Rule"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
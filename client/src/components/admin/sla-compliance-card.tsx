@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Timer } from "lucide-react";
+import type { SlaCompliance } from "@shared/schema";
+
+interface SlaComplianceCardProps {
+  enabled: boolean;
+}
+
+const formatRate = (rate: number | null) => rate === null ? "—" : `${rate}%`;
+
+// A society admin's first-response and resolution compliance over the reporting window
+export function SlaComplianceCard({ enabled }: SlaComplianceCardProps) {
+  const { data: compliance, isLoading } = useQuery<SlaCompliance>({
+    queryKey: ["/api/sla-compliance"],
+    enabled,
+    retry: false,
+  });
+
+  const rows = compliance ? [
+    { label: "First Response", rate: compliance.firstResponseRate, met: compliance.firstResponseMet, tracked: compliance.firstResponseTracked, testId: "first-response" },
+    { label: "Resolution", rate: compliance.resolutionRate, met: compliance.resolutionMet, tracked: compliance.resolutionTracked, testId: "resolution" },
+  ] : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5 text-primary" />
+          SLA Compliance
+        </CardTitle>
+        {compliance && (
+          <span className="text-sm text-muted-foreground">Last {compliance.windowDays} days</span>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-muted-foreground">Loading compliance...</div>
+        ) : !compliance ? (
+          <div className="text-center text-muted-foreground" data-testid="text-no-sla-compliance">
+            Compliance is not available
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+            {rows.map((row) => (
+              <div key={row.label} className="space-y-2">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-sm text-muted-foreground">{row.label}</span>
+                  <span className="text-2xl font-bold text-foreground" data-testid={`text-sla-${row.testId}-rate`}>
+                    {formatRate(row.rate)}
+                  </span>
+                </div>
+                <Progress value={row.rate ?? 0} />
+                <p className="text-xs text-muted-foreground">{row.met} of {row.tracked} within target</p>
+              </div>
+            ))}
+            <div className="space-y-2">
+              <span className="text-sm text-muted-foreground">Open Breaches</span>
+              <p
+                className={`text-2xl font-bold ${compliance.openBreaches > 0 ? "text-destructive" : "text-foreground"}`}
+                data-testid="text-sla-open-breaches"
+              >
+                {compliance.openBreaches}
+              </p>
+              <p className="text-xs text-muted-foreground">Complaints past a target and still open</p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
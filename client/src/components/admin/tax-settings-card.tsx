@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Save } from "lucide-react";
+import type { TaxConfiguration } from "@shared/schema";
+
+export function TaxSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    isEnabled: false,
+    gstin: "",
+    gstRate: "18",
+    exemptionLimit: "7500",
+    sacCode: "999598",
+    invoicePrefix: "INV",
+  });
+
+  const { data: configuration } = useQuery<TaxConfiguration>({
+    queryKey: ["/api/billing/tax-settings"],
+  });
+
+  useEffect(() => {
+    if (configuration) {
+      setForm({
+        isEnabled: configuration.isEnabled,
+        gstin: configuration.gstin || "",
+        // Rates are shown as a percentage and stored in basis points
+        gstRate: String(configuration.gstRate / 100),
+        exemptionLimit: String(configuration.exemptionLimit),
+        sacCode: configuration.sacCode,
+        invoicePrefix: configuration.invoicePrefix,
+      });
+    }
+  }, [configuration]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/billing/tax-settings", "PUT", {
+        isEnabled: form.isEnabled,
+        gstin: form.gstin.trim() ? form.gstin.trim().toUpperCase() : null,
+        gstRate: Math.round(parseFloat(form.gstRate) * 100),
+        exemptionLimit: Math.round(parseFloat(form.exemptionLimit) || 0),
+        sacCode: form.sacCode.trim(),
+        invoicePrefix: form.invoicePrefix.trim().toUpperCase(),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Tax Settings Saved",
+        description: form.isEnabled ? "GST will be charged from the next billing run" : "Bills will be raised without GST",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/tax-settings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>GST</CardTitle>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="gst-enabled" className="text-sm text-muted-foreground">Charge GST</Label>
+          <Switch
+            id="gst-enabled"
+            checked={form.isEnabled}
+            onCheckedChange={(isEnabled) => setForm({ ...form, isEnabled })}
+            data-testid="switch-gst-enabled"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">
+          <Label htmlFor="gstin">GSTIN</Label>
+          <Input
+            id="gstin"
+            placeholder="e.g. 27AAAAA0000A1Z5"
+            maxLength={15}
+            value={form.gstin}
+            onChange={(e) => setForm({ ...form, gstin: e.target.value.toUpperCase() })}
+            data-testid="input-gstin"
+          />
+        </div>
+        <div>
+          <Label htmlFor="gst-rate">GST Rate (%)</Label>
+          <Input
+            id="gst-rate"
+            type="number"
+            min="0"
+            step="0.01"
+            value={form.gstRate}
+            onChange={(e) => setForm({ ...form, gstRate: e.target.value })}
+            data-testid="input-gst-rate"
+          />
+        </div>
+        <div>
+          <Label htmlFor="gst-exemption-limit">Exempt up to (₹ / flat / month)</Label>
+          <Input
+            id="gst-exemption-limit"
+            type="number"
+            min="0"
+            value={form.exemptionLimit}
+            onChange={(e) => setForm({ ...form, exemptionLimit: e.target.value })}
+            data-testid="input-gst-exemption-limit"
+          />
+        </div>
+        <div>
+          <Label htmlFor="gst-sac-code">SAC Code</Label>
+          <Input
+            id="gst-sac-code"
+            maxLength={6}
+            value={form.sacCode}
+            onChange={(e) => setForm({ ...form, sacCode: e.target.value })}
+            data-testid="input-gst-sac-code"
+          />
+        </div>
+        <div>
+          <Label htmlFor="gst-invoice-prefix">Invoice Prefix</Label>
+          <Input
+            id="gst-invoice-prefix"
+            maxLength={5}
+            value={form.invoicePrefix}
+            onChange={(e) => setForm({ ...form, invoicePrefix: e.target.value.toUpperCase() })}
+            data-testid="input-gst-invoice-prefix"
+          />
+        </div>
+        <p className="col-span-2 text-sm text-muted-foreground">
+          Flats whose taxable charges exceed the limit pay GST on the full amount, split equally into CGST and SGST.
+          Invoice numbers restart every April.
+        </p>
+        <Button
+          className="col-span-2"
+          onClick={() => saveMutation.mutate()}
+          disabled={!form.gstRate || !form.sacCode || !form.invoicePrefix || saveMutation.isPending}
+          data-testid="button-save-tax-settings"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Tax Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import type { TaxSummary } from "@shared/schema";
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+// Quotes cells so names with commas survive the export
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export function TaxSummaryCard() {
+  const [billingMonth, setBillingMonth] = useState(new Date().toISOString().slice(0, 7));
+
+  const { data: summary, isLoading } = useQuery<TaxSummary>({
+    queryKey: [`/api/billing/tax-summary?billingMonth=${billingMonth}`],
+    enabled: !!billingMonth,
+  });
+
+  const handleExport = () => {
+    if (!summary) return;
+
+    const headers = ["Invoice No", "Invoice Date", "Flat", "Resident", "SAC", "Taxable Value", "CGST", "SGST", "Invoice Value"];
+    const rows: (string | number)[][] = summary.invoices.map(invoice => [
+      invoice.invoiceNumber,
+      new Date(invoice.invoiceDate).toLocaleDateString('en-IN'),
+      invoice.flatNumber || "",
+      invoice.residentName,
+      summary.sacCode,
+      invoice.taxableAmount,
+      invoice.cgstAmount,
+      invoice.sgstAmount,
+      invoice.total,
+    ]);
+    rows.push(["Total", "", "", "", "", summary.taxableAmount, summary.cgstAmount, summary.sgstAmount, summary.totalAmount]);
+    rows.push(["Exempt / non-GST value", "", "", "", "", summary.exemptAmount, "", "", ""]);
+
+    const csvContent = [
+      [`GSTIN`, summary.gstin || ""],
+      [`Billing month`, summary.billingMonth],
+      [],
+      headers,
+      ...rows,
+    ].map(row => row.map(csvCell).join(",")).join("\n");
+    const blob = new Blob([csvContent], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `gst-summary-${summary.billingMonth}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-3">
+        <CardTitle>Monthly Tax Summary</CardTitle>
+        <div className="flex gap-2">
+          <Input
+            type="month"
+            value={billingMonth}
+            onChange={(e) => setBillingMonth(e.target.value)}
+            className="w-40"
+            data-testid="input-tax-summary-month"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={!summary || summary.invoiceCount === 0}
+            data-testid="button-export-tax-summary"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-muted-foreground">Loading tax summary...</div>
+        ) : !summary || summary.invoiceCount === 0 ? (
+          <div className="text-center text-muted-foreground" data-testid="text-no-tax-invoices">
+            No invoices issued for this month
+          </div>
+        ) : (
+          <Table>
+            <TableBody>
+              <TableRow>
+                <TableCell>Invoices issued</TableCell>
+                <TableCell className="text-right" data-testid="text-tax-invoice-count">{summary.invoiceCount}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Taxable value</TableCell>
+                <TableCell className="text-right" data-testid="text-tax-taxable">{formatAmount(summary.taxableAmount)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>CGST</TableCell>
+                <TableCell className="text-right" data-testid="text-tax-cgst">{formatAmount(summary.cgstAmount)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>SGST</TableCell>
+                <TableCell className="text-right" data-testid="text-tax-sgst">{formatAmount(summary.sgstAmount)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Exempt / non-GST value</TableCell>
+                <TableCell className="text-right" data-testid="text-tax-exempt">{formatAmount(summary.exemptAmount)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">Total invoiced</TableCell>
+                <TableCell className="text-right font-semibold" data-testid="text-tax-total">{formatAmount(summary.totalAmount)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
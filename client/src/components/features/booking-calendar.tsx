@@ -0,0 +1,212 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { FacilityBooking } from "@shared/schema";
+
+export type CalendarView = "day" | "week" | "month";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-amber-100 text-amber-900 border-amber-300",
+  approved: "bg-green-100 text-green-900 border-green-300",
+  rejected: "bg-red-100 text-red-900 border-red-300 line-through",
+  cancelled: "bg-gray-100 text-gray-500 border-gray-300 line-through",
+};
+
+// Calendar days are local YYYY-MM-DD keys; bookings are stored against UTC midnight of their day
+export const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export const getBookingDayKey = (booking: FacilityBooking) => new Date(booking.bookingDate).toISOString().slice(0, 10);
+
+const fromDayKey = (key: string) => new Date(`${key}T00:00:00`);
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// The days a view shows around the anchor date; weeks run Sunday to Saturday and months fill whole weeks
+export function getCalendarDays(view: CalendarView, date: Date): string[] {
+  if (view === "day") return [toDayKey(date)];
+
+  const first = view === "week" ? date : new Date(date.getFullYear(), date.getMonth(), 1);
+  const start = addDays(first, -first.getDay());
+  let count = 7;
+  if (view === "month") {
+    const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+    count = Math.round((addDays(last, 6 - last.getDay()).getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  }
+  return Array.from({ length: count }, (_, index) => toDayKey(addDays(start, index)));
+}
+
+export function shiftCalendarDate(view: CalendarView, date: Date, step: number): Date {
+  if (view === "day") return addDays(date, step);
+  if (view === "week") return addDays(date, step * 7);
+  return new Date(date.getFullYear(), date.getMonth() + step, 1);
+}
+
+function getCalendarTitle(view: CalendarView, date: Date): string {
+  if (view === "day") {
+    return date.toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+  }
+  if (view === "month") {
+    return date.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+  }
+  const days = getCalendarDays("week", date);
+  const options: Intl.DateTimeFormatOptions = { day: "numeric", month: "short" };
+  return `${fromDayKey(days[0]).toLocaleDateString(undefined, options)} – ${fromDayKey(days[6]).toLocaleDateString(undefined, options)}`;
+}
+
+interface BookingCalendarToolbarProps {
+  view: CalendarView;
+  date: Date;
+  onViewChange: (view: CalendarView) => void;
+  onDateChange: (date: Date) => void;
+}
+
+export function BookingCalendarToolbar({ view, date, onViewChange, onDateChange }: BookingCalendarToolbarProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => onDateChange(shiftCalendarDate(view, date, -1))} data-testid="button-calendar-prev">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onDateChange(new Date())} data-testid="button-calendar-today">
+          Today
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onDateChange(shiftCalendarDate(view, date, 1))} data-testid="button-calendar-next">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <span className="font-semibold text-foreground ml-2" data-testid="text-calendar-title">
+          {getCalendarTitle(view, date)}
+        </span>
+      </div>
+      <div className="flex gap-1">
+        {(["day", "week", "month"] as const).map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={view === option ? "default" : "outline"}
+            onClick={() => onViewChange(option)}
+            className="capitalize"
+            data-testid={`button-calendar-view-${option}`}
+          >
+            {option}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface BookingCalendarProps<T extends FacilityBooking> {
+  bookings: T[];
+  facilityNames: Map<string, string>;
+  view: CalendarView;
+  date: Date;
+  describe?: (booking: T) => string; // a second line under the time, e.g. who booked
+  onSelectBooking: (booking: T) => void;
+  onSelectDay: (date: Date) => void;
+}
+
+export function BookingCalendar<T extends FacilityBooking>({
+  bookings,
+  facilityNames,
+  view,
+  date,
+  describe,
+  onSelectBooking,
+  onSelectDay,
+}: BookingCalendarProps<T>) {
+  const days = getCalendarDays(view, date);
+  const byDay = new Map<string, T[]>(days.map((day) => [day, []]));
+  for (const booking of bookings) {
+    byDay.get(getBookingDayKey(booking))?.push(booking);
+  }
+  byDay.forEach((list) => list.sort((a, b) => a.startTime.localeCompare(b.startTime)));
+  const today = toDayKey(new Date());
+
+  const renderChip = (booking: T, compact: boolean) => (
+    <button
+      key={booking.id}
+      type="button"
+      onClick={() => onSelectBooking(booking)}
+      className={`w-full text-left rounded border px-1.5 py-0.5 text-xs truncate hover:opacity-80 ${STATUS_STYLES[booking.status || "pending"]}`}
+      data-testid={`chip-booking-${booking.id}`}
+    >
+      {compact && <span className="font-medium">{booking.startTime} </span>}
+      {facilityNames.get(booking.facilityId) || "Facility"}
+      {!compact && (
+        <span className="block truncate opacity-80">
+          {booking.startTime} – {booking.endTime}{describe ? ` • ${describe(booking)}` : ""}
+        </span>
+      )}
+    </button>
+  );
+
+  if (view === "day") {
+    const dayBookings = byDay.get(days[0]) || [];
+    const firstHour = Math.min(6, ...dayBookings.map((booking) => Number(booking.startTime.slice(0, 2))));
+    const lastHour = Math.max(22, ...dayBookings.map((booking) => Number(booking.startTime.slice(0, 2)) + 1));
+    const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+
+    return (
+      <div className="border rounded divide-y" data-testid="calendar-day">
+        {hours.map((hour) => {
+          const label = `${String(hour).padStart(2, "0")}:00`;
+          const starting = dayBookings.filter((booking) => Number(booking.startTime.slice(0, 2)) === hour);
+          return (
+            <div key={hour} className="flex min-h-[2.5rem]">
+              <div className="w-16 shrink-0 p-2 text-xs text-muted-foreground border-r">{label}</div>
+              <div className="flex-1 p-1 grid gap-1 sm:grid-cols-2 lg:grid-cols-3">
+                {starting.map((booking) => renderChip(booking, false))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div data-testid={`calendar-${view}`}>
+      <div className="grid grid-cols-7 gap-px text-xs text-muted-foreground text-center mb-1">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday}>{weekday}</div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-px bg-border border rounded overflow-hidden">
+        {days.map((day) => {
+          const dayBookings = byDay.get(day) || [];
+          const inMonth = view === "week" || fromDayKey(day).getMonth() === date.getMonth();
+          const shown = view === "month" ? dayBookings.slice(0, 3) : dayBookings;
+          return (
+            <div
+              key={day}
+              className={`bg-background p-1 space-y-1 ${view === "month" ? "min-h-[6rem]" : "min-h-[12rem]"} ${inMonth ? "" : "opacity-50"}`}
+              data-testid={`cell-calendar-${day}`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelectDay(fromDayKey(day))}
+                className={`text-xs font-medium rounded px-1 hover:bg-muted ${day === today ? "bg-primary text-primary-foreground" : ""}`}
+                data-testid={`button-calendar-day-${day}`}
+              >
+                {fromDayKey(day).getDate()}
+              </button>
+              {shown.map((booking) => renderChip(booking, view === "month"))}
+              {dayBookings.length > shown.length && (
+                <button
+                  type="button"
+                  onClick={() => onSelectDay(fromDayKey(day))}
+                  className="text-xs text-muted-foreground hover:underline"
+                  data-testid={`button-calendar-more-${day}`}
+                >
+                  +{dayBookings.length - shown.length} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Repeat } from "lucide-react";
+import type { Facility, FacilityBookingSeries } from "@shared/schema";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const describeSeries = (series: FacilityBookingSeries) => {
+  if (series.frequency === "monthly") {
+    return `Monthly on day ${Number(series.startDate.slice(8))}`;
+  }
+  const days = series.daysOfWeek.length > 0
+    ? series.daysOfWeek
+    : [new Date(`${series.startDate}T00:00:00Z`).getUTCDay()];
+  return `Every ${days.map((day) => WEEKDAYS[day]).join(", ")}`;
+};
+
+// The resident's active recurring bookings; cancelling one cancels every occurrence still to come
+export function BookingSeriesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: seriesList = [] } = useQuery<FacilityBookingSeries[]>({
+    queryKey: ["/api/facility-booking-series"],
+  });
+
+  const { data: facilities = [] } = useQuery<Facility[]>({
+    queryKey: ["/api/facilities"],
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest(`/api/facility-booking-series/${id}/cancel`, "POST", {});
+      return (await res.json()) as { cancelled: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facility-booking-series"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/facility-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/balance"] });
+      toast({
+        title: "Series Cancelled",
+        description: `${result.cancelled} upcoming booking${result.cancelled === 1 ? "" : "s"} cancelled.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const today = new Date().toISOString().split("T")[0];
+  const active = seriesList.filter((series) => series.status === "active" && series.endDate >= today);
+  if (active.length === 0) return null;
+
+  const facilityNames = new Map(facilities.map((facility) => [facility.id, facility.name]));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          Recurring Bookings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {active.map((series) => (
+          <div
+            key={series.id}
+            className="flex flex-wrap items-center justify-between gap-2 p-3 bg-muted rounded"
+            data-testid={`row-series-${series.id}`}
+          >
+            <div>
+              <p className="font-medium">{facilityNames.get(series.facilityId) || "Facility"}</p>
+              <p className="text-sm text-muted-foreground">
+                {describeSeries(series)} • {series.startTime} - {series.endTime}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Until {new Date(`${series.endDate}T00:00:00`).toLocaleDateString()}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                if (window.confirm("Cancel every upcoming booking in this series? Refunds follow the facility's cancellation policy.")) {
+                  cancelMutation.mutate(series.id);
+                }
+              }}
+              disabled={cancelMutation.isPending}
+              data-testid={`button-cancel-series-${series.id}`}
+            >
+              Cancel Series
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
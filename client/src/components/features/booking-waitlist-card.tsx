@@ -0,0 +1,122 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useLocation } from "wouter";
+import { Hourglass } from "lucide-react";
+import type { Facility, FacilityBooking, FacilityWaitlistEntry } from "@shared/schema";
+
+// The resident's open waitlist entries; offered slots can be taken up or passed on from here
+export function BookingWaitlistCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const { data: entries = [] } = useQuery<FacilityWaitlistEntry[]>({
+    queryKey: ["/api/facility-waitlist"],
+  });
+
+  const { data: facilities = [] } = useQuery<Facility[]>({
+    queryKey: ["/api/facilities"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest(`/api/facility-waitlist/${id}/accept`, "POST");
+      return (await res.json()) as FacilityBooking;
+    },
+    onSuccess: (booking) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facility-waitlist"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/facility-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/balance"] });
+      toast({
+        title: "Slot Booked",
+        description: "Your waitlisted slot is now booked.",
+      });
+      if ((booking.totalAmount || 0) + booking.depositAmount > 0 && booking.paymentMode === "immediate") {
+        setLocation("/payment");
+      }
+    },
+    onError,
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/facility-waitlist/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facility-waitlist"] });
+    },
+    onError,
+  });
+
+  const open = entries.filter((entry) => entry.status === "waiting" || entry.status === "offered");
+  if (open.length === 0) return null;
+
+  const facilityNames = new Map(facilities.map((facility) => [facility.id, facility.name]));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="h-5 w-5" />
+          Waitlist
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {open.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex flex-wrap items-center justify-between gap-2 p-3 bg-muted rounded"
+            data-testid={`row-waitlist-${entry.id}`}
+          >
+            <div>
+              <p className="font-medium">{facilityNames.get(entry.facilityId) || "Facility"}</p>
+              <p className="text-sm text-muted-foreground">
+                {new Date(`${entry.bookingDate}T00:00:00`).toLocaleDateString()} • {entry.startTime} - {entry.endTime}
+              </p>
+              {entry.status === "offered" && entry.offerExpiresAt && (
+                <p className="text-xs text-primary" data-testid={`text-waitlist-offer-${entry.id}`}>
+                  Offer open until {new Date(entry.offerExpiresAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant={entry.status === "offered" ? "default" : "secondary"}>{entry.status}</Badge>
+              {entry.status === "offered" && (
+                <Button
+                  size="sm"
+                  onClick={() => acceptMutation.mutate(entry.id)}
+                  disabled={acceptMutation.isPending}
+                  data-testid={`button-accept-waitlist-${entry.id}`}
+                >
+                  Book It
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => leaveMutation.mutate(entry.id)}
+                disabled={leaveMutation.isPending}
+                data-testid={`button-leave-waitlist-${entry.id}`}
+              >
+                {entry.status === "offered" ? "Decline" : "Leave"}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
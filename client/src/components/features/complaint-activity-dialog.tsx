@@ -0,0 +1,349 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { ACCEPTED_ATTACHMENT_TYPES, AttachmentList, uploadComplaintAttachments } from "@/components/features/complaint-attachments";
+import { ComplaintClosurePanel, StarRating } from "@/components/features/complaint-closure-panel";
+import { ComplaintDuplicatesPanel } from "@/components/admin/complaint-duplicates-panel";
+import { Send, Paperclip, GitMerge } from "lucide-react";
+import { complaintPriorities, complaintStatusTransitions, type Complaint, type ComplaintAttachmentInfo, type ComplaintCommentWithAuthor, type ComplaintEventWithActor } from "@shared/schema";
+
+interface ComplaintActivityDialogProps {
+  complaint: Complaint | null;
+  onClose: () => void;
+}
+
+const roleLabels: Record<string, string> = {
+  super_admin: "Super Admin",
+  admin: "Admin",
+  resident: "Resident",
+  staff: "Staff",
+};
+
+const formatValue = (value: string | null) => (value || "none").replace('_', ' ');
+
+const describeEvent = (event: ComplaintEventWithActor) => {
+  switch (event.type) {
+    case 'created':
+      return "Raised the complaint";
+    case 'status_changed':
+      return `Changed status from ${formatValue(event.fromLabel)} to ${formatValue(event.toLabel)}`;
+    case 'priority_changed':
+      return `Changed priority from ${formatValue(event.fromLabel)} to ${formatValue(event.toLabel)}`;
+    case 'assigned':
+      if (!event.toLabel) return `Unassigned ${event.fromLabel}`;
+      return event.fromLabel ? `Reassigned from ${event.fromLabel} to ${event.toLabel}` : `Assigned to ${event.toLabel}`;
+    case 'reopened':
+      return "Reopened the complaint";
+    case 'rated':
+      return `Rated the resolution ${event.toValue} out of 5`;
+    case 'merged':
+      return event.toValue ? "Merged into another report of the same issue" : "Merged in a duplicate report";
+  }
+};
+
+const actorLabel = (event: ComplaintEventWithActor) => event.actorRole ? roleLabels[event.actorRole] : "Automatic";
+
+export const describeLocation = (complaint: Complaint) => {
+  if (!complaint.location) return null;
+  return complaint.scope === 'common_area' ? complaint.location : `Flat ${complaint.location}`;
+};
+
+// Comment thread and change history for one complaint, shared by the resident, admin and staff views
+export function ComplaintActivityDialog({ complaint, onClose }: ComplaintActivityDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [comment, setComment] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+
+  // A merged duplicate's conversation and history carry on in the complaint it was merged into
+  const threadId = complaint?.parentId || complaint?.id;
+  const isMerged = !!complaint?.parentId;
+
+  const { data: comments = [], isLoading: commentsLoading } = useQuery<ComplaintCommentWithAuthor[]>({
+    queryKey: [`/api/complaints/${threadId}/comments`],
+    enabled: !!complaint,
+  });
+
+  const { data: timeline = [], isLoading: timelineLoading } = useQuery<ComplaintEventWithActor[]>({
+    queryKey: [`/api/complaints/${threadId}/timeline`],
+    enabled: !!complaint,
+  });
+
+  const { data: attachments = [] } = useQuery<ComplaintAttachmentInfo[]>({
+    queryKey: [`/api/complaints/${complaint?.id}/attachments`],
+    enabled: !!complaint,
+  });
+
+  const { data: threadAttachments = [] } = useQuery<ComplaintAttachmentInfo[]>({
+    queryKey: [`/api/complaints/${threadId}/attachments`],
+    enabled: !!complaint,
+  });
+
+  const complaintAttachments = attachments.filter(attachment => !attachment.commentId);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const commentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(`/api/complaints/${threadId}/comments`, "POST", { body: comment });
+      const created: { id: string } = await res.json();
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: [`/api/complaints/${threadId}/comments`] });
+      await uploadComplaintAttachments(threadId!, files, created.id);
+    },
+    onSuccess: () => {
+      setFiles([]);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/complaints/${threadId}/attachments`] });
+    },
+    onError,
+  });
+
+  const priorityMutation = useMutation({
+    mutationFn: async (priority: string) => {
+      return await apiRequest(`/api/complaints/${complaint!.id}/priority`, "PATCH", { priority });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/complaints"),
+      });
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ status, resolutionNotes }: { status: string; resolutionNotes?: string }) => {
+      return await apiRequest(`/api/complaints/${complaint!.id}/status`, "PATCH", { status, resolutionNotes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/complaints"),
+      });
+    },
+    onError,
+  });
+
+  // Admins move a complaint along until it is resolved; closing and reopening belong to the resident
+  const currentStatus = complaint?.status || 'open';
+  const statusOptions = currentStatus === 'open' || currentStatus === 'in_progress'
+    ? [currentStatus, ...complaintStatusTransitions[currentStatus]]
+    : [currentStatus];
+
+  const handleStatusChange = (status: string) => {
+    if (status !== 'resolved') {
+      statusMutation.mutate({ status });
+      return;
+    }
+    const resolutionNotes = window.prompt(`What was done to fix "${complaint!.title}"?`);
+    if (resolutionNotes) {
+      statusMutation.mutate({ status, resolutionNotes });
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setComment("");
+      setFiles([]);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={complaint !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{complaint?.title}</DialogTitle>
+        </DialogHeader>
+        {complaint && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              {(user?.role !== 'admin' || isMerged) && <Badge variant="outline">{formatValue(complaint.status)}</Badge>}
+              <span>{complaint.category}</span>
+              {describeLocation(complaint) && (
+                <>
+                  <span>•</span>
+                  <span data-testid="text-complaint-location">{describeLocation(complaint)}</span>
+                </>
+              )}
+              <span>•</span>
+              <span>Raised {new Date(complaint.createdAt!).toLocaleDateString()}</span>
+              {user?.role === 'admin' && !isMerged && (
+                <div className="ml-auto flex items-center gap-2">
+                  <Label className="text-sm">Status</Label>
+                  <Select
+                    value={currentStatus}
+                    onValueChange={handleStatusChange}
+                    disabled={statusOptions.length === 1 || statusMutation.isPending}
+                  >
+                    <SelectTrigger className="w-32" data-testid="select-complaint-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statusOptions.map((status) => (
+                        <SelectItem key={status} value={status} className="capitalize">{formatValue(status)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Label className="text-sm">Priority</Label>
+                  <Select
+                    value={complaint.priority || "medium"}
+                    onValueChange={(priority) => priorityMutation.mutate(priority)}
+                    disabled={priorityMutation.isPending}
+                  >
+                    <SelectTrigger className="w-28" data-testid="select-complaint-priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {complaintPriorities.map((priority) => (
+                        <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <p className="text-sm text-foreground">{complaint.description}</p>
+            <AttachmentList attachments={complaintAttachments} />
+            {isMerged && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-muted text-sm" data-testid="text-complaint-merged">
+                <GitMerge className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                <span>
+                  Merged {new Date(complaint.mergedAt!).toLocaleDateString()} with another report of the same issue.
+                  The conversation and timeline below are shared by everyone who reported it.
+                </span>
+              </div>
+            )}
+            {user?.role === 'admin' && !isMerged && complaint.status !== 'closed' && (
+              <ComplaintDuplicatesPanel complaint={complaint} />
+            )}
+            {complaint.residentId === user?.id && !isMerged ? (
+              <ComplaintClosurePanel complaint={complaint} />
+            ) : complaint.rating !== null && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-complaint-rating">
+                <StarRating value={complaint.rating} />
+                {complaint.feedback && <span>“{complaint.feedback}”</span>}
+              </div>
+            )}
+
+            <Tabs defaultValue="conversation">
+              <TabsList>
+                <TabsTrigger value="conversation" data-testid="tab-complaint-conversation">
+                  Conversation ({comments.length})
+                </TabsTrigger>
+                <TabsTrigger value="timeline" data-testid="tab-complaint-timeline">Timeline</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="conversation" className="space-y-3">
+                <div className="space-y-3 max-h-72 overflow-y-auto">
+                  {commentsLoading ? (
+                    <div className="text-center text-muted-foreground">Loading conversation...</div>
+                  ) : comments.length === 0 ? (
+                    <div className="text-center text-muted-foreground" data-testid="text-no-comments">
+                      No messages yet
+                    </div>
+                  ) : (
+                    comments.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className={`p-3 rounded-lg ${entry.authorId === user?.id ? "bg-primary/10 ml-8" : "bg-muted mr-8"}`}
+                        data-testid={`comment-${entry.id}`}
+                      >
+                        <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                          <span className="font-medium text-foreground">
+                            {entry.authorName} <span className="font-normal text-muted-foreground">• {roleLabels[entry.authorRole || "resident"]}</span>
+                          </span>
+                          <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                        </div>
+                        <p className="text-sm whitespace-pre-wrap">{entry.body}</p>
+                        <div className="mt-2">
+                          <AttachmentList attachments={threadAttachments.filter(attachment => attachment.commentId === entry.id)} />
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+                {files.length > 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-comment-files">
+                    Attaching {files.map(file => file.name).join(", ")}
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    asChild
+                    variant="outline"
+                    size="icon"
+                    className="shrink-0 cursor-pointer"
+                  >
+                    <label data-testid="label-comment-attachments">
+                      <Paperclip className="h-4 w-4" />
+                      <input
+                        type="file"
+                        multiple
+                        accept={ACCEPTED_ATTACHMENT_TYPES}
+                        className="hidden"
+                        onChange={(e) => {
+                          setFiles([...files, ...Array.from(e.target.files || [])]);
+                          e.target.value = "";
+                        }}
+                        data-testid="input-comment-attachments"
+                      />
+                    </label>
+                  </Button>
+                  <Textarea
+                    placeholder="Write a message..."
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    rows={2}
+                    data-testid="input-complaint-comment"
+                  />
+                  <Button
+                    onClick={() => commentMutation.mutate()}
+                    disabled={!comment.trim() || commentMutation.isPending}
+                    data-testid="button-send-comment"
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="timeline">
+                <div className="space-y-3 max-h-80 overflow-y-auto">
+                  {timelineLoading ? (
+                    <div className="text-center text-muted-foreground">Loading timeline...</div>
+                  ) : (
+                    timeline.map((event) => (
+                      <div key={event.id} className="border-l-2 border-primary pl-3" data-testid={`timeline-event-${event.id}`}>
+                        <p className="text-sm text-foreground">{describeEvent(event)}</p>
+                        {event.note && <p className="text-sm text-muted-foreground">{event.note}</p>}
+                        <p className="text-xs text-muted-foreground">
+                          {event.actorName} ({actorLabel(event)}) • {new Date(event.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
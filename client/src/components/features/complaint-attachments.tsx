@@ -0,0 +1,63 @@
+import { apiUpload } from "@/lib/queryClient";
+import { FileText } from "lucide-react";
+import type { ComplaintAttachmentInfo } from "@shared/schema";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+export const ACCEPTED_ATTACHMENT_TYPES = "image/jpeg,image/png,image/webp,application/pdf";
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024
+  ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+  : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Uploads one file at a time so a rejected file names itself in the error
+export async function uploadComplaintAttachments(complaintId: string, files: File[], commentId?: string): Promise<void> {
+  const query = commentId ? `?commentId=${commentId}` : "";
+  for (const file of files) {
+    try {
+      await apiUpload(`/api/complaints/${complaintId}/attachments${query}`, file);
+    } catch (error) {
+      throw new Error(`${file.name}: ${(error as Error).message}`);
+    }
+  }
+}
+
+interface AttachmentListProps {
+  attachments: ComplaintAttachmentInfo[];
+}
+
+export function AttachmentList({ attachments }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <a
+          key={attachment.id}
+          href={`${API_BASE_URL}/api/complaint-attachments/${attachment.id}/file`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block w-24 rounded-md border bg-background overflow-hidden hover:ring-2 hover:ring-primary transition-all"
+          title={attachment.fileName}
+          data-testid={`link-attachment-${attachment.id}`}
+        >
+          {attachment.hasThumbnail ? (
+            <img
+              src={`${API_BASE_URL}/api/complaint-attachments/${attachment.id}/thumbnail`}
+              alt={attachment.fileName}
+              className="h-20 w-full object-cover"
+              loading="lazy"
+            />
+          ) : (
+            <div className="h-20 flex items-center justify-center bg-muted">
+              <FileText className="h-8 w-8 text-muted-foreground" />
+            </div>
+          )}
+          <div className="px-1 py-0.5 text-[10px] text-muted-foreground truncate">
+            {attachment.fileName} • {formatSize(attachment.size)}
+          </div>
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Star, CheckCircle, RotateCcw } from "lucide-react";
+import type { Complaint } from "@shared/schema";
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+}
+
+export function StarRating({ value, onChange }: StarRatingProps) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(star)}
+          className={onChange ? "cursor-pointer" : "cursor-default"}
+          aria-label={`${star} star${star === 1 ? "" : "s"}`}
+          data-testid={`button-rating-star-${star}`}
+        >
+          <Star className={`h-5 w-5 ${star <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface ComplaintClosurePanelProps {
+  complaint: Complaint;
+}
+
+// What the resident who raised a complaint can do once it is resolved: confirm and rate, or reopen
+export function ComplaintClosurePanel({ complaint }: ComplaintClosurePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<"confirm" | "reopen">("confirm");
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState("");
+
+  const { data: settings } = useQuery<{ confirmationDays: number }>({
+    queryKey: ["/api/complaint-settings"],
+    enabled: complaint.status === 'resolved',
+  });
+
+  const onSuccess = (title: string, description: string) => {
+    toast({ title, description });
+    setRating(0);
+    setText("");
+    setMode("confirm");
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/complaints"),
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const feedbackMutation = useMutation({
+    mutationFn: async () => {
+      const url = complaint.status === 'resolved'
+        ? `/api/complaints/${complaint.id}/confirm`
+        : `/api/complaints/${complaint.id}/rating`;
+      return await apiRequest(url, "POST", { rating, feedback: text || null });
+    },
+    onSuccess: () => onSuccess("Thank You", "Your feedback has been recorded"),
+    onError,
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/complaints/${complaint.id}/reopen`, "POST", { reason: text });
+    },
+    onSuccess: () => onSuccess("Complaint Reopened", "The society has been asked to look at it again"),
+    onError,
+  });
+
+  if (complaint.rating !== null) {
+    return (
+      <div className="p-3 rounded-lg bg-muted space-y-1" data-testid="panel-complaint-rating">
+        <StarRating value={complaint.rating} />
+        {complaint.feedback && <p className="text-sm text-muted-foreground">{complaint.feedback}</p>}
+      </div>
+    );
+  }
+
+  if (complaint.status !== 'resolved' && complaint.status !== 'closed') return null;
+
+  const canReopen = complaint.status === 'resolved';
+  const resolvedAt = complaint.resolvedAt ? new Date(complaint.resolvedAt) : null;
+  const closesOn = resolvedAt && settings
+    ? new Date(resolvedAt.getTime() + settings.confirmationDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  return (
+    <div className="p-3 rounded-lg border border-primary/30 bg-primary/5 space-y-3" data-testid="panel-complaint-closure">
+      {mode === "confirm" ? (
+        <>
+          <div>
+            <p className="text-sm font-medium text-foreground">
+              {canReopen ? "Has this been fixed to your satisfaction?" : "How was this complaint handled?"}
+            </p>
+            {closesOn && (
+              <p className="text-xs text-muted-foreground">
+                It will close automatically on {closesOn.toLocaleDateString()} if you do not respond
+              </p>
+            )}
+          </div>
+          <StarRating value={rating} onChange={setRating} />
+          <Textarea
+            placeholder="Anything you would like to add? (optional)"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={2}
+            data-testid="input-complaint-feedback"
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => feedbackMutation.mutate()}
+              disabled={rating === 0 || feedbackMutation.isPending}
+              data-testid="button-confirm-complaint"
+            >
+              <CheckCircle className="h-4 w-4 mr-1" />
+              {canReopen ? "Confirm & Close" : "Submit Rating"}
+            </Button>
+            {canReopen && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => { setMode("reopen"); setText(""); }}
+                data-testid="button-start-reopen"
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Still Not Fixed
+              </Button>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-sm font-medium text-foreground">What is still wrong?</p>
+          <Textarea
+            placeholder="Describe what still needs fixing"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={3}
+            data-testid="input-reopen-reason"
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => reopenMutation.mutate()}
+              disabled={text.trim().length < 5 || reopenMutation.isPending}
+              data-testid="button-reopen-complaint"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reopen Complaint
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => { setMode("confirm"); setText(""); }}
+              data-testid="button-cancel-reopen"
+            >
+              Cancel
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -12,13 +12,20 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { AlertCircle } from "lucide-react";
+import { ACCEPTED_ATTACHMENT_TYPES, uploadComplaintAttachments } from "@/components/features/complaint-attachments";
+import { AlertCircle, Paperclip, X } from "lucide-react";
+import type { Complaint, ComplaintCategory } from "@shared/schema";
 
 const complaintSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
   category: z.string().min(1, "Please select a category"),
   priority: z.enum(["low", "medium", "high"]).default("medium"),
+  scope: z.enum(["in_flat", "common_area"]),
+  location: z.string().max(100).optional(),
+}).refine((data) => data.scope === "in_flat" || !!data.location?.trim(), {
+  message: "Please say where the problem is",
+  path: ["location"],
 });
 
 type ComplaintFormData = z.infer<typeof complaintSchema>;
@@ -32,6 +39,11 @@ export default function ComplaintsForm({ inline = false, onClose }: ComplaintsFo
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isOpen, setIsOpen] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+
+  const { data: categories = [] } = useQuery<ComplaintCategory[]>({
+    queryKey: ["/api/complaint-categories"],
+  });
 
   const form = useForm<ComplaintFormData>({
     resolver: zodResolver(complaintSchema),
@@ -40,12 +52,29 @@ export default function ComplaintsForm({ inline = false, onClose }: ComplaintsFo
       description: "",
       category: "",
       priority: "medium",
+      scope: "in_flat",
+      location: "",
     },
   });
 
   const createComplaintMutation = useMutation({
     mutationFn: async (data: ComplaintFormData) => {
-      await apiRequest("/api/complaints", "POST", data);
+      // The server fills in the flat for in-flat complaints
+      const res = await apiRequest("/api/complaints", "POST", {
+        ...data,
+        location: data.scope === "common_area" ? data.location : null,
+      });
+      const complaint: Complaint = await res.json();
+      // The complaint is already filed if an upload fails, so report that separately
+      try {
+        await uploadComplaintAttachments(complaint.id, files);
+      } catch (error) {
+        toast({
+          title: "Attachment Not Uploaded",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
     },
     onSuccess: () => {
       toast({
@@ -53,6 +82,7 @@ export default function ComplaintsForm({ inline = false, onClose }: ComplaintsFo
         description: "Complaint submitted successfully",
       });
       form.reset();
+      setFiles([]);
       setIsOpen(false);
       onClose?.();
       queryClient.invalidateQueries({ queryKey: ["/api/complaints"] });
@@ -113,19 +143,26 @@ export default function ComplaintsForm({ inline = false, onClose }: ComplaintsFo
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Category</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Start from the society's usual priority for this kind of issue
+                        const category = categories.find(row => row.name === value);
+                        if (category) {
+                          form.setValue("priority", category.defaultPriority as ComplaintFormData["priority"]);
+                        }
+                      }}
+                      value={field.value}
+                    >
                       <FormControl>
                         <SelectTrigger data-testid="select-complaint-category">
                           <SelectValue placeholder="Select category" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="plumbing">Plumbing</SelectItem>
-                        <SelectItem value="electrical">Electrical</SelectItem>
-                        <SelectItem value="security">Security</SelectItem>
-                        <SelectItem value="maintenance">Maintenance</SelectItem>
-                        <SelectItem value="cleaning">Cleaning</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.name} className="capitalize">{category.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -133,13 +170,51 @@ export default function ComplaintsForm({ inline = false, onClose }: ComplaintsFo
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Where is the problem?</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-complaint-scope">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="in_flat">In my flat</SelectItem>
+                        <SelectItem value="common_area">Common area</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("scope") === "common_area" && (
+                <FormField
+                  control={form.control}
+                  name="location"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Location</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Tower B lift, clubhouse gym" {...field} data-testid="input-complaint-location" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="priority"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Priority</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-complaint-priority">
                           <SelectValue />
@@ -175,11 +250,48 @@ export default function ComplaintsForm({ inline = false, onClose }: ComplaintsFo
                 )}
               />
 
+              <div className="space-y-2">
+                <label
+                  className="flex items-center gap-2 text-sm text-primary cursor-pointer w-fit"
+                  data-testid="label-complaint-attachments"
+                >
+                  <Paperclip className="h-4 w-4" />
+                  Attach photos or documents
+                  <input
+                    type="file"
+                    multiple
+                    accept={ACCEPTED_ATTACHMENT_TYPES}
+                    className="hidden"
+                    onChange={(e) => {
+                      setFiles([...files, ...Array.from(e.target.files || [])]);
+                      e.target.value = "";
+                    }}
+                    data-testid="input-complaint-attachments"
+                  />
+                </label>
+                {files.map((file, index) => (
+                  <div key={index} className="flex items-center justify-between text-sm bg-muted rounded px-2 py-1">
+                    <span className="truncate">{file.name}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                      data-testid={`button-remove-attachment-${index}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
               <div className="flex gap-2 pt-4">
                 <Button
                   type="button"
                   variant="outline"
                   onClick={() => {
+                    setFiles([]);
                     setIsOpen(false);
                     onClose?.();
                   }}
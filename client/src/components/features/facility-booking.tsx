@@ -8,18 +8,31 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Calendar, Clock } from "lucide-react";
-import type { Facility } from "@shared/schema";
+import { useLocation } from "wouter";
+import { Calendar, Clock, Repeat, CheckCircle, AlertTriangle } from "lucide-react";
+import type { FacilityAvailability, FacilityBooking as FacilityBookingRecord, FacilityBookingSeriesResult, FacilityQuote, FacilitySlot, FacilityWithPhotos } from "@shared/schema";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
 const bookingSchema = z.object({
   facilityId: z.string().min(1, "Please select a facility"),
   bookingDate: z.string().min(1, "Please select a date"),
-  startTime: z.string().min(1, "Please select start time"),
-  endTime: z.string().min(1, "Please select end time"),
+  startTime: z.string().min(1, "Please pick a time slot"),
+  endTime: z.string().min(1, "Please pick a time slot"),
   notes: z.string().optional(),
+  forGuest: z.boolean(),
+  paymentMode: z.enum(["dues", "immediate"]),
+  repeat: z.enum(["none", "weekly", "monthly"]),
+  daysOfWeek: z.array(z.number()),
+  repeatUntil: z.string().optional(),
+}).refine((data) => data.repeat === "none" || !!data.repeatUntil, {
+  message: "Please pick when the series ends",
+  path: ["repeatUntil"],
 });
 
 type BookingFormData = z.infer<typeof bookingSchema>;
@@ -33,8 +46,11 @@ export default function FacilityBooking({ inline = false, onClose }: FacilityBoo
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isOpen, setIsOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const [waitlistSlot, setWaitlistSlot] = useState<FacilitySlot | null>(null);
+  const [seriesResult, setSeriesResult] = useState<FacilityBookingSeriesResult | null>(null);
 
-  const { data: facilities } = useQuery<Facility[]>({
+  const { data: facilities } = useQuery<FacilityWithPhotos[]>({
     queryKey: ["/api/facilities"],
     enabled: inline || isOpen,
   });
@@ -47,34 +63,172 @@ export default function FacilityBooking({ inline = false, onClose }: FacilityBoo
       startTime: "",
       endTime: "",
       notes: "",
+      forGuest: false,
+      paymentMode: "dues",
+      repeat: "none",
+      daysOfWeek: [],
+      repeatUntil: "",
     },
   });
 
+  const facilityId = form.watch("facilityId");
+  const bookingDate = form.watch("bookingDate");
+  const startTime = form.watch("startTime");
+  const endTime = form.watch("endTime");
+  const forGuest = form.watch("forGuest");
+  const paymentMode = form.watch("paymentMode");
+  const repeat = form.watch("repeat");
+  const daysOfWeek = form.watch("daysOfWeek");
+  const selectedFacility = facilities?.find((facility) => facility.id === facilityId);
+
+  const { data: availability, isLoading: availabilityLoading } = useQuery<FacilityAvailability>({
+    queryKey: [`/api/facilities/${facilityId}/availability?from=${bookingDate}&days=1`],
+    enabled: !!facilityId && !!bookingDate,
+  });
+  const day = availability?.days[0];
+
+  const { data: quote } = useQuery<FacilityQuote>({
+    queryKey: [`/api/facilities/${facilityId}/quote?bookingDate=${bookingDate}&startTime=${startTime}&endTime=${endTime}&forGuest=${forGuest}`],
+    enabled: !!facilityId && !!bookingDate && !!startTime && !!endTime,
+  });
+
+  const clearSlot = () => {
+    form.setValue("startTime", "");
+    form.setValue("endTime", "");
+    setWaitlistSlot(null);
+  };
+
+  // The first click picks a slot; a later click extends the booking to that slot if everything in between is free
+  const pickSlot = (slot: FacilitySlot) => {
+    if (startTime && slot.startTime >= startTime && day) {
+      const span = day.slots.filter((row) => row.startTime >= startTime && row.startTime <= slot.startTime);
+      if (span.every((row) => row.remaining > 0)) {
+        form.setValue("endTime", slot.endTime, { shouldValidate: true });
+        return;
+      }
+    }
+    form.setValue("startTime", slot.startTime, { shouldValidate: true });
+    form.setValue("endTime", slot.endTime, { shouldValidate: true });
+    setWaitlistSlot(null);
+  };
+
+  // Full slots can't be booked, but residents can queue for them in case a booking is cancelled
+  const pickFullSlot = (slot: FacilitySlot) => {
+    form.setValue("startTime", "");
+    form.setValue("endTime", "");
+    setWaitlistSlot(slot);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    form.setValue(
+      "daysOfWeek",
+      daysOfWeek.includes(weekday) ? daysOfWeek.filter((day) => day !== weekday) : [...daysOfWeek, weekday].sort(),
+    );
+  };
+
+  const closeForm = () => {
+    form.reset();
+    setWaitlistSlot(null);
+    setIsOpen(false);
+    onClose?.();
+  };
+
+  const invalidateBookings = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/facility-bookings"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/facilities/"),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance-bills"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/balance"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
   const createBookingMutation = useMutation({
     mutationFn: async (data: BookingFormData) => {
-      await apiRequest("/api/facility-bookings", "POST", data);
+      const { repeat, daysOfWeek, repeatUntil, ...booking } = data;
+      const res = await apiRequest("/api/facility-bookings", "POST", booking);
+      return (await res.json()) as FacilityBookingRecord;
     },
-    onSuccess: () => {
+    onSuccess: (booking) => {
+      const charged = (booking.totalAmount || 0) + booking.depositAmount;
       toast({
         title: "Success",
-        description: "Facility booking request submitted successfully",
+        description: charged > 0 && booking.paymentMode === "dues"
+          ? `Booking request submitted; ₹${charged} has been added to your dues`
+          : "Facility booking request submitted successfully",
+      });
+      closeForm();
+      invalidateBookings();
+      if (charged > 0 && booking.paymentMode === "immediate") {
+        setLocation("/payment");
+      }
+    },
+    onError,
+  });
+
+  const createSeriesMutation = useMutation({
+    mutationFn: async ({ bookingDate, repeat, repeatUntil, ...data }: BookingFormData) => {
+      const res = await apiRequest("/api/facility-booking-series", "POST", {
+        ...data,
+        frequency: repeat,
+        startDate: bookingDate,
+        endDate: repeatUntil,
       });
-      form.reset();
-      setIsOpen(false);
-      onClose?.();
-      queryClient.invalidateQueries({ queryKey: ["/api/facility-bookings"] });
+      return (await res.json()) as FacilityBookingSeriesResult;
+    },
+    onSuccess: (result) => {
+      setSeriesResult(result);
+      invalidateBookings();
     },
-    onError: (error) => {
+    onError,
+  });
+
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async (slot: FacilitySlot) => {
+      const { notes, forGuest, paymentMode } = form.getValues();
+      return await apiRequest("/api/facility-waitlist", "POST", {
+        facilityId,
+        bookingDate,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        notes,
+        forGuest,
+        paymentMode,
+      });
+    },
+    onSuccess: () => {
       toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
+        title: "Added to Waitlist",
+        description: "We'll offer you this slot if it frees up; check My Bookings for offers.",
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/facility-waitlist"] });
+      closeForm();
     },
+    onError,
   });
 
   const onSubmit = (data: BookingFormData) => {
-    createBookingMutation.mutate(data);
+    if (data.repeat === "none") {
+      createBookingMutation.mutate(data);
+    } else {
+      createSeriesMutation.mutate(data);
+    }
+  };
+
+  const closeSeriesResult = () => {
+    const booked = seriesResult?.occurrences.some((occurrence) => occurrence.bookingId) ?? false;
+    setSeriesResult(null);
+    closeForm();
+    if (booked && paymentMode === "immediate" && quote && quote.totalAmount > 0) {
+      setLocation("/payment");
+    }
   };
 
   if (!isOpen && !inline) {
@@ -106,27 +260,37 @@ export default function FacilityBooking({ inline = false, onClose }: FacilityBoo
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Facility</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        clearSlot();
+                      }}
+                      value={field.value}
+                    >
                       <FormControl>
                         <SelectTrigger data-testid="select-facility">
                           <SelectValue placeholder="Select a facility" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {facilities?.map((facility: any) => (
+                        {facilities?.map((facility) => (
                           <SelectItem key={facility.id} value={facility.id}>
                             {facility.name}
                           </SelectItem>
-                        )) || (
-                          <>
-                            <SelectItem value="gym">Gym</SelectItem>
-                            <SelectItem value="clubhouse">Clubhouse</SelectItem>
-                            <SelectItem value="swimming-pool">Swimming Pool</SelectItem>
-                            <SelectItem value="guest-room">Guest Room</SelectItem>
-                          </>
-                        )}
+                        ))}
                       </SelectContent>
                     </Select>
+                    {selectedFacility && (
+                      <p className="text-xs text-muted-foreground" data-testid="text-facility-hours">
+                        Open {selectedFacility.openingTime}–{selectedFacility.closingTime}
+                        {selectedFacility.hourlyRate ? ` • ₹${selectedFacility.hourlyRate}/hr` : " • Free"}
+                      </p>
+                    )}
+                    {selectedFacility?.rules && (
+                      <p className="text-xs text-muted-foreground whitespace-pre-line" data-testid="text-facility-rules">
+                        {selectedFacility.rules}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -141,7 +305,11 @@ export default function FacilityBooking({ inline = false, onClose }: FacilityBoo
                     <FormControl>
                       <Input 
                         type="date" 
-                        {...field} 
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e);
+                          clearSlot();
+                        }}
                         min={new Date().toISOString().split('T')[0]}
                         data-testid="input-booking-date"
                       />
@@ -151,35 +319,201 @@ export default function FacilityBooking({ inline = false, onClose }: FacilityBoo
                 )}
               />
 
-              <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={() => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-1">
+                      <Clock className="h-4 w-4" />
+                      Time Slot
+                    </FormLabel>
+                    {!facilityId || !bookingDate ? (
+                      <p className="text-sm text-muted-foreground">Pick a facility and date to see free slots</p>
+                    ) : availabilityLoading || !day ? (
+                      <p className="text-sm text-muted-foreground">Loading free slots...</p>
+                    ) : day.isBlackout ? (
+                      <p className="text-sm text-destructive" data-testid="text-facility-blackout">
+                        Closed on this day{day.blackoutReason ? ` (${day.blackoutReason})` : ""}
+                      </p>
+                    ) : (
+                      <div className="grid grid-cols-3 gap-2" data-testid="grid-facility-slots">
+                        {day.slots.map((slot) => {
+                          const selected = !!startTime && slot.startTime >= startTime && slot.endTime <= endTime;
+                          const full = slot.remaining === 0 && slot.booked >= availability.capacity;
+                          return (
+                            <Button
+                              key={slot.startTime}
+                              type="button"
+                              size="sm"
+                              variant={selected ? "default" : waitlistSlot?.startTime === slot.startTime ? "secondary" : "outline"}
+                              disabled={slot.remaining === 0 && !full}
+                              onClick={() => (full ? pickFullSlot(slot) : pickSlot(slot))}
+                              className={`flex flex-col h-auto py-1 ${full ? "opacity-60" : ""}`}
+                              data-testid={`button-slot-${slot.startTime}`}
+                            >
+                              <span>{slot.startTime}</span>
+                              {full ? (
+                                <span className="text-[10px] opacity-70">Full</span>
+                              ) : availability.capacity > 1 && slot.remaining > 0 && (
+                                <span className="text-[10px] opacity-70">{slot.remaining} left</span>
+                              )}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    )}
+                    {waitlistSlot && (
+                      <div className="p-3 rounded-lg bg-muted space-y-2 text-sm" data-testid="panel-waitlist">
+                        <p>
+                          {waitlistSlot.startTime} – {waitlistSlot.endTime} is fully booked. Join the waitlist and
+                          we'll offer it to you if a booking is cancelled.
+                        </p>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => joinWaitlistMutation.mutate(waitlistSlot)}
+                          disabled={joinWaitlistMutation.isPending}
+                          data-testid="button-join-waitlist"
+                        >
+                          {joinWaitlistMutation.isPending ? "Joining..." : "Join Waitlist"}
+                        </Button>
+                      </div>
+                    )}
+                    {startTime && endTime && (
+                      <p className="text-sm text-muted-foreground" data-testid="text-selected-slot">
+                        {startTime} – {endTime}
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="repeat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-1">
+                      <Repeat className="h-4 w-4" />
+                      Repeat
+                    </FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-booking-repeat">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Does not repeat</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="monthly">Monthly on this date</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
+              {repeat === "weekly" && (
+                <div className="flex flex-wrap gap-1" data-testid="group-repeat-weekdays">
+                  {WEEKDAYS.map((label, weekday) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={daysOfWeek.includes(weekday) ? "default" : "outline"}
+                      onClick={() => toggleWeekday(weekday)}
+                      data-testid={`button-repeat-${label.toLowerCase()}`}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                  {daysOfWeek.length === 0 && (
+                    <p className="w-full text-xs text-muted-foreground">Repeats on the booking date's weekday unless you pick days</p>
+                  )}
+                </div>
+              )}
+
+              {repeat !== "none" && (
                 <FormField
                   control={form.control}
-                  name="startTime"
+                  name="repeatUntil"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Start Time</FormLabel>
+                      <FormLabel>Repeat Until</FormLabel>
                       <FormControl>
-                        <Input type="time" {...field} data-testid="input-start-time" />
+                        <Input
+                          type="date"
+                          {...field}
+                          min={bookingDate || new Date().toISOString().split('T')[0]}
+                          data-testid="input-repeat-until"
+                        />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+              )}
+
+              <FormField
+                control={form.control}
+                name="forGuest"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel>Booking for a guest</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-booking-guest" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
 
+              {quote && quote.totalAmount > 0 && (
+                <div className="p-3 rounded-lg bg-muted space-y-1 text-sm" data-testid="panel-booking-quote">
+                  {quote.lines.map((line) => (
+                    <div key={`${line.description}-${line.rate}`} className="flex justify-between">
+                      <span>{line.description} • {line.hours} hr @ ₹{line.rate}</span>
+                      <span>₹{line.amount}</span>
+                    </div>
+                  ))}
+                  {quote.depositAmount > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Security deposit (refundable)</span>
+                      <span>₹{quote.depositAmount}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-medium border-t pt-1" data-testid="text-booking-total">
+                    <span>Total</span>
+                    <span>₹{quote.totalAmount}</span>
+                  </div>
+                </div>
+              )}
+
+              {quote && quote.totalAmount > 0 && (
                 <FormField
                   control={form.control}
-                  name="endTime"
+                  name="paymentMode"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>End Time</FormLabel>
-                      <FormControl>
-                        <Input type="time" {...field} data-testid="input-end-time" />
-                      </FormControl>
+                      <FormLabel>Payment</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-booking-payment">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="dues">Add to my maintenance dues</SelectItem>
+                          <SelectItem value="immediate">Pay now</SelectItem>
+                        </SelectContent>
+                      </Select>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
+              )}
 
               <FormField
                 control={form.control}
@@ -203,10 +537,7 @@ export default function FacilityBooking({ inline = false, onClose }: FacilityBoo
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => {
-                    setIsOpen(false);
-                    onClose?.();
-                  }}
+                  onClick={closeForm}
                   className="flex-1"
                   data-testid="button-cancel-booking"
                 >
@@ -214,16 +545,59 @@ export default function FacilityBooking({ inline = false, onClose }: FacilityBoo
                 </Button>
                 <Button
                   type="submit"
-                  disabled={createBookingMutation.isPending}
+                  disabled={createBookingMutation.isPending || createSeriesMutation.isPending}
                   className="flex-1 bg-gradient-to-r from-secondary to-accent text-white"
                   data-testid="button-submit-booking"
                 >
-                  {createBookingMutation.isPending ? "Booking..." : "Book Now"}
+                  {createBookingMutation.isPending || createSeriesMutation.isPending
+                    ? "Booking..."
+                    : repeat !== "none"
+                      ? "Book Series"
+                      : paymentMode === "immediate" && quote && quote.totalAmount > 0 ? "Book & Pay" : "Book Now"}
                 </Button>
               </div>
             </form>
           </Form>
         </CardContent>
+
+        <Dialog open={seriesResult !== null} onOpenChange={(open) => !open && closeSeriesResult()}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Recurring Booking</DialogTitle>
+            </DialogHeader>
+            {seriesResult && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground" data-testid="text-series-summary">
+                  {seriesResult.occurrences.filter((occurrence) => occurrence.bookingId).length} of {seriesResult.occurrences.length} dates booked
+                </p>
+                <div className="max-h-72 overflow-y-auto space-y-1">
+                  {seriesResult.occurrences.map((occurrence) => (
+                    <div
+                      key={occurrence.date}
+                      className="flex items-start gap-2 text-sm p-2 bg-muted rounded"
+                      data-testid={`row-series-occurrence-${occurrence.date}`}
+                    >
+                      {occurrence.bookingId ? (
+                        <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                      ) : (
+                        <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-600 shrink-0" />
+                      )}
+                      <div>
+                        <p className="font-medium">{new Date(`${occurrence.date}T00:00:00`).toLocaleDateString()}</p>
+                        {occurrence.conflict && <p className="text-xs text-muted-foreground">{occurrence.conflict}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button onClick={closeSeriesResult} data-testid="button-close-series-result">
+                Done
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </Card>
   );
 
@@ -26,6 +26,22 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as the raw request body with its own Content-Type; the name travels URI-encoded in a header
+export async function apiUpload(url: string, file: File): Promise<Response> {
+  const res = await fetch(API_BASE_URL + url, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type || "application/octet-stream",
+      "X-File-Name": encodeURIComponent(file.name),
+    },
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -9,10 +9,13 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import Navbar from "@/components/layout/navbar";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Users, AlertTriangle, IndianRupee, Calendar, UserPlus, Megaphone, FileText, TrendingUp, Vote } from "lucide-react";
-import type { SocietyStats, Complaint, Announcement } from "@shared/schema";
+import { Users, AlertTriangle, IndianRupee, Calendar, UserPlus, Megaphone, FileText, TrendingUp, Vote, Receipt, Banknote, Wallet, PiggyBank, HardHat, Timer, Building } from "lucide-react";
+import type { SocietyStats, Complaint, ComplaintAssignee, Announcement } from "@shared/schema";
 import { AddResidentModal } from "@/components/admin/add-resident-modal";
 import { CreateAnnouncementModal } from "@/components/admin/create-announcement-modal";
+import { ComplaintAssigneeSelect } from "@/components/admin/complaint-assignee-select";
+import { ComplaintActivityDialog, describeLocation } from "@/components/features/complaint-activity-dialog";
+import { SlaComplianceCard } from "@/components/admin/sla-compliance-card";
 
 export default function AdminDashboard() {
   const { toast } = useToast();
@@ -20,6 +23,7 @@ export default function AdminDashboard() {
   const [location, setLocation] = useLocation();
   const [showAddResidentModal, setShowAddResidentModal] = useState(false);
   const [showAnnouncementModal, setShowAnnouncementModal] = useState(false);
+  const [viewingComplaintId, setViewingComplaintId] = useState<string | null>(null);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -48,6 +52,18 @@ export default function AdminDashboard() {
     retry: false,
   });
 
+  const { data: duplicateCounts = {} } = useQuery<Record<string, number>>({
+    queryKey: ["/api/complaints/duplicate-counts"],
+    enabled: isAuthenticated && user?.role === 'admin',
+    retry: false,
+  });
+
+  const { data: assignees = [] } = useQuery<ComplaintAssignee[]>({
+    queryKey: ["/api/complaint-assignees"],
+    enabled: isAuthenticated && user?.role === 'admin',
+    retry: false,
+  });
+
   const { data: announcements, isLoading: announcementsLoading } = useQuery<Announcement[]>({
     queryKey: ["/api/announcements"],
     enabled: isAuthenticated && user?.role === 'admin',
@@ -67,6 +83,14 @@ export default function AdminDashboard() {
     { icon: Vote, label: "Digital Voting", color: "from-green-400 to-green-600", href: "/voting" },
     { icon: Megaphone, label: "New Announcement", color: "from-secondary to-accent", action: () => setShowAnnouncementModal(true) },
     { icon: TrendingUp, label: "View Reports", color: "from-accent to-primary", href: "/reports" },
+    { icon: Receipt, label: "Maintenance Billing", color: "from-primary to-secondary", href: "/billing" },
+    { icon: IndianRupee, label: "Collections", color: "from-secondary to-primary", href: "/payment-history" },
+    { icon: Banknote, label: "Offline Payments", color: "from-accent to-secondary", href: "/offline-payments" },
+    { icon: Wallet, label: "Expenses", color: "from-secondary to-accent", href: "/expenses" },
+    { icon: PiggyBank, label: "Society Funds", color: "from-green-400 to-primary", href: "/funds" },
+    { icon: HardHat, label: "Staff & Vendors", color: "from-accent to-secondary", href: "/staff" },
+    { icon: Timer, label: "Complaint Settings", color: "from-secondary to-primary", href: "/complaint-settings" },
+    { icon: Building, label: "Manage Facilities", color: "from-primary to-accent", href: "/facilities" },
   ];
 
   return (
@@ -146,6 +170,16 @@ export default function AdminDashboard() {
             ))}
           </div>
           
+          {/* SLA Compliance */}
+          <motion.div
+            className="mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.4 }}
+          >
+            <SlaComplianceCard enabled={isAuthenticated && user?.role === 'admin'} />
+          </motion.div>
+          
           {/* Quick Actions & Recent Complaints */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8 mb-8">
             <motion.div
@@ -186,26 +220,46 @@ export default function AdminDashboard() {
                   <CardTitle>Recent Complaints</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
+                  <div className="space-y-4 max-h-96 overflow-y-auto">
                     {complaintsLoading ? (
                       <div className="text-center text-muted-foreground">Loading complaints...</div>
                     ) : complaints && complaints.length > 0 ? (
-                      complaints.slice(0, 3).map((complaint: any, index: number) => (
-                        <div key={index} className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                          <div>
-                            <p className="font-medium text-foreground" data-testid={`text-complaint-title-${index}`}>
+                      complaints.map((complaint, index) => (
+                        <div key={complaint.id} className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                          <div className="min-w-0">
+                            <button
+                              className="font-medium text-foreground hover:text-primary text-left"
+                              onClick={() => setViewingComplaintId(complaint.id)}
+                              data-testid={`text-complaint-title-${index}`}
+                            >
                               {complaint.title}
-                            </p>
+                            </button>
                             <p className="text-sm text-muted-foreground">
-                              {complaint.category} • {new Date(complaint.createdAt).toLocaleDateString()}
+                              {complaint.category}{describeLocation(complaint) && ` • ${describeLocation(complaint)}`} • {new Date(complaint.createdAt!).toLocaleDateString()}
                             </p>
+                            {complaint.parentId ? (
+                              <p className="text-xs text-muted-foreground" data-testid={`text-complaint-merged-${index}`}>
+                                Merged into another complaint
+                              </p>
+                            ) : duplicateCounts[complaint.id] && (
+                              <button
+                                className="text-xs text-primary font-medium"
+                                onClick={() => setViewingComplaintId(complaint.id)}
+                                data-testid={`button-complaint-duplicates-${index}`}
+                              >
+                                {duplicateCounts[complaint.id]} possible duplicate{duplicateCounts[complaint.id] === 1 ? "" : "s"}
+                              </button>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <ComplaintAssigneeSelect complaint={complaint} assignees={assignees} />
+                            <Badge 
+                              variant={complaint.status === 'open' ? 'destructive' : complaint.status === 'in_progress' ? 'default' : 'secondary'}
+                              data-testid={`badge-complaint-status-${index}`}
+                            >
+                              {(complaint.status || 'open').replace('_', ' ')}
+                            </Badge>
                           </div>
-                          <Badge 
-                            variant={complaint.status === 'open' ? 'destructive' : complaint.status === 'in_progress' ? 'default' : 'secondary'}
-                            data-testid={`badge-complaint-status-${index}`}
-                          >
-                            {complaint.status.replace('_', ' ')}
-                          </Badge>
                         </div>
                       ))
                     ) : (
@@ -285,6 +339,12 @@ export default function AdminDashboard() {
         onClose={() => setShowAddResidentModal(false)}
       />
 
+      {/* Complaint Conversation & Timeline */}
+      <ComplaintActivityDialog
+        complaint={complaints?.find(complaint => complaint.id === viewingComplaintId) || null}
+        onClose={() => setViewingComplaintId(null)}
+      />
+
       {/* Create Announcement Modal */}
       <CreateAnnouncementModal
         isOpen={showAnnouncementModal}
@@ -0,0 +1,449 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Navbar from "@/components/layout/navbar";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation } from "wouter";
+import { ArrowLeft, Receipt, Plus, Trash2, Eye, FileCheck } from "lucide-react";
+import type { ChargeHead, BillPreview } from "@shared/schema";
+import { PenaltyRulesCard } from "@/components/admin/penalty-rules-card";
+import { FlatBalancesCard } from "@/components/admin/flat-balances-card";
+import { TaxSettingsCard } from "@/components/admin/tax-settings-card";
+import { TaxSummaryCard } from "@/components/admin/tax-summary-card";
+
+const categoryLabels: Record<ChargeHead["category"], string> = {
+  maintenance: "Maintenance",
+  parking: "Parking",
+  water: "Water",
+  other: "Other",
+};
+
+function currentBillingMonth() {
+  return new Date().toISOString().slice(0, 7);
+}
+
+export default function Billing() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const [newHead, setNewHead] = useState({
+    name: "",
+    category: "maintenance" as ChargeHead["category"],
+    calculation: "fixed" as ChargeHead["calculation"],
+    rate: "",
+    isTaxable: true,
+  });
+  const [billingMonth, setBillingMonth] = useState(currentBillingMonth());
+  const [dueDate, setDueDate] = useState("");
+  const [previews, setPreviews] = useState<BillPreview[] | null>(null);
+
+  const { data: chargeHeads = [], isLoading: headsLoading } = useQuery<ChargeHead[]>({
+    queryKey: ["/api/billing/charge-heads"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createHeadMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/billing/charge-heads", "POST", {
+        name: newHead.name,
+        category: newHead.category,
+        calculation: newHead.calculation,
+        // Rates are entered in rupees and stored in paise
+        rate: Math.round(parseFloat(newHead.rate) * 100),
+        isTaxable: newHead.isTaxable,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Charge Head Added", description: `${newHead.name} will be applied from the next billing run` });
+      setNewHead({ name: "", category: "maintenance", calculation: "fixed", rate: "", isTaxable: true });
+      setPreviews(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/charge-heads"] });
+    },
+    onError,
+  });
+
+  const toggleHeadMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest(`/api/billing/charge-heads/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      setPreviews(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/charge-heads"] });
+    },
+    onError,
+  });
+
+  const deleteHeadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/billing/charge-heads/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      setPreviews(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/charge-heads"] });
+    },
+    onError,
+  });
+
+  const billingRunPayload = () => ({
+    billingMonth,
+    dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/billing/preview", "POST", billingRunPayload());
+      return (await res.json()) as BillPreview[];
+    },
+    onSuccess: (data) => setPreviews(data),
+    onError,
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/billing/generate", "POST", billingRunPayload());
+      return (await res.json()) as { billingMonth: string; created: number; skipped: number };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Bills Generated",
+        description: `${result.created} bills created for ${result.billingMonth}, ${result.skipped} skipped`,
+      });
+      setPreviews(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/billing/tax-summary"),
+      });
+    },
+    onError,
+  });
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const pendingPreviews = previews?.filter(preview => !preview.alreadyBilled) || [];
+  const previewTotal = pendingPreviews.reduce((sum, preview) => sum + preview.amount, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Navbar />
+
+      <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            className="flex items-center gap-4 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <Button
+              variant="ghost"
+              onClick={() => setLocation("/admin")}
+              className="flex items-center gap-2"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-2" data-testid="text-billing-title">
+                <Receipt className="h-8 w-8 text-primary" />
+                Maintenance Billing
+              </h1>
+              <p className="text-muted-foreground mt-2">Define charge heads and generate monthly bills for occupied flats</p>
+            </div>
+          </motion.div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Charge Heads</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {headsLoading ? (
+                  <div className="text-center text-muted-foreground">Loading charge heads...</div>
+                ) : chargeHeads.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-charge-heads">
+                    No charge heads defined yet
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead>Active</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {chargeHeads.map((head) => (
+                        <TableRow key={head.id} data-testid={`row-charge-head-${head.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{head.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {categoryLabels[head.category]}{head.isTaxable ? "" : " • No GST"}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            ₹{(head.rate / 100).toFixed(2)}{head.calculation === 'per_sqft' ? " / sq ft" : " / flat"}
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={head.isActive}
+                              onCheckedChange={(isActive) => toggleHeadMutation.mutate({ id: head.id, isActive })}
+                              data-testid={`switch-charge-head-${head.id}`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                if (window.confirm(`Delete charge head "${head.name}"?`)) {
+                                  deleteHeadMutation.mutate(head.id);
+                                }
+                              }}
+                              data-testid={`button-delete-charge-head-${head.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <div className="border-t pt-4 grid grid-cols-2 gap-3">
+                  <div className="col-span-2">
+                    <Label htmlFor="head-name">Name</Label>
+                    <Input
+                      id="head-name"
+                      placeholder="e.g. Maintenance"
+                      value={newHead.name}
+                      onChange={(e) => setNewHead({ ...newHead, name: e.target.value })}
+                      data-testid="input-charge-head-name"
+                    />
+                  </div>
+                  <div>
+                    <Label>Category</Label>
+                    <Select
+                      value={newHead.category}
+                      onValueChange={(value) => setNewHead({ ...newHead, category: value as ChargeHead["category"] })}
+                    >
+                      <SelectTrigger data-testid="select-charge-head-category">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(categoryLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Calculation</Label>
+                    <Select
+                      value={newHead.calculation}
+                      onValueChange={(value) => setNewHead({ ...newHead, calculation: value as ChargeHead["calculation"] })}
+                    >
+                      <SelectTrigger data-testid="select-charge-head-calculation">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fixed">Fixed per flat</SelectItem>
+                        <SelectItem value="per_sqft">Per sq ft</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="head-rate">Rate (₹)</Label>
+                    <Input
+                      id="head-rate"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={newHead.calculation === 'per_sqft' ? "e.g. 2.50" : "e.g. 500"}
+                      value={newHead.rate}
+                      onChange={(e) => setNewHead({ ...newHead, rate: e.target.value })}
+                      data-testid="input-charge-head-rate"
+                    />
+                  </div>
+                  <div className="flex items-end gap-2 pb-2">
+                    <Switch
+                      id="head-taxable"
+                      checked={newHead.isTaxable}
+                      onCheckedChange={(isTaxable) => setNewHead({ ...newHead, isTaxable })}
+                      data-testid="switch-charge-head-taxable"
+                    />
+                    <Label htmlFor="head-taxable">Subject to GST</Label>
+                  </div>
+                  <Button
+                    className="col-span-2"
+                    onClick={() => createHeadMutation.mutate()}
+                    disabled={!newHead.name || !newHead.rate || createHeadMutation.isPending}
+                    data-testid="button-add-charge-head"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    {createHeadMutation.isPending ? "Adding..." : "Add Charge Head"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Billing Run</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="billing-month">Billing Month</Label>
+                    <Input
+                      id="billing-month"
+                      type="month"
+                      value={billingMonth}
+                      onChange={(e) => {
+                        setBillingMonth(e.target.value);
+                        setPreviews(null);
+                      }}
+                      data-testid="input-billing-month"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="due-date">Due Date (optional)</Label>
+                    <Input
+                      id="due-date"
+                      type="date"
+                      value={dueDate}
+                      onChange={(e) => {
+                        setDueDate(e.target.value);
+                        setPreviews(null);
+                      }}
+                      data-testid="input-due-date"
+                    />
+                  </div>
+                </div>
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => previewMutation.mutate()}
+                    disabled={!billingMonth || previewMutation.isPending}
+                    data-testid="button-preview-bills"
+                  >
+                    <Eye className="h-4 w-4 mr-2" />
+                    {previewMutation.isPending ? "Previewing..." : "Preview"}
+                  </Button>
+                  <Button
+                    className="flex-1 bg-gradient-to-r from-primary to-accent text-white"
+                    onClick={() => generateMutation.mutate()}
+                    disabled={!previews || pendingPreviews.length === 0 || generateMutation.isPending}
+                    data-testid="button-generate-bills"
+                  >
+                    <FileCheck className="h-4 w-4 mr-2" />
+                    {generateMutation.isPending ? "Generating..." : "Generate Bills"}
+                  </Button>
+                </div>
+                {previews && (
+                  <p className="text-sm text-muted-foreground" data-testid="text-preview-summary">
+                    {pendingPreviews.length} new bills totalling ₹{previewTotal.toLocaleString('en-IN')} •{" "}
+                    {previews.length - pendingPreviews.length} flats already billed
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <PenaltyRulesCard />
+            <FlatBalancesCard />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <TaxSettingsCard />
+            <TaxSummaryCard />
+          </div>
+
+          {previews && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview for {billingMonth}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {previews.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-occupied-flats">
+                    No occupied flats to bill
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Flat</TableHead>
+                        <TableHead>Charges</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {previews.map((preview) => (
+                        <TableRow key={preview.flatId} data-testid={`row-bill-preview-${preview.flatId}`}>
+                          <TableCell className="font-medium">{preview.flatNumber}</TableCell>
+                          <TableCell>
+                            {preview.lineItems.map((item, index) => (
+                              <div key={index} className="text-sm">
+                                {item.description}: ₹{item.amount.toLocaleString('en-IN')}
+                              </div>
+                            ))}
+                            {preview.warnings.map((warning, index) => (
+                              <div key={index} className="text-xs text-destructive">{warning}</div>
+                            ))}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            ₹{preview.amount.toLocaleString('en-IN')}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={preview.alreadyBilled ? "secondary" : "default"}>
+                              {preview.alreadyBilled ? "already billed" : "new"}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Navbar from "@/components/layout/navbar";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation } from "wouter";
+import { SlaComplianceCard } from "@/components/admin/sla-compliance-card";
+import { ComplaintCategoriesCard } from "@/components/admin/complaint-categories-card";
+import { ArrowLeft, Timer, Plus, Star } from "lucide-react";
+import { complaintPriorities, type ComplaintCategoryWithRouting, type SlaPolicy, type SlaBreachWithComplaint, type ComplaintSatisfactionSummary, type SatisfactionStats } from "@shared/schema";
+
+// Select values cannot be empty, so "any" stands in for a null category or priority
+const ANY = "any";
+
+const emptyPolicy = {
+  category: ANY,
+  priority: ANY,
+  firstResponseHours: "4",
+  resolutionHours: "48",
+};
+
+const escalationLabels = ["Not yet notified", "Society admin notified", "Escalated to super admin"];
+
+const formatRating = (stats: SatisfactionStats) => stats.averageRating === null ? "—" : `${stats.averageRating} / 5`;
+
+const formatHours = (hours: number) => hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? "" : "s"}` : `${hours} h`;
+
+export default function ComplaintSettings() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [newPolicy, setNewPolicy] = useState(emptyPolicy);
+  const [confirmationDays, setConfirmationDays] = useState("");
+
+  const { data: policies = [], isLoading: policiesLoading } = useQuery<SlaPolicy[]>({
+    queryKey: ["/api/sla-policies"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: breaches = [] } = useQuery<SlaBreachWithComplaint[]>({
+    queryKey: ["/api/sla-breaches"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: categories = [], isLoading: categoriesLoading } = useQuery<ComplaintCategoryWithRouting[]>({
+    queryKey: ["/api/complaint-categories"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: closureSettings } = useQuery<{ confirmationDays: number }>({
+    queryKey: ["/api/complaint-settings"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: satisfaction } = useQuery<ComplaintSatisfactionSummary>({
+    queryKey: ["/api/complaints/satisfaction"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  useEffect(() => {
+    if (closureSettings) {
+      setConfirmationDays(String(closureSettings.confirmationDays));
+    }
+  }, [closureSettings]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidatePolicies = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sla-policies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sla-compliance"] });
+  };
+
+  const createPolicyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/sla-policies", "POST", {
+        category: newPolicy.category === ANY ? null : newPolicy.category,
+        priority: newPolicy.priority === ANY ? null : newPolicy.priority,
+        firstResponseHours: parseInt(newPolicy.firstResponseHours),
+        resolutionHours: parseInt(newPolicy.resolutionHours),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "SLA Policy Added", description: "New complaints will be measured against it" });
+      setNewPolicy(emptyPolicy);
+      invalidatePolicies();
+    },
+    onError,
+  });
+
+  const togglePolicyMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest(`/api/sla-policies/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      invalidatePolicies();
+    },
+    onError,
+  });
+
+  const closureSettingsMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/complaint-settings", "PUT", { confirmationDays: parseInt(confirmationDays) });
+    },
+    onSuccess: () => {
+      toast({ title: "Settings Saved", description: `Resolved complaints now close after ${confirmationDays} days without a response` });
+      queryClient.invalidateQueries({ queryKey: ["/api/complaint-settings"] });
+    },
+    onError,
+  });
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Navbar />
+
+      <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            className="flex items-center gap-4 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <Button
+              variant="ghost"
+              onClick={() => setLocation("/admin")}
+              className="flex items-center gap-2"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-2" data-testid="text-complaint-settings-title">
+                <Timer className="h-8 w-8 text-primary" />
+                Complaint Settings
+              </h1>
+              <p className="text-muted-foreground mt-2">Categories and routing, response targets, resident confirmation and satisfaction</p>
+            </div>
+          </motion.div>
+
+          <div className="mb-6">
+            <SlaComplianceCard enabled={user?.role === 'admin'} />
+          </div>
+
+          <div className="mb-6">
+            <ComplaintCategoriesCard categories={categories} isLoading={categoriesLoading} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Add SLA Policy</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Category</Label>
+                  <Select value={newPolicy.category} onValueChange={(category) => setNewPolicy({ ...newPolicy, category })}>
+                    <SelectTrigger data-testid="select-sla-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any category</SelectItem>
+                      {categories.filter(category => category.isActive).map((category) => (
+                        <SelectItem key={category.id} value={category.name} className="capitalize">{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Priority</Label>
+                  <Select value={newPolicy.priority} onValueChange={(priority) => setNewPolicy({ ...newPolicy, priority })}>
+                    <SelectTrigger data-testid="select-sla-priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any priority</SelectItem>
+                      {complaintPriorities.map((priority) => (
+                        <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="sla-first-response">First response (hours)</Label>
+                  <Input
+                    id="sla-first-response"
+                    type="number"
+                    min="1"
+                    value={newPolicy.firstResponseHours}
+                    onChange={(e) => setNewPolicy({ ...newPolicy, firstResponseHours: e.target.value })}
+                    data-testid="input-sla-first-response"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="sla-resolution">Resolution (hours)</Label>
+                  <Input
+                    id="sla-resolution"
+                    type="number"
+                    min="1"
+                    value={newPolicy.resolutionHours}
+                    onChange={(e) => setNewPolicy({ ...newPolicy, resolutionHours: e.target.value })}
+                    data-testid="input-sla-resolution"
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  The most specific active policy applies: category and priority, then category, then priority, then any.
+                </p>
+                <Button
+                  className="col-span-2"
+                  onClick={() => createPolicyMutation.mutate()}
+                  disabled={!newPolicy.firstResponseHours || !newPolicy.resolutionHours || createPolicyMutation.isPending}
+                  data-testid="button-add-sla-policy"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {createPolicyMutation.isPending ? "Adding..." : "Add Policy"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>SLA Policies</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {policiesLoading ? (
+                  <div className="text-center text-muted-foreground">Loading policies...</div>
+                ) : policies.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-sla-policies">
+                    No SLA policies yet, so complaints are not measured against any target
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Priority</TableHead>
+                        <TableHead className="text-right">First Response</TableHead>
+                        <TableHead className="text-right">Resolution</TableHead>
+                        <TableHead>Active</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {policies.map((policy) => (
+                        <TableRow key={policy.id} data-testid={`row-sla-policy-${policy.id}`}>
+                          <TableCell className="capitalize">{policy.category || "Any"}</TableCell>
+                          <TableCell className="capitalize">{policy.priority || "Any"}</TableCell>
+                          <TableCell className="text-right">{formatHours(policy.firstResponseHours)}</TableCell>
+                          <TableCell className="text-right">{formatHours(policy.resolutionHours)}</TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={policy.isActive}
+                              onCheckedChange={(isActive) => togglePolicyMutation.mutate({ id: policy.id, isActive })}
+                              data-testid={`switch-sla-policy-${policy.id}`}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Resident Confirmation</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Resolved complaints wait for the resident to confirm the fix or reopen it. Without a response they close on their own.
+                </p>
+                <div>
+                  <Label htmlFor="confirmation-days">Close automatically after (days)</Label>
+                  <Input
+                    id="confirmation-days"
+                    type="number"
+                    min="1"
+                    max="30"
+                    value={confirmationDays}
+                    onChange={(e) => setConfirmationDays(e.target.value)}
+                    data-testid="input-confirmation-days"
+                  />
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => closureSettingsMutation.mutate()}
+                  disabled={!confirmationDays || closureSettingsMutation.isPending}
+                  data-testid="button-save-confirmation-days"
+                >
+                  {closureSettingsMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Star className="h-5 w-5 text-yellow-400" />
+                  Resident Satisfaction
+                </CardTitle>
+                {satisfaction && (
+                  <div className="text-sm text-muted-foreground" data-testid="text-overall-satisfaction">
+                    {formatRating(satisfaction.overall)} from {satisfaction.overall.ratingCount} rating{satisfaction.overall.ratingCount === 1 ? "" : "s"}
+                    {` • ${satisfaction.overall.reopenedCount} reopened`}
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {[
+                  { title: "By Assignee", rows: (satisfaction?.byAssignee || []).map(row => ({ key: `${row.type}:${row.id}`, label: row.name, stats: row })) },
+                  { title: "By Category", rows: (satisfaction?.byCategory || []).map(row => ({ key: row.category, label: row.category, stats: row })) },
+                ].map((group) => (
+                  <div key={group.title}>
+                    <p className="text-sm font-medium text-foreground mb-2">{group.title}</p>
+                    {group.rows.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No closed complaints yet</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>{group.title === "By Assignee" ? "Assignee" : "Category"}</TableHead>
+                            <TableHead className="text-right">Rating</TableHead>
+                            <TableHead className="text-right">Reopened</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {group.rows.map((row) => (
+                            <TableRow key={row.key} data-testid={`row-satisfaction-${row.key}`}>
+                              <TableCell className="capitalize">{row.label}</TableCell>
+                              <TableCell className="text-right">
+                                {formatRating(row.stats)}
+                                <span className="text-xs text-muted-foreground ml-1">({row.stats.ratingCount})</span>
+                              </TableCell>
+                              <TableCell className="text-right">{row.stats.reopenedCount}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Open Breaches ({breaches.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {breaches.length === 0 ? (
+                <div className="text-center text-muted-foreground" data-testid="text-no-sla-breaches">
+                  No open complaint is past its target
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Complaint</TableHead>
+                      <TableHead>Missed Target</TableHead>
+                      <TableHead>Was Due</TableHead>
+                      <TableHead>Escalation</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {breaches.map((breach) => (
+                      <TableRow key={breach.id} data-testid={`row-sla-breach-${breach.id}`}>
+                        <TableCell>
+                          <div className="font-medium">{breach.complaintTitle}</div>
+                          <div className="text-xs text-muted-foreground">{breach.complaintStatus?.replace('_', ' ')}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="destructive">
+                            {breach.kind === 'first_response' ? "First response" : "Resolution"} • {formatHours(breach.targetHours)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{new Date(breach.dueAt).toLocaleString()}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{escalationLabels[breach.escalationLevel]}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
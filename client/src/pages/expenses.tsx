@@ -0,0 +1,523 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import Navbar from "@/components/layout/navbar";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation } from "wouter";
+import { ArrowLeft, Wallet, Plus, Check, X, IndianRupee, Paperclip, FileText } from "lucide-react";
+import { expenseCategoryLabels, type Expense, type ExpenseWithVendor, type Vendor } from "@shared/schema";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+const statusVariants: Record<Expense["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  approved: "outline",
+  rejected: "destructive",
+  paid: "default",
+};
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const emptyExpense = {
+  category: "utilities" as Expense["category"],
+  vendorId: "",
+  description: "",
+  amount: "",
+  invoiceNumber: "",
+  invoiceDate: "",
+};
+
+export default function Expenses() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const [newExpense, setNewExpense] = useState(emptyExpense);
+  const [newVendor, setNewVendor] = useState({ name: "", service: "", phone: "" });
+  const [statusFilter, setStatusFilter] = useState<Expense["status"] | "all">("all");
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: expenses = [], isLoading: expensesLoading } = useQuery<ExpenseWithVendor[]>({
+    queryKey: ["/api/expenses"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const filteredExpenses = statusFilter === "all"
+    ? expenses
+    : expenses.filter(expense => expense.status === statusFilter);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateExpenses = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reports/financial"] });
+  };
+
+  const createVendorMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/vendors", "POST", {
+        name: newVendor.name,
+        service: newVendor.service || null,
+        phone: newVendor.phone || null,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Vendor Added", description: `${newVendor.name} can now be selected on expenses` });
+      setNewVendor({ name: "", service: "", phone: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+    },
+    onError,
+  });
+
+  const toggleVendorMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest(`/api/vendors/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+    },
+    onError,
+  });
+
+  const createExpenseMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/expenses", "POST", {
+        category: newExpense.category,
+        vendorId: newExpense.vendorId || null,
+        description: newExpense.description,
+        amount: Math.round(parseFloat(newExpense.amount)),
+        invoiceNumber: newExpense.invoiceNumber || null,
+        invoiceDate: newExpense.invoiceDate || null,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Expense Submitted", description: "The expense is waiting for approval" });
+      setNewExpense(emptyExpense);
+      invalidateExpenses();
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, data }: { id: string; action: "approve" | "reject" | "pay"; data?: Record<string, string> }) => {
+      return await apiRequest(`/api/expenses/${id}/${action}`, "POST", data || {});
+    },
+    onSuccess: () => {
+      invalidateExpenses();
+    },
+    onError,
+  });
+
+  const deleteExpenseMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/expenses/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      invalidateExpenses();
+    },
+    onError,
+  });
+
+  const uploadInvoiceMutation = useMutation({
+    mutationFn: async ({ id, file }: { id: string; file: File }) => {
+      return await apiUpload(`/api/expenses/${id}/invoice`, file);
+    },
+    onSuccess: () => {
+      toast({ title: "Invoice Attached", description: "The invoice has been saved with the expense" });
+      invalidateExpenses();
+    },
+    onError,
+  });
+
+  const handleReject = (expense: ExpenseWithVendor) => {
+    const reason = window.prompt(`Reason for rejecting "${expense.description}"?`);
+    if (reason) {
+      actionMutation.mutate({ id: expense.id, action: "reject", data: { reason } });
+    }
+  };
+
+  const handlePay = (expense: ExpenseWithVendor) => {
+    const paymentReference = window.prompt(`Cheque number or UTR for paying ${formatAmount(expense.amount)} (optional)`);
+    if (paymentReference !== null) {
+      actionMutation.mutate({
+        id: expense.id,
+        action: "pay",
+        data: paymentReference ? { paymentReference } : {},
+      });
+    }
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Navbar />
+
+      <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            className="flex items-center gap-4 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <Button
+              variant="ghost"
+              onClick={() => setLocation("/admin")}
+              className="flex items-center gap-2"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-2" data-testid="text-expenses-title">
+                <Wallet className="h-8 w-8 text-primary" />
+                Society Expenses
+              </h1>
+              <p className="text-muted-foreground mt-2">Track vendor bills from submission through approval and payment</p>
+            </div>
+          </motion.div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>New Expense</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Category</Label>
+                  <Select
+                    value={newExpense.category}
+                    onValueChange={(value) => setNewExpense({ ...newExpense, category: value as Expense["category"] })}
+                  >
+                    <SelectTrigger data-testid="select-expense-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(expenseCategoryLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Vendor</Label>
+                  <Select
+                    value={newExpense.vendorId || "none"}
+                    onValueChange={(value) => setNewExpense({ ...newExpense, vendorId: value === "none" ? "" : value })}
+                  >
+                    <SelectTrigger data-testid="select-expense-vendor">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No vendor</SelectItem>
+                      {vendors.filter(vendor => vendor.isActive).map((vendor) => (
+                        <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="expense-description">Description</Label>
+                  <Input
+                    id="expense-description"
+                    placeholder="e.g. Electricity bill for common areas"
+                    value={newExpense.description}
+                    onChange={(e) => setNewExpense({ ...newExpense, description: e.target.value })}
+                    data-testid="input-expense-description"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="expense-amount">Amount (₹)</Label>
+                  <Input
+                    id="expense-amount"
+                    type="number"
+                    min="1"
+                    value={newExpense.amount}
+                    onChange={(e) => setNewExpense({ ...newExpense, amount: e.target.value })}
+                    data-testid="input-expense-amount"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="expense-invoice-number">Invoice No</Label>
+                  <Input
+                    id="expense-invoice-number"
+                    value={newExpense.invoiceNumber}
+                    onChange={(e) => setNewExpense({ ...newExpense, invoiceNumber: e.target.value })}
+                    data-testid="input-expense-invoice-number"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="expense-invoice-date">Invoice Date</Label>
+                  <Input
+                    id="expense-invoice-date"
+                    type="date"
+                    value={newExpense.invoiceDate}
+                    onChange={(e) => setNewExpense({ ...newExpense, invoiceDate: e.target.value })}
+                    data-testid="input-expense-invoice-date"
+                  />
+                </div>
+                <Button
+                  className="col-span-2"
+                  onClick={() => createExpenseMutation.mutate()}
+                  disabled={!newExpense.description || !newExpense.amount || createExpenseMutation.isPending}
+                  data-testid="button-add-expense"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {createExpenseMutation.isPending ? "Submitting..." : "Submit Expense"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Vendors</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {vendors.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-vendors">
+                    No vendors added yet
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Phone</TableHead>
+                        <TableHead>Active</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {vendors.map((vendor) => (
+                        <TableRow key={vendor.id} data-testid={`row-vendor-${vendor.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{vendor.name}</div>
+                            {vendor.service && <div className="text-xs text-muted-foreground">{vendor.service}</div>}
+                          </TableCell>
+                          <TableCell>{vendor.phone}</TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={vendor.isActive}
+                              onCheckedChange={(isActive) => toggleVendorMutation.mutate({ id: vendor.id, isActive })}
+                              data-testid={`switch-vendor-${vendor.id}`}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <div className="border-t pt-4 grid grid-cols-3 gap-3">
+                  <Input
+                    placeholder="Vendor name"
+                    value={newVendor.name}
+                    onChange={(e) => setNewVendor({ ...newVendor, name: e.target.value })}
+                    data-testid="input-vendor-name"
+                  />
+                  <Input
+                    placeholder="Service"
+                    value={newVendor.service}
+                    onChange={(e) => setNewVendor({ ...newVendor, service: e.target.value })}
+                    data-testid="input-vendor-service"
+                  />
+                  <Input
+                    placeholder="Phone"
+                    value={newVendor.phone}
+                    onChange={(e) => setNewVendor({ ...newVendor, phone: e.target.value })}
+                    data-testid="input-vendor-phone"
+                  />
+                  <Button
+                    className="col-span-3"
+                    variant="outline"
+                    onClick={() => createVendorMutation.mutate()}
+                    disabled={!newVendor.name || createVendorMutation.isPending}
+                    data-testid="button-add-vendor"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    {createVendorMutation.isPending ? "Adding..." : "Add Vendor"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Expenses</CardTitle>
+              <div className="flex gap-2">
+                {(["all", "pending", "approved", "paid", "rejected"] as const).map((status) => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={statusFilter === status ? "default" : "outline"}
+                    onClick={() => setStatusFilter(status)}
+                    data-testid={`button-filter-${status}`}
+                  >
+                    {status.charAt(0).toUpperCase() + status.slice(1)}
+                  </Button>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {expensesLoading ? (
+                <div className="text-center text-muted-foreground">Loading expenses...</div>
+              ) : filteredExpenses.length === 0 ? (
+                <div className="text-center text-muted-foreground" data-testid="text-no-expenses">
+                  No expenses found
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Expense</TableHead>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredExpenses.map((expense) => (
+                      <TableRow key={expense.id} data-testid={`row-expense-${expense.id}`}>
+                        <TableCell>
+                          <div className="font-medium">{expense.description}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {expenseCategoryLabels[expense.category]}{expense.vendorName ? ` • ${expense.vendorName}` : ""}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{expense.invoiceNumber || "—"}</div>
+                          {expense.invoiceDate && (
+                            <div className="text-xs text-muted-foreground">
+                              {new Date(expense.invoiceDate).toLocaleDateString()}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{formatAmount(expense.amount)}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[expense.status]} title={expense.rejectionReason || undefined}>
+                            {expense.status}
+                          </Badge>
+                          {expense.paymentDate && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Paid {new Date(expense.paymentDate).toLocaleDateString()}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {expense.invoiceFile ? (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => window.open(`${API_BASE_URL}/api/expenses/${expense.id}/invoice`, '_blank')}
+                              title="View invoice"
+                              data-testid={`button-view-invoice-${expense.id}`}
+                            >
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button variant="ghost" size="icon" asChild title="Attach invoice">
+                              <label data-testid={`button-attach-invoice-${expense.id}`}>
+                                <Paperclip className="h-4 w-4" />
+                                <input
+                                  type="file"
+                                  accept="application/pdf,image/jpeg,image/png"
+                                  className="hidden"
+                                  onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) uploadInvoiceMutation.mutate({ id: expense.id, file });
+                                    e.target.value = "";
+                                  }}
+                                />
+                              </label>
+                            </Button>
+                          )}
+                          {expense.status === 'pending' && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => actionMutation.mutate({ id: expense.id, action: "approve" })}
+                                title="Approve"
+                                data-testid={`button-approve-expense-${expense.id}`}
+                              >
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleReject(expense)}
+                                title="Reject"
+                                data-testid={`button-reject-expense-${expense.id}`}
+                              >
+                                <X className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </>
+                          )}
+                          {expense.status === 'approved' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handlePay(expense)}
+                              data-testid={`button-pay-expense-${expense.id}`}
+                            >
+                              <IndianRupee className="h-4 w-4 mr-1" />
+                              Mark Paid
+                            </Button>
+                          )}
+                          {(expense.status === 'pending' || expense.status === 'rejected') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                if (window.confirm(`Delete expense "${expense.description}"?`)) {
+                                  deleteExpenseMutation.mutate(expense.id);
+                                }
+                              }}
+                              data-testid={`button-delete-expense-${expense.id}`}
+                            >
+                              Delete
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
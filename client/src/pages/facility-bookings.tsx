@@ -1,51 +1,109 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { useQuery } from "@tanstack/react-query";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import Navbar from "@/components/layout/navbar";
-import { Calendar, Clock, User, MapPin, ArrowLeft, CheckCircle, XCircle } from "lucide-react";
+import { BookingCalendar, BookingCalendarToolbar, getBookingDayKey, getCalendarDays, type CalendarView } from "@/components/features/booking-calendar";
+import { Calendar, Clock, User, MapPin, ArrowLeft, CheckCircle, XCircle, Ban } from "lucide-react";
 import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Facility, FacilityBookingWithResident } from "@shared/schema";
 
-interface Booking {
-  id: number;
-  facility: string;
-  resident: string;
-  flatNumber: string;
-  date: string;
-  time: string;
-  status: "pending" | "approved" | "rejected";
-  amount: string;
-}
+type StatusFilter = "all" | "pending" | "approved" | "rejected" | "cancelled";
 
 export default function FacilityBookings() {
   const [, setLocation] = useLocation();
-  const [selectedStatus, setSelectedStatus] = useState<"all" | "pending" | "approved" | "rejected">("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedStatus, setSelectedStatus] = useState<StatusFilter>("all");
+  const [selectedFacility, setSelectedFacility] = useState("all");
+  const [view, setView] = useState<CalendarView>("week");
+  const [date, setDate] = useState(() => new Date());
+  const [selected, setSelected] = useState<FacilityBookingWithResident | null>(null);
+  const [reason, setReason] = useState("");
+  const [refundPercent, setRefundPercent] = useState("");
+
+  const days = getCalendarDays(view, date);
+  const { data: bookings = [], isLoading } = useQuery<FacilityBookingWithResident[]>({
+    queryKey: [`/api/facility-bookings?from=${days[0]}&to=${days[days.length - 1]}`],
+  });
+
+  const { data: facilities = [] } = useQuery<Facility[]>({
+    queryKey: ["/api/facilities"],
+  });
+
+  const closeDetails = () => {
+    setSelected(null);
+    setReason("");
+    setRefundPercent("");
+  };
+
+  const afterChange = (title: string) => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/facility-bookings"),
+    });
+    closeDetails();
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "approved" | "rejected" }) => {
+      return await apiRequest(`/api/facility-bookings/${id}/status`, "PATCH", { status, reason: reason || undefined });
+    },
+    onSuccess: (_, { status }) => afterChange(status === "approved" ? "Booking Approved" : "Booking Rejected"),
+    onError,
+  });
 
-  const mockBookings: Booking[] = [
-    { id: 1, facility: "Clubhouse", resident: "Rajesh Kumar", flatNumber: "A-101", date: "2024-11-15", time: "10:00 AM - 2:00 PM", status: "pending", amount: "₹1,500" },
-    { id: 2, facility: "Swimming Pool", resident: "Priya Sharma", flatNumber: "B-203", date: "2024-11-16", time: "6:00 AM - 8:00 AM", status: "approved", amount: "₹500" },
-    { id: 3, facility: "Gym", resident: "Amit Patel", flatNumber: "C-305", date: "2024-11-17", time: "5:00 PM - 7:00 PM", status: "pending", amount: "₹300" },
-    { id: 4, facility: "Banquet Hall", resident: "Sneha Reddy", flatNumber: "A-402", date: "2024-11-20", time: "7:00 PM - 11:00 PM", status: "approved", amount: "₹3,000" },
-    { id: 5, facility: "Tennis Court", resident: "Vikram Singh", flatNumber: "B-108", date: "2024-11-18", time: "4:00 PM - 6:00 PM", status: "rejected", amount: "₹400" },
-  ];
+  // Admin cancellations need a reason; a blank refund share falls back to the facility's policy
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/facility-bookings/${id}/cancel`, "POST", {
+        reason,
+        refundPercent: refundPercent === "" ? undefined : Number(refundPercent),
+      });
+    },
+    onSuccess: () => afterChange("Booking Cancelled"),
+    onError,
+  });
 
-  const filteredBookings = selectedStatus === "all" 
-    ? mockBookings 
-    : mockBookings.filter(b => b.status === selectedStatus);
+  const facilityNames = new Map(facilities.map((facility) => [facility.id, facility.name]));
+  const inFacility = selectedFacility === "all"
+    ? bookings
+    : bookings.filter(b => b.facilityId === selectedFacility);
+  const filteredBookings = selectedStatus === "all"
+    ? inFacility
+    : inFacility.filter(b => b.status === selectedStatus);
 
   const stats = {
-    total: mockBookings.length,
-    pending: mockBookings.filter(b => b.status === "pending").length,
-    approved: mockBookings.filter(b => b.status === "approved").length,
-    rejected: mockBookings.filter(b => b.status === "rejected").length,
+    total: inFacility.length,
+    pending: inFacility.filter(b => b.status === "pending").length,
+    approved: inFacility.filter(b => b.status === "approved").length,
+    rejected: inFacility.filter(b => b.status === "rejected").length,
+    cancelled: inFacility.filter(b => b.status === "cancelled").length,
   };
 
+  const isPending = statusMutation.isPending || cancelMutation.isPending;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
       <Navbar />
-      
+
       <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
         <div className="max-w-7xl mx-auto">
           <motion.div
@@ -72,12 +130,13 @@ export default function FacilityBookings() {
             </div>
           </motion.div>
 
-          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-6">
             {[
               { label: "All Bookings", value: stats.total, status: "all" },
               { label: "Pending", value: stats.pending, status: "pending" },
               { label: "Approved", value: stats.approved, status: "approved" },
               { label: "Rejected", value: stats.rejected, status: "rejected" },
+              { label: "Cancelled", value: stats.cancelled, status: "cancelled" },
             ].map((stat, index) => (
               <motion.div
                 key={stat.status}
@@ -85,9 +144,9 @@ export default function FacilityBookings() {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.6, delay: index * 0.1 }}
               >
-                <Card 
+                <Card
                   className={`cursor-pointer transition-all duration-300 ${selectedStatus === stat.status ? 'ring-2 ring-primary' : 'hover:shadow-lg'}`}
-                  onClick={() => setSelectedStatus(stat.status as any)}
+                  onClick={() => setSelectedStatus(stat.status as StatusFilter)}
                   data-testid={`card-filter-${stat.status}`}
                 >
                   <CardContent className="p-4">
@@ -99,84 +158,159 @@ export default function FacilityBookings() {
             ))}
           </div>
 
-          <div className="space-y-4">
-            {filteredBookings.map((booking, index) => (
-              <motion.div
-                key={booking.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.6, delay: index * 0.05 }}
-              >
-                <Card>
-                  <CardContent className="p-6">
-                    <div className="flex flex-wrap items-center justify-between gap-4">
-                      <div className="flex-1 min-w-[200px]">
-                        <div className="flex items-center gap-2 mb-2">
-                          <MapPin className="h-4 w-4 text-primary" />
-                          <h3 className="font-semibold text-lg text-foreground" data-testid={`text-booking-facility-${booking.id}`}>
-                            {booking.facility}
-                          </h3>
-                        </div>
-                        <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                          <span className="flex items-center gap-1">
-                            <User className="h-3 w-3" />
-                            {booking.resident} ({booking.flatNumber})
-                          </span>
-                          <span className="flex items-center gap-1">
-                            <Calendar className="h-3 w-3" />
-                            {booking.date}
-                          </span>
-                          <span className="flex items-center gap-1">
-                            <Clock className="h-3 w-3" />
-                            {booking.time}
-                          </span>
-                        </div>
-                      </div>
-
-                      <div className="flex items-center gap-4">
-                        <div className="text-right">
-                          <p className="text-sm text-muted-foreground">Amount</p>
-                          <p className="text-lg font-semibold text-foreground" data-testid={`text-booking-amount-${booking.id}`}>
-                            {booking.amount}
-                          </p>
-                        </div>
-
-                        <Badge 
-                          variant={booking.status === "approved" ? "default" : booking.status === "rejected" ? "destructive" : "secondary"}
-                          data-testid={`badge-booking-status-${booking.id}`}
-                        >
-                          {booking.status}
-                        </Badge>
-
-                        {booking.status === "pending" && (
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="default"
-                              data-testid={`button-approve-${booking.id}`}
-                            >
-                              <CheckCircle className="h-4 w-4 mr-1" />
-                              Approve
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="destructive"
-                              data-testid={`button-reject-${booking.id}`}
-                            >
-                              <XCircle className="h-4 w-4 mr-1" />
-                              Reject
-                            </Button>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
-          </div>
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <BookingCalendarToolbar view={view} date={date} onViewChange={setView} onDateChange={setDate} />
+                <Select value={selectedFacility} onValueChange={setSelectedFacility}>
+                  <SelectTrigger className="w-48" data-testid="select-calendar-facility">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All facilities</SelectItem>
+                    {facilities.map((facility) => (
+                      <SelectItem key={facility.id} value={facility.id}>
+                        {facility.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isLoading ? (
+                <p className="text-center text-muted-foreground py-8">Loading bookings...</p>
+              ) : (
+                <BookingCalendar
+                  bookings={filteredBookings}
+                  facilityNames={facilityNames}
+                  view={view}
+                  date={date}
+                  describe={(booking) => `${booking.residentName || "Resident"}${booking.flatNumber ? ` (${booking.flatNumber})` : ""}`}
+                  onSelectBooking={setSelected}
+                  onSelectDay={(day) => {
+                    setDate(day);
+                    setView("day");
+                  }}
+                />
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && closeDetails()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5 text-primary" />
+              {selected ? facilityNames.get(selected.facilityId) || "Facility" : ""}
+            </DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4">
+              <div className="space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    <User className="h-4 w-4" />
+                    {selected.residentName || "Resident"}{selected.flatNumber ? ` (${selected.flatNumber})` : ""}
+                    {selected.forGuest && " • for a guest"}
+                  </span>
+                  <Badge
+                    variant={selected.status === "approved" ? "default" : selected.status === "pending" ? "secondary" : "destructive"}
+                    data-testid={`badge-booking-status-${selected.id}`}
+                  >
+                    {selected.status}
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Calendar className="h-4 w-4" />
+                  {new Date(`${getBookingDayKey(selected)}T00:00:00`).toLocaleDateString()}
+                </div>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Clock className="h-4 w-4" />
+                  {selected.startTime} - {selected.endTime}
+                </div>
+                <p data-testid={`text-booking-amount-${selected.id}`}>
+                  ₹{(selected.totalAmount || 0).toLocaleString()}
+                  {selected.depositAmount > 0 && ` + ₹${selected.depositAmount.toLocaleString()} deposit`}
+                  {" • "}{selected.paymentMode === "dues" ? "billed to dues" : "paid now"}
+                </p>
+                {selected.notes && <p className="text-muted-foreground">Notes: {selected.notes}</p>}
+                {selected.cancellationReason && (
+                  <p className="text-muted-foreground">Reason: {selected.cancellationReason}</p>
+                )}
+                {(selected.status === "cancelled" || selected.status === "rejected") && (
+                  <p>Refunded ₹{selected.refundAmount.toLocaleString()}</p>
+                )}
+              </div>
+
+              {(selected.status === "pending" || selected.status === "approved") && (
+                <div className="space-y-3">
+                  <div>
+                    <Label htmlFor="booking-reason">
+                      {selected.status === "pending" ? "Reason (shown to the resident if rejected)" : "Cancellation reason"}
+                    </Label>
+                    <Textarea
+                      id="booking-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      data-testid="input-booking-reason"
+                    />
+                  </div>
+                  {selected.status === "approved" && (
+                    <div>
+                      <Label htmlFor="booking-refund-percent">Refund of usage charge (%)</Label>
+                      <Input
+                        id="booking-refund-percent"
+                        type="number"
+                        min="0"
+                        max="100"
+                        placeholder="Per cancellation policy"
+                        value={refundPercent}
+                        onChange={(e) => setRefundPercent(e.target.value)}
+                        data-testid="input-booking-refund-percent"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {selected?.status === "pending" && (
+            <DialogFooter>
+              <Button
+                variant="destructive"
+                onClick={() => statusMutation.mutate({ id: selected.id, status: "rejected" })}
+                disabled={isPending}
+                data-testid={`button-reject-${selected.id}`}
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button
+                onClick={() => statusMutation.mutate({ id: selected.id, status: "approved" })}
+                disabled={isPending}
+                data-testid={`button-approve-${selected.id}`}
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+            </DialogFooter>
+          )}
+          {selected?.status === "approved" && (
+            <DialogFooter>
+              <Button
+                variant="destructive"
+                onClick={() => cancelMutation.mutate(selected.id)}
+                disabled={!reason.trim() || isPending}
+                data-testid={`button-admin-cancel-${selected.id}`}
+              >
+                <Ban className="h-4 w-4 mr-1" />
+                {cancelMutation.isPending ? "Cancelling..." : "Cancel Booking"}
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,57 +1,72 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import Navbar from "@/components/layout/navbar";
-import { TrendingUp, TrendingDown, IndianRupee, Users, Calendar, Download, ArrowLeft, FileText } from "lucide-react";
+import { TrendingUp, TrendingDown, IndianRupee, Download, ArrowLeft, FileText } from "lucide-react";
 import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { expenseCategoryLabels, type FinancialReport } from "@shared/schema";
+import { AccountingStatements } from "@/components/admin/accounting-statements";
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+function formatMonth(month: string) {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+}
 
 export default function FinancialReports() {
   const [, setLocation] = useLocation();
-  const [selectedPeriod, setSelectedPeriod] = useState<"month" | "quarter" | "year">("month");
-
-  const financialData = {
-    month: {
-      revenue: "₹2,45,000",
-      expenses: "₹1,23,000",
-      pendingDues: "₹45,000",
-      collections: "₹2,00,000",
-      growth: "+12%",
-    },
-    quarter: {
-      revenue: "₹7,35,000",
-      expenses: "₹3,69,000",
-      pendingDues: "₹45,000",
-      collections: "₹6,90,000",
-      growth: "+15%",
-    },
-    year: {
-      revenue: "₹29,40,000",
-      expenses: "₹14,76,000",
-      pendingDues: "₹45,000",
-      collections: "₹27,60,000",
-      growth: "+18%",
-    },
-  };
+  const [selectedPeriod, setSelectedPeriod] = useState<FinancialReport["period"]>("month");
+  const { user, isAuthenticated } = useAuth();
+
+  const { data: report, isLoading } = useQuery<FinancialReport>({
+    queryKey: ["/api/reports/financial", selectedPeriod],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const growth = report?.incomeGrowth != null
+    ? `${report.incomeGrowth >= 0 ? "+" : ""}${report.incomeGrowth}%`
+    : "—";
+
+  const expenseCategories = (report?.expenseBreakdown || []).map(item => {
+    const percentage = report && report.expenses > 0 ? Math.round((item.amount / report.expenses) * 100) : 0;
+    return {
+      category: expenseCategoryLabels[item.category],
+      amount: formatAmount(item.amount),
+      percentage: `${percentage}%`,
+    };
+  });
 
-  const currentData = financialData[selectedPeriod];
+  const recentTransactions = (report?.recentTransactions || []).map(transaction => ({
+    ...transaction,
+    amount: formatAmount(transaction.amount),
+    date: new Date(transaction.date).toLocaleDateString(),
+  }));
 
-  const expenseCategories = [
-    { category: "Maintenance Staff", amount: "₹45,000", percentage: "37%" },
-    { category: "Utilities", amount: "₹28,000", percentage: "23%" },
-    { category: "Security", amount: "₹25,000", percentage: "20%" },
-    { category: "Cleaning", amount: "₹15,000", percentage: "12%" },
-    { category: "Others", amount: "₹10,000", percentage: "8%" },
-  ];
+  const handleDownloadReport = () => {
+    if (!report) return;
 
-  const recentTransactions = [
-    { id: 1, type: "credit", description: "Maintenance Collection - A-101", amount: "₹2,500", date: "2024-11-08" },
-    { id: 2, type: "debit", description: "Electricity Bill Payment", amount: "₹15,000", date: "2024-11-07" },
-    { id: 3, type: "credit", description: "Facility Booking - Clubhouse", amount: "₹1,500", date: "2024-11-07" },
-    { id: 4, type: "debit", description: "Security Staff Salary", amount: "₹25,000", date: "2024-11-06" },
-    { id: 5, type: "credit", description: "Maintenance Collection - B-203", amount: "₹2,500", date: "2024-11-06" },
-  ];
+    const headers = ["Month", "Income", "Expenses", "Surplus"];
+    const rows = report.months.map(month => [
+      month.month,
+      month.income,
+      month.expenses,
+      month.income - month.expenses,
+    ]);
+    rows.push(["Total", report.income, report.expenses, report.income - report.expenses]);
+
+    const csvContent = [headers, ...rows].map(row => row.join(",")).join("\n");
+    const blob = new Blob([csvContent], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `financial-report-${selectedPeriod}-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
@@ -81,7 +96,12 @@ export default function FinancialReports() {
                 <p className="text-muted-foreground mt-2">Detailed financial analysis and reports</p>
               </div>
             </div>
-            <Button variant="outline" data-testid="button-download-report">
+            <Button
+              variant="outline"
+              onClick={handleDownloadReport}
+              disabled={!report}
+              data-testid="button-download-report"
+            >
               <Download className="h-4 w-4 mr-2" />
               Download Report
             </Button>
@@ -102,10 +122,10 @@ export default function FinancialReports() {
 
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
             {[
-              { title: "Total Revenue", value: currentData.revenue, icon: IndianRupee, color: "from-primary to-accent", trend: "up" },
-              { title: "Total Expenses", value: currentData.expenses, icon: TrendingDown, color: "from-secondary to-accent", trend: "down" },
-              { title: "Pending Dues", value: currentData.pendingDues, icon: FileText, color: "from-accent to-primary", trend: "down" },
-              { title: "Collections", value: currentData.collections, icon: TrendingUp, color: "from-primary to-secondary", trend: "up" },
+              { title: "Total Revenue", value: formatAmount(report?.billed || 0), icon: IndianRupee, color: "from-primary to-accent", trend: "up" },
+              { title: "Total Expenses", value: formatAmount(report?.expenses || 0), icon: TrendingDown, color: "from-secondary to-accent", trend: "down" },
+              { title: "Pending Dues", value: formatAmount(report?.pendingDues || 0), icon: FileText, color: "from-accent to-primary", trend: "down" },
+              { title: "Collections", value: formatAmount(report?.income || 0), icon: TrendingUp, color: "from-primary to-secondary", trend: "up" },
             ].map((stat, index) => (
               <motion.div
                 key={stat.title}
@@ -119,11 +139,13 @@ export default function FinancialReports() {
                       <div>
                         <p className="text-sm text-muted-foreground">{stat.title}</p>
                         <p className="text-2xl font-bold text-foreground mt-1" data-testid={`text-${stat.title.toLowerCase().replace(/\s+/g, '-')}`}>
-                          {stat.value}
+                          {isLoading ? "..." : stat.value}
                         </p>
-                        <Badge variant={stat.trend === "up" ? "default" : "secondary"} className="mt-2">
-                          {currentData.growth}
-                        </Badge>
+                        {stat.title === "Collections" && (
+                          <Badge variant={stat.trend === "up" ? "default" : "secondary"} className="mt-2" data-testid="badge-income-growth">
+                            {growth}
+                          </Badge>
+                        )}
                       </div>
                       <div className={`w-12 h-12 bg-gradient-to-r ${stat.color} rounded-lg flex items-center justify-center`}>
                         <stat.icon className="h-6 w-6 text-white" />
@@ -147,6 +169,11 @@ export default function FinancialReports() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
+                    {expenseCategories.length === 0 && (
+                      <div className="text-center text-muted-foreground" data-testid="text-no-expenses">
+                        No expenses paid in this period
+                      </div>
+                    )}
                     {expenseCategories.map((category, index) => (
                       <div key={index} className="flex items-center justify-between">
                         <div className="flex-1">
@@ -182,6 +209,11 @@ export default function FinancialReports() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
+                    {recentTransactions.length === 0 && (
+                      <div className="text-center text-muted-foreground" data-testid="text-no-transactions">
+                        No transactions yet
+                      </div>
+                    )}
                     {recentTransactions.map((transaction) => (
                       <div 
                         key={transaction.id} 
@@ -202,6 +234,49 @@ export default function FinancialReports() {
               </Card>
             </motion.div>
           </div>
+
+          <motion.div
+            className="mt-6"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.7 }}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle>Income vs Expenses</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {(report?.months || []).map((month) => {
+                    const surplus = month.income - month.expenses;
+                    return (
+                      <div
+                        key={month.month}
+                        className="grid grid-cols-4 gap-4 p-3 bg-muted rounded-lg text-sm"
+                        data-testid={`row-month-${month.month}`}
+                      >
+                        <span className="font-medium text-foreground">{formatMonth(month.month)}</span>
+                        <span className="text-green-600">+ {formatAmount(month.income)}</span>
+                        <span className="text-red-600">- {formatAmount(month.expenses)}</span>
+                        <span className={`text-right font-semibold ${surplus >= 0 ? 'text-foreground' : 'text-red-600'}`}>
+                          {surplus >= 0 ? "Surplus" : "Deficit"} {formatAmount(Math.abs(surplus))}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+
+          <motion.div
+            className="mt-6"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.8 }}
+          >
+            <AccountingStatements />
+          </motion.div>
         </div>
       </div>
     </div>
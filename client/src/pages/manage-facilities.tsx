@@ -0,0 +1,656 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import Navbar from "@/components/layout/navbar";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation } from "wouter";
+import { FacilityBlackoutsDialog } from "@/components/admin/facility-blackouts-dialog";
+import { ArrowLeft, Building, Plus, Pencil, Trash2, ImagePlus, X, CalendarOff } from "lucide-react";
+import type { FacilityWithPhotos } from "@shared/schema";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+const ACCEPTED_PHOTO_TYPES = "image/jpeg,image/png,image/webp";
+
+type FacilityForm = {
+  name: string;
+  description: string;
+  capacity: string;
+  hourlyRate: string;
+  openingTime: string;
+  closingTime: string;
+  slotMinutes: string;
+  rules: string;
+  peakStartTime: string;
+  peakEndTime: string;
+  peakRate: string;
+  weekendRate: string;
+  guestRatePercent: string;
+  securityDeposit: string;
+  cancellationTiers: { hoursBefore: string; refundPercent: string }[];
+};
+
+const emptyFacility: FacilityForm = {
+  name: "",
+  description: "",
+  capacity: "1",
+  hourlyRate: "0",
+  openingTime: "06:00",
+  closingTime: "22:00",
+  slotMinutes: "60",
+  rules: "",
+  peakStartTime: "",
+  peakEndTime: "",
+  peakRate: "",
+  weekendRate: "",
+  guestRatePercent: "100",
+  securityDeposit: "0",
+  cancellationTiers: [
+    { hoursBefore: "48", refundPercent: "100" },
+    { hoursBefore: "24", refundPercent: "50" },
+  ],
+};
+
+const toForm = (facility: FacilityWithPhotos): FacilityForm => ({
+  name: facility.name,
+  description: facility.description || "",
+  capacity: String(facility.capacity ?? 1),
+  hourlyRate: String(facility.hourlyRate ?? 0),
+  openingTime: facility.openingTime,
+  closingTime: facility.closingTime,
+  slotMinutes: String(facility.slotMinutes),
+  rules: facility.rules || "",
+  peakStartTime: facility.peakStartTime || "",
+  peakEndTime: facility.peakEndTime || "",
+  peakRate: facility.peakRate == null ? "" : String(facility.peakRate),
+  weekendRate: facility.weekendRate == null ? "" : String(facility.weekendRate),
+  guestRatePercent: String(facility.guestRatePercent),
+  securityDeposit: String(facility.securityDeposit),
+  cancellationTiers: facility.cancellationTiers.map((tier) => ({
+    hoursBefore: String(tier.hoursBefore),
+    refundPercent: String(tier.refundPercent),
+  })),
+});
+
+const toPayload = (form: FacilityForm) => ({
+  name: form.name,
+  description: form.description || null,
+  capacity: Number(form.capacity),
+  hourlyRate: Number(form.hourlyRate),
+  openingTime: form.openingTime,
+  closingTime: form.closingTime,
+  slotMinutes: Number(form.slotMinutes),
+  rules: form.rules || null,
+  // Blank optional rates fall back to the hourly rate
+  peakStartTime: form.peakStartTime || null,
+  peakEndTime: form.peakEndTime || null,
+  peakRate: form.peakRate === "" ? null : Number(form.peakRate),
+  weekendRate: form.weekendRate === "" ? null : Number(form.weekendRate),
+  guestRatePercent: Number(form.guestRatePercent),
+  securityDeposit: Number(form.securityDeposit),
+  cancellationTiers: form.cancellationTiers.map((tier) => ({
+    hoursBefore: Number(tier.hoursBefore),
+    refundPercent: Number(tier.refundPercent),
+  })),
+});
+
+interface FacilityFieldsProps {
+  form: FacilityForm;
+  onChange: (form: FacilityForm) => void;
+  idPrefix: string;
+}
+
+function FacilityFields({ form, onChange, idPrefix }: FacilityFieldsProps) {
+  const updateTier = (index: number, changes: Partial<FacilityForm["cancellationTiers"][number]>) => {
+    onChange({
+      ...form,
+      cancellationTiers: form.cancellationTiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)),
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          placeholder="e.g. Clubhouse"
+          value={form.name}
+          onChange={(e) => onChange({ ...form, name: e.target.value })}
+          data-testid={`input-${idPrefix}-name`}
+        />
+      </div>
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Input
+          id={`${idPrefix}-description`}
+          value={form.description}
+          onChange={(e) => onChange({ ...form, description: e.target.value })}
+          data-testid={`input-${idPrefix}-description`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-capacity`}>Bookings per Slot</Label>
+        <Input
+          id={`${idPrefix}-capacity`}
+          type="number"
+          min="1"
+          value={form.capacity}
+          onChange={(e) => onChange({ ...form, capacity: e.target.value })}
+          data-testid={`input-${idPrefix}-capacity`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-rate`}>Hourly Rate (₹)</Label>
+        <Input
+          id={`${idPrefix}-rate`}
+          type="number"
+          min="0"
+          value={form.hourlyRate}
+          onChange={(e) => onChange({ ...form, hourlyRate: e.target.value })}
+          data-testid={`input-${idPrefix}-rate`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-opening`}>Opens</Label>
+        <Input
+          id={`${idPrefix}-opening`}
+          type="time"
+          value={form.openingTime}
+          onChange={(e) => onChange({ ...form, openingTime: e.target.value })}
+          data-testid={`input-${idPrefix}-opening`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-closing`}>Closes</Label>
+        <Input
+          id={`${idPrefix}-closing`}
+          type="time"
+          value={form.closingTime}
+          onChange={(e) => onChange({ ...form, closingTime: e.target.value })}
+          data-testid={`input-${idPrefix}-closing`}
+        />
+      </div>
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-slot`}>Slot Length (minutes)</Label>
+        <Input
+          id={`${idPrefix}-slot`}
+          type="number"
+          min="15"
+          step="15"
+          value={form.slotMinutes}
+          onChange={(e) => onChange({ ...form, slotMinutes: e.target.value })}
+          data-testid={`input-${idPrefix}-slot`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-peak-start`}>Peak From</Label>
+        <Input
+          id={`${idPrefix}-peak-start`}
+          type="time"
+          value={form.peakStartTime}
+          onChange={(e) => onChange({ ...form, peakStartTime: e.target.value })}
+          data-testid={`input-${idPrefix}-peak-start`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-peak-end`}>Peak Until</Label>
+        <Input
+          id={`${idPrefix}-peak-end`}
+          type="time"
+          value={form.peakEndTime}
+          onChange={(e) => onChange({ ...form, peakEndTime: e.target.value })}
+          data-testid={`input-${idPrefix}-peak-end`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-peak-rate`}>Peak Rate (₹/hr)</Label>
+        <Input
+          id={`${idPrefix}-peak-rate`}
+          type="number"
+          min="0"
+          placeholder="Same as hourly"
+          value={form.peakRate}
+          onChange={(e) => onChange({ ...form, peakRate: e.target.value })}
+          data-testid={`input-${idPrefix}-peak-rate`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-weekend-rate`}>Weekend Rate (₹/hr)</Label>
+        <Input
+          id={`${idPrefix}-weekend-rate`}
+          type="number"
+          min="0"
+          placeholder="Same as hourly"
+          value={form.weekendRate}
+          onChange={(e) => onChange({ ...form, weekendRate: e.target.value })}
+          data-testid={`input-${idPrefix}-weekend-rate`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-guest-percent`}>Guest Rate (%)</Label>
+        <Input
+          id={`${idPrefix}-guest-percent`}
+          type="number"
+          min="0"
+          value={form.guestRatePercent}
+          onChange={(e) => onChange({ ...form, guestRatePercent: e.target.value })}
+          data-testid={`input-${idPrefix}-guest-percent`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-deposit`}>Security Deposit (₹)</Label>
+        <Input
+          id={`${idPrefix}-deposit`}
+          type="number"
+          min="0"
+          value={form.securityDeposit}
+          onChange={(e) => onChange({ ...form, securityDeposit: e.target.value })}
+          data-testid={`input-${idPrefix}-deposit`}
+        />
+      </div>
+      <div className="col-span-2 space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Cancellation Refunds</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...form, cancellationTiers: [...form.cancellationTiers, { hoursBefore: "", refundPercent: "" }] })}
+            disabled={form.cancellationTiers.length >= 5}
+            data-testid={`button-${idPrefix}-add-tier`}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Tier
+          </Button>
+        </div>
+        {form.cancellationTiers.length === 0 && (
+          <p className="text-xs text-muted-foreground">No refund of the usage charge on cancellation; deposits are always returned</p>
+        )}
+        {form.cancellationTiers.map((tier, index) => (
+          <div key={index} className="flex items-center gap-2 text-sm">
+            <Input
+              type="number"
+              min="0"
+              className="w-20"
+              value={tier.hoursBefore}
+              onChange={(e) => updateTier(index, { hoursBefore: e.target.value })}
+              data-testid={`input-${idPrefix}-tier-hours-${index}`}
+            />
+            <span className="text-muted-foreground">hrs or more before →</span>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              className="w-20"
+              value={tier.refundPercent}
+              onChange={(e) => updateTier(index, { refundPercent: e.target.value })}
+              data-testid={`input-${idPrefix}-tier-percent-${index}`}
+            />
+            <span className="text-muted-foreground">% refund</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ ...form, cancellationTiers: form.cancellationTiers.filter((_, i) => i !== index) })}
+              data-testid={`button-${idPrefix}-remove-tier-${index}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-rules`}>Rules</Label>
+        <Textarea
+          id={`${idPrefix}-rules`}
+          placeholder="e.g. No outside food. Music off by 10 PM."
+          value={form.rules}
+          onChange={(e) => onChange({ ...form, rules: e.target.value })}
+          data-testid={`input-${idPrefix}-rules`}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function ManageFacilities() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const [newFacility, setNewFacility] = useState(emptyFacility);
+  const [editing, setEditing] = useState<FacilityWithPhotos | null>(null);
+  const [editForm, setEditForm] = useState(emptyFacility);
+  const [blackoutsFor, setBlackoutsFor] = useState<FacilityWithPhotos | null>(null);
+
+  const { data: facilities = [], isLoading: facilitiesLoading } = useQuery<FacilityWithPhotos[]>({
+    queryKey: ["/api/facilities"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateFacilities = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
+  };
+
+  const createFacilityMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/facilities", "POST", toPayload(newFacility));
+    },
+    onSuccess: () => {
+      toast({ title: "Facility Added", description: `Residents can now book ${newFacility.name}` });
+      setNewFacility(emptyFacility);
+      invalidateFacilities();
+    },
+    onError,
+  });
+
+  const updateFacilityMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, unknown> }) => {
+      return await apiRequest(`/api/facilities/${id}`, "PATCH", updates);
+    },
+    onSuccess: () => {
+      setEditing(null);
+      invalidateFacilities();
+    },
+    onError,
+  });
+
+  const deleteFacilityMutation = useMutation({
+    mutationFn: async (facility: FacilityWithPhotos) => {
+      return await apiRequest(`/api/facilities/${facility.id}`, "DELETE");
+    },
+    onSuccess: (_data, facility) => {
+      toast({ title: "Facility Deleted", description: `${facility.name} has been removed` });
+      invalidateFacilities();
+    },
+    onError,
+  });
+
+  // Uploads one photo at a time so a rejected file names itself in the error
+  const uploadPhotosMutation = useMutation({
+    mutationFn: async ({ facility, files }: { facility: FacilityWithPhotos; files: File[] }) => {
+      for (const file of files) {
+        try {
+          await apiUpload(`/api/facilities/${facility.id}/photos`, file);
+        } catch (error) {
+          throw new Error(`${file.name}: ${(error as Error).message}`);
+        }
+      }
+    },
+    onSettled: () => {
+      invalidateFacilities();
+    },
+    onError,
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: async (photoId: string) => {
+      return await apiRequest(`/api/facility-photos/${photoId}`, "DELETE");
+    },
+    onSuccess: () => {
+      invalidateFacilities();
+    },
+    onError,
+  });
+
+  const openEditDialog = (facility: FacilityWithPhotos) => {
+    setEditForm(toForm(facility));
+    setEditing(facility);
+  };
+
+  const confirmDelete = (facility: FacilityWithPhotos) => {
+    if (window.confirm(`Delete ${facility.name}? This cannot be undone.`)) {
+      deleteFacilityMutation.mutate(facility);
+    }
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Navbar />
+
+      <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            className="flex items-center gap-4 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <Button
+              variant="ghost"
+              onClick={() => setLocation("/admin")}
+              className="flex items-center gap-2"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-2" data-testid="text-facilities-title">
+                <Building className="h-8 w-8 text-primary" />
+                Facilities
+              </h1>
+              <p className="text-muted-foreground mt-2">Set up the amenities residents can book, with their hours, rates and rules</p>
+            </div>
+          </motion.div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Add Facility</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <FacilityFields form={newFacility} onChange={setNewFacility} idPrefix="new-facility" />
+                <Button
+                  className="w-full"
+                  onClick={() => createFacilityMutation.mutate()}
+                  disabled={!newFacility.name.trim() || createFacilityMutation.isPending}
+                  data-testid="button-add-facility"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {createFacilityMutation.isPending ? "Adding..." : "Add"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Society Facilities</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {facilitiesLoading ? (
+                  <div className="text-center text-muted-foreground">Loading facilities...</div>
+                ) : facilities.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-facilities">
+                    No facilities added yet
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Facility</TableHead>
+                        <TableHead>Hours</TableHead>
+                        <TableHead className="text-right">Rate</TableHead>
+                        <TableHead>Photos</TableHead>
+                        <TableHead>Available</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {facilities.map((facility) => (
+                        <TableRow key={facility.id} data-testid={`row-facility-${facility.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{facility.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {facility.capacity} booking{facility.capacity === 1 ? "" : "s"} per slot{facility.description ? ` • ${facility.description}` : ""}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div>{facility.openingTime}–{facility.closingTime}</div>
+                            <div className="text-xs text-muted-foreground">{facility.slotMinutes} min slots</div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div>{facility.hourlyRate ? `₹${facility.hourlyRate}/hr` : "Free"}</div>
+                            {(facility.peakRate != null || facility.weekendRate != null) && (
+                              <div className="text-xs text-muted-foreground">
+                                {[
+                                  facility.peakRate != null && `peak ₹${facility.peakRate}`,
+                                  facility.weekendRate != null && `weekend ₹${facility.weekendRate}`,
+                                ].filter(Boolean).join(" • ")}
+                              </div>
+                            )}
+                            {facility.securityDeposit > 0 && (
+                              <div className="text-xs text-muted-foreground">₹{facility.securityDeposit} deposit</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-1">
+                              {facility.photos.map((photo) => (
+                                <div key={photo.id} className="relative group">
+                                  <a
+                                    href={`${API_BASE_URL}/api/facility-photos/${photo.id}/file`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    title={photo.fileName}
+                                    data-testid={`link-facility-photo-${photo.id}`}
+                                  >
+                                    <img
+                                      src={`${API_BASE_URL}/api/facility-photos/${photo.id}/thumbnail`}
+                                      alt={photo.fileName}
+                                      className="h-10 w-10 rounded object-cover border"
+                                    />
+                                  </a>
+                                  <button
+                                    type="button"
+                                    className="absolute -top-1 -right-1 hidden group-hover:flex h-4 w-4 items-center justify-center rounded-full bg-destructive text-white"
+                                    onClick={() => deletePhotoMutation.mutate(photo.id)}
+                                    title="Remove photo"
+                                    data-testid={`button-delete-facility-photo-${photo.id}`}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                </div>
+                              ))}
+                              <Label
+                                htmlFor={`facility-photos-${facility.id}`}
+                                className="flex h-10 w-10 cursor-pointer items-center justify-center rounded border border-dashed text-muted-foreground hover:text-primary"
+                                title="Add photos"
+                              >
+                                <ImagePlus className="h-4 w-4" />
+                              </Label>
+                              <input
+                                id={`facility-photos-${facility.id}`}
+                                type="file"
+                                accept={ACCEPTED_PHOTO_TYPES}
+                                multiple
+                                className="hidden"
+                                onChange={(e) => {
+                                  const files = Array.from(e.target.files || []);
+                                  e.target.value = "";
+                                  if (files.length > 0) uploadPhotosMutation.mutate({ facility, files });
+                                }}
+                                data-testid={`input-facility-photos-${facility.id}`}
+                              />
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={facility.isAvailable ?? true}
+                              onCheckedChange={(isAvailable) => updateFacilityMutation.mutate({ id: facility.id, updates: { isAvailable } })}
+                              data-testid={`switch-facility-${facility.id}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setBlackoutsFor(facility)}
+                                title="Blackout dates"
+                                data-testid={`button-blackouts-facility-${facility.id}`}
+                              >
+                                <CalendarOff className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openEditDialog(facility)}
+                                data-testid={`button-edit-facility-${facility.id}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => confirmDelete(facility)}
+                                disabled={deleteFacilityMutation.isPending}
+                                data-testid={`button-delete-facility-${facility.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Facility</DialogTitle>
+          </DialogHeader>
+          <FacilityFields form={editForm} onChange={setEditForm} idPrefix="edit-facility" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} data-testid="button-cancel-edit-facility">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editing && updateFacilityMutation.mutate({ id: editing.id, updates: toPayload(editForm) })}
+              disabled={!editForm.name.trim() || updateFacilityMutation.isPending}
+              data-testid="button-save-facility"
+            >
+              {updateFacilityMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <FacilityBlackoutsDialog facility={blackoutsFor} onClose={() => setBlackoutsFor(null)} />
+    </div>
+  );
+}
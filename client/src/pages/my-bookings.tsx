@@ -1,51 +1,104 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Navbar from "@/components/layout/navbar";
-import { Calendar, Clock, MapPin, ArrowLeft, X } from "lucide-react";
+import { BookingWaitlistCard } from "@/components/features/booking-waitlist-card";
+import { BookingSeriesCard } from "@/components/features/booking-series-card";
+import { BookingCalendar, BookingCalendarToolbar, type CalendarView } from "@/components/features/booking-calendar";
+import { Calendar, Clock, MapPin, ArrowLeft, X, List, CalendarDays } from "lucide-react";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Facility, FacilityBooking, FacilityCancellationQuote } from "@shared/schema";
 
-interface Booking {
-  id: number;
-  facility: string;
-  date: string;
-  time: string;
-  status: "upcoming" | "completed" | "cancelled";
-  amount: string;
-}
+type BookingView = "upcoming" | "completed" | "cancelled";
+
+// Booking dates are stored as UTC midnight, so the calendar day is the UTC date
+const toDateKey = (date: Date | string) => new Date(date).toISOString().split("T")[0];
+
+const getBookingView = (booking: FacilityBooking, now: Date): BookingView => {
+  if (booking.status === "cancelled" || booking.status === "rejected") return "cancelled";
+  const end = new Date(`${toDateKey(booking.bookingDate)}T${booking.endTime}:00`);
+  return end <= now ? "completed" : "upcoming";
+};
 
 export default function MyBookings() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [selectedFilter, setSelectedFilter] = useState<"all" | "upcoming" | "completed" | "cancelled">("all");
+  const queryClient = useQueryClient();
+  const [selectedFilter, setSelectedFilter] = useState<"all" | BookingView>("all");
+  const [cancelling, setCancelling] = useState<FacilityBooking | null>(null);
+  const [reason, setReason] = useState("");
+  const [layout, setLayout] = useState<"list" | "calendar">("list");
+  const [calendarView, setCalendarView] = useState<CalendarView>("month");
+  const [calendarDate, setCalendarDate] = useState(() => new Date());
+  const [selectedFacility, setSelectedFacility] = useState("all");
+
+  const { data: rawBookings = [], isLoading } = useQuery<FacilityBooking[]>({
+    queryKey: ["/api/facility-bookings"],
+  });
+
+  const { data: facilities = [] } = useQuery<Facility[]>({
+    queryKey: ["/api/facilities"],
+  });
 
-  const bookings: Booking[] = [
-    { id: 1, facility: "Clubhouse", date: "2024-11-20", time: "10:00 AM - 2:00 PM", status: "upcoming", amount: "₹1,500" },
-    { id: 2, facility: "Swimming Pool", date: "2024-11-15", time: "6:00 AM - 8:00 AM", status: "completed", amount: "₹500" },
-    { id: 3, facility: "Tennis Court", date: "2024-11-25", time: "4:00 PM - 6:00 PM", status: "upcoming", amount: "₹400" },
-    { id: 4, facility: "Gym", date: "2024-11-10", time: "5:00 PM - 7:00 PM", status: "completed", amount: "₹300" },
-    { id: 5, facility: "Banquet Hall", date: "2024-11-05", time: "7:00 PM - 11:00 PM", status: "cancelled", amount: "₹3,000" },
-  ];
+  const { data: quote, isLoading: quoteLoading } = useQuery<FacilityCancellationQuote>({
+    queryKey: [`/api/facility-bookings/${cancelling?.id}/cancellation`],
+    enabled: !!cancelling,
+  });
 
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(`/api/facility-bookings/${cancelling!.id}/cancel`, "POST", { reason: reason || undefined });
+      return res.json() as Promise<FacilityBooking>;
+    },
+    onSuccess: (booking) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facility-bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/balance"] });
+      setCancelling(null);
+      setReason("");
+      toast({
+        title: "Booking Cancelled",
+        description: booking.refundAmount > 0
+          ? `₹${booking.refundAmount.toLocaleString()} will be refunded${booking.refundCredit > 0 ? `, ₹${booking.refundCredit.toLocaleString()} of it as credit on your dues` : ""}.`
+          : "Your facility booking has been cancelled.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const now = new Date();
+  const facilityNames = new Map(facilities.map((facility) => [facility.id, facility.name]));
+  const bookings = rawBookings
+    .map((booking) => ({ ...booking, view: getBookingView(booking, now) }))
+    .sort((a, b) => `${toDateKey(b.bookingDate)}${b.startTime}`.localeCompare(`${toDateKey(a.bookingDate)}${a.startTime}`));
+
+  const inFacility = selectedFacility === "all"
+    ? bookings
+    : bookings.filter(b => b.facilityId === selectedFacility);
   const filteredBookings = selectedFilter === "all" 
-    ? bookings 
-    : bookings.filter(b => b.status === selectedFilter);
+    ? inFacility 
+    : inFacility.filter(b => b.view === selectedFilter);
 
   const stats = {
-    total: bookings.length,
-    upcoming: bookings.filter(b => b.status === "upcoming").length,
-    completed: bookings.filter(b => b.status === "completed").length,
-    cancelled: bookings.filter(b => b.status === "cancelled").length,
-  };
-
-  const handleCancelBooking = (id: number) => {
-    toast({
-      title: "Booking Cancelled",
-      description: "Your facility booking has been cancelled successfully.",
-    });
+    total: inFacility.length,
+    upcoming: inFacility.filter(b => b.view === "upcoming").length,
+    completed: inFacility.filter(b => b.view === "completed").length,
+    cancelled: inFacility.filter(b => b.view === "cancelled").length,
   };
 
   return (
@@ -105,76 +158,206 @@ export default function MyBookings() {
             ))}
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {filteredBookings.map((booking, index) => (
-              <motion.div
-                key={booking.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.6, delay: index * 0.05 }}
+          <BookingWaitlistCard />
+          <BookingSeriesCard />
+
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <Select value={selectedFacility} onValueChange={setSelectedFacility}>
+              <SelectTrigger className="w-48" data-testid="select-booking-facility">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All facilities</SelectItem>
+                {facilities.map((facility) => (
+                  <SelectItem key={facility.id} value={facility.id}>
+                    {facility.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant={layout === "list" ? "default" : "outline"}
+                onClick={() => setLayout("list")}
+                data-testid="button-layout-list"
               >
-                <Card className="hover:shadow-lg transition-all duration-300">
-                  <CardContent className="p-6">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex items-center gap-2">
-                        <MapPin className="h-5 w-5 text-primary" />
-                        <h3 className="font-semibold text-lg text-foreground" data-testid={`text-booking-facility-${booking.id}`}>
-                          {booking.facility}
-                        </h3>
-                      </div>
-                      <Badge 
-                        variant={booking.status === "upcoming" ? "default" : booking.status === "completed" ? "secondary" : "destructive"}
-                        data-testid={`badge-booking-status-${booking.id}`}
-                      >
-                        {booking.status}
-                      </Badge>
-                    </div>
-
-                    <div className="space-y-2 mb-4">
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <Calendar className="h-4 w-4" />
-                        <span>{booking.date}</span>
-                      </div>
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <Clock className="h-4 w-4" />
-                        <span>{booking.time}</span>
-                      </div>
-                    </div>
-
-                    <div className="flex items-center justify-between pt-4 border-t">
-                      <span className="text-lg font-semibold text-foreground" data-testid={`text-booking-amount-${booking.id}`}>
-                        {booking.amount}
-                      </span>
-                      {booking.status === "upcoming" && (
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => handleCancelBooking(booking.id)}
-                          data-testid={`button-cancel-${booking.id}`}
-                        >
-                          <X className="h-4 w-4 mr-1" />
-                          Cancel
-                        </Button>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
+                <List className="h-4 w-4 mr-1" />
+                List
+              </Button>
+              <Button
+                size="sm"
+                variant={layout === "calendar" ? "default" : "outline"}
+                onClick={() => setLayout("calendar")}
+                data-testid="button-layout-calendar"
+              >
+                <CalendarDays className="h-4 w-4 mr-1" />
+                Calendar
+              </Button>
+            </div>
           </div>
 
-          {filteredBookings.length === 0 && (
+          {layout === "calendar" ? (
             <Card>
-              <CardContent className="py-12 text-center">
-                <Calendar className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-                <p className="text-muted-foreground" data-testid="text-no-bookings">
-                  No {selectedFilter !== "all" ? selectedFilter : ""} bookings found
-                </p>
+              <CardContent className="p-4 space-y-4">
+                <BookingCalendarToolbar
+                  view={calendarView}
+                  date={calendarDate}
+                  onViewChange={setCalendarView}
+                  onDateChange={setCalendarDate}
+                />
+                <BookingCalendar
+                  bookings={filteredBookings}
+                  facilityNames={facilityNames}
+                  view={calendarView}
+                  date={calendarDate}
+                  onSelectBooking={(booking) => booking.view === "upcoming" && setCancelling(booking)}
+                  onSelectDay={(day) => {
+                    setCalendarDate(day);
+                    setCalendarView("day");
+                  }}
+                />
               </CardContent>
             </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {filteredBookings.map((booking, index) => (
+                  <motion.div
+                    key={booking.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.6, delay: index * 0.05 }}
+                  >
+                    <Card className="hover:shadow-lg transition-all duration-300">
+                      <CardContent className="p-6">
+                        <div className="flex items-start justify-between mb-4">
+                          <div className="flex items-center gap-2">
+                            <MapPin className="h-5 w-5 text-primary" />
+                            <h3 className="font-semibold text-lg text-foreground" data-testid={`text-booking-facility-${booking.id}`}>
+                              {facilityNames.get(booking.facilityId) || "Facility"}
+                            </h3>
+                          </div>
+                          <Badge 
+                            variant={booking.view === "upcoming" ? "default" : booking.view === "completed" ? "secondary" : "destructive"}
+                            data-testid={`badge-booking-status-${booking.id}`}
+                          >
+                            {booking.view === "completed" ? "completed" : booking.status}
+                          </Badge>
+                        </div>
+
+                        <div className="space-y-2 mb-4">
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Calendar className="h-4 w-4" />
+                            <span>{new Date(`${toDateKey(booking.bookingDate)}T00:00:00`).toLocaleDateString()}</span>
+                          </div>
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Clock className="h-4 w-4" />
+                            <span>{booking.startTime} - {booking.endTime}</span>
+                          </div>
+                        </div>
+
+                        {booking.view === "cancelled" && (
+                          <div className="mb-4 p-3 bg-muted rounded text-sm space-y-1" data-testid={`text-booking-refund-${booking.id}`}>
+                            {booking.cancellationReason && (
+                              <p className="text-muted-foreground">Reason: {booking.cancellationReason}</p>
+                            )}
+                            <p>
+                              Refund: ₹{booking.refundAmount.toLocaleString()}
+                              {booking.refundCredit > 0 && ` (₹${booking.refundCredit.toLocaleString()} credited to your dues)`}
+                            </p>
+                          </div>
+                        )}
+
+                        <div className="flex items-center justify-between pt-4 border-t">
+                          <span className="text-lg font-semibold text-foreground" data-testid={`text-booking-amount-${booking.id}`}>
+                            ₹{((booking.totalAmount || 0) + booking.depositAmount).toLocaleString()}
+                          </span>
+                          {booking.view === "upcoming" && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => setCancelling(booking)}
+                              data-testid={`button-cancel-${booking.id}`}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </motion.div>
+                ))}
+              </div>
+
+              {!isLoading && filteredBookings.length === 0 && (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <Calendar className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+                    <p className="text-muted-foreground" data-testid="text-no-bookings">
+                      No {selectedFilter !== "all" ? selectedFilter : ""} bookings found
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+            </>
           )}
         </div>
       </div>
+
+      <Dialog open={cancelling !== null} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Booking</DialogTitle>
+          </DialogHeader>
+          {quoteLoading || !quote ? (
+            <p className="text-sm text-muted-foreground">Checking refund...</p>
+          ) : (
+            <div className="p-3 bg-muted rounded text-sm space-y-1" data-testid="text-cancellation-quote">
+              <div className="flex justify-between">
+                <span>Usage charge refund ({quote.refundPercent}%)</span>
+                <span>₹{quote.usageRefund.toLocaleString()}</span>
+              </div>
+              {quote.depositRefund > 0 && (
+                <div className="flex justify-between">
+                  <span>Security deposit</span>
+                  <span>₹{quote.depositRefund.toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold pt-1 border-t">
+                <span>Total refund</span>
+                <span>₹{quote.refundAmount.toLocaleString()}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Unpaid charges are waived; anything already paid is credited to your next dues.
+              </p>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="cancel-reason">Reason (optional)</Label>
+            <Textarea
+              id="cancel-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-cancel-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelling(null)} data-testid="button-keep-booking">
+              Keep Booking
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelMutation.mutate()}
+              disabled={!quote || cancelMutation.isPending}
+              data-testid="button-confirm-cancel"
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Booking"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,406 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Navbar from "@/components/layout/navbar";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation } from "wouter";
+import { ArrowLeft, Banknote, Plus, Undo2 } from "lucide-react";
+import type { User, OfflinePaymentMethod, PaymentWithAllocations } from "@shared/schema";
+import { BankReconciliationCard } from "@/components/admin/bank-reconciliation-card";
+
+const methodLabels: Record<OfflinePaymentMethod, string> = {
+  cash: "Cash",
+  cheque: "Cheque",
+  bank_transfer: "Bank Transfer",
+};
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const emptyPayment = {
+  residentId: "",
+  amount: "",
+  method: "cheque" as OfflinePaymentMethod,
+  instrumentNumber: "",
+  bankName: "",
+  instrumentDate: "",
+  paidAt: new Date().toISOString().slice(0, 10),
+};
+
+export default function OfflinePayments() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const [newPayment, setNewPayment] = useState(emptyPayment);
+  const [bouncing, setBouncing] = useState<PaymentWithAllocations | null>(null);
+  const [bounceReason, setBounceReason] = useState("");
+  const [bounceCharge, setBounceCharge] = useState("500");
+
+  const { data: residents = [] } = useQuery<User[]>({
+    queryKey: ["/api/residents"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: payments = [], isLoading: paymentsLoading } = useQuery<PaymentWithAllocations[]>({
+    queryKey: ["/api/payments"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const offlinePayments = payments.filter(payment => payment.method in methodLabels);
+
+  const invalidatePayments = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance-bills"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/balances"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/payments/offline", "POST", {
+        residentId: newPayment.residentId,
+        amount: Math.round(parseFloat(newPayment.amount)),
+        method: newPayment.method,
+        instrumentNumber: newPayment.instrumentNumber || undefined,
+        bankName: newPayment.bankName || undefined,
+        instrumentDate: newPayment.instrumentDate || undefined,
+        paidAt: newPayment.paidAt || undefined,
+      });
+      return (await res.json()) as PaymentWithAllocations;
+    },
+    onSuccess: (payment) => {
+      toast({
+        title: "Payment Recorded",
+        description: `Receipt ${payment.receiptNumber} issued for ${formatAmount(payment.amount)}`,
+      });
+      setNewPayment(emptyPayment);
+      invalidatePayments();
+    },
+    onError,
+  });
+
+  const bounceMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/payments/${bouncing!.id}/bounce`, "POST", {
+        reason: bounceReason,
+        bounceCharge: Math.round(parseFloat(bounceCharge)) || 0,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Cheque Bounce Recorded",
+        description: `Receipt ${bouncing?.receiptNumber} has been reversed`,
+      });
+      setBouncing(null);
+      setBounceReason("");
+      invalidatePayments();
+    },
+    onError,
+  });
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const needsInstrument = newPayment.method !== 'cash';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Navbar />
+
+      <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            className="flex items-center gap-4 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <Button
+              variant="ghost"
+              onClick={() => setLocation("/admin")}
+              className="flex items-center gap-2"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-2" data-testid="text-offline-payments-title">
+                <Banknote className="h-8 w-8 text-primary" />
+                Offline Payments
+              </h1>
+              <p className="text-muted-foreground mt-2">Record cash, cheque and bank transfer payments and reconcile them with the bank</p>
+            </div>
+          </motion.div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Record Payment</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div>
+                  <Label>Resident</Label>
+                  <Select
+                    value={newPayment.residentId}
+                    onValueChange={(value) => setNewPayment({ ...newPayment, residentId: value })}
+                  >
+                    <SelectTrigger data-testid="select-payment-resident">
+                      <SelectValue placeholder="Select resident" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {residents.map((resident) => (
+                        <SelectItem key={resident.id} value={resident.id}>
+                          {resident.firstName} {resident.lastName}{resident.flatNumber ? ` (${resident.flatNumber})` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Method</Label>
+                    <Select
+                      value={newPayment.method}
+                      onValueChange={(value) => setNewPayment({ ...newPayment, method: value as OfflinePaymentMethod })}
+                    >
+                      <SelectTrigger data-testid="select-payment-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(methodLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="payment-amount">Amount (₹)</Label>
+                    <Input
+                      id="payment-amount"
+                      type="number"
+                      min="1"
+                      value={newPayment.amount}
+                      onChange={(e) => setNewPayment({ ...newPayment, amount: e.target.value })}
+                      data-testid="input-payment-amount"
+                    />
+                  </div>
+                </div>
+                {needsInstrument && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="payment-instrument">
+                        {newPayment.method === 'cheque' ? "Cheque No" : "UTR No"}
+                      </Label>
+                      <Input
+                        id="payment-instrument"
+                        value={newPayment.instrumentNumber}
+                        onChange={(e) => setNewPayment({ ...newPayment, instrumentNumber: e.target.value })}
+                        data-testid="input-payment-instrument"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="payment-bank">Bank</Label>
+                      <Input
+                        id="payment-bank"
+                        value={newPayment.bankName}
+                        onChange={(e) => setNewPayment({ ...newPayment, bankName: e.target.value })}
+                        data-testid="input-payment-bank"
+                      />
+                    </div>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  {needsInstrument && (
+                    <div>
+                      <Label htmlFor="payment-instrument-date">
+                        {newPayment.method === 'cheque' ? "Cheque Date" : "Transfer Date"}
+                      </Label>
+                      <Input
+                        id="payment-instrument-date"
+                        type="date"
+                        value={newPayment.instrumentDate}
+                        onChange={(e) => setNewPayment({ ...newPayment, instrumentDate: e.target.value })}
+                        data-testid="input-payment-instrument-date"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="payment-received">Received On</Label>
+                    <Input
+                      id="payment-received"
+                      type="date"
+                      value={newPayment.paidAt}
+                      onChange={(e) => setNewPayment({ ...newPayment, paidAt: e.target.value })}
+                      data-testid="input-payment-received"
+                    />
+                  </div>
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => recordMutation.mutate()}
+                  disabled={!newPayment.residentId || !newPayment.amount || recordMutation.isPending}
+                  data-testid="button-record-payment"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {recordMutation.isPending ? "Recording..." : "Record Payment"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Recorded Payments</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {paymentsLoading ? (
+                  <div className="text-center text-muted-foreground">Loading payments...</div>
+                ) : offlinePayments.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-offline-payments">
+                    No offline payments recorded yet
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Receipt</TableHead>
+                        <TableHead>Resident</TableHead>
+                        <TableHead>Instrument</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {offlinePayments.map((payment) => (
+                        <TableRow key={payment.id} data-testid={`row-offline-payment-${payment.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{payment.receiptNumber}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {payment.paidAt && new Date(payment.paidAt).toLocaleDateString()}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div>{payment.residentName}</div>
+                            <div className="text-xs text-muted-foreground">{payment.flatNumber}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div>{methodLabels[payment.method as OfflinePaymentMethod]}</div>
+                            {payment.instrumentNumber && (
+                              <div className="text-xs text-muted-foreground">
+                                {payment.instrumentNumber}{payment.bankName ? ` • ${payment.bankName}` : ""}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">{formatAmount(payment.amount)}</TableCell>
+                          <TableCell>
+                            {payment.status === 'reversed' ? (
+                              <Badge variant="destructive" title={payment.bounceReason || undefined}>bounced</Badge>
+                            ) : payment.reconciledAt ? (
+                              <Badge variant="default">reconciled</Badge>
+                            ) : (
+                              <Badge variant="secondary">unreconciled</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {payment.method === 'cheque' && payment.status === 'success' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setBouncing(payment)}
+                                data-testid={`button-bounce-payment-${payment.id}`}
+                              >
+                                <Undo2 className="h-4 w-4 mr-1" />
+                                Bounce
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <BankReconciliationCard />
+        </div>
+      </div>
+
+      <Dialog open={bouncing !== null} onOpenChange={(open) => !open && setBouncing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Cheque Bounce</DialogTitle>
+          </DialogHeader>
+          {bouncing && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Cheque {bouncing.instrumentNumber} for {formatAmount(bouncing.amount)} from {bouncing.residentName}.
+                The bills it settled will be reopened and the bounce charge added to the resident's dues.
+              </p>
+              <div>
+                <Label htmlFor="bounce-reason">Reason</Label>
+                <Input
+                  id="bounce-reason"
+                  placeholder="e.g. Insufficient funds"
+                  value={bounceReason}
+                  onChange={(e) => setBounceReason(e.target.value)}
+                  data-testid="input-bounce-reason"
+                />
+              </div>
+              <div>
+                <Label htmlFor="bounce-charge">Bounce Charge (₹)</Label>
+                <Input
+                  id="bounce-charge"
+                  type="number"
+                  min="0"
+                  value={bounceCharge}
+                  onChange={(e) => setBounceCharge(e.target.value)}
+                  data-testid="input-bounce-charge"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBouncing(null)} data-testid="button-cancel-bounce">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => bounceMutation.mutate()}
+              disabled={!bounceReason || bounceMutation.isPending}
+              data-testid="button-confirm-bounce"
+            >
+              {bounceMutation.isPending ? "Recording..." : "Record Bounce"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,44 +1,97 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import Navbar from "@/components/layout/navbar";
 import { Calendar, Download, Receipt, ArrowLeft, Filter } from "lucide-react";
 import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import type { PaymentWithAllocations } from "@shared/schema";
 
-interface Payment {
-  id: number;
-  description: string;
-  amount: string;
-  date: string;
-  status: "success" | "pending" | "failed";
-  method: string;
-  receiptId: string;
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+const methodLabels: Record<string, string> = {
+  card: "Card",
+  upi: "UPI",
+  netbanking: "Net Banking",
+  cash: "Cash",
+  cheque: "Cheque",
+  bank_transfer: "Bank Transfer",
+};
+
+const periodDays = {
+  month: 30,
+  quarter: 91,
+  year: 365,
+};
+
+function formatAmount(amount: number) {
+  return `₹${amount.toLocaleString('en-IN')}`;
+}
+
+function paymentDate(payment: PaymentWithAllocations) {
+  return new Date(payment.paidAt || payment.createdAt || Date.now());
 }
 
 export default function PaymentHistory() {
   const [, setLocation] = useLocation();
+  const { user, isAuthenticated } = useAuth();
   const [selectedPeriod, setSelectedPeriod] = useState<"all" | "month" | "quarter" | "year">("all");
+  const isAdmin = user?.role === 'admin';
+
+  const { data: allPayments = [], isLoading: paymentsLoading } = useQuery<PaymentWithAllocations[]>({
+    queryKey: ["/api/payments"],
+    enabled: isAuthenticated,
+  });
 
-  const payments: Payment[] = [
-    { id: 1, description: "Maintenance Fee - November", amount: "₹2,500", date: "2024-11-01", status: "success", method: "UPI", receiptId: "REC001" },
-    { id: 2, description: "Water Charges - November", amount: "₹450", date: "2024-11-01", status: "success", method: "Card", receiptId: "REC002" },
-    { id: 3, description: "Clubhouse Booking", amount: "₹1,500", date: "2024-10-25", status: "success", method: "Net Banking", receiptId: "REC003" },
-    { id: 4, description: "Parking Fee - October", amount: "₹500", date: "2024-10-15", status: "success", method: "UPI", receiptId: "REC004" },
-    { id: 5, description: "Maintenance Fee - October", amount: "₹2,500", date: "2024-10-01", status: "success", method: "Card", receiptId: "REC005" },
-    { id: 6, description: "Swimming Pool Booking", amount: "₹500", date: "2024-09-20", status: "success", method: "UPI", receiptId: "REC006" },
-  ];
+  const payments = selectedPeriod === "all"
+    ? allPayments
+    : allPayments.filter(payment =>
+        Date.now() - paymentDate(payment).getTime() <= periodDays[selectedPeriod] * 24 * 60 * 60 * 1000
+      );
 
-  const totalPaid = payments.reduce((sum, p) => {
-    const amount = parseInt(p.amount.replace(/[₹,]/g, ''));
-    return sum + amount;
-  }, 0);
+  const successfulPayments = payments.filter(payment => payment.status === "success");
+  const totalPaid = successfulPayments.reduce((sum, payment) => sum + payment.amount, 0);
 
   const stats = {
     total: `₹${(totalPaid / 1000).toFixed(1)}K`,
     count: payments.length,
-    avgPayment: `₹${Math.round(totalPaid / payments.length)}`,
+    avgPayment: formatAmount(successfulPayments.length > 0 ? Math.round(totalPaid / successfulPayments.length) : 0),
+  };
+
+  const describePayment = (payment: PaymentWithAllocations) => {
+    const months = payment.allocations.map(allocation => allocation.billingMonth).join(", ");
+    const description = months ? `Maintenance - ${months}` : payment.description || "Payment";
+    return isAdmin && payment.residentName
+      ? `${payment.residentName}${payment.flatNumber ? ` (${payment.flatNumber})` : ""} • ${description}`
+      : description;
+  };
+
+  const downloadReceipt = (paymentId: string) => {
+    window.open(`${API_BASE_URL}/api/payments/${paymentId}/receipt`, "_blank");
+  };
+
+  const downloadHistory = () => {
+    const rows = [
+      ["Date", "Receipt", "Description", "Method", "Status", "Amount"],
+      ...payments.map(payment => [
+        paymentDate(payment).toLocaleDateString(),
+        payment.receiptNumber || "",
+        describePayment(payment),
+        methodLabels[payment.method] || payment.method,
+        payment.status,
+        String(payment.amount),
+      ]),
+    ];
+    const csv = rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(",")).join("\n");
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "payment-history.csv";
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   return (
@@ -56,7 +109,7 @@ export default function PaymentHistory() {
             <div className="flex items-center gap-4">
               <Button
                 variant="outline"
-                onClick={() => setLocation("/resident")}
+                onClick={() => setLocation(isAdmin ? "/admin" : "/resident")}
                 data-testid="button-back-to-dashboard"
               >
                 <ArrowLeft className="h-4 w-4 mr-2" />
@@ -64,12 +117,14 @@ export default function PaymentHistory() {
               </Button>
               <div>
                 <h1 className="text-2xl md:text-3xl font-bold text-foreground" data-testid="text-payment-history-title">
-                  Payment History
+                  {isAdmin ? "Society Collections" : "Payment History"}
                 </h1>
-                <p className="text-muted-foreground mt-2">View all your payment transactions</p>
+                <p className="text-muted-foreground mt-2">
+                  {isAdmin ? "View all payments received from residents" : "View all your payment transactions"}
+                </p>
               </div>
             </div>
-            <Button variant="outline" data-testid="button-download-history">
+            <Button variant="outline" onClick={downloadHistory} disabled={payments.length === 0} data-testid="button-download-history">
               <Download className="h-4 w-4 mr-2" />
               Download All
             </Button>
@@ -120,6 +175,13 @@ export default function PaymentHistory() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
+                {paymentsLoading ? (
+                  <div className="text-center text-muted-foreground">Loading payments...</div>
+                ) : payments.length === 0 && (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-payments">
+                    No payments found
+                  </div>
+                )}
                 {payments.map((payment, index) => (
                   <motion.div
                     key={payment.id}
@@ -135,13 +197,13 @@ export default function PaymentHistory() {
                       </div>
                       <div>
                         <p className="font-medium text-foreground" data-testid={`text-payment-desc-${payment.id}`}>
-                          {payment.description}
+                          {describePayment(payment)}
                         </p>
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <Calendar className="h-3 w-3" />
-                          <span>{payment.date}</span>
+                          <span>{paymentDate(payment).toLocaleDateString()}</span>
                           <span>•</span>
-                          <span>{payment.method}</span>
+                          <span>{methodLabels[payment.method] || payment.method}</span>
                         </div>
                       </div>
                     </div>
@@ -149,9 +211,9 @@ export default function PaymentHistory() {
                     <div className="flex items-center gap-4">
                       <div className="text-right">
                         <p className="text-lg font-semibold text-foreground" data-testid={`text-payment-amount-${payment.id}`}>
-                          {payment.amount}
+                          {formatAmount(payment.amount)}
                         </p>
-                        <p className="text-xs text-muted-foreground">{payment.receiptId}</p>
+                        <p className="text-xs text-muted-foreground">{payment.receiptNumber || "—"}</p>
                       </div>
 
                       <Badge 
@@ -164,6 +226,8 @@ export default function PaymentHistory() {
                       <Button
                         variant="outline"
                         size="sm"
+                        onClick={() => downloadReceipt(payment.id)}
+                        disabled={!payment.receiptNumber}
                         data-testid={`button-download-receipt-${payment.id}`}
                       >
                         <Download className="h-4 w-4" />
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -10,35 +11,117 @@ import Navbar from "@/components/layout/navbar";
 import { CreditCard, Building, IndianRupee, CheckCircle, ArrowLeft } from "lucide-react";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import type { MaintenanceBillWithLineItems, PaymentIntent, FlatBalance } from "@shared/schema";
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
 
 export default function Payment() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [paymentMethod, setPaymentMethod] = useState<"card" | "upi" | "netbanking">("card");
-  const [processing, setProcessing] = useState(false);
-  const [paymentSuccess, setPaymentSuccess] = useState(false);
+  const [paymentDetails, setPaymentDetails] = useState<Record<string, string>>({});
+  const [paidAmount, setPaidAmount] = useState<number | null>(null);
+  const [customAmount, setCustomAmount] = useState("");
+  const queryClient = useQueryClient();
 
-  const pendingDues = [
-    { type: "Maintenance Fee", amount: "₹2,500", dueDate: "2024-11-15", status: "pending" },
-    { type: "Water Charges", amount: "₹450", dueDate: "2024-11-15", status: "pending" },
-    { type: "Parking Fee", amount: "₹500", dueDate: "2024-11-10", status: "overdue" },
-  ];
+  const { user, isAuthenticated } = useAuth();
 
-  const totalAmount = "₹3,450";
+  const { data: bills = [], isLoading: billsLoading } = useQuery<MaintenanceBillWithLineItems[]>({
+    queryKey: ["/api/maintenance-bills"],
+    enabled: isAuthenticated && user?.role === 'resident',
+  });
 
-  const handlePayment = () => {
-    setProcessing(true);
-    setTimeout(() => {
-      setProcessing(false);
-      setPaymentSuccess(true);
+  const { data: balance } = useQuery<FlatBalance>({
+    queryKey: ["/api/billing/balance"],
+    enabled: isAuthenticated && user?.role === 'resident',
+  });
+
+  const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+  const pendingDues = bills
+    .filter(bill => !bill.isPaid)
+    .map(bill => {
+      const penalties = bill.lineItems.filter(item => ['penalty', 'bounce_charge', 'adjustment'].includes(item.kind));
+      return {
+        type: bill.bookingId ? bill.description || "Facility booking" : `Maintenance - ${bill.billingMonth}`,
+        amount: formatAmount(bill.amount - bill.amountPaid),
+        paidSoFar: bill.amountPaid,
+        creditApplied: bill.creditApplied,
+        dueDate: new Date(bill.dueDate).toLocaleDateString(),
+        status: new Date(bill.dueDate) < new Date() ? "overdue" : "pending",
+        penalties,
+        billId: bill.id,
+        invoiceNumber: bill.invoiceNumber,
+        gst: bill.cgstAmount + bill.sgstAmount,
+      };
+    });
+
+  const outstanding = bills
+    .filter(bill => !bill.isPaid)
+    .reduce((sum, bill) => sum + bill.amount - bill.amountPaid, 0);
+  // Leaving the amount empty pays everything outstanding
+  const amountToPay = customAmount ? Math.round(parseFloat(customAmount)) || 0 : outstanding;
+  const totalAmount = formatAmount(amountToPay);
+
+  const updateDetail = (field: string, value: string) => {
+    setPaymentDetails(prev => ({ ...prev, [field]: value }));
+  };
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const intentRes = await apiRequest("/api/payments/intents", "POST", {
+        method: paymentMethod,
+        amount: amountToPay,
+      });
+      const intent = (await intentRes.json()) as PaymentIntent;
+      // Card secrets stay in the browser; the gateway only needs the instrument identifiers
+      const { cvv, expiry, ...details } = paymentDetails;
+      const confirmRes = await apiRequest(`/api/payments/intents/${intent.id}/confirm`, "POST", { details });
+      return (await confirmRes.json()) as PaymentIntent;
+    },
+    onSuccess: (intent) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/billing/balance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+
+      if (intent.status === 'succeeded') {
+        setPaidAmount(intent.amount);
+        setCustomAmount("");
+        toast({
+          title: "Payment Successful",
+          description: `Successfully paid ${formatAmount(intent.amount)}`,
+        });
+      } else if (intent.status === 'failed') {
+        toast({
+          title: "Payment Failed",
+          description: intent.failureReason || "Your payment could not be completed",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Payment Processing",
+          description: "We will update your dues once the payment is confirmed",
+        });
+      }
+    },
+    onError: (error) => {
       toast({
-        title: "Payment Successful",
-        description: `Successfully paid ${totalAmount}`,
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
       });
-    }, 2000);
+    },
+  });
+
+  const processing = paymentMutation.isPending;
+
+  const handlePayment = () => {
+    paymentMutation.mutate();
   };
 
-  if (paymentSuccess) {
+  if (paidAmount !== null) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
         <Navbar />
@@ -59,14 +142,14 @@ export default function Payment() {
                   Payment Successful!
                 </h2>
                 <p className="text-muted-foreground mb-6">
-                  Your payment of {totalAmount} has been processed successfully.
+                  Your payment of {formatAmount(paidAmount)} has been processed successfully.
                 </p>
                 <div className="flex gap-4 justify-center">
                   <Button onClick={() => setLocation("/resident")} data-testid="button-back-to-dashboard">
                     Back to Dashboard
                   </Button>
-                  <Button variant="outline" data-testid="button-download-receipt">
-                    Download Receipt
+                  <Button variant="outline" onClick={() => setLocation("/payment-history")} data-testid="button-download-receipt">
+                    View Receipt
                   </Button>
                 </div>
               </CardContent>
@@ -121,6 +204,13 @@ export default function Payment() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
+                      {billsLoading ? (
+                        <div className="text-center text-muted-foreground">Loading dues...</div>
+                      ) : pendingDues.length === 0 && (
+                        <div className="text-center text-muted-foreground" data-testid="text-no-dues">
+                          No pending dues
+                        </div>
+                      )}
                       {pendingDues.map((due, index) => (
                         <div 
                           key={index} 
@@ -130,6 +220,32 @@ export default function Payment() {
                           <div>
                             <p className="font-medium text-foreground">{due.type}</p>
                             <p className="text-sm text-muted-foreground">Due: {due.dueDate}</p>
+                            {due.paidSoFar > 0 && (
+                              <p className="text-xs text-muted-foreground" data-testid={`text-paid-so-far-${index}`}>
+                                {formatAmount(due.paidSoFar)} already paid
+                                {due.creditApplied > 0 && ` (incl. ${formatAmount(due.creditApplied)} advance credit)`}
+                              </p>
+                            )}
+                            {due.gst > 0 && (
+                              <p className="text-xs text-muted-foreground" data-testid={`text-gst-${index}`}>
+                                incl. GST: {formatAmount(due.gst)}
+                              </p>
+                            )}
+                            {due.invoiceNumber && (
+                              <button
+                                type="button"
+                                className="text-xs text-primary underline"
+                                onClick={() => window.open(`${API_BASE_URL}/api/maintenance-bills/${due.billId}/invoice`, "_blank")}
+                                data-testid={`button-download-invoice-${index}`}
+                              >
+                                Invoice {due.invoiceNumber}
+                              </button>
+                            )}
+                            {due.penalties.map((penalty) => (
+                              <p key={penalty.id} className="text-xs text-destructive" data-testid={`text-penalty-${penalty.id}`}>
+                                incl. {penalty.description}: {formatAmount(penalty.amount)}
+                              </p>
+                            ))}
                           </div>
                           <div className="text-right">
                             <p className="text-lg font-semibold text-foreground">{due.amount}</p>
@@ -182,16 +298,35 @@ export default function Payment() {
                       <div className="mt-6 space-y-4">
                         <div>
                           <Label htmlFor="cardNumber">Card Number</Label>
-                          <Input id="cardNumber" placeholder="1234 5678 9012 3456" data-testid="input-card-number" />
+                          <Input
+                            id="cardNumber"
+                            placeholder="1234 5678 9012 3456"
+                            value={paymentDetails.cardNumber || ""}
+                            onChange={(e) => updateDetail("cardNumber", e.target.value)}
+                            data-testid="input-card-number"
+                          />
                         </div>
                         <div className="grid grid-cols-2 gap-4">
                           <div>
                             <Label htmlFor="expiry">Expiry Date</Label>
-                            <Input id="expiry" placeholder="MM/YY" data-testid="input-expiry" />
+                            <Input
+                              id="expiry"
+                              placeholder="MM/YY"
+                              value={paymentDetails.expiry || ""}
+                              onChange={(e) => updateDetail("expiry", e.target.value)}
+                              data-testid="input-expiry"
+                            />
                           </div>
                           <div>
                             <Label htmlFor="cvv">CVV</Label>
-                            <Input id="cvv" placeholder="123" type="password" data-testid="input-cvv" />
+                            <Input
+                              id="cvv"
+                              placeholder="123"
+                              type="password"
+                              value={paymentDetails.cvv || ""}
+                              onChange={(e) => updateDetail("cvv", e.target.value)}
+                              data-testid="input-cvv"
+                            />
                           </div>
                         </div>
                       </div>
@@ -200,14 +335,26 @@ export default function Payment() {
                     {paymentMethod === "upi" && (
                       <div className="mt-6">
                         <Label htmlFor="upiId">UPI ID</Label>
-                        <Input id="upiId" placeholder="yourname@upi" data-testid="input-upi-id" />
+                        <Input
+                          id="upiId"
+                          placeholder="yourname@upi"
+                          value={paymentDetails.upiId || ""}
+                          onChange={(e) => updateDetail("upiId", e.target.value)}
+                          data-testid="input-upi-id"
+                        />
                       </div>
                     )}
 
                     {paymentMethod === "netbanking" && (
                       <div className="mt-6">
                         <Label htmlFor="bank">Select Bank</Label>
-                        <Input id="bank" placeholder="Select your bank" data-testid="input-bank" />
+                        <Input
+                          id="bank"
+                          placeholder="Select your bank"
+                          value={paymentDetails.bank || ""}
+                          onChange={(e) => updateDetail("bank", e.target.value)}
+                          data-testid="input-bank"
+                        />
                       </div>
                     )}
                   </CardContent>
@@ -233,6 +380,33 @@ export default function Payment() {
                           <span className="text-foreground font-medium">{due.amount}</span>
                         </div>
                       ))}
+                      {balance && balance.credit > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">Advance credit</span>
+                          <span className="text-green-600 font-medium" data-testid="text-credit-balance">
+                            {formatAmount(balance.credit)}
+                          </span>
+                        </div>
+                      )}
+                      <div>
+                        <Label htmlFor="customAmount">Amount to pay (₹)</Label>
+                        <Input
+                          id="customAmount"
+                          type="number"
+                          min="1"
+                          placeholder={outstanding > 0 ? String(outstanding) : "Advance amount"}
+                          value={customAmount}
+                          onChange={(e) => setCustomAmount(e.target.value)}
+                          data-testid="input-custom-amount"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {amountToPay > outstanding
+                            ? `${formatAmount(amountToPay - outstanding)} will be kept as advance credit`
+                            : amountToPay < outstanding
+                              ? "Part payments settle the oldest bills first"
+                              : "Pays all outstanding dues"}
+                        </p>
+                      </div>
                       <div className="border-t pt-3 mt-3">
                         <div className="flex justify-between text-lg font-bold">
                           <span className="text-foreground">Total Amount</span>
@@ -243,7 +417,7 @@ export default function Payment() {
                     <Button 
                       className="w-full mt-6 bg-gradient-to-r from-primary to-accent"
                       onClick={handlePayment}
-                      disabled={processing}
+                      disabled={processing || amountToPay <= 0}
                       data-testid="button-pay-now"
                     >
                       {processing ? "Processing..." : `Pay ${totalAmount}`}
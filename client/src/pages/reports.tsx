@@ -7,11 +7,17 @@ import { Badge } from "@/components/ui/badge";
 import Navbar from "@/components/layout/navbar";
 import { TrendingUp, Users, IndianRupee, Calendar, Download, FileText, BarChart3, ArrowLeft } from "lucide-react";
 import { useLocation } from "wouter";
+import { ComplaintAnalyticsReport, formatDuration } from "@/components/admin/complaint-analytics";
+import type { ComplaintAnalytics } from "@shared/schema";
 
 export default function Reports() {
   const [, setLocation] = useLocation();
   const [selectedReport, setSelectedReport] = useState<string | null>(null);
 
+  const { data: complaintAnalytics } = useQuery<ComplaintAnalytics>({
+    queryKey: ["/api/reports/complaints/month"],
+  });
+
   const reportTypes = [
     {
       id: "financial",
@@ -35,7 +41,11 @@ export default function Reports() {
       description: "Complaints, resolutions, and pending maintenance",
       icon: FileText,
       color: "from-accent to-primary",
-      stats: { resolved: "45", pending: "12", avgTime: "3 days" }
+      stats: {
+        resolved: complaintAnalytics ? String(complaintAnalytics.resolved) : "...",
+        pending: complaintAnalytics ? String(complaintAnalytics.openNow) : "...",
+        avgTime: complaintAnalytics ? formatDuration(complaintAnalytics.meanResolutionHours) : "...",
+      }
     },
     {
       id: "facility",
@@ -144,12 +154,16 @@ export default function Reports() {
                   <CardTitle>Detailed {reportTypes.find(r => r.id === selectedReport)?.title}</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-center py-12">
-                    <TrendingUp className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-                    <p className="text-muted-foreground">
-                      Detailed report visualization would appear here with charts and tables
-                    </p>
-                  </div>
+                  {selectedReport === "maintenance" ? (
+                    <ComplaintAnalyticsReport />
+                  ) : (
+                    <div className="text-center py-12">
+                      <TrendingUp className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+                      <p className="text-muted-foreground">
+                        Detailed report visualization would appear here with charts and tables
+                      </p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </motion.div>
@@ -11,6 +11,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import Navbar from "@/components/layout/navbar";
 import ComplaintsForm from "@/components/features/complaints-form";
 import FacilityBooking from "@/components/features/facility-booking";
+import { ComplaintActivityDialog } from "@/components/features/complaint-activity-dialog";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { IndianRupee, AlertCircle, Calendar, Megaphone, CreditCard, UserCog, Vote, ShoppingBag } from "lucide-react";
 import type { SocietyStats, Complaint, Announcement } from "@shared/schema";
@@ -21,6 +22,7 @@ export default function ResidentDashboard() {
   const [, setLocation] = useLocation();
   const [showComplaintForm, setShowComplaintForm] = useState(false);
   const [showFacilityBooking, setShowFacilityBooking] = useState(false);
+  const [viewingComplaintId, setViewingComplaintId] = useState<string | null>(null);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -242,6 +244,59 @@ export default function ResidentDashboard() {
             </motion.div>
           </div>
           
+          {/* My Complaints */}
+          <motion.div
+            className="mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.65 }}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle>My Complaints</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3 max-h-80 overflow-y-auto">
+                  {complaintsLoading ? (
+                    <div className="text-center text-muted-foreground">Loading complaints...</div>
+                  ) : complaints && complaints.length > 0 ? (
+                    complaints.map((complaint, index) => (
+                      <button
+                        key={complaint.id}
+                        className="w-full flex items-center justify-between p-3 bg-muted rounded-lg text-left hover:bg-muted/70 transition-colors"
+                        onClick={() => setViewingComplaintId(complaint.id)}
+                        data-testid={`button-my-complaint-${index}`}
+                      >
+                        <div>
+                          <p className="font-medium text-foreground">{complaint.title}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {complaint.category} • {new Date(complaint.createdAt!).toLocaleDateString()}
+                          </p>
+                          {complaint.parentId ? (
+                            <p className="text-xs text-muted-foreground" data-testid={`text-complaint-merged-${index}`}>
+                              Merged with other reports of the same issue
+                            </p>
+                          ) : complaint.status === 'resolved' && (
+                            <p className="text-xs text-primary font-medium" data-testid={`text-confirm-complaint-${index}`}>
+                              Marked resolved — please confirm the fix or reopen
+                            </p>
+                          )}
+                        </div>
+                        <Badge variant={complaint.status === 'open' ? 'destructive' : complaint.status === 'in_progress' ? 'default' : 'secondary'}>
+                          {(complaint.status || 'open').replace('_', ' ')}
+                        </Badge>
+                      </button>
+                    ))
+                  ) : (
+                    <div className="text-center text-muted-foreground" data-testid="text-no-my-complaints">
+                      You have not raised any complaints
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </motion.div>
+
           {/* Service Modules */}
           <div className="grid lg:grid-cols-3 gap-6">
             {[
@@ -302,6 +357,12 @@ export default function ResidentDashboard() {
         </div>
       </div>
 
+      {/* Complaint Conversation & Timeline */}
+      <ComplaintActivityDialog
+        complaint={complaints?.find(complaint => complaint.id === viewingComplaintId) || null}
+        onClose={() => setViewingComplaintId(null)}
+      />
+
       {/* Complaint Form Modal */}
       <Dialog open={showComplaintForm} onOpenChange={setShowComplaintForm}>
         <DialogContent className="max-w-md">
@@ -0,0 +1,600 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Navbar from "@/components/layout/navbar";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation } from "wouter";
+import { ArrowLeft, PiggyBank, Plus, IndianRupee, Vote } from "lucide-react";
+import {
+  fundTypeLabels,
+  type Fund,
+  type FundStatement,
+  type FundWithBalance,
+  type FundWithdrawalWithPoll,
+  type Vendor,
+} from "@shared/schema";
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+function startOfFinancialYear() {
+  // Indian financial years run April to March
+  const today = new Date();
+  const year = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+  return `${year}-04-01`;
+}
+
+function withdrawalLabel(withdrawal: FundWithdrawalWithPoll): { label: string; variant: "default" | "secondary" | "destructive" | "outline" } {
+  if (withdrawal.status === 'disbursed') return { label: "disbursed", variant: "default" };
+  if (withdrawal.status === 'cancelled') return { label: "cancelled", variant: "outline" };
+  if (withdrawal.status === 'rejected' || withdrawal.outcome === 'rejected') return { label: "rejected", variant: "destructive" };
+  if (withdrawal.outcome === 'approved') return { label: "approved", variant: "secondary" };
+  return { label: "voting", variant: "outline" };
+}
+
+const emptyFund = {
+  name: "",
+  type: "sinking" as Fund["type"],
+  calculation: "fixed" as Fund["calculation"],
+  rate: "",
+};
+
+const emptyWithdrawal = {
+  fundId: "",
+  amount: "",
+  purpose: "",
+  vendorId: "",
+  votingDays: "7",
+};
+
+export default function SocietyFunds() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const [newFund, setNewFund] = useState(emptyFund);
+  const [newWithdrawal, setNewWithdrawal] = useState(emptyWithdrawal);
+  const [statementFundId, setStatementFundId] = useState("");
+  const [from, setFrom] = useState(startOfFinancialYear());
+  const [to, setTo] = useState(new Date().toISOString().slice(0, 10));
+
+  const { data: funds = [], isLoading: fundsLoading } = useQuery<FundWithBalance[]>({
+    queryKey: ["/api/funds"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: withdrawals = [] } = useQuery<FundWithdrawalWithPoll[]>({
+    queryKey: ["/api/funds/withdrawals"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const selectedStatementFundId = statementFundId || funds[0]?.id || "";
+  const { data: statement } = useQuery<FundStatement>({
+    queryKey: [`/api/funds/${selectedStatementFundId}/statement?from=${from}&to=${to}`],
+    enabled: isAuthenticated && user?.role === 'admin' && !!selectedStatementFundId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateFunds = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/funds"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/funds/withdrawals"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/funds/${selectedStatementFundId}/statement?from=${from}&to=${to}`] });
+  };
+
+  const createFundMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/funds", "POST", {
+        name: newFund.name,
+        type: newFund.type,
+        calculation: newFund.calculation,
+        // Rates are entered in rupees and stored in paise
+        rate: Math.round((parseFloat(newFund.rate) || 0) * 100),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Fund Created", description: `Contributions to ${newFund.name} will be added from the next billing run` });
+      setNewFund(emptyFund);
+      invalidateFunds();
+    },
+    onError,
+  });
+
+  const toggleFundMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return await apiRequest(`/api/funds/${id}`, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      invalidateFunds();
+    },
+    onError,
+  });
+
+  const requestWithdrawalMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/funds/${newWithdrawal.fundId}/withdrawals`, "POST", {
+        amount: Math.round(parseFloat(newWithdrawal.amount)),
+        purpose: newWithdrawal.purpose,
+        vendorId: newWithdrawal.vendorId || null,
+        votingDays: parseInt(newWithdrawal.votingDays) || 7,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Approval Poll Started", description: "Residents have been asked to vote on the withdrawal" });
+      setNewWithdrawal(emptyWithdrawal);
+      invalidateFunds();
+      queryClient.invalidateQueries({ queryKey: ["/api/polls"] });
+    },
+    onError,
+  });
+
+  const withdrawalActionMutation = useMutation({
+    mutationFn: async ({ id, action, data }: { id: string; action: "disburse" | "cancel"; data?: Record<string, string> }) => {
+      return await apiRequest(`/api/funds/withdrawals/${id}/${action}`, "POST", data || {});
+    },
+    onSuccess: () => {
+      invalidateFunds();
+      queryClient.invalidateQueries({ queryKey: ["/api/polls"] });
+    },
+    onError: (error: Error) => {
+      // A rejected poll closes the request on the server, so refresh either way
+      invalidateFunds();
+      onError(error);
+    },
+  });
+
+  const handleDisburse = (withdrawal: FundWithdrawalWithPoll) => {
+    const paymentReference = window.prompt(`Cheque number or UTR for paying ${formatAmount(withdrawal.amount)} (optional)`);
+    if (paymentReference !== null) {
+      withdrawalActionMutation.mutate({
+        id: withdrawal.id,
+        action: "disburse",
+        data: paymentReference ? { paymentReference } : {},
+      });
+    }
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Navbar />
+
+      <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            className="flex items-center gap-4 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <Button
+              variant="ghost"
+              onClick={() => setLocation("/admin")}
+              className="flex items-center gap-2"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-2" data-testid="text-funds-title">
+                <PiggyBank className="h-8 w-8 text-primary" />
+                Society Funds
+              </h1>
+              <p className="text-muted-foreground mt-2">Collect sinking and reserve funds with each bill and spend them only with residents' approval</p>
+            </div>
+          </motion.div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Funds</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {fundsLoading ? (
+                  <div className="text-center text-muted-foreground">Loading funds...</div>
+                ) : funds.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-funds">
+                    No funds set up yet
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Fund</TableHead>
+                        <TableHead>Contribution</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                        <TableHead>Active</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {funds.map((fund) => (
+                        <TableRow key={fund.id} data-testid={`row-fund-${fund.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{fund.name}</div>
+                            <div className="text-xs text-muted-foreground">{fundTypeLabels[fund.type]}</div>
+                          </TableCell>
+                          <TableCell>
+                            {fund.rate > 0
+                              ? `₹${(fund.rate / 100).toFixed(2)}${fund.calculation === 'per_sqft' ? " / sq ft" : " / flat"}`
+                              : "None"}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold" data-testid={`text-fund-balance-${fund.id}`}>
+                            {formatAmount(fund.balance)}
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={fund.isActive}
+                              onCheckedChange={(isActive) => toggleFundMutation.mutate({ id: fund.id, isActive })}
+                              data-testid={`switch-fund-${fund.id}`}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <div className="border-t pt-4 grid grid-cols-2 gap-3">
+                  <div className="col-span-2">
+                    <Label htmlFor="fund-name">Name</Label>
+                    <Input
+                      id="fund-name"
+                      placeholder="e.g. Sinking Fund"
+                      value={newFund.name}
+                      onChange={(e) => setNewFund({ ...newFund, name: e.target.value })}
+                      data-testid="input-fund-name"
+                    />
+                  </div>
+                  <div>
+                    <Label>Type</Label>
+                    <Select
+                      value={newFund.type}
+                      onValueChange={(value) => setNewFund({ ...newFund, type: value as Fund["type"] })}
+                    >
+                      <SelectTrigger data-testid="select-fund-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(fundTypeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Contribution</Label>
+                    <Select
+                      value={newFund.calculation}
+                      onValueChange={(value) => setNewFund({ ...newFund, calculation: value as Fund["calculation"] })}
+                    >
+                      <SelectTrigger data-testid="select-fund-calculation">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fixed">Fixed per flat</SelectItem>
+                        <SelectItem value="per_sqft">Per sq ft</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    <Label htmlFor="fund-rate">Rate per bill (₹)</Label>
+                    <Input
+                      id="fund-rate"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={newFund.calculation === 'per_sqft' ? "e.g. 0.50" : "e.g. 250"}
+                      value={newFund.rate}
+                      onChange={(e) => setNewFund({ ...newFund, rate: e.target.value })}
+                      data-testid="input-fund-rate"
+                    />
+                  </div>
+                  <Button
+                    className="col-span-2"
+                    onClick={() => createFundMutation.mutate()}
+                    disabled={!newFund.name || createFundMutation.isPending}
+                    data-testid="button-add-fund"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    {createFundMutation.isPending ? "Creating..." : "Create Fund"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Request Withdrawal</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Fund</Label>
+                  <Select
+                    value={newWithdrawal.fundId}
+                    onValueChange={(value) => setNewWithdrawal({ ...newWithdrawal, fundId: value })}
+                  >
+                    <SelectTrigger data-testid="select-withdrawal-fund">
+                      <SelectValue placeholder="Select fund" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {funds.map((fund) => (
+                        <SelectItem key={fund.id} value={fund.id}>{fund.name} ({formatAmount(fund.balance)})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Vendor</Label>
+                  <Select
+                    value={newWithdrawal.vendorId || "none"}
+                    onValueChange={(value) => setNewWithdrawal({ ...newWithdrawal, vendorId: value === "none" ? "" : value })}
+                  >
+                    <SelectTrigger data-testid="select-withdrawal-vendor">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No vendor</SelectItem>
+                      {vendors.filter(vendor => vendor.isActive).map((vendor) => (
+                        <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="withdrawal-purpose">Purpose</Label>
+                  <Input
+                    id="withdrawal-purpose"
+                    placeholder="e.g. Terrace waterproofing"
+                    value={newWithdrawal.purpose}
+                    onChange={(e) => setNewWithdrawal({ ...newWithdrawal, purpose: e.target.value })}
+                    data-testid="input-withdrawal-purpose"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="withdrawal-amount">Amount (₹)</Label>
+                  <Input
+                    id="withdrawal-amount"
+                    type="number"
+                    min="1"
+                    value={newWithdrawal.amount}
+                    onChange={(e) => setNewWithdrawal({ ...newWithdrawal, amount: e.target.value })}
+                    data-testid="input-withdrawal-amount"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="withdrawal-voting-days">Voting Days</Label>
+                  <Input
+                    id="withdrawal-voting-days"
+                    type="number"
+                    min="1"
+                    max="60"
+                    value={newWithdrawal.votingDays}
+                    onChange={(e) => setNewWithdrawal({ ...newWithdrawal, votingDays: e.target.value })}
+                    data-testid="input-withdrawal-voting-days"
+                  />
+                </div>
+                <p className="col-span-2 text-sm text-muted-foreground">
+                  A poll is opened for residents. The money can be paid out once the poll ends with more approvals than rejections.
+                </p>
+                <Button
+                  className="col-span-2"
+                  onClick={() => requestWithdrawalMutation.mutate()}
+                  disabled={
+                    !newWithdrawal.fundId ||
+                    !newWithdrawal.amount ||
+                    !newWithdrawal.purpose ||
+                    requestWithdrawalMutation.isPending
+                  }
+                  data-testid="button-request-withdrawal"
+                >
+                  <Vote className="h-4 w-4 mr-2" />
+                  {requestWithdrawalMutation.isPending ? "Starting Poll..." : "Start Approval Poll"}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Withdrawals</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {withdrawals.length === 0 ? (
+                <div className="text-center text-muted-foreground" data-testid="text-no-withdrawals">
+                  No withdrawals requested yet
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Withdrawal</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Votes</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {withdrawals.map((withdrawal) => {
+                      const { label, variant } = withdrawalLabel(withdrawal);
+                      return (
+                        <TableRow key={withdrawal.id} data-testid={`row-withdrawal-${withdrawal.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{withdrawal.purpose}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {withdrawal.fundName}{withdrawal.vendorName ? ` • ${withdrawal.vendorName}` : ""}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">{formatAmount(withdrawal.amount)}</TableCell>
+                          <TableCell>
+                            <div className="text-sm" data-testid={`text-withdrawal-votes-${withdrawal.id}`}>
+                              {withdrawal.approveVotes} approve • {withdrawal.rejectVotes} reject
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {withdrawal.outcome === 'open' ? "Ends" : "Ended"} {new Date(withdrawal.pollEndDate).toLocaleDateString()}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={variant}>{label}</Badge>
+                            {withdrawal.disbursedAt && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                Paid {new Date(withdrawal.disbursedAt).toLocaleDateString()}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {withdrawal.status === 'pending' && withdrawal.outcome === 'approved' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDisburse(withdrawal)}
+                                data-testid={`button-disburse-withdrawal-${withdrawal.id}`}
+                              >
+                                <IndianRupee className="h-4 w-4 mr-1" />
+                                Disburse
+                              </Button>
+                            )}
+                            {withdrawal.status === 'pending' && withdrawal.outcome !== 'approved' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  if (window.confirm(`Cancel the withdrawal for "${withdrawal.purpose}"?`)) {
+                                    withdrawalActionMutation.mutate({ id: withdrawal.id, action: "cancel" });
+                                  }
+                                }}
+                                data-testid={`button-cancel-withdrawal-${withdrawal.id}`}
+                              >
+                                Cancel
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-4">
+              <CardTitle>Fund Statement</CardTitle>
+              <div className="flex gap-3">
+                <div>
+                  <Label>Fund</Label>
+                  <Select value={selectedStatementFundId} onValueChange={setStatementFundId}>
+                    <SelectTrigger className="w-48" data-testid="select-statement-fund">
+                      <SelectValue placeholder="Select fund" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {funds.map((fund) => (
+                        <SelectItem key={fund.id} value={fund.id}>{fund.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="statement-from">From</Label>
+                  <Input
+                    id="statement-from"
+                    type="date"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    data-testid="input-statement-from"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="statement-to">To</Label>
+                  <Input
+                    id="statement-to"
+                    type="date"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    data-testid="input-statement-to"
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!statement ? (
+                <div className="text-center text-muted-foreground" data-testid="text-no-statement">
+                  Select a fund to see its statement
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Particulars</TableHead>
+                      <TableHead className="text-right">Contribution</TableHead>
+                      <TableHead className="text-right">Withdrawal</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow className="bg-muted/50">
+                      <TableCell colSpan={4} className="font-medium">Opening balance</TableCell>
+                      <TableCell className="text-right" data-testid="text-statement-opening">
+                        {formatAmount(statement.openingBalance)}
+                      </TableCell>
+                    </TableRow>
+                    {statement.entries.map((entry) => (
+                      <TableRow key={entry.entryId} data-testid={`row-statement-${entry.entryId}`}>
+                        <TableCell className="whitespace-nowrap">{new Date(entry.date).toLocaleDateString()}</TableCell>
+                        <TableCell>{entry.description}</TableCell>
+                        <TableCell className="text-right">{entry.contribution ? formatAmount(entry.contribution) : "—"}</TableCell>
+                        <TableCell className="text-right">{entry.withdrawal ? formatAmount(entry.withdrawal) : "—"}</TableCell>
+                        <TableCell className="text-right">{formatAmount(entry.balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={2}>Closing balance</TableCell>
+                      <TableCell className="text-right">{formatAmount(statement.totalContributions)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(statement.totalWithdrawals)}</TableCell>
+                      <TableCell className="text-right" data-testid="text-statement-closing">
+                        {formatAmount(statement.closingBalance)}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Navbar from "@/components/layout/navbar";
+import { useAuth } from "@/hooks/useAuth";
+import { ComplaintActivityDialog } from "@/components/features/complaint-activity-dialog";
+import { ClipboardList, Play, CheckCircle, MessageSquare } from "lucide-react";
+import type { Complaint } from "@shared/schema";
+
+const statusVariants: Record<NonNullable<Complaint["status"]>, "default" | "secondary" | "destructive" | "outline"> = {
+  open: "destructive",
+  in_progress: "default",
+  resolved: "secondary",
+  closed: "outline",
+};
+
+export default function StaffDashboard() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  const { data: complaints = [], isLoading: complaintsLoading } = useQuery<Complaint[]>({
+    queryKey: ["/api/complaints"],
+    enabled: isAuthenticated && user?.role === 'staff',
+  });
+
+  const activeComplaints = complaints.filter(complaint => complaint.status === 'open' || complaint.status === 'in_progress');
+  const finishedComplaints = complaints.filter(complaint => complaint.status === 'resolved' || complaint.status === 'closed');
+  const viewingComplaint = complaints.find(complaint => complaint.id === viewingId) || null;
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status, resolutionNotes }: { id: string; status: 'in_progress' | 'resolved'; resolutionNotes?: string }) => {
+      return await apiRequest(`/api/complaints/${id}/status`, "PATCH", { status, resolutionNotes });
+    },
+    onSuccess: (_data, { status }) => {
+      toast({
+        title: status === 'resolved' ? "Marked Resolved" : "Work Started",
+        description: status === 'resolved' ? "The resident will be asked to confirm the fix" : "The complaint is now in progress",
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/complaints"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleResolve = (complaint: Complaint) => {
+    const resolutionNotes = window.prompt(`What was done to fix "${complaint.title}"?`);
+    if (resolutionNotes) {
+      statusMutation.mutate({ id: complaint.id, status: 'resolved', resolutionNotes });
+    }
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Navbar />
+
+      <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+        <div className="max-w-5xl mx-auto">
+          <motion.div
+            className="mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-2" data-testid="text-staff-dashboard">
+              <ClipboardList className="h-8 w-8 text-primary" />
+              My Work Queue
+            </h1>
+            <p className="text-muted-foreground mt-2">Complaints assigned to you, oldest first</p>
+          </motion.div>
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Assigned to Me ({activeComplaints.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {complaintsLoading ? (
+                <div className="text-center text-muted-foreground">Loading complaints...</div>
+              ) : activeComplaints.length === 0 ? (
+                <div className="text-center text-muted-foreground" data-testid="text-no-assigned-complaints">
+                  Nothing assigned to you right now
+                </div>
+              ) : (
+                activeComplaints.map((complaint) => (
+                  <div key={complaint.id} className="p-4 bg-muted rounded-lg space-y-2" data-testid={`card-queue-complaint-${complaint.id}`}>
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="font-medium text-foreground">{complaint.title}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {complaint.category} • {complaint.priority} priority • raised {new Date(complaint.createdAt!).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Badge variant={statusVariants[complaint.status || 'open']}>
+                        {(complaint.status || 'open').replace('_', ' ')}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-foreground">{complaint.description}</p>
+                    <div className="flex gap-2">
+                      {complaint.status === 'open' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => statusMutation.mutate({ id: complaint.id, status: 'in_progress' })}
+                          disabled={statusMutation.isPending}
+                          data-testid={`button-start-complaint-${complaint.id}`}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Start Work
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        onClick={() => handleResolve(complaint)}
+                        disabled={statusMutation.isPending}
+                        data-testid={`button-resolve-complaint-${complaint.id}`}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Mark Resolved
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setViewingId(complaint.id)}
+                        data-testid={`button-complaint-activity-${complaint.id}`}
+                      >
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        Discuss
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {finishedComplaints.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Completed</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {finishedComplaints.map((complaint) => (
+                  <div key={complaint.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                    <div>
+                      <p className="font-medium text-foreground">{complaint.title}</p>
+                      {complaint.resolutionNotes && (
+                        <p className="text-sm text-muted-foreground">{complaint.resolutionNotes}</p>
+                      )}
+                    </div>
+                    <Badge variant={statusVariants[complaint.status || 'open']}>
+                      {(complaint.status || 'open').replace('_', ' ')}
+                    </Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <ComplaintActivityDialog complaint={viewingComplaint} onClose={() => setViewingId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Navbar from "@/components/layout/navbar";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation } from "wouter";
+import { ArrowLeft, HardHat, Plus, KeyRound } from "lucide-react";
+import type { ComplaintAssignee, ComplaintAssigneeType, ComplaintWorkloadSummary } from "@shared/schema";
+
+const emptyAssignee = {
+  type: "staff" as ComplaintAssigneeType,
+  name: "",
+  role: "",
+  phone: "",
+  email: "",
+};
+
+// Whole days since the given date, for the age of the oldest open complaint
+const formatAge = (date: string | null) => {
+  if (!date) return "—";
+  const days = Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000));
+  return days === 0 ? "Today" : `${days} day${days === 1 ? "" : "s"}`;
+};
+
+export default function StaffManagement() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const [newAssignee, setNewAssignee] = useState(emptyAssignee);
+  const [loginFor, setLoginFor] = useState<ComplaintAssignee | null>(null);
+  const [login, setLogin] = useState({ email: "", password: "" });
+
+  const { data: assignees = [], isLoading: assigneesLoading } = useQuery<ComplaintAssignee[]>({
+    queryKey: ["/api/complaint-assignees"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const { data: workload } = useQuery<ComplaintWorkloadSummary>({
+    queryKey: ["/api/complaints/workload"],
+    enabled: isAuthenticated && user?.role === 'admin',
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateAssignees = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/complaint-assignees"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/complaints/workload"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+  };
+
+  const createAssigneeMutation = useMutation({
+    mutationFn: async () => {
+      const contact = {
+        name: newAssignee.name,
+        phone: newAssignee.phone || null,
+        email: newAssignee.email || null,
+      };
+      return newAssignee.type === "staff"
+        ? await apiRequest("/api/staff", "POST", { ...contact, designation: newAssignee.role || null })
+        : await apiRequest("/api/vendors", "POST", { ...contact, service: newAssignee.role || null });
+    },
+    onSuccess: () => {
+      toast({ title: "Assignee Added", description: `Complaints can now be assigned to ${newAssignee.name}` });
+      setNewAssignee(emptyAssignee);
+      invalidateAssignees();
+    },
+    onError,
+  });
+
+  const toggleAssigneeMutation = useMutation({
+    mutationFn: async ({ assignee, isActive }: { assignee: ComplaintAssignee; isActive: boolean }) => {
+      const url = assignee.type === "staff" ? `/api/staff/${assignee.id}` : `/api/vendors/${assignee.id}`;
+      return await apiRequest(url, "PATCH", { isActive });
+    },
+    onSuccess: () => {
+      invalidateAssignees();
+    },
+    onError,
+  });
+
+  const createLoginMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/complaint-assignees/${loginFor!.type}/${loginFor!.id}/login`, "POST", login);
+    },
+    onSuccess: () => {
+      toast({ title: "Login Created", description: `${loginFor?.name} can now sign in to work their complaints` });
+      setLoginFor(null);
+      setLogin({ email: "", password: "" });
+      invalidateAssignees();
+    },
+    onError,
+  });
+
+  const openLoginDialog = (assignee: ComplaintAssignee) => {
+    setLogin({ email: assignee.email || "", password: "" });
+    setLoginFor(assignee);
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <Navbar />
+
+      <div className="pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            className="flex items-center gap-4 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <Button
+              variant="ghost"
+              onClick={() => setLocation("/admin")}
+              className="flex items-center gap-2"
+              data-testid="button-back"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-2" data-testid="text-staff-title">
+                <HardHat className="h-8 w-8 text-primary" />
+                Staff & Vendors
+              </h1>
+              <p className="text-muted-foreground mt-2">Register the people who handle complaints and track their workload</p>
+            </div>
+          </motion.div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Add Staff or Vendor</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-3">
+                <div className="col-span-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={newAssignee.type}
+                    onValueChange={(value) => setNewAssignee({ ...newAssignee, type: value as ComplaintAssigneeType })}
+                  >
+                    <SelectTrigger data-testid="select-assignee-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="staff">Society staff</SelectItem>
+                      <SelectItem value="vendor">Vendor</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="assignee-name">Name</Label>
+                  <Input
+                    id="assignee-name"
+                    value={newAssignee.name}
+                    onChange={(e) => setNewAssignee({ ...newAssignee, name: e.target.value })}
+                    data-testid="input-assignee-name"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="assignee-role">{newAssignee.type === "staff" ? "Designation" : "Service"}</Label>
+                  <Input
+                    id="assignee-role"
+                    placeholder={newAssignee.type === "staff" ? "e.g. Plumber" : "e.g. Lift maintenance"}
+                    value={newAssignee.role}
+                    onChange={(e) => setNewAssignee({ ...newAssignee, role: e.target.value })}
+                    data-testid="input-assignee-role"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="assignee-phone">Phone</Label>
+                  <Input
+                    id="assignee-phone"
+                    value={newAssignee.phone}
+                    onChange={(e) => setNewAssignee({ ...newAssignee, phone: e.target.value })}
+                    data-testid="input-assignee-phone"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="assignee-email">Email</Label>
+                  <Input
+                    id="assignee-email"
+                    type="email"
+                    value={newAssignee.email}
+                    onChange={(e) => setNewAssignee({ ...newAssignee, email: e.target.value })}
+                    data-testid="input-assignee-email"
+                  />
+                </div>
+                <Button
+                  className="col-span-2"
+                  onClick={() => createAssigneeMutation.mutate()}
+                  disabled={!newAssignee.name || createAssigneeMutation.isPending}
+                  data-testid="button-add-assignee"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {createAssigneeMutation.isPending ? "Adding..." : "Add"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Workload</CardTitle>
+                {workload && (
+                  <div className="text-sm text-muted-foreground" data-testid="text-unassigned-complaints">
+                    {workload.unassignedCount} unassigned
+                    {workload.oldestUnassignedAt && ` • oldest ${formatAge(workload.oldestUnassignedAt)}`}
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent>
+                {!workload || workload.assignees.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-workload">
+                    No staff or vendors to show yet
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Assignee</TableHead>
+                        <TableHead className="text-right">Open</TableHead>
+                        <TableHead className="text-right">In Progress</TableHead>
+                        <TableHead className="text-right">Oldest</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {workload.assignees.map((row) => (
+                        <TableRow key={`${row.type}:${row.id}`} data-testid={`row-workload-${row.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{row.name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {row.type === "staff" ? "Staff" : "Vendor"}{row.isActive ? "" : " • inactive"}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{row.openCount}</TableCell>
+                          <TableCell className="text-right">{row.inProgressCount}</TableCell>
+                          <TableCell className="text-right">{formatAge(row.oldestOpenAt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Staff & Vendors</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {assigneesLoading ? (
+                <div className="text-center text-muted-foreground">Loading staff...</div>
+              ) : assignees.length === 0 ? (
+                <div className="text-center text-muted-foreground" data-testid="text-no-assignees">
+                  No staff or vendors added yet
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Queue Login</TableHead>
+                      <TableHead>Active</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {assignees.map((assignee) => (
+                      <TableRow key={`${assignee.type}:${assignee.id}`} data-testid={`row-assignee-${assignee.id}`}>
+                        <TableCell>
+                          <div className="font-medium">{assignee.name}</div>
+                          {assignee.role && <div className="text-xs text-muted-foreground">{assignee.role}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={assignee.type === "staff" ? "default" : "secondary"}>
+                            {assignee.type === "staff" ? "Staff" : "Vendor"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div>{assignee.phone}</div>
+                          <div className="text-xs text-muted-foreground">{assignee.email}</div>
+                        </TableCell>
+                        <TableCell>
+                          {assignee.hasLogin ? (
+                            <Badge variant="outline" data-testid={`badge-assignee-login-${assignee.id}`}>Enabled</Badge>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openLoginDialog(assignee)}
+                              data-testid={`button-create-login-${assignee.id}`}
+                            >
+                              <KeyRound className="h-4 w-4 mr-1" />
+                              Create Login
+                            </Button>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={assignee.isActive}
+                            onCheckedChange={(isActive) => toggleAssigneeMutation.mutate({ assignee, isActive })}
+                            data-testid={`switch-assignee-${assignee.id}`}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={loginFor !== null} onOpenChange={(open) => !open && setLoginFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Queue Login</DialogTitle>
+          </DialogHeader>
+          {loginFor && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {loginFor.name} will sign in with these details to see the complaints assigned to them and update their status.
+              </p>
+              <div>
+                <Label htmlFor="login-email">Email</Label>
+                <Input
+                  id="login-email"
+                  type="email"
+                  value={login.email}
+                  onChange={(e) => setLogin({ ...login, email: e.target.value })}
+                  data-testid="input-login-email"
+                />
+              </div>
+              <div>
+                <Label htmlFor="login-password">Password</Label>
+                <Input
+                  id="login-password"
+                  type="password"
+                  value={login.password}
+                  onChange={(e) => setLogin({ ...login, password: e.target.value })}
+                  data-testid="input-login-password"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLoginFor(null)} data-testid="button-cancel-login">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createLoginMutation.mutate()}
+              disabled={!login.email || login.password.length < 6 || createLoginMutation.isPending}
+              data-testid="button-confirm-login"
+            >
+              {createLoginMutation.isPending ? "Creating..." : "Create Login"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -9,13 +9,14 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import Navbar from "@/components/layout/navbar";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Building, Users, TrendingUp, Server, PlusCircle, ShieldQuestion, Settings, Database } from "lucide-react";
+import { Building, Users, TrendingUp, Server, PlusCircle, ShieldQuestion, Settings, Database, Timer } from "lucide-react";
 import { CreateSocietyModal } from "@/components/admin/create-society-modal";
 import { SocietiesManagement } from "@/components/admin/societies-management";
 import { AdminManagementModal } from "@/components/admin/admin-management-modal";
 import { SystemSettingsModal } from "@/components/admin/system-settings-modal";
 import { BackupRestoreModal } from "@/components/admin/backup-restore-modal";
-import type { GlobalStats, Society } from "@shared/schema";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { GlobalStats, Society, SocietySlaCompliance } from "@shared/schema";
 
 export default function SuperAdminDashboard() {
   const [currentView, setCurrentView] = useState<'dashboard' | 'societies' | 'analytics' | 'plans'>('dashboard');
@@ -50,6 +51,12 @@ export default function SuperAdminDashboard() {
     retry: false,
   });
 
+  const { data: slaCompliance, isLoading: slaLoading } = useQuery<SocietySlaCompliance[]>({
+    queryKey: ["/api/sla-compliance"],
+    enabled: isAuthenticated && user?.role === 'super_admin',
+    retry: false,
+  });
+
   if (isLoading || !isAuthenticated) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
@@ -268,6 +275,61 @@ export default function SuperAdminDashboard() {
             </motion.div>
           </div>
           
+          {/* SLA Compliance */}
+          <motion.div
+            className="mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.7 }}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Timer className="h-5 w-5 text-primary" />
+                  Complaint SLA Compliance
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {slaLoading ? (
+                  <div className="text-center text-muted-foreground">Loading compliance...</div>
+                ) : !slaCompliance || slaCompliance.length === 0 ? (
+                  <div className="text-center text-muted-foreground" data-testid="text-no-sla-compliance">
+                    No societies found
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Society</TableHead>
+                        <TableHead className="text-right">First Response</TableHead>
+                        <TableHead className="text-right">Resolution</TableHead>
+                        <TableHead className="text-right">Open Breaches</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {slaCompliance.map((row) => (
+                        <TableRow key={row.societyId} data-testid={`row-sla-compliance-${row.societyId}`}>
+                          <TableCell className="font-medium">{row.societyName}</TableCell>
+                          <TableCell className="text-right">
+                            {row.firstResponseRate === null ? "—" : `${row.firstResponseRate}%`}
+                            <span className="text-xs text-muted-foreground ml-1">({row.firstResponseMet}/{row.firstResponseTracked})</span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.resolutionRate === null ? "—" : `${row.resolutionRate}%`}
+                            <span className="text-xs text-muted-foreground ml-1">({row.resolutionMet}/{row.resolutionTracked})</span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant={row.openBreaches > 0 ? "destructive" : "secondary"}>{row.openBreaches}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+          
           {/* System Modules */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {[
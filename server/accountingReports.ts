@@ -0,0 +1,92 @@
+import type { AccountBalance, BalanceSheet, IncomeExpenditureStatement, LedgerAccount, TrialBalance } from "@shared/schema";
+import { storage } from "./storage";
+import { ensureChartOfAccounts } from "./ledger";
+
+// Assets and expenses grow with debits; liabilities, equity and income grow with credits
+function isDebitNormal(type: LedgerAccount["type"]): boolean {
+  return type === 'asset' || type === 'expense';
+}
+
+async function getAccountBalances(societyId: string, from: Date | null, to: Date): Promise<AccountBalance[]> {
+  await ensureChartOfAccounts(societyId);
+  const [accounts, totals] = await Promise.all([
+    storage.getLedgerAccounts(societyId),
+    storage.getAccountTotals(societyId, from, to),
+  ]);
+
+  return accounts.map(account => {
+    const total = totals.find(row => row.accountId === account.id);
+    const debit = total?.debit || 0;
+    const credit = total?.credit || 0;
+    return {
+      accountId: account.id,
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      debit,
+      credit,
+      balance: isDebitNormal(account.type) ? debit - credit : credit - debit,
+    };
+  });
+}
+
+function sumBalances(accounts: AccountBalance[]): number {
+  return accounts.reduce((sum, account) => sum + account.balance, 0);
+}
+
+export async function buildTrialBalance(societyId: string, from: Date | null, to: Date): Promise<TrialBalance> {
+  const balances = await getAccountBalances(societyId, from, to);
+
+  // Each account appears once, on the side its net balance falls
+  const accounts = balances.map(account => {
+    const net = account.debit - account.credit;
+    return { ...account, debit: Math.max(net, 0), credit: Math.max(-net, 0) };
+  });
+
+  return {
+    from: from ? from.toISOString() : null,
+    to: to.toISOString(),
+    accounts,
+    totalDebit: accounts.reduce((sum, account) => sum + account.debit, 0),
+    totalCredit: accounts.reduce((sum, account) => sum + account.credit, 0),
+  };
+}
+
+export async function buildIncomeExpenditure(societyId: string, from: Date | null, to: Date): Promise<IncomeExpenditureStatement> {
+  const balances = await getAccountBalances(societyId, from, to);
+  const income = balances.filter(account => account.type === 'income');
+  const expenditure = balances.filter(account => account.type === 'expense');
+  const totalIncome = sumBalances(income);
+  const totalExpenditure = sumBalances(expenditure);
+
+  return {
+    from: from ? from.toISOString() : null,
+    to: to.toISOString(),
+    income,
+    expenditure,
+    totalIncome,
+    totalExpenditure,
+    surplus: totalIncome - totalExpenditure,
+  };
+}
+
+export async function buildBalanceSheet(societyId: string, asOf: Date): Promise<BalanceSheet> {
+  const balances = await getAccountBalances(societyId, null, asOf);
+  const assets = balances.filter(account => account.type === 'asset');
+  const liabilities = balances.filter(account => account.type === 'liability');
+  const equity = balances.filter(account => account.type === 'equity');
+  const accumulatedSurplus =
+    sumBalances(balances.filter(account => account.type === 'income')) -
+    sumBalances(balances.filter(account => account.type === 'expense'));
+
+  return {
+    asOf: asOf.toISOString(),
+    assets,
+    liabilities,
+    equity,
+    accumulatedSurplus,
+    totalAssets: sumBalances(assets),
+    totalLiabilities: sumBalances(liabilities),
+    totalEquity: sumBalances(equity) + accumulatedSurplus,
+  };
+}
@@ -0,0 +1,107 @@
+import type { ChargeHead, Flat, Fund, TaxSettings, BillPreview, BillPreviewLine } from "@shared/schema";
+import { computeGst, formatGstRate } from "./tax";
+
+// Billing months are stored as "YYYY-MM"
+const BILLING_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Bills fall due on this day of the billing month unless the admin picks a date
+const DEFAULT_DUE_DAY = 10;
+
+export function isValidBillingMonth(billingMonth: string): boolean {
+  return BILLING_MONTH_PATTERN.test(billingMonth);
+}
+
+export function getDefaultDueDate(billingMonth: string): Date {
+  const [year, month] = billingMonth.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, DEFAULT_DUE_DAY));
+}
+
+// Charge heads and fund contributions share the same fixed or per sq ft rate rule
+function computeRateAmount(
+  flat: Flat,
+  rule: { name: string; calculation: ChargeHead["calculation"]; rate: number },
+  warnings: string[],
+): { description: string; amount: number } | null {
+  if (rule.calculation === 'per_sqft') {
+    if (!flat.area) {
+      warnings.push(`${rule.name} skipped: flat ${flat.flatNumber} has no area set`);
+      return null;
+    }
+    return {
+      description: `${rule.name} (${flat.area} sq ft @ ₹${(rule.rate / 100).toFixed(2)})`,
+      amount: Math.round((rule.rate * flat.area) / 100),
+    };
+  }
+  return { description: rule.name, amount: Math.round(rule.rate / 100) };
+}
+
+export function computeFlatCharges(
+  flat: Flat,
+  heads: ChargeHead[],
+  funds: Fund[],
+  tax: TaxSettings | undefined,
+): { lineItems: BillPreviewLine[]; warnings: string[]; taxableAmount: number; cgstAmount: number; sgstAmount: number } {
+  const lineItems: BillPreviewLine[] = [];
+  const warnings: string[] = [];
+  let taxableCharges = 0;
+
+  for (const head of heads) {
+    if (!head.isActive) continue;
+
+    const line = computeRateAmount(flat, head, warnings);
+    if (line) {
+      lineItems.push({ kind: 'charge', chargeHeadId: head.id, fundId: null, ...line });
+      if (head.isTaxable) taxableCharges += line.amount;
+    }
+  }
+
+  for (const fund of funds) {
+    if (!fund.isActive || fund.rate <= 0) continue;
+
+    const line = computeRateAmount(flat, { ...fund, name: `${fund.name} contribution` }, warnings);
+    if (line) {
+      lineItems.push({ kind: 'fund_contribution', chargeHeadId: null, fundId: fund.id, ...line });
+      // Fund contributions are part of the member's contribution for GST
+      taxableCharges += line.amount;
+    }
+  }
+
+  const gst = computeGst(taxableCharges, tax);
+  if (gst.cgstAmount > 0) {
+    const halfRate = formatGstRate(tax!.gstRate / 2);
+    lineItems.push({ kind: 'cgst', chargeHeadId: null, fundId: null, description: `CGST @ ${halfRate}`, amount: gst.cgstAmount });
+    lineItems.push({ kind: 'sgst', chargeHeadId: null, fundId: null, description: `SGST @ ${halfRate}`, amount: gst.sgstAmount });
+  }
+
+  return { lineItems, warnings, ...gst };
+}
+
+export function buildBillPreviews(
+  flats: Flat[],
+  heads: ChargeHead[],
+  funds: Fund[],
+  tax: TaxSettings | undefined,
+  billingMonth: string,
+  dueDate: Date,
+  billedFlatIds: Set<string>,
+): BillPreview[] {
+  return flats
+    .filter((flat) => flat.isOccupied && flat.residentId)
+    .map((flat) => {
+      const { lineItems, warnings, taxableAmount, cgstAmount, sgstAmount } = computeFlatCharges(flat, heads, funds, tax);
+      return {
+        flatId: flat.id,
+        flatNumber: flat.flatNumber,
+        residentId: flat.residentId!,
+        billingMonth,
+        dueDate: dueDate.toISOString(),
+        amount: lineItems.reduce((sum, item) => sum + item.amount, 0),
+        taxableAmount,
+        cgstAmount,
+        sgstAmount,
+        lineItems,
+        warnings,
+        alreadyBilled: billedFlatIds.has(flat.id),
+      };
+    });
+}
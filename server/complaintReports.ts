@@ -0,0 +1,171 @@
+import type { Complaint, ComplaintAnalytics, ComplaintBacklogPoint, ComplaintBreakdownRow, ComplaintHotspot } from "@shared/schema";
+import { storage } from "./storage";
+import { getComplaintAssignees, isComplaintOpen } from "./complaints";
+import { getPeriodRange } from "./financialReports";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A place only counts as a hotspot once it has had more than one complaint in the period
+const HOTSPOT_MIN_COMPLAINTS = 2;
+const HOTSPOT_LIMIT = 10;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Closed complaints that skipped resolved (older data) still count as done when they closed
+function getResolvedAt(complaint: Complaint): Date | null {
+  return complaint.resolvedAt ?? complaint.closedAt;
+}
+
+function getResolutionHours(complaint: Complaint): number | null {
+  const resolvedAt = getResolvedAt(complaint);
+  if (!resolvedAt || isComplaintOpen(complaint)) return null;
+  return (new Date(resolvedAt).getTime() - new Date(complaint.createdAt!).getTime()) / HOUR_MS;
+}
+
+function average(values: number[]): number | null {
+  return values.length === 0 ? null : round1(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return round1(sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]);
+}
+
+// Days for a month, weeks for a quarter and months for a year, stopping at today
+function listBuckets(period: ComplaintAnalytics["period"], from: Date, to: Date, asOf: Date): { start: Date; end: Date }[] {
+  const buckets: { start: Date; end: Date }[] = [];
+  const last = new Date(Math.min(to.getTime(), asOf.getTime()));
+  for (let start = new Date(from); start < last;) {
+    const end = new Date(start);
+    if (period === 'month') end.setUTCDate(end.getUTCDate() + 1);
+    else if (period === 'quarter') end.setUTCDate(end.getUTCDate() + 7);
+    else end.setUTCMonth(end.getUTCMonth() + 1);
+    buckets.push({ start, end: end > to ? to : end });
+    start = end;
+  }
+  return buckets;
+}
+
+function buildBacklog(complaints: Complaint[], buckets: { start: Date; end: Date }[]): ComplaintBacklogPoint[] {
+  const inRange = (date: Date | null, start: Date, end: Date) => !!date && date >= start && date < end;
+  return buckets.map(({ start, end }) => ({
+    date: start.toISOString().slice(0, 10),
+    opened: complaints.filter(complaint => inRange(new Date(complaint.createdAt!), start, end)).length,
+    resolved: complaints.filter(complaint => inRange(getResolvedAt(complaint), start, end)).length,
+    backlog: complaints.filter(complaint => {
+      if (new Date(complaint.createdAt!) >= end) return false;
+      const resolvedAt = getResolvedAt(complaint);
+      return isComplaintOpen(complaint) || !resolvedAt || resolvedAt >= end;
+    }).length,
+  }));
+}
+
+function buildBreakdown(complaints: Complaint[], keyOf: (complaint: Complaint) => string, labelOf: (key: string) => string): ComplaintBreakdownRow[] {
+  const groups = new Map<string, Complaint[]>();
+  for (const complaint of complaints) {
+    const key = keyOf(complaint);
+    groups.set(key, [...(groups.get(key) || []), complaint]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, rows]) => ({
+      key,
+      label: labelOf(key),
+      total: rows.length,
+      open: rows.filter(isComplaintOpen).length,
+      resolved: rows.filter(complaint => !isComplaintOpen(complaint)).length,
+      averageResolutionHours: average(rows.map(getResolutionHours).filter((hours): hours is number => hours !== null)),
+    }))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+}
+
+// Flat numbers such as "A-101" or "B/204" carry the tower before the separator
+function getTower(flatNumber: string): string | null {
+  const match = flatNumber.trim().match(/^([A-Za-z0-9]+)\s*[-/ ]\s*\S+/);
+  return match ? match[1].toUpperCase() : null;
+}
+
+function buildHotspots(complaints: Complaint[], flatOf: (complaint: Complaint) => string | null): ComplaintHotspot[] {
+  const places = new Map<string, { kind: ComplaintHotspot["kind"]; location: string; categories: string[] }>();
+  const add = (kind: ComplaintHotspot["kind"], location: string, category: string) => {
+    const key = `${kind}:${location.toLowerCase()}`;
+    const place = places.get(key) || { kind, location, categories: [] };
+    place.categories.push(category);
+    places.set(key, place);
+  };
+
+  for (const complaint of complaints) {
+    if (complaint.scope === 'common_area') {
+      if (complaint.location) add('common_area', complaint.location.trim(), complaint.category);
+      continue;
+    }
+    const flat = flatOf(complaint);
+    if (!flat) continue;
+    add('flat', flat, complaint.category);
+    const tower = getTower(flat);
+    if (tower) add('tower', `Tower ${tower}`, complaint.category);
+  }
+
+  return Array.from(places.values())
+    .filter(place => place.categories.length >= HOTSPOT_MIN_COMPLAINTS)
+    .map(place => {
+      const counts = new Map<string, number>();
+      place.categories.forEach(category => counts.set(category, (counts.get(category) || 0) + 1));
+      const [topCategory, topCategoryCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+      return { kind: place.kind, location: place.location, complaintCount: place.categories.length, topCategory, topCategoryCount };
+    })
+    .sort((a, b) => b.complaintCount - a.complaintCount || b.topCategoryCount - a.topCategoryCount)
+    .slice(0, HOTSPOT_LIMIT);
+}
+
+// Merged duplicates are left out throughout so one breakdown is not counted once per reporter
+export async function buildComplaintAnalytics(societyId: string, period: ComplaintAnalytics["period"], asOf: Date): Promise<ComplaintAnalytics> {
+  const { from, to } = getPeriodRange(period, asOf);
+  const [societyComplaints, assignees, residents] = await Promise.all([
+    storage.getComplaintsBySociety(societyId),
+    getComplaintAssignees(societyId),
+    storage.getResidentsBySociety(societyId),
+  ]);
+
+  const complaints = societyComplaints.filter(complaint => !complaint.parentId);
+  const raised = complaints.filter(complaint => {
+    const createdAt = new Date(complaint.createdAt!);
+    return createdAt >= from && createdAt < to;
+  });
+  const resolvedInPeriod = complaints.filter(complaint => {
+    const resolvedAt = getResolvedAt(complaint);
+    return !isComplaintOpen(complaint) && !!resolvedAt && resolvedAt >= from && resolvedAt < to;
+  });
+  const resolutionHours = resolvedInPeriod.map(getResolutionHours).filter((hours): hours is number => hours !== null);
+
+  // Older in-flat complaints have no location; the resident's current flat stands in
+  const residentFlats = new Map(residents.map(resident => [resident.id, resident.flatNumber]));
+  const flatOf = (complaint: Complaint) => complaint.location || residentFlats.get(complaint.residentId) || null;
+
+  const assigneeLabel = (key: string) => {
+    if (key === 'unassigned') return 'Unassigned';
+    return assignees.find(assignee => `${assignee.type}:${assignee.id}` === key)?.name || 'Removed assignee';
+  };
+
+  return {
+    period,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    raised: raised.length,
+    resolved: resolvedInPeriod.length,
+    openNow: complaints.filter(isComplaintOpen).length,
+    meanResolutionHours: average(resolutionHours),
+    medianResolutionHours: median(resolutionHours),
+    backlog: buildBacklog(complaints, listBuckets(period, from, to, asOf)),
+    byCategory: buildBreakdown(raised, complaint => complaint.category, key => key),
+    byPriority: buildBreakdown(raised, complaint => complaint.priority || 'medium', key => key),
+    byAssignee: buildBreakdown(
+      raised,
+      complaint => complaint.assigneeType && complaint.assignedTo ? `${complaint.assigneeType}:${complaint.assignedTo}` : 'unassigned',
+      assigneeLabel,
+    ),
+    hotspots: buildHotspots(raised, flatOf),
+  };
+}
@@ -0,0 +1,331 @@
+import { complaintStatusTransitions, defaultComplaintCategories, type ComplaintDuplicateCandidate, type ComplaintStatus, type ComplaintCategory, type ComplaintCategoryWithRouting, type Complaint, ComplaintAttachment, ComplaintAttachmentInfo, ComplaintAssignee, ComplaintAssigneeType, ComplaintEventWithActor, ComplaintWorkloadSummary, ComplaintSatisfactionSummary, SatisfactionStats, Society, User } from "@shared/schema";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Hourly is plenty for a window measured in days
+const AUTO_CLOSE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Reports of the same breakdown come in within a day or two of each other
+const DUPLICATE_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+// Share of the shorter report's words that must also appear in the other
+const DUPLICATE_SIMILARITY_THRESHOLD = 0.3;
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "not", "but", "with", "from", "this", "that", "there", "our", "has", "have", "had",
+  "was", "were", "are", "been", "since", "its", "it's", "into", "near", "please", "again", "very", "all",
+]);
+
+// Statuses that still need work from whoever holds the complaint
+const openStatuses: Complaint["status"][] = ['open', 'in_progress'];
+
+export function isComplaintOpen(complaint: Complaint): boolean {
+  return openStatuses.includes(complaint.status);
+}
+
+export function canTransitionComplaint(from: ComplaintStatus, to: ComplaintStatus): boolean {
+  return complaintStatusTransitions[from].includes(to);
+}
+
+// Admins and assigned staff move work along until it is resolved; after that the resident decides.
+// Only admins can send a started complaint back to open.
+export function getManagedStatusChanges(role: 'admin' | 'staff', from: ComplaintStatus): ComplaintStatus[] {
+  if (from === 'resolved' || from === 'closed') return [];
+  return complaintStatusTransitions[from].filter(to => role === 'admin' || to !== 'open');
+}
+
+export async function getComplaintAssignees(societyId: string): Promise<ComplaintAssignee[]> {
+  const [staff, vendors] = await Promise.all([
+    storage.getStaffMembers(societyId),
+    storage.getVendors(societyId),
+  ]);
+
+  return [
+    ...staff.map(member => ({
+      type: 'staff' as const,
+      id: member.id,
+      name: member.name,
+      role: member.designation,
+      phone: member.phone,
+      email: member.email,
+      isActive: member.isActive,
+      hasLogin: !!member.userId,
+    })),
+    ...vendors.map(vendor => ({
+      type: 'vendor' as const,
+      id: vendor.id,
+      name: vendor.name,
+      role: vendor.service,
+      phone: vendor.phone,
+      email: vendor.email,
+      isActive: vendor.isActive,
+      hasLogin: !!vendor.userId,
+    })),
+  ];
+}
+
+export async function getAssignee(type: ComplaintAssigneeType, id: string): Promise<{ societyId: string; isActive: boolean; userId: string | null } | undefined> {
+  return type === 'staff' ? await storage.getStaffMember(id) : await storage.getVendor(id);
+}
+
+// A staff login belongs to exactly one staff member or vendor
+export async function getAssigneeForUser(user: User): Promise<{ type: ComplaintAssigneeType; id: string } | undefined> {
+  const staffMember = await storage.getStaffMemberByUser(user.id);
+  if (staffMember) return { type: 'staff', id: staffMember.id };
+
+  const vendor = await storage.getVendorByUser(user.id);
+  if (vendor) return { type: 'vendor', id: vendor.id };
+
+  return undefined;
+}
+
+// Residents see their own complaints, admins their society's and staff what is assigned to them
+// Residents whose report was merged into a complaint follow it as well
+export async function canAccessComplaint(user: User, complaint: Complaint): Promise<boolean> {
+  if (user.role === 'resident') {
+    if (complaint.residentId === user.id) return true;
+    const merged = await storage.getMergedComplaints(complaint.id);
+    return merged.some(row => row.residentId === user.id);
+  }
+  if (user.role === 'admin') return complaint.societyId === user.societyId;
+  if (user.role === 'staff') {
+    const assignee = await getAssigneeForUser(user);
+    return !!assignee && complaint.assigneeType === assignee.type && complaint.assignedTo === assignee.id;
+  }
+  return false;
+}
+
+// Societies start from the built-in list the first time their categories are read
+export async function getSocietyComplaintCategories(societyId: string): Promise<ComplaintCategory[]> {
+  const categories = await storage.getComplaintCategories(societyId);
+  if (categories.length > 0) return categories;
+
+  await storage.seedComplaintCategories(societyId, defaultComplaintCategories);
+  return await storage.getComplaintCategories(societyId);
+}
+
+export async function getCategoriesWithRouting(societyId: string): Promise<ComplaintCategoryWithRouting[]> {
+  const [categories, assignees, policies] = await Promise.all([
+    getSocietyComplaintCategories(societyId),
+    getComplaintAssignees(societyId),
+    storage.getSlaPolicies(societyId),
+  ]);
+
+  return categories.map(category => {
+    const assignee = assignees.find(row => row.type === category.defaultAssigneeType && row.id === category.defaultAssigneeId);
+    const policy = policies.find(row => row.isActive && row.category === category.name && !row.priority);
+    return {
+      ...category,
+      defaultAssigneeName: assignee?.name ?? null,
+      firstResponseHours: policy?.firstResponseHours ?? null,
+      resolutionHours: policy?.resolutionHours ?? null,
+    };
+  });
+}
+
+// The category's default assignee, as long as they are still active in the same society;
+// otherwise the complaint waits in the unassigned pool as before
+export async function routeComplaint(category: ComplaintCategory): Promise<{ type: ComplaintAssigneeType; id: string } | null> {
+  if (!category.defaultAssigneeType || !category.defaultAssigneeId) return null;
+
+  const assignee = await getAssignee(category.defaultAssigneeType, category.defaultAssigneeId);
+  if (!assignee || !assignee.isActive || assignee.societyId !== category.societyId) return null;
+  return { type: category.defaultAssigneeType, id: category.defaultAssigneeId };
+}
+
+function toWords(text: string): Set<string> {
+  const words = text.toLowerCase().split(/[^a-z0-9']+/).filter(word => word.length > 2 && !STOP_WORDS.has(word));
+  return new Set(words);
+}
+
+// Overlap relative to the smaller set, so a terse report still matches a detailed one
+function overlapRatio(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / Math.min(a.size, b.size);
+}
+
+// In-flat complaints must come from the same flat; common-area locations are free text,
+// so "B tower lift" and "Lift, Tower B" are treated as the same place
+function isSameLocation(a: Complaint, b: Complaint): boolean {
+  if (!a.location || !b.location) return false;
+  if (a.scope === 'in_flat') return a.location.trim().toLowerCase() === b.location.trim().toLowerCase();
+  return overlapRatio(toWords(a.location), toWords(b.location)) >= 0.5;
+}
+
+// Likely duplicates of a complaint among its society's complaints: still open and not merged,
+// same category, scope and location, raised close together and described in similar words
+export function findLikelyDuplicates(complaint: Complaint, societyComplaints: Complaint[]): ComplaintDuplicateCandidate[] {
+  if (complaint.parentId) return [];
+  const raisedAt = new Date(complaint.createdAt!).getTime();
+  const words = toWords(`${complaint.title} ${complaint.description}`);
+
+  return societyComplaints
+    .filter(other =>
+      other.id !== complaint.id &&
+      !other.parentId &&
+      isComplaintOpen(other) &&
+      other.category === complaint.category &&
+      other.scope === complaint.scope &&
+      Math.abs(new Date(other.createdAt!).getTime() - raisedAt) <= DUPLICATE_WINDOW_MS &&
+      isSameLocation(complaint, other))
+    .map(other => ({
+      complaint: other,
+      similarity: Math.round(overlapRatio(words, toWords(`${other.title} ${other.description}`)) * 100) / 100,
+    }))
+    .filter(candidate => candidate.similarity >= DUPLICATE_SIMILARITY_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+// Open complaints with at least one likely duplicate, keyed by complaint id
+export async function countLikelyDuplicates(societyId: string): Promise<Record<string, number>> {
+  const complaints = await storage.getComplaintsBySociety(societyId);
+  const counts: Record<string, number> = {};
+  for (const complaint of complaints.filter(isComplaintOpen)) {
+    const duplicates = findLikelyDuplicates(complaint, complaints);
+    if (duplicates.length > 0) counts[complaint.id] = duplicates.length;
+  }
+  return counts;
+}
+
+// Assignment events store "type:id" keys; names are looked up when the timeline is read
+export async function getComplaintTimeline(complaint: Complaint): Promise<ComplaintEventWithActor[]> {
+  const [events, assignees] = await Promise.all([
+    storage.getComplaintEvents(complaint.id),
+    getComplaintAssignees(complaint.societyId),
+  ]);
+
+  const labelFor = (value: string | null) => {
+    if (!value) return null;
+    const assignee = assignees.find(row => `${row.type}:${row.id}` === value);
+    return assignee ? assignee.name : 'Removed assignee';
+  };
+
+  return events.map(event => ({
+    ...event,
+    fromLabel: event.type === 'assigned' ? labelFor(event.fromValue) : event.fromValue,
+    toLabel: event.type === 'assigned' ? labelFor(event.toValue) : event.toValue,
+  }));
+}
+
+// Clients never see storage paths, only whether a thumbnail can be fetched
+export function toAttachmentInfo({ filePath, thumbnailPath, ...attachment }: ComplaintAttachment): ComplaintAttachmentInfo {
+  return { ...attachment, hasThumbnail: !!thumbnailPath };
+}
+
+export async function buildWorkloadSummary(societyId: string): Promise<ComplaintWorkloadSummary> {
+  const [assignees, complaints] = await Promise.all([
+    getComplaintAssignees(societyId),
+    storage.getComplaintsBySociety(societyId),
+  ]);
+  // Merged duplicates hand their work to the complaint they joined
+  const openComplaints = complaints.filter(complaint => isComplaintOpen(complaint) && !complaint.parentId);
+
+  const oldestCreatedAt = (rows: Complaint[]) => rows
+    .map(complaint => new Date(complaint.createdAt!).getTime())
+    .reduce<number | null>((oldest, time) => oldest === null || time < oldest ? time : oldest, null);
+
+  const workloads = assignees.map(assignee => {
+    const held = openComplaints.filter(complaint => complaint.assigneeType === assignee.type && complaint.assignedTo === assignee.id);
+    const oldest = oldestCreatedAt(held);
+    return {
+      type: assignee.type,
+      id: assignee.id,
+      name: assignee.name,
+      isActive: assignee.isActive,
+      openCount: held.filter(complaint => complaint.status === 'open').length,
+      inProgressCount: held.filter(complaint => complaint.status === 'in_progress').length,
+      oldestOpenAt: oldest === null ? null : new Date(oldest).toISOString(),
+    };
+  });
+
+  const unassigned = openComplaints.filter(complaint => !complaint.assignedTo);
+  const oldestUnassigned = oldestCreatedAt(unassigned);
+
+  return {
+    // Busiest first; inactive assignees only appear while they still hold work
+    assignees: workloads
+      .filter(workload => workload.isActive || workload.openCount + workload.inProgressCount > 0)
+      .sort((a, b) => (b.openCount + b.inProgressCount) - (a.openCount + a.inProgressCount) || a.name.localeCompare(b.name)),
+    unassignedCount: unassigned.length,
+    oldestUnassignedAt: oldestUnassigned === null ? null : new Date(oldestUnassigned).toISOString(),
+  };
+}
+
+function buildSatisfactionStats(complaints: Complaint[]): SatisfactionStats {
+  const rated = complaints.filter(complaint => complaint.rating !== null);
+  const total = rated.reduce((sum, complaint) => sum + complaint.rating!, 0);
+  return {
+    ratingCount: rated.length,
+    averageRating: rated.length === 0 ? null : Math.round((total / rated.length) * 10) / 10,
+    reopenedCount: complaints.filter(complaint => complaint.reopenCount > 0).length,
+    closedCount: complaints.filter(complaint => complaint.status === 'closed').length,
+  };
+}
+
+// Ratings count towards whoever held the complaint when it was closed
+export async function buildSatisfactionSummary(societyId: string): Promise<ComplaintSatisfactionSummary> {
+  const [assignees, societyComplaints] = await Promise.all([
+    getComplaintAssignees(societyId),
+    storage.getComplaintsBySociety(societyId),
+  ]);
+  // A merged duplicate closes with its parent, which already counts once
+  const complaints = societyComplaints.filter(complaint => !complaint.parentId);
+
+  const byAssignee = assignees
+    .map(assignee => ({
+      type: assignee.type,
+      id: assignee.id,
+      name: assignee.name,
+      ...buildSatisfactionStats(complaints.filter(complaint => complaint.assigneeType === assignee.type && complaint.assignedTo === assignee.id)),
+    }))
+    .filter(row => row.closedCount > 0 || row.reopenedCount > 0);
+
+  const categories = Array.from(new Set(complaints.map(complaint => complaint.category))).sort();
+  const byCategory = categories.map(category => ({
+    category,
+    ...buildSatisfactionStats(complaints.filter(complaint => complaint.category === category)),
+  }));
+
+  return {
+    overall: buildSatisfactionStats(complaints),
+    byAssignee,
+    byCategory,
+  };
+}
+
+// Residents who neither confirm nor reopen within the society's window are taken to be satisfied
+export async function autoCloseResolvedComplaints(society: Society, asOf: Date): Promise<number> {
+  const days = society.complaintConfirmationDays;
+  const complaints = await storage.getResolvedComplaintsBefore(society.id, new Date(asOf.getTime() - days * DAY_MS));
+  let closed = 0;
+  for (const complaint of complaints) {
+    // Skipped when the resident confirmed or reopened since the list was read
+    const updated = await storage.updateComplaintStatus(
+      complaint.id,
+      { from: 'resolved', to: 'closed' },
+      null,
+      `Closed automatically after ${days} day${days === 1 ? '' : 's'} without resident confirmation`,
+    );
+    if (updated) closed++;
+  }
+  return closed;
+}
+
+export function startComplaintAutoCloseJob() {
+  const run = async () => {
+    try {
+      const societies = await storage.getSocieties();
+      for (const society of societies) {
+        await autoCloseResolvedComplaints(society, new Date());
+      }
+    } catch (error) {
+      console.error("Error auto-closing complaints:", error);
+    }
+  };
+
+  run();
+  setInterval(run, AUTO_CLOSE_INTERVAL_MS);
+}
@@ -232,6 +232,74 @@ export async function sendComplaintNotification(
   }
 }
 
+export async function sendSlaEscalation(
+  email: string,
+  escalation: {
+    level: 'admin' | 'super_admin';
+    kind: 'first_response' | 'resolution';
+    complaintId: string;
+    title: string;
+    category: string;
+    priority: string;
+    targetHours: number;
+    dueAt: Date;
+    societyName: string;
+  }
+): Promise<boolean> {
+  if (!(await initializeMailService())) {
+    console.log('Email service not available - SLA escalations disabled');
+    return false;
+  }
+
+  const target = escalation.kind === 'first_response' ? 'first response' : 'resolution';
+  const overdueHours = Math.max(1, Math.floor((Date.now() - escalation.dueAt.getTime()) / (60 * 60 * 1000)));
+  const headline = escalation.level === 'super_admin'
+    ? `Still unresolved after the ${target} target was missed`
+    : `The ${target} target has been missed`;
+
+  const subject = `⏰ SLA Breach: ${escalation.title} - ${escalation.societyName}`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: #dc2626; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0; font-size: 24px;">⏰ Complaint SLA Breach</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">${escalation.societyName}</p>
+      </div>
+
+      <div style="padding: 30px; background: #f8fafc;">
+        <h2 style="color: #1e293b; margin-top: 0;">${escalation.title}</h2>
+        <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #dc2626;">
+          <p style="color: #dc2626; font-weight: bold;">${headline}</p>
+          <p><strong>Category:</strong> ${escalation.category}</p>
+          <p><strong>Priority:</strong> ${escalation.priority.toUpperCase()}</p>
+          <p><strong>Target:</strong> ${target} within ${escalation.targetHours} hours</p>
+          <p><strong>Was due:</strong> ${escalation.dueAt.toLocaleString()} (${overdueHours} hours ago)</p>
+        </div>
+      </div>
+
+      <div style="padding: 20px; text-align: center; background: #e2e8f0; color: #64748b;">
+        <p style="margin: 0; font-size: 14px;">
+          ${escalation.level === 'super_admin' ? 'The society admin was notified earlier and the complaint is still open.' : 'Please log in to the admin portal to follow up on this complaint.'}<br>
+          Complaint ID: ${escalation.complaintId}
+        </p>
+      </div>
+    </div>
+  `;
+
+  try {
+    return await sendEmail({
+      to: email,
+      from: process.env.EMAIL_FROM || 'noreply@societyhub.com',
+      subject,
+      text: `SLA breach at ${escalation.societyName}: ${escalation.title}\n\n${headline}.\nCategory: ${escalation.category}\nPriority: ${escalation.priority}\nTarget: ${target} within ${escalation.targetHours} hours\nWas due: ${escalation.dueAt.toLocaleString()}\n\nComplaint ID: ${escalation.complaintId}`,
+      html,
+    });
+  } catch (error) {
+    console.error('Failed to send SLA escalation:', error);
+    return false;
+  }
+}
+
 export async function sendBookingNotification(
   residentEmail: string,
   booking: {
@@ -300,6 +368,67 @@ export async function sendBookingNotification(
   }
 }
 
+export async function sendWaitlistOfferNotification(
+  residentEmail: string,
+  offer: {
+    facilityName: string;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+    expiresAt: string;
+    residentName: string;
+    societyName: string;
+  }
+): Promise<boolean> {
+  if (!(await initializeMailService())) {
+    console.log('Email service not available - waitlist notifications disabled');
+    return false;
+  }
+
+  if (!residentEmail || !residentEmail.trim()) return false;
+
+  const subject = `🎉 A slot opened up at ${offer.facilityName} - ${offer.societyName}`;
+  const expiresAt = new Date(offer.expiresAt).toLocaleString();
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: #2563eb; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0; font-size: 24px;">🎉 Your Waitlisted Slot Is Available</h1>
+        <p style="margin: 10px 0 0 0; opacity: 0.9;">${offer.societyName}</p>
+      </div>
+      
+      <div style="padding: 30px; background: #f8fafc;">
+        <p>Hi ${offer.residentName || 'there'},</p>
+        <h2 style="color: #1e293b;">${offer.facilityName}</h2>
+        <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #2563eb;">
+          <p><strong>Date:</strong> ${new Date(offer.bookingDate).toLocaleDateString()}</p>
+          <p><strong>Time:</strong> ${offer.startTime} - ${offer.endTime}</p>
+          <p><strong>Offer open until:</strong> ${expiresAt}</p>
+        </div>
+      </div>
+      
+      <div style="padding: 20px; text-align: center; background: #e2e8f0; color: #64748b;">
+        <p style="margin: 0; font-size: 14px;">
+          Accept the offer from My Bookings before it expires; after that it passes to the next resident on the waitlist.
+        </p>
+      </div>
+    </div>
+  `;
+
+  try {
+    return await sendEmail({
+      to: residentEmail,
+      from: process.env.EMAIL_FROM || 'noreply@societyhub.com',
+      subject,
+      text: `A slot opened up at ${offer.facilityName}\n\nDate: ${new Date(offer.bookingDate).toLocaleDateString()}\nTime: ${offer.startTime} - ${offer.endTime}\nOffer open until: ${expiresAt}\n\nAccept it from My Bookings before it expires.`,
+      html,
+    });
+  } catch (error) {
+    console.error('Failed to send waitlist notification:', error);
+    return false;
+  }
+}
+
 export async function sendVotingNotification(
   residents: { email: string; firstName: string }[],
   poll: {
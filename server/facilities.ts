@@ -0,0 +1,460 @@
+import type { Facility, FacilityAvailability, FacilityBooking, FacilityBookingSeries, FacilityCancellationQuote, FacilityPhoto, FacilityPhotoInfo, FacilityQuote, FacilityQuoteLine, FacilitySlot, FacilityWaitlistEntry, FacilityWithPhotos, InsertBillLineItem, InsertMaintenanceBill } from "@shared/schema";
+import { storage } from "./storage";
+import { getDefaultDueDate } from "./billing";
+import { sendWaitlistOfferNotification } from "./emailService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const WAITLIST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export const MAX_AVAILABILITY_DAYS = 31;
+export const WAITLIST_OFFER_HOURS = 12;
+
+// Minutes since midnight for an HH:MM time
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function toTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+// Bookings are kept against midnight UTC of their calendar day; times within the day are society local
+export function toBookingDate(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+export function toDateKey(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+// Booking times are wall-clock times where the society is, not the server's clock
+const SOCIETY_TIME_ZONE = process.env.SOCIETY_TIME_ZONE || 'Asia/Kolkata';
+
+const societyClock = new Intl.DateTimeFormat('en-US', {
+  timeZone: SOCIETY_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+// The society's wall clock at an instant, read back as if it were UTC
+function toSocietyWallClock(at: Date): Date {
+  const parts = Object.fromEntries(societyClock.formatToParts(at).map(part => [part.type, Number(part.value)]));
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+// The instant a society-local date and HH:MM time falls on. The offset is taken twice so days
+// where the clocks change still land on the right hour
+export function toSocietyInstant(date: string, time: string): Date {
+  const wallClock = toBookingDate(date).getTime() + toMinutes(time) * 60 * 1000;
+  const guess = wallClock - (toSocietyWallClock(new Date(wallClock)).getTime() - wallClock);
+  return new Date(wallClock - (toSocietyWallClock(new Date(guess)).getTime() - guess));
+}
+
+// Today's YYYY-MM-DD where the society is
+export function getSocietyDate(asOf: Date): string {
+  return toDateKey(toSocietyWallClock(asOf));
+}
+
+// Checks a facility's operating and peak hours, returning an error message if they don't hold up
+export function getFacilityHoursError(
+  hours: Pick<Facility, 'openingTime' | 'closingTime' | 'slotMinutes'> & Partial<Pick<Facility, 'peakStartTime' | 'peakEndTime'>>,
+): string | null {
+  const window = toMinutes(hours.closingTime) - toMinutes(hours.openingTime);
+  if (window <= 0) {
+    return "Closing time must be after opening time";
+  }
+  if (window % hours.slotMinutes !== 0) {
+    return "Operating hours must divide into whole slots";
+  }
+  if (!hours.peakStartTime !== !hours.peakEndTime) {
+    return "Set both a start and an end for peak hours, or neither";
+  }
+  if (hours.peakStartTime && hours.peakEndTime) {
+    if (toMinutes(hours.peakEndTime) <= toMinutes(hours.peakStartTime)) {
+      return "Peak hours must end after they start";
+    }
+    if (toMinutes(hours.peakStartTime) < toMinutes(hours.openingTime) || toMinutes(hours.peakEndTime) > toMinutes(hours.closingTime)) {
+      return "Peak hours must fall within opening hours";
+    }
+  }
+  return null;
+}
+
+// Checks a requested window against the facility's hours and slot grid, returning an error message if it doesn't fit
+export function getBookingWindowError(facility: Facility, startTime: string, endTime: string): string | null {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  if (end <= start) {
+    return "End time must be after start time";
+  }
+  if (start < toMinutes(facility.openingTime) || end > toMinutes(facility.closingTime)) {
+    return `${facility.name} is open from ${facility.openingTime} to ${facility.closingTime}`;
+  }
+  if ((start - toMinutes(facility.openingTime)) % facility.slotMinutes !== 0 || (end - start) % facility.slotMinutes !== 0) {
+    return `${facility.name} is booked in ${facility.slotMinutes}-minute slots from ${facility.openingTime}`;
+  }
+  return null;
+}
+
+// Weekend rates win over peak rates; guests pay their percentage on top of whichever applies
+function getSlotRate(facility: Facility, date: string, slotStart: string): { label: string; rate: number } {
+  const weekday = toBookingDate(date).getUTCDay();
+  if (facility.weekendRate != null && (weekday === 0 || weekday === 6)) {
+    return { label: "Weekend", rate: facility.weekendRate };
+  }
+  if (facility.peakRate != null && facility.peakStartTime && facility.peakEndTime
+    && slotStart >= facility.peakStartTime && slotStart < facility.peakEndTime) {
+    return { label: "Peak", rate: facility.peakRate };
+  }
+  return { label: "Standard", rate: facility.hourlyRate ?? 0 };
+}
+
+// Prices a window that has already passed getBookingWindowError, slot by slot
+export function computeBookingQuote(facility: Facility, date: string, startTime: string, endTime: string, forGuest: boolean): FacilityQuote {
+  const lines: FacilityQuoteLine[] = [];
+  for (let start = toMinutes(startTime); start < toMinutes(endTime); start += facility.slotMinutes) {
+    const { label, rate } = getSlotRate(facility, date, toTimeOfDay(start));
+    const adjustedRate = forGuest ? Math.round((rate * facility.guestRatePercent) / 100) : rate;
+    const description = forGuest ? `${label} (guest)` : label;
+    const line = lines.find(row => row.description === description && row.rate === adjustedRate);
+    if (line) {
+      line.hours += facility.slotMinutes / 60;
+    } else {
+      lines.push({ description, hours: facility.slotMinutes / 60, rate: adjustedRate, amount: 0 });
+    }
+  }
+  for (const line of lines) {
+    line.hours = Math.round(line.hours * 100) / 100;
+    line.amount = Math.round(line.rate * line.hours);
+  }
+
+  const rentAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+  return { lines, rentAmount, depositAmount: facility.securityDeposit, totalAmount: rentAmount + facility.securityDeposit };
+}
+
+// Dues go on a bill that falls due with next month's maintenance; immediate payment is due today
+export function buildBookingCharge(
+  facility: Facility,
+  booking: { residentId: string; flatId: string | null; date: string; startTime: string; endTime: string; paymentMode: 'dues' | 'immediate' },
+  quote: FacilityQuote,
+  asOf: Date,
+): { bill: InsertMaintenanceBill; lineItems: Omit<InsertBillLineItem, 'billId'>[] } | undefined {
+  if (quote.totalAmount <= 0) return undefined;
+
+  let dueDate = asOf;
+  if (booking.paymentMode === 'dues') {
+    const next = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() + 1, 1));
+    dueDate = getDefaultDueDate(next.toISOString().slice(0, 7));
+  }
+
+  const when = `${booking.date} ${booking.startTime}–${booking.endTime}`;
+  const lineItems: Omit<InsertBillLineItem, 'billId'>[] = quote.lines
+    .filter(line => line.amount > 0)
+    .map(line => ({
+      kind: 'facility_charge' as const,
+      description: `${facility.name} ${line.description.toLowerCase()} (${line.hours} hr @ ₹${line.rate})`,
+      amount: line.amount,
+    }));
+  if (quote.depositAmount > 0) {
+    lineItems.push({ kind: 'security_deposit', description: `${facility.name} security deposit (refundable)`, amount: quote.depositAmount });
+  }
+
+  return {
+    bill: {
+      residentId: booking.residentId,
+      societyId: facility.societyId,
+      flatId: booking.flatId,
+      amount: quote.totalAmount,
+      dueDate,
+      billingMonth: dueDate.toISOString().slice(0, 7),
+      description: `${facility.name} booking on ${when}`,
+    },
+    lineItems,
+  };
+}
+
+export interface BookingRequest {
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string;
+  endTime: string;
+  notes?: string | null;
+  forGuest: boolean;
+  paymentMode: 'dues' | 'immediate';
+  seriesId?: string | null;
+  waitlistEntryId?: string; // the offer being taken up, which shouldn't block its own booking
+}
+
+export type BookingAttempt =
+  | { booking: FacilityBooking; error?: undefined }
+  | { booking?: undefined; error: string; status: 400 | 409 };
+
+// Every new booking goes through here, so single bookings, series occurrences and accepted waitlist
+// offers are held to the same hours, blackout, pricing and capacity rules
+export async function placeFacilityBooking(facility: Facility, residentId: string, request: BookingRequest, asOf: Date): Promise<BookingAttempt> {
+  const { bookingDate, startTime, endTime, forGuest, paymentMode } = request;
+  if (!facility.isAvailable) {
+    return { error: `${facility.name} is not open for booking`, status: 409 };
+  }
+  if (bookingDate < getSocietyDate(asOf)) {
+    return { error: "Bookings cannot be made for past dates", status: 400 };
+  }
+  if (toSocietyInstant(bookingDate, startTime) <= asOf) {
+    return { error: "That time has already started; please pick a later slot", status: 400 };
+  }
+
+  const windowError = getBookingWindowError(facility, startTime, endTime);
+  if (windowError) {
+    return { error: windowError, status: 400 };
+  }
+
+  const blackout = (await storage.getFacilityBlackouts(facility.id)).find(row => row.date === bookingDate);
+  if (blackout) {
+    return { error: `${facility.name} is closed on ${bookingDate}${blackout.reason ? ` (${blackout.reason})` : ''}`, status: 409 };
+  }
+
+  // The price is always worked out here; whatever amount the client shows is only a preview
+  const quote = computeBookingQuote(facility, bookingDate, startTime, endTime, forGuest);
+  const flat = await storage.getFlatByResident(residentId);
+  const charge = buildBookingCharge(
+    facility,
+    { residentId, flatId: flat?.id || null, date: bookingDate, startTime, endTime, paymentMode },
+    quote,
+    asOf,
+  );
+
+  const booking = await storage.createFacilityBookingWithinCapacity({
+    facilityId: facility.id,
+    residentId,
+    societyId: facility.societyId,
+    bookingDate: toBookingDate(bookingDate),
+    startTime,
+    endTime,
+    totalAmount: quote.rentAmount,
+    depositAmount: quote.depositAmount,
+    forGuest,
+    paymentMode,
+    notes: request.notes || null,
+    seriesId: request.seriesId ?? null,
+  }, asOf, charge, request.waitlistEntryId);
+  if (!booking) {
+    return { error: "That time is already fully booked; please pick another slot", status: 409 };
+  }
+  return { booking };
+}
+
+// Dates a series asks for, in order. Weekly series default to the start date's weekday; monthly
+// series skip months too short for the start date's day
+export function listSeriesDates(series: Pick<FacilityBookingSeries, 'frequency' | 'daysOfWeek' | 'startDate' | 'endDate'>): string[] {
+  const start = toBookingDate(series.startDate);
+  const end = toBookingDate(series.endDate);
+  const dates: string[] = [];
+
+  if (series.frequency === 'weekly') {
+    const days = series.daysOfWeek.length > 0 ? series.daysOfWeek : [start.getUTCDay()];
+    for (let time = start.getTime(); time <= end.getTime(); time += DAY_MS) {
+      const date = new Date(time);
+      if (days.includes(date.getUTCDay())) dates.push(toDateKey(date));
+    }
+    return dates;
+  }
+
+  const day = start.getUTCDate();
+  for (let month = 0; ; month++) {
+    const date = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + month, day));
+    if (date > end) break;
+    if (date.getUTCDate() === day) dates.push(toDateKey(date));
+  }
+  return dates;
+}
+
+export function getBookingStart(booking: Pick<FacilityBooking, 'bookingDate' | 'startTime'>): Date {
+  return toSocietyInstant(toDateKey(booking.bookingDate), booking.startTime);
+}
+
+// Pending requests were never confirmed, so withdrawing one is always free
+export function getCancellationQuote(facility: Facility, booking: FacilityBooking, asOf: Date, refundPercent?: number): FacilityCancellationQuote {
+  const hoursBeforeStart = Math.max(0, (getBookingStart(booking).getTime() - asOf.getTime()) / (60 * 60 * 1000));
+  const tier = [...facility.cancellationTiers]
+    .sort((a, b) => b.hoursBefore - a.hoursBefore)
+    .find(row => hoursBeforeStart >= row.hoursBefore);
+  const percent = refundPercent ?? (booking.status === 'pending' ? 100 : tier?.refundPercent ?? 0);
+  const usageRefund = Math.round(((booking.totalAmount || 0) * percent) / 100);
+
+  return {
+    refundPercent: percent,
+    usageRefund,
+    depositRefund: booking.depositAmount,
+    refundAmount: usageRefund + booking.depositAmount,
+    hoursBeforeStart: Math.floor(hoursBeforeStart),
+  };
+}
+
+// Bookings and held waitlist offers both take up room in a slot
+function listSlots(facility: Facility, bookings: { startTime: string; endTime: string }[]): FacilitySlot[] {
+  const capacity = facility.capacity ?? 1;
+  const slots: FacilitySlot[] = [];
+  for (let start = toMinutes(facility.openingTime); start < toMinutes(facility.closingTime); start += facility.slotMinutes) {
+    const startTime = toTimeOfDay(start);
+    const endTime = toTimeOfDay(start + facility.slotMinutes);
+    const booked = bookings.filter(booking => booking.startTime < endTime && booking.endTime > startTime).length;
+    slots.push({ startTime, endTime, booked, remaining: Math.max(0, capacity - booked) });
+  }
+  return slots;
+}
+
+// Free slots per day from the given date; blackout days, days before today and slots that have
+// already started come back with no room
+export async function buildFacilityAvailability(facility: Facility, from: string, days: number, asOf: Date): Promise<FacilityAvailability> {
+  const start = toBookingDate(from);
+  const [bookings, offers, blackouts] = await Promise.all([
+    storage.getActiveFacilityBookings(facility.id, start, new Date(start.getTime() + days * DAY_MS)),
+    storage.getHeldWaitlistOffers(facility.id, from, toDateKey(new Date(start.getTime() + (days - 1) * DAY_MS)), asOf),
+    storage.getFacilityBlackouts(facility.id),
+  ]);
+  const today = getSocietyDate(asOf);
+
+  return {
+    facilityId: facility.id,
+    capacity: facility.capacity ?? 1,
+    slotMinutes: facility.slotMinutes,
+    days: Array.from({ length: days }, (_, index) => {
+      const date = toDateKey(new Date(start.getTime() + index * DAY_MS));
+      const blackout = blackouts.find(row => row.date === date);
+      const slots = listSlots(facility, [
+        ...bookings.filter(booking => toDateKey(booking.bookingDate) === date),
+        ...offers.filter(offer => offer.bookingDate === date),
+      ]);
+      const closed = !!blackout || date < today || !facility.isAvailable;
+      return {
+        date,
+        isBlackout: !!blackout,
+        blackoutReason: blackout?.reason ?? null,
+        slots: slots.map(slot =>
+          closed || toSocietyInstant(date, slot.startTime) <= asOf ? { ...slot, remaining: 0 } : slot
+        ),
+      };
+    }),
+  };
+}
+
+// Most windows in use at once within startTime–endTime; occupancy only rises where a window starts
+function getPeakOccupancy(windows: { startTime: string; endTime: string }[], startTime: string, endTime: string): number {
+  const overlapping = windows.filter(row => row.startTime < endTime && row.endTime > startTime);
+  const points = [startTime, ...overlapping.map(row => row.startTime)]
+    .filter(point => point >= startTime && point < endTime);
+  return Math.max(...points.map(point =>
+    overlapping.filter(row => row.startTime <= point && row.endTime > point).length
+  ));
+}
+
+// True when bookings and held offers already fill the window somewhere, so residents may join its waitlist
+export async function isWindowFull(facility: Facility, date: string, startTime: string, endTime: string, asOf: Date): Promise<boolean> {
+  const day = toBookingDate(date);
+  const [bookings, offers] = await Promise.all([
+    storage.getActiveFacilityBookings(facility.id, day, new Date(day.getTime() + DAY_MS)),
+    storage.getHeldWaitlistOffers(facility.id, date, date, asOf),
+  ]);
+  return getPeakOccupancy([...bookings, ...offers], startTime, endTime) >= (facility.capacity ?? 1);
+}
+
+async function notifyWaitlistOffer(facility: Facility, entry: FacilityWaitlistEntry) {
+  try {
+    const resident = await storage.getUser(entry.residentId);
+    const society = await storage.getSociety(facility.societyId);
+    if (resident?.email && society && entry.offerExpiresAt) {
+      await sendWaitlistOfferNotification(resident.email, {
+        facilityName: facility.name,
+        bookingDate: toBookingDate(entry.bookingDate).toISOString(),
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        expiresAt: entry.offerExpiresAt.toISOString(),
+        residentName: `${resident.firstName || ''} ${resident.lastName || ''}`.trim(),
+        societyName: society.name,
+      });
+    }
+  } catch (error) {
+    console.error('Error sending waitlist offer email:', error);
+  }
+}
+
+// Offers room on a day to waiting residents in the order they joined. Open offers count as taken so
+// the same room is never offered twice; each holds for WAITLIST_OFFER_HOURS or until the start time
+export async function offerWaitlistedSlots(facility: Facility, date: string, asOf: Date): Promise<FacilityWaitlistEntry[]> {
+  if (!facility.isAvailable || date < getSocietyDate(asOf)) return [];
+
+  const day = toBookingDate(date);
+  const [bookings, entries, blackouts] = await Promise.all([
+    storage.getActiveFacilityBookings(facility.id, day, new Date(day.getTime() + DAY_MS)),
+    storage.getOpenWaitlistEntries(facility.id, date),
+    storage.getFacilityBlackouts(facility.id),
+  ]);
+  if (blackouts.some(row => row.date === date)) return [];
+
+  const taken: { startTime: string; endTime: string }[] = [...bookings, ...entries.filter(entry => entry.status === 'offered')];
+  const offered: FacilityWaitlistEntry[] = [];
+  for (const entry of entries) {
+    if (entry.status !== 'waiting') continue;
+    const start = toSocietyInstant(date, entry.startTime);
+    if (start <= asOf) continue;
+    if (getPeakOccupancy(taken, entry.startTime, entry.endTime) >= (facility.capacity ?? 1)) continue;
+
+    const updated = await storage.updateWaitlistEntry(entry.id, {
+      status: 'offered',
+      offeredAt: asOf,
+      offerExpiresAt: new Date(Math.min(asOf.getTime() + WAITLIST_OFFER_HOURS * HOUR_MS, start.getTime())),
+    });
+    taken.push(updated);
+    offered.push(updated);
+    await notifyWaitlistOffer(facility, updated);
+  }
+  return offered;
+}
+
+// Clients never see storage paths
+export function toFacilityPhotoInfo({ filePath, thumbnailPath, ...photo }: FacilityPhoto): FacilityPhotoInfo {
+  return photo;
+}
+
+// Residents only see facilities open for booking; admins see every facility
+export async function getFacilitiesWithPhotos(societyId: string, includeUnavailable: boolean): Promise<FacilityWithPhotos[]> {
+  const [facilities, photos] = await Promise.all([
+    storage.getFacilitiesBySociety(societyId),
+    storage.getFacilityPhotosBySociety(societyId),
+  ]);
+
+  return facilities
+    .filter(facility => includeUnavailable || facility.isAvailable)
+    .map(facility => ({
+      ...facility,
+      photos: photos.filter(photo => photo.facilityId === facility.id).map(toFacilityPhotoInfo),
+    }));
+}
+
+// Lapsed offers pass down the waitlist to the next resident whose window fits
+export function startWaitlistOfferJob() {
+  const run = async () => {
+    try {
+      const now = new Date();
+      const expired = await storage.expireWaitlistEntries(now, getSocietyDate(now));
+      const days = new Map(expired.map(entry => [`${entry.facilityId}|${entry.bookingDate}`, entry]));
+      for (const entry of Array.from(days.values())) {
+        const facility = await storage.getFacility(entry.facilityId);
+        if (facility) {
+          await offerWaitlistedSlots(facility, entry.bookingDate, now);
+        }
+      }
+    } catch (error) {
+      console.error("Error expiring waitlist offers:", error);
+    }
+  };
+
+  run();
+  setInterval(run, WAITLIST_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,94 @@
+import type { FinancialReport, MonthlyIncomeExpense } from "@shared/schema";
+import { storage } from "./storage";
+
+const periodMonths: Record<FinancialReport["period"], number> = {
+  month: 1,
+  quarter: 3,
+  year: 12,
+};
+
+const RECENT_TRANSACTION_LIMIT = 10;
+
+function toMonthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+// Periods are whole calendar months ending with the current one
+export function getPeriodRange(period: FinancialReport["period"], asOf: Date): { from: Date; to: Date } {
+  const to = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() + 1, 1));
+  const from = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth() + 1 - periodMonths[period], 1));
+  return { from, to };
+}
+
+function listMonths(from: Date, to: Date): string[] {
+  const months: string[] = [];
+  for (let date = new Date(from); date < to; date.setUTCMonth(date.getUTCMonth() + 1)) {
+    months.push(toMonthKey(date));
+  }
+  return months;
+}
+
+// Income is what was actually collected; expenses are what was actually paid out
+export async function buildFinancialReport(societyId: string, period: FinancialReport["period"], asOf: Date): Promise<FinancialReport> {
+  const { from, to } = getPeriodRange(period, asOf);
+  const previousFrom = new Date(from);
+  previousFrom.setUTCMonth(previousFrom.getUTCMonth() - periodMonths[period]);
+  const lastMonth = toMonthKey(new Date(to.getTime() - 1));
+
+  const [collections, previousCollections, paidExpenses, expenseBreakdown, billed, stats, payments, expenses] = await Promise.all([
+    storage.getCollectionsByMonth(societyId, from, to),
+    storage.getCollectionsByMonth(societyId, previousFrom, from),
+    storage.getPaidExpensesByMonth(societyId, from, to),
+    storage.getPaidExpensesByCategory(societyId, from, to),
+    storage.getBilledAmount(societyId, toMonthKey(from), lastMonth),
+    storage.getSocietyStats(societyId),
+    storage.getPaymentsBySociety(societyId),
+    storage.getExpensesBySociety(societyId),
+  ]);
+
+  const months: MonthlyIncomeExpense[] = listMonths(from, to).map(month => ({
+    month,
+    income: collections.find(row => row.month === month)?.amount || 0,
+    expenses: paidExpenses.find(row => row.month === month)?.amount || 0,
+  }));
+
+  const income = months.reduce((sum, month) => sum + month.income, 0);
+  const previousIncome = previousCollections.reduce((sum, row) => sum + row.amount, 0);
+
+  const recentTransactions: FinancialReport["recentTransactions"] = [
+    ...payments
+      .filter(payment => payment.status === 'success' && payment.paidAt)
+      .map(payment => ({
+        id: payment.id,
+        type: 'credit' as const,
+        description: `${payment.description || "Payment"}${payment.flatNumber ? ` - ${payment.flatNumber}` : ""}`,
+        amount: payment.amount,
+        date: new Date(payment.paidAt!).toISOString(),
+      })),
+    ...expenses
+      .filter(expense => expense.status === 'paid' && expense.paymentDate)
+      .map(expense => ({
+        id: expense.id,
+        type: 'debit' as const,
+        description: expense.vendorName ? `${expense.description} - ${expense.vendorName}` : expense.description,
+        amount: expense.amount,
+        date: new Date(expense.paymentDate!).toISOString(),
+      })),
+  ]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, RECENT_TRANSACTION_LIMIT);
+
+  return {
+    period,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    income,
+    expenses: months.reduce((sum, month) => sum + month.expenses, 0),
+    billed,
+    pendingDues: stats.pendingDues,
+    incomeGrowth: previousIncome > 0 ? Math.round(((income - previousIncome) / previousIncome) * 100) : null,
+    months,
+    expenseBreakdown,
+    recentTransactions,
+  };
+}
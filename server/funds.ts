@@ -0,0 +1,83 @@
+import type { Fund, FundStatement, FundWithBalance, FundWithdrawalWithPoll, Poll } from "@shared/schema";
+import { storage } from "./storage";
+
+// Option order matters: the outcome is read from these labels
+export const WITHDRAWAL_POLL_OPTIONS = ["Approve", "Reject"];
+
+export function isPollOver(poll: Poll, asOf: Date): boolean {
+  return poll.status === 'closed' || asOf > new Date(poll.endDate);
+}
+
+// A withdrawal passes when, after voting ends, approvals outnumber rejections
+export function getWithdrawalOutcome(
+  poll: Poll,
+  results: { optionText: string; voteCount: number }[],
+  asOf: Date,
+): { outcome: FundWithdrawalWithPoll["outcome"]; approveVotes: number; rejectVotes: number } {
+  const approveVotes = results.find(result => result.optionText === WITHDRAWAL_POLL_OPTIONS[0])?.voteCount || 0;
+  const rejectVotes = results.find(result => result.optionText === WITHDRAWAL_POLL_OPTIONS[1])?.voteCount || 0;
+
+  if (!isPollOver(poll, asOf)) return { outcome: 'open', approveVotes, rejectVotes };
+  return { outcome: approveVotes > rejectVotes ? 'approved' : 'rejected', approveVotes, rejectVotes };
+}
+
+export async function getFundsWithBalances(societyId: string): Promise<FundWithBalance[]> {
+  const [funds, balances] = await Promise.all([
+    storage.getFunds(societyId),
+    storage.getFundBalances(societyId),
+  ]);
+  return funds.map(fund => ({
+    ...fund,
+    balance: balances.find(row => row.fundId === fund.id)?.balance || 0,
+  }));
+}
+
+export async function getFundWithdrawals(societyId: string, asOf: Date): Promise<FundWithdrawalWithPoll[]> {
+  const withdrawals = await storage.getFundWithdrawalsBySociety(societyId);
+
+  return await Promise.all(withdrawals.map(async ({ poll, ...withdrawal }) => {
+    const results = await storage.getPollResults(poll.id);
+    return {
+      ...withdrawal,
+      pollStatus: poll.status,
+      pollEndDate: new Date(poll.endDate).toISOString(),
+      ...getWithdrawalOutcome(poll, results, asOf),
+    };
+  }));
+}
+
+// Ranges include from and exclude to, matching the accounting reports
+export async function buildFundStatement(fund: Fund, from: Date | null, to: Date): Promise<FundStatement> {
+  const lines = await storage.getFundLedgerLines(fund.id, to);
+
+  const openingBalance = lines
+    .filter(line => from && line.entryDate < from)
+    .reduce((sum, line) => sum + line.credit - line.debit, 0);
+
+  let balance = openingBalance;
+  const entries = lines
+    .filter(line => !from || line.entryDate >= from)
+    .map(line => {
+      balance += line.credit - line.debit;
+      return {
+        entryId: line.entryId,
+        date: line.entryDate.toISOString(),
+        description: line.description,
+        sourceType: line.sourceType,
+        contribution: line.credit,
+        withdrawal: line.debit,
+        balance,
+      };
+    });
+
+  return {
+    fund,
+    from: from ? from.toISOString() : null,
+    to: to.toISOString(),
+    openingBalance,
+    entries,
+    totalContributions: entries.reduce((sum, entry) => sum + entry.contribution, 0),
+    totalWithdrawals: entries.reduce((sum, entry) => sum + entry.withdrawal, 0),
+    closingBalance: balance,
+  };
+}
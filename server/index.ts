@@ -2,9 +2,19 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startPenaltyAccrualJob } from "./penalties";
+import { startSlaEscalationJob } from "./sla";
+import { startComplaintAutoCloseJob } from "./complaints";
+import { startWaitlistOfferJob } from "./facilities";
+import { getPaymentConfigError } from "./paymentGateway";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw payload so payment webhook signatures can be verified
+  verify: (req: any, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -39,6 +49,14 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = await registerRoutes(app);
+  const paymentConfigError = getPaymentConfigError();
+  if (paymentConfigError) {
+    console.error(`Online payments are disabled: ${paymentConfigError}`);
+  }
+  startPenaltyAccrualJob();
+  startSlaEscalationJob();
+  startComplaintAutoCloseJob();
+  startWaitlistOfferJob();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
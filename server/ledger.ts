@@ -0,0 +1,134 @@
+import { ledgerAccounts, journalEntries, journalLines, type LedgerAccount, type JournalEntry, type Expense, type Fund } from "@shared/schema";
+import { db } from "./db";
+import { eq, and, desc, like } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type SystemAccountKey =
+  | 'bank'
+  | 'cash'
+  | 'receivables'
+  | 'advance_credit'
+  | 'payables'
+  | 'cgst_payable'
+  | 'sgst_payable'
+  | 'maintenance_income'
+  | 'penalty_income'
+  | 'bounce_income'
+  | 'facility_income'
+  | 'security_deposits'
+  | `expense:${Expense["category"]}`
+  | `fund:${string}`;
+
+// Default chart of accounts every society starts with
+const defaultChartOfAccounts: { code: string; name: string; type: LedgerAccount["type"]; systemKey: SystemAccountKey }[] = [
+  { code: "1000", name: "Bank Account", type: "asset", systemKey: "bank" },
+  { code: "1010", name: "Cash in Hand", type: "asset", systemKey: "cash" },
+  { code: "1100", name: "Maintenance Receivable", type: "asset", systemKey: "receivables" },
+  { code: "2000", name: "Advance Maintenance Received", type: "liability", systemKey: "advance_credit" },
+  { code: "2100", name: "Sundry Creditors", type: "liability", systemKey: "payables" },
+  { code: "2200", name: "Output CGST", type: "liability", systemKey: "cgst_payable" },
+  { code: "2210", name: "Output SGST", type: "liability", systemKey: "sgst_payable" },
+  { code: "2300", name: "Security Deposits Held", type: "liability", systemKey: "security_deposits" },
+  { code: "4000", name: "Maintenance Charges", type: "income", systemKey: "maintenance_income" },
+  { code: "4100", name: "Interest & Late Fees", type: "income", systemKey: "penalty_income" },
+  { code: "4200", name: "Cheque Bounce Charges", type: "income", systemKey: "bounce_income" },
+  { code: "4300", name: "Facility Booking Charges", type: "income", systemKey: "facility_income" },
+  { code: "5000", name: "Salaries & Wages", type: "expense", systemKey: "expense:staff" },
+  { code: "5100", name: "Electricity & Water", type: "expense", systemKey: "expense:utilities" },
+  { code: "5200", name: "Security Charges", type: "expense", systemKey: "expense:security" },
+  { code: "5300", name: "Housekeeping", type: "expense", systemKey: "expense:cleaning" },
+  { code: "5400", name: "Repairs & Maintenance", type: "expense", systemKey: "expense:repairs" },
+  { code: "5500", name: "Consumables", type: "expense", systemKey: "expense:supplies" },
+  { code: "5900", name: "Miscellaneous Expenses", type: "expense", systemKey: "expense:other" },
+];
+
+export interface JournalPosting {
+  societyId: string;
+  entryDate: Date;
+  description: string;
+  sourceType: JournalEntry["sourceType"];
+  sourceId: string;
+  lines: { account: SystemAccountKey; debit?: number; credit?: number }[];
+}
+
+// Creates the default accounts the first time a society posts anything
+async function getSystemAccounts(tx: Transaction, societyId: string): Promise<Map<string, string>> {
+  let accounts = await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.societyId, societyId));
+
+  const missing = defaultChartOfAccounts.filter(account => !accounts.some(existing => existing.systemKey === account.systemKey));
+  if (missing.length > 0) {
+    await tx
+      .insert(ledgerAccounts)
+      .values(missing.map(account => ({ ...account, societyId })))
+      .onConflictDoNothing();
+    accounts = await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.societyId, societyId));
+  }
+
+  return new Map(
+    accounts
+      .filter(account => account.systemKey)
+      .map(account => [account.systemKey!, account.id]),
+  );
+}
+
+export async function ensureChartOfAccounts(societyId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    await getSystemAccounts(tx, societyId);
+  });
+}
+
+// Each fund gets its own account under the 3000 series so its balance stays apart from the general surplus
+export async function createFundAccount(tx: Transaction, fund: Fund): Promise<void> {
+  await getSystemAccounts(tx, fund.societyId);
+  const [last] = await tx
+    .select({ code: ledgerAccounts.code })
+    .from(ledgerAccounts)
+    .where(and(eq(ledgerAccounts.societyId, fund.societyId), like(ledgerAccounts.code, '3%')))
+    .orderBy(desc(ledgerAccounts.code))
+    .limit(1);
+
+  await tx.insert(ledgerAccounts).values({
+    societyId: fund.societyId,
+    code: last ? String(Number(last.code) + 10) : "3000",
+    name: fund.name,
+    type: "equity",
+    systemKey: `fund:${fund.id}`,
+  });
+}
+
+// Posts within the caller's transaction so the ledger never disagrees with the records it mirrors
+export async function postJournalEntry(tx: Transaction, posting: JournalPosting): Promise<void> {
+  const lines = posting.lines.filter(line => (line.debit || 0) !== 0 || (line.credit || 0) !== 0);
+  if (lines.length === 0) return;
+
+  const totalDebit = lines.reduce((sum, line) => sum + (line.debit || 0), 0);
+  const totalCredit = lines.reduce((sum, line) => sum + (line.credit || 0), 0);
+  if (totalDebit !== totalCredit) {
+    throw new Error(`Unbalanced journal entry for ${posting.sourceType} ${posting.sourceId}: debit ${totalDebit}, credit ${totalCredit}`);
+  }
+
+  const accounts = await getSystemAccounts(tx, posting.societyId);
+  const missing = lines.find(line => !accounts.has(line.account));
+  if (missing) {
+    throw new Error(`No ledger account for ${missing.account} in society ${posting.societyId}`);
+  }
+
+  const [entry] = await tx
+    .insert(journalEntries)
+    .values({
+      societyId: posting.societyId,
+      entryDate: posting.entryDate,
+      description: posting.description,
+      sourceType: posting.sourceType,
+      sourceId: posting.sourceId,
+    })
+    .returning();
+
+  await tx.insert(journalLines).values(lines.map(line => ({
+    entryId: entry.id,
+    accountId: accounts.get(line.account)!,
+    debit: line.debit || 0,
+    credit: line.credit || 0,
+  })));
+}
@@ -0,0 +1,49 @@
+import type { PaymentIntent } from "@shared/schema";
+import { simulatorProvider } from "./paymentSimulator";
+
+export type PaymentMethod = PaymentIntent["method"];
+
+export interface PaymentEvent {
+  eventId: string;
+  type: 'payment.succeeded' | 'payment.failed';
+  providerReference: string;
+  failureReason?: string;
+}
+
+export interface CreatedProviderIntent {
+  providerReference: string;
+  // Handed to the browser for providers that collect payment details client-side
+  clientSecret?: string;
+}
+
+// Every gateway integration implements this interface; routes never talk to a gateway directly
+export interface PaymentProvider {
+  name: string;
+  createIntent(params: { amount: number; method: PaymentMethod; description: string }): Promise<CreatedProviderIntent>;
+  // Server-side confirmation; returns the event the provider will also deliver by webhook, if any
+  confirmIntent(providerReference: string, details: Record<string, string>): Promise<PaymentEvent | null>;
+  // Verifies the signature of a webhook delivery and returns its event, or null if it is not authentic
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentEvent | null;
+}
+
+const isProduction = () => process.env.NODE_ENV === 'production';
+
+// The simulator approves almost any payment, so it is never reachable in production
+const providers: Record<string, PaymentProvider> = isProduction() ? {} : {
+  [simulatorProvider.name]: simulatorProvider,
+};
+
+// Why online payments can't be taken with the current environment, or null when they can
+export function getPaymentConfigError(): string | null {
+  if (!isProduction()) return null;
+  const name = process.env.PAYMENT_PROVIDER;
+  if (!name) return "PAYMENT_PROVIDER is not set";
+  if (!providers[name]) return `Unknown payment provider "${name}"`;
+  if (!process.env.PAYMENT_WEBHOOK_SECRET) return "PAYMENT_WEBHOOK_SECRET is not set";
+  return null;
+}
+
+export function getPaymentProvider(name?: string): PaymentProvider | undefined {
+  if (getPaymentConfigError()) return undefined;
+  return providers[name || process.env.PAYMENT_PROVIDER || simulatorProvider.name];
+}
@@ -0,0 +1,70 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { PaymentProvider, PaymentEvent } from "./paymentGateway";
+
+// Local stand-in for a real gateway, for development and testing only.
+// Outcomes are driven by the payment details, like the test cards of hosted gateways:
+//   - card numbers ending in 0002 are declined
+//   - the UPI id fail@upi is declined
+//   - everything else succeeds
+const SIGNATURE_HEADER = "x-simulator-signature";
+
+// Without a configured secret no webhook can be signed, so every delivery is rejected
+export function signSimulatorPayload(payload: string): string | null {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) return null;
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+function getDeclineReason(details: Record<string, string>): string | undefined {
+  const cardNumber = (details.cardNumber || "").replace(/\s+/g, "");
+  if (cardNumber.endsWith("0002")) {
+    return "Card declined by issuer";
+  }
+  if (details.upiId === "fail@upi") {
+    return "UPI collect request rejected";
+  }
+  return undefined;
+}
+
+export const simulatorProvider: PaymentProvider = {
+  name: "simulator",
+
+  async createIntent() {
+    return {
+      providerReference: `sim_${randomUUID()}`,
+      clientSecret: `sim_secret_${randomUUID()}`,
+    };
+  },
+
+  async confirmIntent(providerReference, details) {
+    const failureReason = getDeclineReason(details);
+    return {
+      eventId: `evt_${randomUUID()}`,
+      type: failureReason ? 'payment.failed' : 'payment.succeeded',
+      providerReference,
+      failureReason,
+    };
+  },
+
+  parseWebhook(rawBody, headers) {
+    const signature = headers[SIGNATURE_HEADER];
+    if (typeof signature !== "string") return null;
+
+    const signed = signSimulatorPayload(rawBody.toString("utf8"));
+    if (!signed) return null;
+
+    const expected = Buffer.from(signed);
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(rawBody.toString("utf8")) as PaymentEvent;
+      if (!event.eventId || !event.providerReference || !event.type) return null;
+      return event;
+    } catch {
+      return null;
+    }
+  },
+};
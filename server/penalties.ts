@@ -0,0 +1,157 @@
+import type { MaintenanceBillWithLineItems, PenaltyRule, BillPenaltyLine, BillPenaltyPreview } from "@shared/schema";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Re-accrue once an hour so overdue amounts stay current without an admin action
+const ACCRUAL_INTERVAL_MS = 60 * 60 * 1000;
+
+export function getDaysOverdue(dueDate: Date, asOf: Date): number {
+  return Math.max(0, Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS));
+}
+
+// The amount penalties are charged on, i.e. the bill without previously accrued penalties
+export function getPenaltyBase(bill: MaintenanceBillWithLineItems): number {
+  const accrued = bill.lineItems
+    .filter(item => item.kind === 'penalty')
+    .reduce((sum, item) => sum + item.amount, 0);
+  return bill.amount - accrued;
+}
+
+// A payment settled against a bill, and when it was made
+export interface BillPayment {
+  amount: number;
+  paidAt: Date;
+}
+
+// What was still unpaid of the bill's base at an instant. Advance credit counts from the day the
+// bill was raised, payments from when they were made, so later payments never change past days
+function getUnpaidBaseAt(bill: MaintenanceBillWithLineItems, payments: BillPayment[], at: Date): number {
+  const paid = payments
+    .filter(payment => payment.paidAt <= at)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  return Math.max(0, getPenaltyBase(bill) - bill.creditApplied - paid);
+}
+
+// unpaidOn(day) is what was unpaid that many days after the due date
+function computeRulePenalty(rule: PenaltyRule, unpaidOn: (day: number) => number, daysOverdue: number): number {
+  // Grace days only delay the penalty; interest still runs from the due date
+  if (daysOverdue <= rule.graceDays) return 0;
+
+  let penalty = 0;
+  let charged = 0;
+  switch (rule.type) {
+    case 'flat_fee':
+      penalty = rule.value;
+      break;
+    case 'daily_interest':
+      // Each overdue day is charged on what was unpaid when it began
+      for (let day = 0; day < daysOverdue; day++) charged += unpaidOn(day);
+      penalty = (charged * rule.value) / 10000;
+      break;
+    case 'monthly_interest':
+      // Charged per month or part thereof, on what was unpaid when the month began
+      for (let month = 0; month < Math.ceil(daysOverdue / 30); month++) charged += unpaidOn(month * 30);
+      penalty = (charged * rule.value) / 10000;
+      break;
+  }
+
+  penalty = Math.round(penalty);
+  return rule.capAmount != null ? Math.min(penalty, rule.capAmount) : penalty;
+}
+
+// Pure function of the bill, its payments, the rules and the date, so any date can be recomputed
+export function computeBillPenalties(
+  bill: MaintenanceBillWithLineItems,
+  payments: BillPayment[],
+  rules: PenaltyRule[],
+  asOf: Date,
+): BillPenaltyPreview {
+  const baseAmount = getPenaltyBase(bill);
+  // Paid bills stop accruing on the day they were paid
+  const effectiveDate = bill.isPaid && bill.paidAt && bill.paidAt < asOf ? bill.paidAt : asOf;
+  const dueDate = new Date(bill.dueDate);
+  const daysOverdue = getDaysOverdue(dueDate, effectiveDate);
+  const unpaidOn = (day: number) => getUnpaidBaseAt(bill, payments, new Date(dueDate.getTime() + day * DAY_MS));
+
+  const penalties: BillPenaltyLine[] = [];
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    const amount = computeRulePenalty(rule, unpaidOn, daysOverdue);
+    if (amount > 0) {
+      penalties.push({
+        penaltyRuleId: rule.id,
+        description: rule.name,
+        amount,
+      });
+    }
+  }
+
+  return {
+    billId: bill.id,
+    residentId: bill.residentId,
+    billingMonth: bill.billingMonth,
+    baseAmount,
+    interestBase: getUnpaidBaseAt(bill, payments, effectiveDate),
+    daysOverdue,
+    penalties,
+    penaltyTotal: penalties.reduce((sum, line) => sum + line.amount, 0),
+  };
+}
+
+// Unpaid bills with the payments made against each of them so far
+async function getUnpaidBillsWithPayments(societyId: string): Promise<{ bill: MaintenanceBillWithLineItems; payments: BillPayment[] }[]> {
+  const bills = await storage.getUnpaidBillsBySociety(societyId);
+  const payments = await storage.getBillPayments(bills.map(bill => bill.id));
+  return bills.map(bill => ({ bill, payments: payments.filter(payment => payment.billId === bill.id) }));
+}
+
+export async function previewSocietyPenalties(societyId: string, asOf: Date): Promise<BillPenaltyPreview[]> {
+  const [bills, rules] = await Promise.all([
+    getUnpaidBillsWithPayments(societyId),
+    storage.getPenaltyRules(societyId),
+  ]);
+  return bills.map(({ bill, payments }) => computeBillPenalties(bill, payments, rules, asOf));
+}
+
+// Replaces the penalty line items on every unpaid bill with the amounts due as of the given date
+export async function accrueSocietyPenalties(societyId: string, asOf: Date): Promise<{ updated: number; totalPenalties: number }> {
+  const [bills, rules] = await Promise.all([
+    getUnpaidBillsWithPayments(societyId),
+    storage.getPenaltyRules(societyId),
+  ]);
+
+  let updated = 0;
+  let totalPenalties = 0;
+  for (const { bill, payments } of bills) {
+    const preview = computeBillPenalties(bill, payments, rules, asOf);
+    totalPenalties += preview.penaltyTotal;
+
+    const current = bill.lineItems.filter(item => item.kind === 'penalty');
+    const unchanged = current.length === preview.penalties.length &&
+      preview.penalties.every(line => current.some(item => item.penaltyRuleId === line.penaltyRuleId && item.amount === line.amount));
+    if (unchanged) continue;
+
+    // The bill keeps its gross amount; payments are netted off only when dues are totalled
+    await storage.replaceBillPenalties(bill.id, preview.penalties, preview.baseAmount + preview.penaltyTotal);
+    updated++;
+  }
+
+  return { updated, totalPenalties };
+}
+
+export function startPenaltyAccrualJob() {
+  const run = async () => {
+    try {
+      const societies = await storage.getSocieties();
+      for (const society of societies) {
+        await accrueSocietyPenalties(society.id, new Date());
+      }
+    } catch (error) {
+      console.error("Error accruing penalties:", error);
+    }
+  };
+
+  run();
+  setInterval(run, ACCRUAL_INTERVAL_MS);
+}
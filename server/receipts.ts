@@ -0,0 +1,140 @@
+import PDFDocument from "pdfkit";
+import type { MaintenanceBillWithLineItems, PaymentWithAllocations, Society, TaxConfiguration, User } from "@shared/schema";
+import { getInvoiceTotal } from "./tax";
+
+const methodLabels: Record<string, string> = {
+  card: "Credit/Debit Card",
+  upi: "UPI",
+  netbanking: "Net Banking",
+  cash: "Cash",
+  cheque: "Cheque",
+  bank_transfer: "Bank Transfer",
+};
+
+function formatRupees(amount: number): string {
+  // The built-in PDF fonts have no rupee glyph
+  return `Rs. ${amount.toLocaleString('en-IN')}`;
+}
+
+export function writeReceiptPdf(
+  stream: NodeJS.WritableStream,
+  payment: PaymentWithAllocations,
+  society: Society,
+  resident: User,
+) {
+  const doc = new PDFDocument({ size: "A5", margin: 40 });
+  doc.pipe(stream);
+
+  doc.fontSize(16).text(society.name, { align: "center" });
+  doc.fontSize(9).fillColor("#555555").text(society.address, { align: "center" });
+  doc.moveDown();
+  doc.fillColor("#000000").fontSize(13).text("PAYMENT RECEIPT", { align: "center", underline: true });
+  doc.moveDown();
+
+  const paidAt = payment.paidAt || payment.createdAt || new Date();
+  doc.fontSize(10);
+  doc.text(`Receipt No: ${payment.receiptNumber}`);
+  doc.text(`Date: ${new Date(paidAt).toLocaleDateString('en-IN')}`);
+  doc.text(`Received from: ${`${resident.firstName || ''} ${resident.lastName || ''}`.trim()}`);
+  if (resident.flatNumber) {
+    doc.text(`Flat: ${resident.flatNumber}`);
+  }
+  doc.text(`Payment method: ${methodLabels[payment.method] || payment.method}`);
+  if (payment.reference) {
+    doc.text(`Reference: ${payment.reference}`);
+  }
+  if (payment.instrumentNumber) {
+    doc.text(`${payment.method === 'cheque' ? "Cheque No" : "UTR"}: ${payment.instrumentNumber}${payment.bankName ? ` (${payment.bankName})` : ""}`);
+  }
+  if (payment.instrumentDate) {
+    doc.text(`Instrument date: ${new Date(payment.instrumentDate).toLocaleDateString('en-IN')}`);
+  }
+  doc.moveDown();
+
+  doc.fontSize(11).text("Allocated to", { underline: true });
+  doc.fontSize(10);
+  for (const allocation of payment.allocations) {
+    doc.text(`Maintenance bill ${allocation.billingMonth}`, { continued: true });
+    doc.text(formatRupees(allocation.amount), { align: "right" });
+  }
+  if (payment.creditAmount > 0) {
+    doc.text("Advance credit", { continued: true });
+    doc.text(formatRupees(payment.creditAmount), { align: "right" });
+  }
+  doc.moveDown();
+
+  doc.fontSize(12).text("Total received", { continued: true });
+  doc.text(formatRupees(payment.amount), { align: "right" });
+  if (payment.status === 'reversed') {
+    doc.moveDown();
+    doc.fillColor("#cc0000").fontSize(11).text("CHEQUE RETURNED - THIS RECEIPT IS VOID", { align: "center" });
+    if (payment.bounceReason) {
+      doc.fontSize(9).text(`Reason: ${payment.bounceReason}`, { align: "center" });
+    }
+    doc.fillColor("#000000");
+  }
+  doc.moveDown(2);
+
+  doc.fontSize(8).fillColor("#555555").text("This is a computer generated receipt and does not require a signature.", { align: "center" });
+  doc.end();
+}
+
+// Bills without GST are issued as a bill of supply under the same number series
+export function writeTaxInvoicePdf(
+  stream: NodeJS.WritableStream,
+  bill: MaintenanceBillWithLineItems,
+  society: Society,
+  resident: User,
+  tax: TaxConfiguration,
+) {
+  const isTaxed = bill.cgstAmount + bill.sgstAmount > 0;
+  const doc = new PDFDocument({ size: "A5", margin: 40 });
+  doc.pipe(stream);
+
+  doc.fontSize(16).text(society.name, { align: "center" });
+  doc.fontSize(9).fillColor("#555555").text(society.address, { align: "center" });
+  if (tax.gstin) {
+    doc.text(`GSTIN: ${tax.gstin}`, { align: "center" });
+  }
+  doc.moveDown();
+  doc.fillColor("#000000").fontSize(13).text(isTaxed ? "TAX INVOICE" : "BILL OF SUPPLY", { align: "center", underline: true });
+  doc.moveDown();
+
+  doc.fontSize(10);
+  doc.text(`Invoice No: ${bill.invoiceNumber}`);
+  doc.text(`Invoice date: ${new Date(bill.createdAt || bill.dueDate).toLocaleDateString('en-IN')}`);
+  doc.text(`Billing month: ${bill.billingMonth}`);
+  doc.text(`Billed to: ${`${resident.firstName || ''} ${resident.lastName || ''}`.trim()}`);
+  if (resident.flatNumber) {
+    doc.text(`Flat: ${resident.flatNumber}`);
+  }
+  doc.text(`SAC: ${tax.sacCode}`);
+  doc.moveDown();
+
+  doc.fontSize(11).text("Particulars", { underline: true });
+  doc.fontSize(10);
+  const charges = bill.lineItems.filter(item => item.kind === 'charge' || item.kind === 'fund_contribution');
+  for (const item of charges) {
+    doc.text(item.description, { continued: true });
+    doc.text(formatRupees(item.amount), { align: "right" });
+  }
+  if (isTaxed) {
+    doc.moveDown(0.5);
+    doc.text("Taxable value", { continued: true });
+    doc.text(formatRupees(bill.taxableAmount), { align: "right" });
+    // Tax lines carry the rate in force when the bill was raised
+    for (const item of bill.lineItems.filter(line => line.kind === 'cgst' || line.kind === 'sgst')) {
+      doc.text(item.description, { continued: true });
+      doc.text(formatRupees(item.amount), { align: "right" });
+    }
+  }
+  doc.moveDown();
+
+  doc.fontSize(12).text("Invoice total", { continued: true });
+  doc.text(formatRupees(getInvoiceTotal(bill)), { align: "right" });
+  doc.fontSize(9).text(`Due by ${new Date(bill.dueDate).toLocaleDateString('en-IN')}`);
+  doc.moveDown(2);
+
+  doc.fontSize(8).fillColor("#555555").text("This is a computer generated invoice and does not require a signature.", { align: "center" });
+  doc.end();
+}
@@ -0,0 +1,180 @@
+import type { BankStatementRow, PaymentWithAllocations, ReconciliationMatch, ReconciliationResult } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deposits can take a few days to clear, so amount-only matches allow some slack around the payment date
+const DATE_TOLERANCE_DAYS = 3;
+
+// Header names used by the statement exports of common Indian banks
+const columnAliases = {
+  date: ["date", "txn date", "transaction date", "value date", "value dt", "tran date"],
+  description: ["description", "narration", "particulars", "remarks", "transaction remarks"],
+  reference: ["reference", "ref no", "ref no.", "reference no", "chq/ref no", "chq./ref.no.", "cheque no", "utr", "utr no"],
+  credit: ["credit", "credit amount", "deposit", "deposit amt", "deposit amount", "cr", "amount"],
+};
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function findColumn(headers: string[], aliases: string[]): number {
+  return headers.findIndex(header => aliases.includes(header));
+}
+
+// Accepts YYYY-MM-DD as well as the DD/MM/YYYY and DD-MM-YYYY formats banks export
+function parseStatementDate(value: string): string | null {
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = value.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+function parseStatementAmount(value: string): number {
+  const amount = parseFloat(value.replace(/[,\s₹]/g, "").replace(/^rs\.?/i, ""));
+  return isNaN(amount) ? 0 : Math.round(amount);
+}
+
+export function parseBankStatement(csv: string): { rows: BankStatementRow[]; errors: string[] } {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== "");
+  if (lines.length === 0) {
+    return { rows: [], errors: ["The statement is empty"] };
+  }
+
+  const headers = parseCsvLine(lines[0]).map(header => header.toLowerCase());
+  const columns = {
+    date: findColumn(headers, columnAliases.date),
+    description: findColumn(headers, columnAliases.description),
+    reference: findColumn(headers, columnAliases.reference),
+    credit: findColumn(headers, columnAliases.credit),
+  };
+  if (columns.date === -1 || columns.credit === -1) {
+    return { rows: [], errors: ["The statement needs a date column and a credit or amount column"] };
+  }
+
+  const rows: BankStatementRow[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const rowNumber = index + 2;
+    const cells = parseCsvLine(line);
+
+    // Debits have no credit amount and are not relevant to collections
+    const amount = parseStatementAmount(cells[columns.credit] || "");
+    if (amount <= 0) return;
+
+    const date = parseStatementDate(cells[columns.date] || "");
+    if (!date) {
+      errors.push(`Row ${rowNumber}: unrecognised date "${cells[columns.date] || ""}"`);
+      return;
+    }
+
+    rows.push({
+      rowNumber,
+      date,
+      description: columns.description === -1 ? "" : cells[columns.description] || "",
+      reference: columns.reference === -1 ? "" : cells[columns.reference] || "",
+      amount,
+    });
+  });
+
+  return { rows, errors };
+}
+
+function normalizeReference(value: string): string {
+  return value.replace(/[^a-z0-9]/gi, "").toLowerCase();
+}
+
+function referencesMatch(row: BankStatementRow, payment: PaymentWithAllocations): boolean {
+  const instrument = normalizeReference(payment.instrumentNumber || "");
+  // Very short cheque numbers would match unrelated narration text
+  if (instrument.length < 4) return false;
+  return normalizeReference(row.reference).includes(instrument) ||
+    normalizeReference(row.description).includes(instrument);
+}
+
+function daysBetween(date: string, payment: PaymentWithAllocations): number {
+  const paymentDate = payment.instrumentDate || payment.paidAt || payment.createdAt;
+  if (!paymentDate) return Infinity;
+  return Math.abs(new Date(date).getTime() - new Date(paymentDate).getTime()) / DAY_MS;
+}
+
+// Matches statement credits to unreconciled payments; each payment is used at most once
+export function matchBankStatement(
+  rows: BankStatementRow[],
+  candidates: PaymentWithAllocations[],
+  errors: string[] = [],
+): ReconciliationResult {
+  const available = new Map(candidates.map(payment => [payment.id, payment]));
+  const matches: ReconciliationMatch[] = [];
+  const unmatchedRows: BankStatementRow[] = [];
+
+  const record = (row: BankStatementRow, payment: PaymentWithAllocations, matchedOn: ReconciliationMatch["matchedOn"]) => {
+    available.delete(payment.id);
+    matches.push({
+      row,
+      paymentId: payment.id,
+      receiptNumber: payment.receiptNumber,
+      residentName: payment.residentName,
+      matchedOn,
+    });
+  };
+
+  // Reference matches are unambiguous, so they claim payments before any amount-only match
+  const remainingRows: BankStatementRow[] = [];
+  for (const row of rows) {
+    const payment = Array.from(available.values())
+      .find(candidate => candidate.amount === row.amount && referencesMatch(row, candidate));
+    if (payment) {
+      record(row, payment, 'reference');
+    } else {
+      remainingRows.push(row);
+    }
+  }
+
+  for (const row of remainingRows) {
+    const sameAmount = Array.from(available.values())
+      .filter(candidate => candidate.amount === row.amount && daysBetween(row.date, candidate) <= DATE_TOLERANCE_DAYS);
+    // Two payments of the same amount on the same days cannot be told apart; leave those to the admin
+    if (sameAmount.length === 1) {
+      record(row, sameAmount[0], 'amount_and_date');
+    } else {
+      unmatchedRows.push(row);
+    }
+  }
+
+  return {
+    matches,
+    unmatchedRows,
+    unmatchedPayments: Array.from(available.values()),
+    errors,
+  };
+}
@@ -4,8 +4,90 @@ import { z } from "zod";
 import bcrypt from "bcrypt";
 import { storage } from "./storage";
 import { setupSimpleAuth, isSimpleAuthenticated } from "./simpleAuth";
-import { insertComplaintSchema, insertFacilityBookingSchema, insertAnnouncementSchema, insertSocietySchema, insertPollSchema, insertVoteSchema, insertMarketplaceItemSchema, insertUserSchema } from "@shared/schema";
+import { insertComplaintSchema, insertAnnouncementSchema, insertSocietySchema, insertPollSchema, insertVoteSchema, insertMarketplaceItemSchema, insertUserSchema, insertChargeHeadSchema, insertPenaltyRuleSchema, offlinePaymentMethods, insertVendorSchema, insertExpenseSchema, insertFundSchema, insertFundWithdrawalSchema, insertTaxSettingsSchema, insertStaffMemberSchema, insertComplaintCommentSchema, insertSlaPolicySchema, insertComplaintCategorySchema, insertFacilitySchema, insertFacilityBlackoutSchema, facilityBookingRequestSchema, complaintStatusEnum, complaintFeedbackSchema, complaintReopenSchema, complaintMergeSchema, complaintPriorities, bookingCancellationSchema, adminBookingCancellationSchema, bookingStatusUpdateSchema, bookingSeriesRequestSchema, MAX_SERIES_OCCURRENCES, GSTIN_PATTERN, DATE_PATTERN, type Poll, type FacilityBooking, type BookingSeriesOccurrence, type FacilityBookingSeriesResult, type ComplaintAssigneeType } from "@shared/schema";
 import { sendAnnouncementToResidents, sendComplaintNotification, sendBookingNotification, sendVotingNotification } from "./emailService";
+import { isValidBillingMonth, getDefaultDueDate, buildBillPreviews } from "./billing";
+import { previewSocietyPenalties, accrueSocietyPenalties } from "./penalties";
+import { getPaymentProvider } from "./paymentGateway";
+import { writeReceiptPdf, writeTaxInvoicePdf } from "./receipts";
+import { parseBankStatement, matchBankStatement } from "./reconciliation";
+import { buildFinancialReport } from "./financialReports";
+import { buildComplaintAnalytics } from "./complaintReports";
+import { buildTrialBalance, buildIncomeExpenditure, buildBalanceSheet } from "./accountingReports";
+import { getTaxConfiguration, buildTaxSummary } from "./tax";
+import { WITHDRAWAL_POLL_OPTIONS, getWithdrawalOutcome, isPollOver, getFundsWithBalances, getFundWithdrawals, buildFundStatement } from "./funds";
+import { getComplaintAssignees, getAssignee, getAssigneeForUser, canAccessComplaint, getComplaintTimeline, toAttachmentInfo, buildWorkloadSummary, buildSatisfactionSummary, canTransitionComplaint, getManagedStatusChanges, getSocietyComplaintCategories, getCategoriesWithRouting, routeComplaint, findLikelyDuplicates, countLikelyDuplicates } from "./complaints";
+import { buildSlaCompliance, setCategorySla } from "./sla";
+import { MAX_AVAILABILITY_DAYS, getFacilityHoursError, getBookingWindowError, computeBookingQuote, placeFacilityBooking, listSeriesDates, isWindowFull, offerWaitlistedSlots, getBookingStart, getCancellationQuote, toBookingDate, toDateKey, getSocietyDate, toSocietyInstant, toFacilityPhotoInfo, getFacilitiesWithPhotos, buildFacilityAvailability } from "./facilities";
+import { systemSettingsSchema, getSystemSettings, updateSystemSettings, getMaxUploadBytes } from "./systemSettings";
+import { rawUpload, detectMimeType, documentMimeTypes, attachmentMimeTypes, isImageMimeType, createThumbnail, saveUpload, resolveUpload, deleteUpload } from "./uploads";
+
+// Emails every resident about a new poll; a failed email never fails the request
+async function notifyResidentsOfPoll(user: any, poll: Poll) {
+  try {
+    const society = await storage.getSociety(user.societyId);
+    if (society) {
+      const residents = await storage.getResidentsBySociety(user.societyId);
+      const residentsWithEmails = residents
+        .filter(resident => resident.email)
+        .map(resident => ({
+          email: resident.email!,
+          firstName: resident.firstName || 'Resident'
+        }));
+      
+      if (residentsWithEmails.length > 0) {
+        await sendVotingNotification(residentsWithEmails, {
+          id: poll.id,
+          title: poll.title,
+          description: poll.description,
+          endDate: poll.endDate.toISOString(),
+          societyName: society.name,
+          createdByName: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+          isAnonymous: poll.isAnonymous || false
+        });
+      }
+    }
+  } catch (emailError) {
+    console.error('Error sending voting notification emails:', emailError);
+  }
+}
+
+// Emails the resident about their booking's status; a failed email never fails the request
+async function notifyResidentOfBooking(booking: FacilityBooking) {
+  try {
+    const resident = await storage.getUser(booking.residentId);
+    const facility = await storage.getFacility(booking.facilityId);
+    const society = await storage.getSociety(booking.societyId);
+    
+    if (resident && resident.email && facility && society) {
+      await sendBookingNotification(resident.email, {
+        id: booking.id,
+        facilityName: facility.name,
+        bookingDate: booking.bookingDate?.toISOString() || new Date().toISOString(),
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        status: booking.status || 'pending',
+        totalAmount: booking.totalAmount || 0,
+        residentName: `${resident.firstName || ''} ${resident.lastName || ''}`.trim(),
+        societyName: society.name
+      });
+    }
+  } catch (emailError) {
+    console.error('Error sending booking notification email:', emailError);
+  }
+}
+
+// Freed room goes to the waitlist; a failure here never fails the cancellation that freed it
+async function releaseToWaitlist(booking: FacilityBooking) {
+  try {
+    const facility = await storage.getFacility(booking.facilityId);
+    if (facility) {
+      await offerWaitlistedSlots(facility, toDateKey(booking.bookingDate), new Date());
+    }
+  } catch (error) {
+    console.error('Error offering freed slot to waitlist:', error);
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Simple Auth setup
@@ -60,7 +142,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check permission
-      if (user?.role === 'resident' && user.societyId !== society.id) {
+      if ((user?.role === 'resident' || user?.role === 'staff') && user.societyId !== society.id) {
         return res.status(403).json({ message: "Forbidden" });
       }
       if (user?.role === 'admin' && user.societyId !== society.id) {
@@ -231,322 +313,3814 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/societies/:societyId/admin", isSimpleAuthenticated, async (req: any, res) => {
+  app.get("/api/societies/:societyId/admin", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (user?.role !== 'super_admin') {
+        return res.status(403).json({ message: "Only super admin can access this resource" });
+      }
+      
+      const admin = await storage.getAdminBySociety(req.params.societyId);
+      res.json(admin || null);
+    } catch (error) {
+      console.error("Error fetching society admin:", error);
+      res.status(500).json({ message: "Failed to fetch society admin" });
+    }
+  });
+
+  // Residents routes
+  app.get("/api/societies/:societyId/residents", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const societyId = req.params.societyId;
+      
+      // Check permission
+      if ((user?.role === 'resident' || user?.role === 'staff') && user.societyId !== societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (user?.role === 'admin' && user.societyId !== societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const residents = await storage.getResidentsBySociety(societyId);
+      res.json(residents);
+    } catch (error) {
+      console.error("Error fetching residents:", error);
+      res.status(500).json({ message: "Failed to fetch residents" });
+    }
+  });
+
+  // Complaints routes
+  const MERGED_COMPLAINT_MESSAGE = "This complaint was merged into another report of the same issue; updates continue there";
+
+  app.get("/api/complaints", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      let complaints;
+      if (user.role === 'resident') {
+        complaints = await storage.getComplaintsByResident(user.id);
+      } else if (user.role === 'admin' && user.societyId) {
+        complaints = await storage.getComplaintsBySociety(user.societyId);
+      } else if (user.role === 'staff') {
+        // Staff and vendor logins only see the complaints assigned to them
+        const assignee = await getAssigneeForUser(user);
+        complaints = assignee ? await storage.getComplaintsByAssignee(assignee.type, assignee.id) : [];
+      } else {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(complaints);
+    } catch (error) {
+      console.error("Error fetching complaints:", error);
+      res.status(500).json({ message: "Failed to fetch complaints" });
+    }
+  });
+
+  app.post("/api/complaints", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'resident' || !user.societyId) {
+        return res.status(403).json({ message: "Only residents can create complaints" });
+      }
+      
+      const validatedData = insertComplaintSchema.parse({
+        ...req.body,
+        residentId: user.id,
+        societyId: user.societyId,
+      });
+      
+      const categories = await getSocietyComplaintCategories(user.societyId);
+      const category = categories.find(row => row.isActive && row.name === validatedData.category);
+      if (!category) {
+        return res.status(400).json({ message: "Please choose one of the society's complaint categories" });
+      }
+      // In-flat complaints are always about the resident's own flat
+      const location = validatedData.scope === 'common_area' ? validatedData.location : user.flatNumber;
+      if (validatedData.scope === 'common_area' && !location) {
+        return res.status(400).json({ message: "Please say where in the society the problem is" });
+      }
+      
+      // The category's rules fill in what the resident left out and pick who handles it
+      const assignee = await routeComplaint(category);
+      const complaint = await storage.createComplaint({
+        ...validatedData,
+        location: location || null,
+        priority: validatedData.priority || category.defaultPriority,
+      }, assignee);
+      
+      // Send email notification to admins
+      try {
+        const society = await storage.getSociety(user.societyId);
+        if (society) {
+          const admin = await storage.getAdminBySociety(user.societyId);
+          const adminEmails = admin?.email ? [admin.email] : [];
+          
+          if (adminEmails.length > 0) {
+            await sendComplaintNotification(adminEmails, {
+              id: complaint.id,
+              title: complaint.title,
+              description: complaint.description,
+              category: complaint.category || 'General',
+              priority: complaint.priority || 'medium',
+              residentName: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+              flatNumber: user.flatNumber || 'N/A',
+              societyName: society.name
+            });
+          }
+        }
+      } catch (emailError) {
+        console.error('Error sending complaint notification emails:', emailError);
+        // Don't fail the complaint creation if email fails
+      }
+      
+      res.json(complaint);
+    } catch (error) {
+      console.error("Error creating complaint:", error);
+      res.status(500).json({ message: "Failed to create complaint" });
+    }
+  });
+
+  const complaintStatusSchema = z.object({
+    status: z.enum(complaintStatusEnum.enumValues),
+    resolutionNotes: z.string().trim().max(2000).optional(),
+  });
+
+  app.patch("/api/complaints/:id/status", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || (user.role !== 'admin' && user.role !== 'staff')) {
+        return res.status(403).json({ message: "Only admins and assigned staff can update complaint status" });
+      }
+      
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      // Admins only reach their own society's complaints, staff only what is assigned to them
+      if (!(await canAccessComplaint(user, complaint))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (complaint.parentId) {
+        return res.status(409).json({ message: MERGED_COMPLAINT_MESSAGE });
+      }
+      
+      const validationResult = complaintStatusSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid status update',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { status, resolutionNotes } = validationResult.data;
+      const currentStatus = complaint.status || 'open';
+      if (status === currentStatus) {
+        return res.status(409).json({ message: `Complaint is already ${currentStatus.replace('_', ' ')}` });
+      }
+      if (!canTransitionComplaint(currentStatus, status)) {
+        return res.status(409).json({ message: `A ${currentStatus.replace('_', ' ')} complaint cannot be moved to ${status.replace('_', ' ')}` });
+      }
+      if (!getManagedStatusChanges(user.role, currentStatus).includes(status)) {
+        if (status === 'closed') {
+          return res.status(403).json({ message: "Complaints close when the resident confirms the fix, or automatically once the confirmation window passes" });
+        }
+        if (currentStatus === 'resolved') {
+          return res.status(403).json({ message: "Only the resident can reopen a resolved complaint" });
+        }
+        return res.status(403).json({ message: "Staff can only mark complaints in progress or resolved" });
+      }
+      if (status === 'resolved' && !resolutionNotes) {
+        return res.status(400).json({ message: "Resolution notes are required when resolving a complaint" });
+      }
+      
+      const updated = await storage.updateComplaintStatus(complaint.id, { from: currentStatus, to: status }, user.id, resolutionNotes);
+      if (!updated) {
+        return res.status(409).json({ message: "Complaint status has changed; refresh and try again" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating complaint:", error);
+      res.status(500).json({ message: "Failed to update complaint" });
+    }
+  });
+
+  // Complaint closure routes
+  app.post("/api/complaints/:id/confirm", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!user || complaint.residentId !== user.id) {
+        return res.status(403).json({ message: "Only the resident who raised the complaint can confirm it" });
+      }
+      if (complaint.parentId) {
+        return res.status(409).json({ message: MERGED_COMPLAINT_MESSAGE });
+      }
+      if (complaint.status !== 'resolved') {
+        return res.status(409).json({ message: "Only resolved complaints can be confirmed" });
+      }
+      
+      const validationResult = complaintFeedbackSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid feedback',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const updated = await storage.confirmComplaintResolution(complaint.id, user.id, validationResult.data);
+      if (!updated) {
+        return res.status(409).json({ message: "Complaint status has changed; refresh and try again" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error confirming complaint:", error);
+      res.status(500).json({ message: "Failed to confirm complaint" });
+    }
+  });
+
+  app.post("/api/complaints/:id/reopen", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!user || complaint.residentId !== user.id) {
+        return res.status(403).json({ message: "Only the resident who raised the complaint can reopen it" });
+      }
+      if (complaint.parentId) {
+        return res.status(409).json({ message: MERGED_COMPLAINT_MESSAGE });
+      }
+      if (complaint.status !== 'resolved') {
+        return res.status(409).json({ message: complaint.status === 'closed' ? "Closed complaints cannot be reopened; please raise a new complaint" : "Only resolved complaints can be reopened" });
+      }
+      
+      const validationResult = complaintReopenSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid reopen request',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const updated = await storage.reopenComplaint(complaint.id, user.id, validationResult.data.reason);
+      if (!updated) {
+        return res.status(409).json({ message: "Complaint status has changed; refresh and try again" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error reopening complaint:", error);
+      res.status(500).json({ message: "Failed to reopen complaint" });
+    }
+  });
+
+  // For complaints that closed automatically before the resident had their say
+  app.post("/api/complaints/:id/rating", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!user || complaint.residentId !== user.id) {
+        return res.status(403).json({ message: "Only the resident who raised the complaint can rate it" });
+      }
+      if (complaint.parentId) {
+        return res.status(409).json({ message: MERGED_COMPLAINT_MESSAGE });
+      }
+      if (complaint.status !== 'closed') {
+        return res.status(409).json({ message: "Only closed complaints can be rated" });
+      }
+      if (complaint.rating !== null) {
+        return res.status(409).json({ message: "Complaint is already rated" });
+      }
+      
+      const validationResult = complaintFeedbackSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid feedback',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const updated = await storage.rateComplaint(complaint.id, user.id, validationResult.data);
+      if (!updated) {
+        return res.status(409).json({ message: "Complaint is already rated" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rating complaint:", error);
+      res.status(500).json({ message: "Failed to rate complaint" });
+    }
+  });
+
+  app.get("/api/complaints/satisfaction", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view complaint satisfaction" });
+      }
+      
+      const summary = await buildSatisfactionSummary(user.societyId);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error building complaint satisfaction:", error);
+      res.status(500).json({ message: "Failed to build complaint satisfaction" });
+    }
+  });
+
+  const complaintSettingsSchema = z.object({
+    confirmationDays: z.number().int().min(1).max(30),
+  });
+
+  app.get("/api/complaint-settings", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || !user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const society = await storage.getSociety(user.societyId);
+      if (!society) {
+        return res.status(404).json({ message: "Society not found" });
+      }
+      res.json({ confirmationDays: society.complaintConfirmationDays });
+    } catch (error) {
+      console.error("Error fetching complaint settings:", error);
+      res.status(500).json({ message: "Failed to fetch complaint settings" });
+    }
+  });
+
+  app.put("/api/complaint-settings", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage complaint settings" });
+      }
+      
+      const validationResult = complaintSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid complaint settings',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const society = await storage.updateSociety(user.societyId, { complaintConfirmationDays: validationResult.data.confirmationDays });
+      res.json({ confirmationDays: society.complaintConfirmationDays });
+    } catch (error) {
+      console.error("Error updating complaint settings:", error);
+      res.status(500).json({ message: "Failed to update complaint settings" });
+    }
+  });
+
+  // Complaint assignment routes
+  const assignComplaintSchema = z.object({
+    assignee: z.object({
+      type: z.enum(['staff', 'vendor']),
+      id: z.string().min(1),
+    }).nullable(),
+  });
+
+  const assigneeLoginSchema = z.object({
+    email: z.string().trim().email(),
+    password: z.string().min(6),
+  });
+
+  app.get("/api/staff", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage staff" });
+      }
+      
+      const staffList = await storage.getStaffMembers(user.societyId);
+      res.json(staffList);
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+      res.status(500).json({ message: "Failed to fetch staff" });
+    }
+  });
+
+  app.post("/api/staff", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage staff" });
+      }
+      
+      const validationResult = insertStaffMemberSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid staff data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const staffMember = await storage.createStaffMember({ ...validationResult.data, societyId: user.societyId });
+      res.status(201).json(staffMember);
+    } catch (error) {
+      console.error("Error creating staff member:", error);
+      res.status(500).json({ message: "Failed to create staff member" });
+    }
+  });
+
+  app.patch("/api/staff/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage staff" });
+      }
+      
+      const staffMember = await storage.getStaffMember(req.params.id);
+      if (!staffMember) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      if (staffMember.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = insertStaffMemberSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid staff data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const updated = await storage.updateStaffMember(staffMember.id, validationResult.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating staff member:", error);
+      res.status(500).json({ message: "Failed to update staff member" });
+    }
+  });
+
+  app.get("/api/complaint-assignees", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can assign complaints" });
+      }
+      
+      const assignees = await getComplaintAssignees(user.societyId);
+      res.json(assignees);
+    } catch (error) {
+      console.error("Error fetching complaint assignees:", error);
+      res.status(500).json({ message: "Failed to fetch complaint assignees" });
+    }
+  });
+
+  // Gives a staff member or vendor a staff login to work their complaint queue
+  app.post("/api/complaint-assignees/:type/:id/login", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage staff" });
+      }
+      
+      const type = req.params.type;
+      if (type !== 'staff' && type !== 'vendor') {
+        return res.status(404).json({ message: "Assignee not found" });
+      }
+      const assignee = await getAssignee(type, req.params.id);
+      if (!assignee) {
+        return res.status(404).json({ message: "Assignee not found" });
+      }
+      if (assignee.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (assignee.userId) {
+        return res.status(409).json({ message: "This assignee already has a login" });
+      }
+      
+      const validationResult = assigneeLoginSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid login details',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { email, password } = validationResult.data;
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        return res.status(409).json({ message: "User with this email already exists" });
+      }
+      
+      const assignees = await getComplaintAssignees(user.societyId);
+      const name = assignees.find(row => row.type === type && row.id === req.params.id)?.name || email;
+      const hashedPassword = await bcrypt.hash(password, 12);
+      const login = await storage.createAssigneeLogin(
+        { type, id: req.params.id },
+        { email, password: hashedPassword, firstName: name, societyId: user.societyId },
+      );
+      
+      const { password: _, ...loginWithoutPassword } = login;
+      res.status(201).json(loginWithoutPassword);
+    } catch (error) {
+      console.error("Error creating assignee login:", error);
+      res.status(500).json({ message: "Failed to create assignee login" });
+    }
+  });
+
+  app.get("/api/complaints/workload", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view staff workload" });
+      }
+      
+      const summary = await buildWorkloadSummary(user.societyId);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error building complaint workload:", error);
+      res.status(500).json({ message: "Failed to build complaint workload" });
+    }
+  });
+
+  app.patch("/api/complaints/:id/assign", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can assign complaints" });
+      }
+      
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (complaint.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (complaint.parentId) {
+        return res.status(409).json({ message: MERGED_COMPLAINT_MESSAGE });
+      }
+      if (complaint.status === 'resolved' || complaint.status === 'closed') {
+        return res.status(409).json({ message: `Complaint is already ${complaint.status}` });
+      }
+      
+      const validationResult = assignComplaintSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid assignment',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { assignee } = validationResult.data;
+      if (assignee) {
+        const record = await getAssignee(assignee.type, assignee.id);
+        if (!record || record.societyId !== user.societyId) {
+          return res.status(400).json({ message: "Assignee not found in this society" });
+        }
+        if (!record.isActive) {
+          return res.status(400).json({ message: "Complaints cannot be assigned to an inactive assignee" });
+        }
+      }
+      
+      const updated = await storage.assignComplaint(complaint.id, assignee, user.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error assigning complaint:", error);
+      res.status(500).json({ message: "Failed to assign complaint" });
+    }
+  });
+
+  // Complaint activity routes
+  const complaintPrioritySchema = z.object({
+    priority: z.enum(complaintPriorities),
+  });
+
+  app.patch("/api/complaints/:id/priority", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can change complaint priority" });
+      }
+      
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (complaint.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (complaint.parentId) {
+        return res.status(409).json({ message: MERGED_COMPLAINT_MESSAGE });
+      }
+      
+      const validationResult = complaintPrioritySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid priority',
+          details: validationResult.error.issues
+        });
+      }
+      if (validationResult.data.priority === complaint.priority) {
+        return res.status(409).json({ message: `Complaint is already ${complaint.priority} priority` });
+      }
+      
+      const updated = await storage.updateComplaintPriority(complaint.id, validationResult.data.priority, user.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating complaint priority:", error);
+      res.status(500).json({ message: "Failed to update complaint priority" });
+    }
+  });
+
+  app.get("/api/complaints/:id/timeline", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!user || !(await canAccessComplaint(user, complaint))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const timeline = await getComplaintTimeline(complaint);
+      res.json(timeline);
+    } catch (error) {
+      console.error("Error fetching complaint timeline:", error);
+      res.status(500).json({ message: "Failed to fetch complaint timeline" });
+    }
+  });
+
+  app.get("/api/complaints/:id/comments", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!user || !(await canAccessComplaint(user, complaint))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const comments = await storage.getComplaintComments(complaint.id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching complaint comments:", error);
+      res.status(500).json({ message: "Failed to fetch complaint comments" });
+    }
+  });
+
+  app.post("/api/complaints/:id/comments", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!user || !(await canAccessComplaint(user, complaint))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (complaint.parentId) {
+        return res.status(409).json({ message: MERGED_COMPLAINT_MESSAGE });
+      }
+      
+      const validationResult = insertComplaintCommentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid comment',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const comment = await storage.createComplaintComment({
+        ...validationResult.data,
+        complaintId: complaint.id,
+        authorId: user.id,
+      });
+      res.status(201).json(comment);
+    } catch (error) {
+      console.error("Error adding complaint comment:", error);
+      res.status(500).json({ message: "Failed to add complaint comment" });
+    }
+  });
+
+  // Complaint attachment routes
+  const MAX_ATTACHMENTS_PER_COMPLAINT = 20;
+
+  app.get("/api/complaints/:id/attachments", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!user || !(await canAccessComplaint(user, complaint))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const attachments = await storage.getComplaintAttachments(complaint.id);
+      res.json(attachments.map(toAttachmentInfo));
+    } catch (error) {
+      console.error("Error fetching complaint attachments:", error);
+      res.status(500).json({ message: "Failed to fetch complaint attachments" });
+    }
+  });
+
+  // Files are sent raw with their own Content-Type; ?commentId= attaches them to a comment instead of the complaint
+  app.post("/api/complaints/:id/attachments", isSimpleAuthenticated, rawUpload(getMaxUploadBytes), async (req: any, res) => {
+    try {
+      const user = req.user;
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (!user || !(await canAccessComplaint(user, complaint))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const commentId = typeof req.query.commentId === 'string' ? req.query.commentId : null;
+      if (commentId) {
+        const comment = await storage.getComplaintComment(commentId);
+        if (!comment || comment.complaintId !== complaint.id) {
+          return res.status(404).json({ message: "Comment not found" });
+        }
+        if (comment.authorId !== user.id) {
+          return res.status(403).json({ message: "Only the author can attach files to a comment" });
+        }
+      }
+      
+      const existing = await storage.getComplaintAttachments(complaint.id);
+      if (existing.length >= MAX_ATTACHMENTS_PER_COMPLAINT) {
+        return res.status(409).json({ message: `A complaint can have at most ${MAX_ATTACHMENTS_PER_COMPLAINT} attachments` });
+      }
+      
+      const body = Buffer.isBuffer(req.body) ? req.body : null;
+      if (!body || body.length === 0) {
+        return res.status(400).json({ message: "Attachment file is required" });
+      }
+      const mimeType = detectMimeType(body);
+      if (!mimeType || !attachmentMimeTypes[mimeType] || mimeType !== req.headers['content-type']) {
+        return res.status(400).json({ message: "Attachments must be JPEG, PNG, WebP or PDF files" });
+      }
+      
+      let thumbnail: Buffer | null = null;
+      if (isImageMimeType(mimeType)) {
+        try {
+          thumbnail = await createThumbnail(body);
+        } catch (imageError) {
+          return res.status(400).json({ message: "The image could not be read" });
+        }
+      }
+      
+      let fileName = 'attachment';
+      try {
+        fileName = decodeURIComponent(String(req.headers['x-file-name'] || '')).trim().slice(0, 200) || fileName;
+      } catch (decodeError) {
+        // Keep the default name when the header is not valid URI encoding
+      }
+      
+      const folder = `complaints/${complaint.societyId}`;
+      const filePath = await saveUpload(folder, body, mimeType);
+      const thumbnailPath = thumbnail ? await saveUpload(folder, thumbnail, 'image/jpeg') : null;
+      const attachment = await storage.createComplaintAttachment({
+        complaintId: complaint.id,
+        commentId,
+        uploadedBy: user.id,
+        fileName,
+        mimeType,
+        size: body.length,
+        filePath,
+        thumbnailPath,
+      });
+      res.status(201).json(toAttachmentInfo(attachment));
+    } catch (error) {
+      console.error("Error uploading complaint attachment:", error);
+      res.status(500).json({ message: "Failed to upload complaint attachment" });
+    }
+  });
+
+  app.get("/api/complaint-attachments/:id/:variant", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const variant = req.params.variant;
+      if (variant !== 'file' && variant !== 'thumbnail') {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      const attachment = await storage.getComplaintAttachment(req.params.id);
+      const relativePath = variant === 'file' ? attachment?.filePath : attachment?.thumbnailPath;
+      if (!attachment || !relativePath) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      const complaint = await storage.getComplaint(attachment.complaintId);
+      if (!user || !complaint || !(await canAccessComplaint(user, complaint))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.setHeader("Content-Type", variant === 'file' ? attachment.mimeType : "image/jpeg");
+      if (variant === 'file') {
+        res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      }
+      res.sendFile(resolveUpload(relativePath));
+    } catch (error) {
+      console.error("Error fetching complaint attachment:", error);
+      res.status(500).json({ message: "Failed to fetch complaint attachment" });
+    }
+  });
+
+  // Complaint category routes
+  const complaintCategoryBodySchema = insertComplaintCategorySchema.extend({
+    firstResponseHours: z.number().int().positive().max(24 * 30).nullable().optional(),
+    resolutionHours: z.number().int().positive().max(24 * 90).nullable().optional(),
+  });
+
+  // Checks the routing and SLA parts of a category body, returning an error message if they don't hold up
+  const validateCategoryRules = async (
+    societyId: string,
+    rules: { defaultAssigneeType?: ComplaintAssigneeType | null; defaultAssigneeId?: string | null; firstResponseHours?: number | null; resolutionHours?: number | null },
+  ): Promise<string | null> => {
+    if (!rules.defaultAssigneeType !== !rules.defaultAssigneeId) {
+      return "A default assignee needs both a type and an id";
+    }
+    if (rules.defaultAssigneeType && rules.defaultAssigneeId) {
+      const record = await getAssignee(rules.defaultAssigneeType, rules.defaultAssigneeId);
+      if (!record || record.societyId !== societyId) {
+        return "Assignee not found in this society";
+      }
+      if (!record.isActive) {
+        return "Complaints cannot be routed to an inactive assignee";
+      }
+    }
+    if (!rules.firstResponseHours !== !rules.resolutionHours) {
+      return "Set both SLA targets, or neither";
+    }
+    if (rules.firstResponseHours && rules.resolutionHours && rules.resolutionHours < rules.firstResponseHours) {
+      return "Resolution target cannot be shorter than the first-response target";
+    }
+    return null;
+  };
+
+  // Residents and staff see the active categories; admins see all of them with their routing
+  app.get("/api/complaint-categories", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || !user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      if (user.role === 'admin') {
+        const categories = await getCategoriesWithRouting(user.societyId);
+        return res.json(categories);
+      }
+      const categories = await getSocietyComplaintCategories(user.societyId);
+      res.json(categories.filter(category => category.isActive));
+    } catch (error) {
+      console.error("Error fetching complaint categories:", error);
+      res.status(500).json({ message: "Failed to fetch complaint categories" });
+    }
+  });
+
+  app.post("/api/complaint-categories", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage complaint categories" });
+      }
+      
+      const validationResult = complaintCategoryBodySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid complaint category',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { firstResponseHours, resolutionHours, ...category } = validationResult.data;
+      const rulesError = await validateCategoryRules(user.societyId, validationResult.data);
+      if (rulesError) {
+        return res.status(400).json({ message: rulesError });
+      }
+      
+      const existing = (await getSocietyComplaintCategories(user.societyId))
+        .find(row => row.name.toLowerCase() === category.name.toLowerCase());
+      if (existing) {
+        return res.status(409).json({ message: `A category named ${existing.name} already exists` });
+      }
+      
+      const created = await storage.createComplaintCategory({ ...category, societyId: user.societyId });
+      if (firstResponseHours && resolutionHours) {
+        await setCategorySla(user.societyId, created.name, { firstResponseHours, resolutionHours });
+      }
+      
+      const categories = await getCategoriesWithRouting(user.societyId);
+      res.status(201).json(categories.find(row => row.id === created.id));
+    } catch (error) {
+      console.error("Error creating complaint category:", error);
+      res.status(500).json({ message: "Failed to create complaint category" });
+    }
+  });
+
+  // Names are fixed because complaints refer to their category by name
+  app.patch("/api/complaint-categories/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage complaint categories" });
+      }
+      
+      const existingCategory = await storage.getComplaintCategory(req.params.id);
+      if (!existingCategory) {
+        return res.status(404).json({ message: "Complaint category not found" });
+      }
+      if (existingCategory.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = complaintCategoryBodySchema.omit({ name: true }).partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid complaint category',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { firstResponseHours, resolutionHours, ...updates } = validationResult.data;
+      const merged = {
+        defaultAssigneeType: existingCategory.defaultAssigneeType,
+        defaultAssigneeId: existingCategory.defaultAssigneeId,
+        ...validationResult.data,
+      };
+      // Only check SLA targets when they are being changed
+      const rulesError = await validateCategoryRules(user.societyId, {
+        ...merged,
+        firstResponseHours: firstResponseHours === undefined && resolutionHours === undefined ? null : firstResponseHours,
+        resolutionHours: firstResponseHours === undefined && resolutionHours === undefined ? null : resolutionHours,
+      });
+      if (rulesError) {
+        return res.status(400).json({ message: rulesError });
+      }
+      
+      await storage.updateComplaintCategory(existingCategory.id, updates);
+      if (firstResponseHours !== undefined || resolutionHours !== undefined) {
+        await setCategorySla(
+          user.societyId,
+          existingCategory.name,
+          firstResponseHours && resolutionHours ? { firstResponseHours, resolutionHours } : null,
+        );
+      }
+      
+      const categories = await getCategoriesWithRouting(user.societyId);
+      res.json(categories.find(row => row.id === existingCategory.id));
+    } catch (error) {
+      console.error("Error updating complaint category:", error);
+      res.status(500).json({ message: "Failed to update complaint category" });
+    }
+  });
+
+  // Complaint duplicate routes
+  app.get("/api/complaints/duplicate-counts", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can review duplicate complaints" });
+      }
+      
+      const counts = await countLikelyDuplicates(user.societyId);
+      res.json(counts);
+    } catch (error) {
+      console.error("Error counting duplicate complaints:", error);
+      res.status(500).json({ message: "Failed to count duplicate complaints" });
+    }
+  });
+
+  app.get("/api/complaints/:id/duplicates", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can review duplicate complaints" });
+      }
+      
+      const complaint = await storage.getComplaint(req.params.id);
+      if (!complaint) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (complaint.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const [societyComplaints, merged] = await Promise.all([
+        storage.getComplaintsBySociety(user.societyId),
+        storage.getMergedComplaints(complaint.id),
+      ]);
+      res.json({ candidates: findLikelyDuplicates(complaint, societyComplaints), merged });
+    } catch (error) {
+      console.error("Error finding duplicate complaints:", error);
+      res.status(500).json({ message: "Failed to find duplicate complaints" });
+    }
+  });
+
+  // Merges this complaint into the given parent; its reporter then follows the parent's progress
+  app.post("/api/complaints/:id/merge", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can merge complaints" });
+      }
+      
+      const validationResult = complaintMergeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid merge request',
+          details: validationResult.error.issues
+        });
+      }
+      if (validationResult.data.parentId === req.params.id) {
+        return res.status(400).json({ message: "A complaint cannot be merged into itself" });
+      }
+      
+      const [complaint, parent] = await Promise.all([
+        storage.getComplaint(req.params.id),
+        storage.getComplaint(validationResult.data.parentId),
+      ]);
+      if (!complaint || !parent) {
+        return res.status(404).json({ message: "Complaint not found" });
+      }
+      if (complaint.societyId !== user.societyId || parent.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (complaint.parentId) {
+        return res.status(409).json({ message: "Complaint is already merged into another" });
+      }
+      if (parent.parentId) {
+        return res.status(409).json({ message: "That complaint was itself merged; merge into the complaint it joined instead" });
+      }
+      if (complaint.status === 'resolved' || complaint.status === 'closed') {
+        return res.status(409).json({ message: `A ${complaint.status} complaint cannot be merged` });
+      }
+      if (parent.status === 'closed') {
+        return res.status(409).json({ message: "Complaints cannot be merged into a closed complaint" });
+      }
+      
+      const updated = await storage.mergeComplaint(complaint.id, parent.id, user.id);
+      if (!updated) {
+        return res.status(409).json({ message: "One of the complaints has changed; refresh and try again" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error merging complaint:", error);
+      res.status(500).json({ message: "Failed to merge complaint" });
+    }
+  });
+
+  // Complaint SLA routes
+  const validateSlaTargets = (policy: { firstResponseHours: number; resolutionHours: number }) =>
+    policy.resolutionHours >= policy.firstResponseHours;
+
+  app.get("/api/sla-policies", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage SLA policies" });
+      }
+      
+      const policies = await storage.getSlaPolicies(user.societyId);
+      res.json(policies);
+    } catch (error) {
+      console.error("Error fetching SLA policies:", error);
+      res.status(500).json({ message: "Failed to fetch SLA policies" });
+    }
+  });
+
+  app.post("/api/sla-policies", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage SLA policies" });
+      }
+      
+      const validationResult = insertSlaPolicySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid SLA policy',
+          details: validationResult.error.issues
+        });
+      }
+      if (!validateSlaTargets(validationResult.data)) {
+        return res.status(400).json({ message: "Resolution target cannot be shorter than the first-response target" });
+      }
+      
+      // Only one active policy per category and priority, otherwise the match would be ambiguous
+      const policies = await storage.getSlaPolicies(user.societyId);
+      const { category = null, priority = null } = validationResult.data;
+      if (policies.some(policy => policy.isActive && policy.category === category && policy.priority === priority)) {
+        return res.status(409).json({ message: "An active SLA policy already covers this category and priority" });
+      }
+      
+      const policy = await storage.createSlaPolicy({ ...validationResult.data, societyId: user.societyId });
+      res.status(201).json(policy);
+    } catch (error) {
+      console.error("Error creating SLA policy:", error);
+      res.status(500).json({ message: "Failed to create SLA policy" });
+    }
+  });
+
+  app.patch("/api/sla-policies/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage SLA policies" });
+      }
+      
+      const existingPolicy = await storage.getSlaPolicy(req.params.id);
+      if (!existingPolicy) {
+        return res.status(404).json({ message: "SLA policy not found" });
+      }
+      if (existingPolicy.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = insertSlaPolicySchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid SLA policy',
+          details: validationResult.error.issues
+        });
+      }
+      const merged = { ...existingPolicy, ...validationResult.data };
+      if (!validateSlaTargets(merged)) {
+        return res.status(400).json({ message: "Resolution target cannot be shorter than the first-response target" });
+      }
+      
+      const policies = await storage.getSlaPolicies(user.societyId);
+      const clash = merged.isActive && policies.some(policy =>
+        policy.id !== existingPolicy.id && policy.isActive &&
+        policy.category === (merged.category ?? null) && policy.priority === (merged.priority ?? null));
+      if (clash) {
+        return res.status(409).json({ message: "An active SLA policy already covers this category and priority" });
+      }
+      
+      const policy = await storage.updateSlaPolicy(existingPolicy.id, validationResult.data);
+      res.json(policy);
+    } catch (error) {
+      console.error("Error updating SLA policy:", error);
+      res.status(500).json({ message: "Failed to update SLA policy" });
+    }
+  });
+
+  app.get("/api/sla-breaches", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view SLA breaches" });
+      }
+      
+      const breaches = await storage.getOpenSlaBreaches(user.societyId);
+      res.json(breaches);
+    } catch (error) {
+      console.error("Error fetching SLA breaches:", error);
+      res.status(500).json({ message: "Failed to fetch SLA breaches" });
+    }
+  });
+
+  // Society admins get their own numbers, the super admin one row per society
+  app.get("/api/sla-compliance", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const now = new Date();
+      if (user?.role === 'super_admin') {
+        const societies = await storage.getSocieties();
+        const rows = [];
+        for (const society of societies) {
+          const compliance = await buildSlaCompliance(society.id, now);
+          rows.push({ ...compliance, societyId: society.id, societyName: society.name });
+        }
+        return res.json(rows);
+      }
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const compliance = await buildSlaCompliance(user.societyId, now);
+      res.json(compliance);
+    } catch (error) {
+      console.error("Error building SLA compliance:", error);
+      res.status(500).json({ message: "Failed to build SLA compliance" });
+    }
+  });
+
+  // Facility bookings routes
+  // Calendars pass ?from&to (YYYY-MM-DD, inclusive) to load only the dates on screen
+  app.get("/api/facility-bookings", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { from, to } = req.query;
+      let range: { from: Date; to: Date } | undefined;
+      if (from || to) {
+        if (typeof from !== 'string' || typeof to !== 'string' || !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || to < from) {
+          return res.status(400).json({ message: "from and to must be YYYY-MM-DD dates, with to on or after from" });
+        }
+        range = { from: toBookingDate(from), to: new Date(toBookingDate(to).getTime() + 24 * 60 * 60 * 1000) };
+      }
+      
+      let bookings;
+      if (user.role === 'resident') {
+        bookings = await storage.getResidentBookings(user.id, range);
+      } else if (user.role === 'admin' && user.societyId) {
+        bookings = await storage.getFacilityBookings(user.societyId, range);
+      } else {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching bookings:", error);
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  // Slots are checked against hours, blackouts and capacity; the insert itself re-checks capacity under a lock
+  app.post("/api/facility-bookings", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'resident' || !user.societyId) {
+        return res.status(403).json({ message: "Only residents can create bookings" });
+      }
+      
+      const validationResult = facilityBookingRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid booking',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { facilityId, ...request } = validationResult.data;
+      const facility = await storage.getFacility(facilityId);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (facility.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const result = await placeFacilityBooking(facility, user.id, request, new Date());
+      if (!result.booking) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      res.json(result.booking);
+    } catch (error) {
+      console.error("Error creating booking:", error);
+      res.status(500).json({ message: "Failed to create booking" });
+    }
+  });
+
+  // Only pending requests are decided here; rejecting one refunds its charge in full
+  app.patch("/api/facility-bookings/:id/status", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || (user.role !== 'admin' && user.role !== 'super_admin')) {
+        return res.status(403).json({ message: "Only admins can update booking status" });
+      }
+      
+      const existing = await storage.getFacilityBooking(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (user.role === 'admin' && existing.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = bookingStatusUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid booking status',
+          details: validationResult.error.issues
+        });
+      }
+      if (existing.status !== 'pending') {
+        return res.status(409).json({ message: `Booking is already ${existing.status}` });
+      }
+      
+      const { status, reason } = validationResult.data;
+      const booking = status === 'rejected'
+        ? await storage.cancelFacilityBooking(existing.id, { status, refundPercent: 100, cancelledBy: user.id, reason: reason || null })
+        : await storage.updateBookingStatus(existing.id, status);
+      if (!booking) {
+        return res.status(409).json({ message: "Booking was updated by someone else; please refresh" });
+      }
+      
+      await notifyResidentOfBooking(booking);
+      if (status === 'rejected') {
+        await releaseToWaitlist(booking);
+      }
+      res.json(booking);
+    } catch (error) {
+      console.error("Error updating booking:", error);
+      res.status(500).json({ message: "Failed to update booking" });
+    }
+  });
+
+  // Residents and admins can see what a cancellation would refund before going ahead
+  app.get("/api/facility-bookings/:id/cancellation", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const booking = await storage.getFacilityBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const isAdmin = user?.role === 'admin' && user.societyId === booking.societyId;
+      if (!user || (booking.residentId !== user.id && !isAdmin)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const facility = await storage.getFacility(booking.facilityId);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      
+      res.json(getCancellationQuote(facility, booking, new Date()));
+    } catch (error) {
+      console.error("Error fetching cancellation quote:", error);
+      res.status(500).json({ message: "Failed to fetch cancellation quote" });
+    }
+  });
+
+  // Residents cancel their own upcoming bookings under the facility's policy; admins can cancel
+  // any booking with a reason and may set their own refund share
+  app.post("/api/facility-bookings/:id/cancel", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const booking = await storage.getFacilityBooking(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const isAdmin = user?.role === 'admin' && user.societyId === booking.societyId;
+      if (!user || (booking.residentId !== user.id && !isAdmin)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (booking.status !== 'pending' && booking.status !== 'approved') {
+        return res.status(409).json({ message: `Booking is already ${booking.status}` });
+      }
+      
+      const validationResult = (isAdmin ? adminBookingCancellationSchema : bookingCancellationSchema).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid cancellation',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const facility = await storage.getFacility(booking.facilityId);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      const now = new Date();
+      if (!isAdmin && getBookingStart(booking) <= now) {
+        return res.status(409).json({ message: "This booking has already started; please contact the society office" });
+      }
+      
+      // Residents' schema has no override, so refundPercent is only ever set by an admin
+      const { reason, refundPercent } = validationResult.data as { reason?: string; refundPercent?: number };
+      const quote = getCancellationQuote(facility, booking, now, refundPercent);
+      const cancelled = await storage.cancelFacilityBooking(booking.id, {
+        status: 'cancelled',
+        refundPercent: quote.refundPercent,
+        cancelledBy: user.id,
+        reason: reason || null,
+      });
+      if (!cancelled) {
+        return res.status(409).json({ message: "Booking was updated by someone else; please refresh" });
+      }
+      
+      await notifyResidentOfBooking(cancelled);
+      await releaseToWaitlist(cancelled);
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling booking:", error);
+      res.status(500).json({ message: "Failed to cancel booking" });
+    }
+  });
+
+  // Books each date of a recurring series on its own; dates that can't be booked are reported, not fatal
+  app.post("/api/facility-booking-series", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'resident' || !user.societyId) {
+        return res.status(403).json({ message: "Only residents can create bookings" });
+      }
+      
+      const validationResult = bookingSeriesRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid booking series',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { facilityId, frequency, daysOfWeek, startDate, endDate, ...request } = validationResult.data;
+      const facility = await storage.getFacility(facilityId);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (facility.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (startDate < getSocietyDate(new Date())) {
+        return res.status(400).json({ message: "A series cannot start in the past" });
+      }
+      
+      const windowError = getBookingWindowError(facility, request.startTime, request.endTime);
+      if (windowError) {
+        return res.status(400).json({ message: windowError });
+      }
+      
+      const dates = listSeriesDates({ frequency, daysOfWeek, startDate, endDate });
+      if (dates.length === 0) {
+        return res.status(400).json({ message: "No dates fall between the start and end of this series" });
+      }
+      if (dates.length > MAX_SERIES_OCCURRENCES) {
+        return res.status(400).json({ message: `A series can have at most ${MAX_SERIES_OCCURRENCES} bookings; pick an earlier end date` });
+      }
+      
+      const series = await storage.createBookingSeries({
+        facilityId: facility.id,
+        societyId: user.societyId,
+        residentId: user.id,
+        frequency,
+        daysOfWeek: frequency === 'weekly' ? daysOfWeek : [],
+        startDate,
+        endDate,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        forGuest: request.forGuest,
+        paymentMode: request.paymentMode,
+        notes: request.notes || null,
+      });
+      
+      const occurrences: BookingSeriesOccurrence[] = [];
+      for (const date of dates) {
+        const result = await placeFacilityBooking(facility, user.id, { ...request, bookingDate: date, seriesId: series.id }, new Date());
+        occurrences.push({ date, bookingId: result.booking?.id ?? null, conflict: result.error ?? null });
+      }
+      
+      const response: FacilityBookingSeriesResult = { series, occurrences };
+      res.status(201).json(response);
+    } catch (error) {
+      console.error("Error creating booking series:", error);
+      res.status(500).json({ message: "Failed to create booking series" });
+    }
+  });
+
+  app.get("/api/facility-booking-series", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'resident') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(await storage.getResidentBookingSeries(user.id));
+    } catch (error) {
+      console.error("Error fetching booking series:", error);
+      res.status(500).json({ message: "Failed to fetch booking series" });
+    }
+  });
+
+  // Stops a series: every occurrence still to come is cancelled under the facility's refund policy
+  app.post("/api/facility-booking-series/:id/cancel", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const series = await storage.getBookingSeries(req.params.id);
+      if (!series) {
+        return res.status(404).json({ message: "Booking series not found" });
+      }
+      if (!user || series.residentId !== user.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = bookingCancellationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid cancellation',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const facility = await storage.getFacility(series.facilityId);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      const cancelledSeries = await storage.cancelBookingSeries(series.id);
+      if (!cancelledSeries) {
+        return res.status(409).json({ message: "This series is already cancelled" });
+      }
+      
+      const now = new Date();
+      const upcoming = (await storage.getSeriesBookings(series.id)).filter(booking =>
+        (booking.status === 'pending' || booking.status === 'approved') && getBookingStart(booking) > now
+      );
+      let cancelled = 0;
+      for (const booking of upcoming) {
+        const quote = getCancellationQuote(facility, booking, now);
+        const result = await storage.cancelFacilityBooking(booking.id, {
+          status: 'cancelled',
+          refundPercent: quote.refundPercent,
+          cancelledBy: user.id,
+          reason: validationResult.data.reason || 'Recurring series cancelled',
+        });
+        if (result) {
+          cancelled++;
+          await releaseToWaitlist(result);
+        }
+      }
+      
+      res.json({ series: cancelledSeries, cancelled });
+    } catch (error) {
+      console.error("Error cancelling booking series:", error);
+      res.status(500).json({ message: "Failed to cancel booking series" });
+    }
+  });
+
+  // Waitlist routes; residents can only join for a window that is already full
+  app.get("/api/facility-waitlist", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'resident') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(await storage.getResidentWaitlist(user.id));
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  app.post("/api/facility-waitlist", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'resident' || !user.societyId) {
+        return res.status(403).json({ message: "Only residents can join a waitlist" });
+      }
+      
+      const validationResult = facilityBookingRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid waitlist request',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { facilityId, bookingDate, startTime, endTime, notes, forGuest, paymentMode } = validationResult.data;
+      const facility = await storage.getFacility(facilityId);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (facility.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (!facility.isAvailable) {
+        return res.status(409).json({ message: `${facility.name} is not open for booking` });
+      }
+      if (toSocietyInstant(bookingDate, startTime) <= new Date()) {
+        return res.status(400).json({ message: "That time has already started; please pick a later slot" });
+      }
+      
+      const windowError = getBookingWindowError(facility, startTime, endTime);
+      if (windowError) {
+        return res.status(400).json({ message: windowError });
+      }
+      if (!(await isWindowFull(facility, bookingDate, startTime, endTime, new Date()))) {
+        return res.status(409).json({ message: "That time still has room; book it directly" });
+      }
+      
+      const alreadyWaiting = (await storage.getOpenWaitlistEntries(facility.id, bookingDate)).some(entry =>
+        entry.residentId === user.id && entry.startTime === startTime && entry.endTime === endTime
+      );
+      if (alreadyWaiting) {
+        return res.status(409).json({ message: "You are already on the waitlist for this slot" });
+      }
+      
+      const entry = await storage.createWaitlistEntry({
+        facilityId: facility.id,
+        societyId: user.societyId,
+        residentId: user.id,
+        bookingDate,
+        startTime,
+        endTime,
+        forGuest,
+        paymentMode,
+        notes: notes || null,
+      });
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  // Taking up an offer books the slot like any other booking, so it is priced and capacity-checked afresh
+  app.post("/api/facility-waitlist/:id/accept", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      if (!user || entry.residentId !== user.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (entry.status !== 'offered') {
+        return res.status(409).json({ message: "There is no open offer for this waitlist entry" });
+      }
+      
+      const facility = await storage.getFacility(entry.facilityId);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      const now = new Date();
+      if (entry.offerExpiresAt && entry.offerExpiresAt <= now) {
+        await storage.updateWaitlistEntry(entry.id, { status: 'expired' });
+        await offerWaitlistedSlots(facility, entry.bookingDate, now);
+        return res.status(409).json({ message: "This offer has expired" });
+      }
+      
+      const result = await placeFacilityBooking(facility, user.id, { ...entry, waitlistEntryId: entry.id }, now);
+      if (!result.booking) {
+        return res.status(result.status).json({ message: result.error });
+      }
+      
+      await storage.updateWaitlistEntry(entry.id, { status: 'booked', bookingId: result.booking.id });
+      res.json(result.booking);
+    } catch (error) {
+      console.error("Error accepting waitlist offer:", error);
+      res.status(500).json({ message: "Failed to accept waitlist offer" });
+    }
+  });
+
+  // Leaving the waitlist; declining an open offer passes it straight to the next resident
+  app.delete("/api/facility-waitlist/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      if (!user || entry.residentId !== user.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (entry.status !== 'waiting' && entry.status !== 'offered') {
+        return res.status(409).json({ message: `This waitlist entry is already ${entry.status}` });
+      }
+      
+      const updated = await storage.updateWaitlistEntry(entry.id, { status: 'withdrawn' });
+      if (entry.status === 'offered') {
+        const facility = await storage.getFacility(entry.facilityId);
+        if (facility) {
+          await offerWaitlistedSlots(facility, entry.bookingDate, new Date());
+        }
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
+  // Announcements routes
+  app.get("/api/announcements", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || !user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const announcements = await storage.getAnnouncementsBySociety(user.societyId);
+      res.json(announcements);
+    } catch (error) {
+      console.error("Error fetching announcements:", error);
+      res.status(500).json({ message: "Failed to fetch announcements" });
+    }
+  });
+
+  app.post("/api/announcements", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || (user.role !== 'admin' && user.role !== 'super_admin') || !user.societyId) {
+        return res.status(403).json({ message: "Only admins can create announcements" });
+      }
+      
+      const validatedData = insertAnnouncementSchema.parse({
+        ...req.body,
+        authorId: user.id,
+        societyId: user.societyId,
+      });
+      
+      const announcement = await storage.createAnnouncement(validatedData);
+      
+      // Send email notifications to all residents in the society
+      try {
+        const residents = await storage.getResidentsBySociety(user.societyId);
+        const society = await storage.getSociety(user.societyId);
+        
+        if (residents.length > 0 && society) {
+          const emailSuccess = await sendAnnouncementToResidents(
+            residents.map(resident => ({
+              email: resident.email || '',
+              firstName: resident.firstName || '',
+              lastName: resident.lastName || undefined,
+            })),
+            {
+              title: announcement.title,
+              content: announcement.content,
+              isUrgent: announcement.isUrgent || false,
+              societyName: society.name,
+            }
+          );
+          
+          if (emailSuccess) {
+            console.log(`Announcement emails sent to ${residents.length} residents`);
+          } else {
+            console.warn('Failed to send announcement emails, but announcement was created');
+          }
+        }
+      } catch (emailError) {
+        console.error('Error sending announcement emails:', emailError);
+        // Don't fail the announcement creation if email fails
+      }
+      
+      res.json(announcement);
+    } catch (error) {
+      console.error("Error creating announcement:", error);
+      res.status(500).json({ message: "Failed to create announcement" });
+    }
+  });
+
+  // Billing routes
+  const chargeHeadBodySchema = insertChargeHeadSchema.omit({ societyId: true });
+
+  const billingRunSchema = z.object({
+    billingMonth: z.string().refine(isValidBillingMonth, "Billing month must be in YYYY-MM format"),
+    dueDate: z.string().datetime().optional(),
+  });
+
+  // Computes the bills a run would create without writing anything
+  async function previewBillingRun(societyId: string, billingMonth: string, dueDate?: string) {
+    const [flats, heads, funds, tax, billedFlatIds] = await Promise.all([
+      storage.getOccupiedFlatsBySociety(societyId),
+      storage.getChargeHeads(societyId),
+      storage.getFunds(societyId),
+      storage.getTaxSettings(societyId),
+      storage.getBilledFlatIds(societyId, billingMonth),
+    ]);
+    const due = dueDate ? new Date(dueDate) : getDefaultDueDate(billingMonth);
+    return buildBillPreviews(flats, heads, funds, tax, billingMonth, due, new Set(billedFlatIds));
+  }
+
+  app.get("/api/billing/charge-heads", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const heads = await storage.getChargeHeads(user.societyId);
+      res.json(heads);
+    } catch (error) {
+      console.error("Error fetching charge heads:", error);
+      res.status(500).json({ message: "Failed to fetch charge heads" });
+    }
+  });
+
+  app.post("/api/billing/charge-heads", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const validationResult = chargeHeadBodySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid charge head data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const head = await storage.createChargeHead({ ...validationResult.data, societyId: user.societyId });
+      res.json(head);
+    } catch (error) {
+      console.error("Error creating charge head:", error);
+      res.status(500).json({ message: "Failed to create charge head" });
+    }
+  });
+
+  app.patch("/api/billing/charge-heads/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const existingHead = await storage.getChargeHead(req.params.id);
+      if (!existingHead) {
+        return res.status(404).json({ message: "Charge head not found" });
+      }
+      if (existingHead.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = chargeHeadBodySchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid charge head data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const head = await storage.updateChargeHead(req.params.id, validationResult.data);
+      res.json(head);
+    } catch (error) {
+      console.error("Error updating charge head:", error);
+      res.status(500).json({ message: "Failed to update charge head" });
+    }
+  });
+
+  app.delete("/api/billing/charge-heads/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const existingHead = await storage.getChargeHead(req.params.id);
+      if (!existingHead) {
+        return res.status(404).json({ message: "Charge head not found" });
+      }
+      if (existingHead.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      await storage.deleteChargeHead(req.params.id);
+      res.json({ message: "Charge head deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting charge head:", error);
+      res.status(500).json({ message: "Failed to delete charge head" });
+    }
+  });
+
+  app.post("/api/billing/preview", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const validationResult = billingRunSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid billing run',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { billingMonth, dueDate } = validationResult.data;
+      const previews = await previewBillingRun(user.societyId, billingMonth, dueDate);
+      res.json(previews);
+    } catch (error) {
+      console.error("Error previewing bills:", error);
+      res.status(500).json({ message: "Failed to preview bills" });
+    }
+  });
+
+  app.post("/api/billing/generate", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const validationResult = billingRunSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid billing run',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { billingMonth, dueDate } = validationResult.data;
+      const previews = await previewBillingRun(user.societyId, billingMonth, dueDate);
+      
+      let created = 0;
+      let skipped = 0;
+      for (const preview of previews) {
+        if (preview.alreadyBilled || preview.lineItems.length === 0) {
+          skipped++;
+          continue;
+        }
+        
+        const bill = await storage.createMaintenanceBill(
+          {
+            residentId: preview.residentId,
+            societyId: user.societyId,
+            flatId: preview.flatId,
+            amount: preview.amount,
+            taxableAmount: preview.taxableAmount,
+            cgstAmount: preview.cgstAmount,
+            sgstAmount: preview.sgstAmount,
+            dueDate: new Date(preview.dueDate),
+            billingMonth,
+            description: `Maintenance bill for ${billingMonth} - Flat ${preview.flatNumber}`,
+          },
+          preview.lineItems,
+        );
+        if (bill) {
+          created++;
+        } else {
+          skipped++;
+        }
+      }
+      
+      res.json({ billingMonth, created, skipped });
+    } catch (error) {
+      console.error("Error generating bills:", error);
+      res.status(500).json({ message: "Failed to generate bills" });
+    }
+  });
+
+  // GST routes
+  const taxSettingsBodySchema = insertTaxSettingsSchema.extend({
+    gstin: z.string().trim().toUpperCase().regex(GSTIN_PATTERN, "Invalid GSTIN").nullable().optional(),
+  });
+
+  app.get("/api/billing/tax-settings", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const configuration = await getTaxConfiguration(user.societyId);
+      res.json(configuration);
+    } catch (error) {
+      console.error("Error fetching tax settings:", error);
+      res.status(500).json({ message: "Failed to fetch tax settings" });
+    }
+  });
+
+  app.put("/api/billing/tax-settings", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const validationResult = taxSettingsBodySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid tax settings',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { gstin, ...settings } = validationResult.data;
+      const society = await storage.getSociety(user.societyId);
+      if (!society) {
+        return res.status(404).json({ message: "Society not found" });
+      }
+      const nextGstin = gstin === undefined ? society.gstin : gstin;
+      if (settings.isEnabled && !nextGstin) {
+        return res.status(400).json({ message: "A GSTIN is required before charging GST" });
+      }
+      
+      if (gstin !== undefined && gstin !== society.gstin) {
+        await storage.updateSociety(user.societyId, { gstin });
+      }
+      await storage.upsertTaxSettings(user.societyId, settings);
+      
+      const configuration = await getTaxConfiguration(user.societyId);
+      res.json(configuration);
+    } catch (error) {
+      console.error("Error updating tax settings:", error);
+      res.status(500).json({ message: "Failed to update tax settings" });
+    }
+  });
+
+  app.get("/api/billing/tax-summary", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const billingMonth = req.query.billingMonth;
+      if (typeof billingMonth !== 'string' || !isValidBillingMonth(billingMonth)) {
+        return res.status(400).json({ message: "Billing month must be in YYYY-MM format" });
+      }
+      
+      const summary = await buildTaxSummary(user.societyId, billingMonth);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error building tax summary:", error);
+      res.status(500).json({ message: "Failed to build tax summary" });
+    }
+  });
+
+  app.get("/api/maintenance-bills/:id/invoice", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const bill = await storage.getMaintenanceBill(req.params.id);
+      
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      if (user.role === 'resident' && bill.residentId !== user.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (user.role === 'admin' && bill.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (!bill.invoiceNumber) {
+        return res.status(400).json({ message: "This bill was issued without a tax invoice" });
+      }
+      
+      const [society, resident, configuration] = await Promise.all([
+        storage.getSociety(bill.societyId),
+        storage.getUser(bill.residentId),
+        getTaxConfiguration(bill.societyId),
+      ]);
+      if (!society || !resident) {
+        return res.status(404).json({ message: "Bill details not found" });
+      }
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${bill.invoiceNumber.replace(/\//g, '-')}.pdf"`);
+      writeTaxInvoicePdf(res, bill, society, resident, configuration);
+    } catch (error) {
+      console.error("Error generating tax invoice:", error);
+      res.status(500).json({ message: "Failed to generate tax invoice" });
+    }
+  });
+
+  // Penalty routes
+  const penaltyRuleBodySchema = insertPenaltyRuleSchema.omit({ societyId: true });
+
+  const asOfSchema = z.string().datetime().optional();
+
+  app.get("/api/billing/penalty-rules", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const rules = await storage.getPenaltyRules(user.societyId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching penalty rules:", error);
+      res.status(500).json({ message: "Failed to fetch penalty rules" });
+    }
+  });
+
+  app.post("/api/billing/penalty-rules", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const validationResult = penaltyRuleBodySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid penalty rule data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const rule = await storage.createPenaltyRule({ ...validationResult.data, societyId: user.societyId });
+      res.json(rule);
+    } catch (error) {
+      console.error("Error creating penalty rule:", error);
+      res.status(500).json({ message: "Failed to create penalty rule" });
+    }
+  });
+
+  app.patch("/api/billing/penalty-rules/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const existingRule = await storage.getPenaltyRule(req.params.id);
+      if (!existingRule) {
+        return res.status(404).json({ message: "Penalty rule not found" });
+      }
+      if (existingRule.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = penaltyRuleBodySchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid penalty rule data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const rule = await storage.updatePenaltyRule(req.params.id, validationResult.data);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating penalty rule:", error);
+      res.status(500).json({ message: "Failed to update penalty rule" });
+    }
+  });
+
+  app.delete("/api/billing/penalty-rules/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const existingRule = await storage.getPenaltyRule(req.params.id);
+      if (!existingRule) {
+        return res.status(404).json({ message: "Penalty rule not found" });
+      }
+      if (existingRule.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      await storage.deletePenaltyRule(req.params.id);
+      res.json({ message: "Penalty rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting penalty rule:", error);
+      res.status(500).json({ message: "Failed to delete penalty rule" });
+    }
+  });
+
+  // Computes penalties as of any date without persisting them
+  app.get("/api/billing/penalties", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const asOfResult = asOfSchema.safeParse(req.query.asOf);
+      if (!asOfResult.success) {
+        return res.status(400).json({ message: "asOf must be an ISO date-time" });
+      }
+      
+      const asOf = asOfResult.data ? new Date(asOfResult.data) : new Date();
+      const previews = await previewSocietyPenalties(user.societyId, asOf);
+      res.json(previews.filter(preview => preview.penaltyTotal > 0));
+    } catch (error) {
+      console.error("Error computing penalties:", error);
+      res.status(500).json({ message: "Failed to compute penalties" });
+    }
+  });
+
+  app.post("/api/billing/penalties/accrue", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const asOfResult = asOfSchema.safeParse(req.body?.asOf);
+      if (!asOfResult.success) {
+        return res.status(400).json({ message: "asOf must be an ISO date-time" });
+      }
+      
+      const asOf = asOfResult.data ? new Date(asOfResult.data) : new Date();
+      const result = await accrueSocietyPenalties(user.societyId, asOf);
+      res.json({ asOf: asOf.toISOString(), ...result });
+    } catch (error) {
+      console.error("Error accruing penalties:", error);
+      res.status(500).json({ message: "Failed to accrue penalties" });
+    }
+  });
+
+  app.get("/api/maintenance-bills", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      let bills;
+      if (user.role === 'resident') {
+        bills = await storage.getMaintenanceBillsByResident(user.id);
+      } else if (user.role === 'admin' && user.societyId) {
+        const billingMonth = typeof req.query.billingMonth === 'string' ? req.query.billingMonth : undefined;
+        bills = await storage.getMaintenanceBillsBySociety(user.societyId, billingMonth);
+      } else {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(bills);
+    } catch (error) {
+      console.error("Error fetching maintenance bills:", error);
+      res.status(500).json({ message: "Failed to fetch maintenance bills" });
+    }
+  });
+
+  app.get("/api/billing/balance", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'resident') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const balance = await storage.getResidentBalance(user.id);
+      res.json(balance);
+    } catch (error) {
+      console.error("Error fetching balance:", error);
+      res.status(500).json({ message: "Failed to fetch balance" });
+    }
+  });
+
+  app.get("/api/billing/balances", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage billing" });
+      }
+      
+      const balances = await storage.getFlatBalances(user.societyId);
+      res.json(balances);
+    } catch (error) {
+      console.error("Error fetching flat balances:", error);
+      res.status(500).json({ message: "Failed to fetch flat balances" });
+    }
+  });
+
+  // Payment routes
+  const createPaymentIntentSchema = z.object({
+    // Defaults to the full outstanding balance; less pays the oldest bills first, more becomes advance credit
+    amount: z.number().int().positive().optional(),
+    method: z.enum(["card", "upi", "netbanking"]),
+  });
+
+  const confirmPaymentIntentSchema = z.object({
+    details: z.record(z.string()).default({}),
+  });
+
+  app.post("/api/payments/intents", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'resident' || !user.societyId) {
+        return res.status(403).json({ message: "Only residents can pay dues" });
+      }
+      
+      const validationResult = createPaymentIntentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid payment request',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { method } = validationResult.data;
+      
+      const balance = await storage.getResidentBalance(user.id);
+      const amount = validationResult.data.amount ?? balance.outstanding;
+      if (amount <= 0) {
+        return res.status(400).json({ message: "No pending dues to pay" });
+      }
+      if (amount > balance.outstanding && !balance.flatId) {
+        return res.status(400).json({ message: "Advance payments require a flat to be assigned to you" });
+      }
+      
+      // The same flat-wide bills the balance above was totalled from
+      const bills = await storage.getOpenBillsForResident(user.id);
+      
+      const provider = getPaymentProvider();
+      if (!provider) {
+        return res.status(503).json({ message: "Online payments are not available right now" });
+      }
+      
+      const providerIntent = await provider.createIntent({
+        amount,
+        method,
+        description: bills.length > 0
+          ? `Maintenance dues for ${bills.map(bill => bill.billingMonth).join(", ")}`
+          : "Advance maintenance payment",
+      });
+      
+      const intent = await storage.createPaymentIntent({
+        societyId: user.societyId,
+        residentId: user.id,
+        billIds: bills.map(bill => bill.id),
+        amount,
+        method,
+        provider: provider.name,
+        providerReference: providerIntent.providerReference,
+      });
+      
+      res.json({ ...intent, clientSecret: providerIntent.clientSecret });
+    } catch (error) {
+      console.error("Error creating payment intent:", error);
+      res.status(500).json({ message: "Failed to create payment" });
+    }
+  });
+
+  app.get("/api/payments/intents/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const intent = await storage.getPaymentIntent(req.params.id);
+      
+      if (!intent) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (intent.residentId !== user.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(intent);
+    } catch (error) {
+      console.error("Error fetching payment intent:", error);
+      res.status(500).json({ message: "Failed to fetch payment" });
+    }
+  });
+
+  app.post("/api/payments/intents/:id/confirm", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const intent = await storage.getPaymentIntent(req.params.id);
+      
+      if (!intent) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (intent.residentId !== user.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (intent.status !== 'created') {
+        return res.status(409).json({ message: `Payment is already ${intent.status}` });
+      }
+      
+      const validationResult = confirmPaymentIntentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid payment details',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const provider = getPaymentProvider(intent.provider);
+      if (!provider) {
+        return res.status(503).json({ message: "Online payments are not available right now" });
+      }
+      
+      const event = await provider.confirmIntent(intent.providerReference, validationResult.data.details);
+      if (!event) {
+        // The provider settles asynchronously and will notify us by webhook
+        return res.json(intent);
+      }
+      
+      const result = await storage.applyPaymentEvent(provider.name, event);
+      res.json(result.intent);
+    } catch (error) {
+      console.error("Error confirming payment:", error);
+      res.status(500).json({ message: "Failed to confirm payment" });
+    }
+  });
+
+  app.get("/api/payments", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      let paymentList;
+      if (user.role === 'resident') {
+        paymentList = await storage.getPaymentsByResident(user.id);
+      } else if (user.role === 'admin' && user.societyId) {
+        paymentList = await storage.getPaymentsBySociety(user.societyId);
+      } else {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(paymentList);
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.get("/api/payments/:id/receipt", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const payment = await storage.getPayment(req.params.id);
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (user.role === 'resident' && payment.residentId !== user.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (user.role === 'admin' && payment.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (!payment.receiptNumber) {
+        return res.status(400).json({ message: "Receipts are only issued for successful payments" });
+      }
+      
+      const [society, resident] = await Promise.all([
+        storage.getSociety(payment.societyId),
+        storage.getUser(payment.residentId),
+      ]);
+      if (!society || !resident) {
+        return res.status(404).json({ message: "Payment details not found" });
+      }
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${payment.receiptNumber}.pdf"`);
+      writeReceiptPdf(res, payment, society, resident);
+    } catch (error) {
+      console.error("Error generating receipt:", error);
+      res.status(500).json({ message: "Failed to generate receipt" });
+    }
+  });
+
+  // Offline payment routes
+  const offlinePaymentSchema = z.object({
+    residentId: z.string().min(1),
+    amount: z.number().int().positive(),
+    method: z.enum(offlinePaymentMethods),
+    instrumentNumber: z.string().trim().min(1).optional(),
+    bankName: z.string().trim().min(1).optional(),
+    instrumentDate: z.coerce.date().optional(),
+    paidAt: z.coerce.date().optional(),
+  }).superRefine((payment, ctx) => {
+    if (payment.method === 'cheque' && (!payment.instrumentNumber || !payment.bankName)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Cheque number and bank are required for cheques", path: ["instrumentNumber"] });
+    }
+    if (payment.method === 'bank_transfer' && !payment.instrumentNumber) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "UTR number is required for bank transfers", path: ["instrumentNumber"] });
+    }
+  });
+
+  const bouncePaymentSchema = z.object({
+    reason: z.string().trim().min(1),
+    bounceCharge: z.number().int().min(0).default(0),
+  });
+
+  const reconciliationPreviewSchema = z.object({
+    csv: z.string().min(1),
+  });
+
+  const reconciliationConfirmSchema = z.object({
+    matches: z.array(z.object({
+      paymentId: z.string().min(1),
+      statementReference: z.string(),
+    })).min(1),
+  });
+
+  app.post("/api/payments/offline", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can record payments" });
+      }
+      
+      const validationResult = offlinePaymentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid payment',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { residentId, paidAt, ...details } = validationResult.data;
+      const resident = await storage.getUser(residentId);
+      if (!resident || resident.role !== 'resident' || resident.societyId !== user.societyId) {
+        return res.status(404).json({ message: "Resident not found" });
+      }
+      
+      const balance = await storage.getResidentBalance(residentId);
+      if (details.amount > balance.outstanding && !balance.flatId) {
+        return res.status(400).json({ message: "Advance payments require the resident to be assigned to a flat" });
+      }
+      
+      const payment = await storage.recordOfflinePayment({
+        ...details,
+        societyId: user.societyId,
+        residentId,
+        paidAt: paidAt || new Date(),
+        recordedBy: user.id,
+      });
+      res.status(201).json(payment);
+    } catch (error) {
+      console.error("Error recording offline payment:", error);
+      res.status(500).json({ message: "Failed to record payment" });
+    }
+  });
+
+  app.post("/api/payments/:id/bounce", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can record payments" });
+      }
+      
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (payment.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (payment.method !== 'cheque') {
+        return res.status(400).json({ message: "Only cheque payments can bounce" });
+      }
+      if (payment.status !== 'success') {
+        return res.status(409).json({ message: `Payment is already ${payment.status}` });
+      }
+      
+      const validationResult = bouncePaymentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid bounce details',
+          details: validationResult.error.issues
+        });
+      }
+      
+      // The bounce charge and any advance credit already spent are added to a bill
+      const bounced = await storage.bouncePayment(payment.id, validationResult.data);
+      if (!bounced) {
+        return res.status(409).json({ message: "The flat has no bill to add the bounce charge or reversed advance credit to" });
+      }
+      res.json(bounced);
+    } catch (error) {
+      console.error("Error recording cheque bounce:", error);
+      res.status(500).json({ message: "Failed to record cheque bounce" });
+    }
+  });
+
+  app.post("/api/payments/reconciliation/preview", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can reconcile payments" });
+      }
+      
+      const validationResult = reconciliationPreviewSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid bank statement',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { rows, errors } = parseBankStatement(validationResult.data.csv);
+      const candidates = await storage.getUnreconciledPayments(user.societyId);
+      res.json(matchBankStatement(rows, candidates, errors));
+    } catch (error) {
+      console.error("Error reconciling bank statement:", error);
+      res.status(500).json({ message: "Failed to reconcile bank statement" });
+    }
+  });
+
+  app.post("/api/payments/reconciliation/confirm", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can reconcile payments" });
+      }
+      
+      const validationResult = reconciliationConfirmSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid reconciliation',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const reconciled = await storage.markPaymentsReconciled(user.societyId, validationResult.data.matches);
+      res.json({ reconciled });
+    } catch (error) {
+      console.error("Error confirming reconciliation:", error);
+      res.status(500).json({ message: "Failed to confirm reconciliation" });
+    }
+  });
+
+  // Called by payment providers, so it is authenticated by signature rather than session
+  app.post("/api/payments/webhook/:provider", async (req: any, res) => {
+    try {
+      const provider = getPaymentProvider(req.params.provider);
+      if (!provider || provider.name !== req.params.provider) {
+        return res.status(404).json({ message: "Unknown payment provider" });
+      }
+      
+      const event = req.rawBody ? provider.parseWebhook(req.rawBody, req.headers) : null;
+      if (!event) {
+        return res.status(400).json({ message: "Invalid webhook signature or payload" });
+      }
+      
+      const result = await storage.applyPaymentEvent(provider.name, event);
+      if (!result.intent) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      res.json({ received: true, duplicate: result.duplicate, status: result.intent.status });
+    } catch (error) {
+      console.error("Error processing payment webhook:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  // Expense routes
+  const rejectExpenseSchema = z.object({
+    reason: z.string().trim().min(1),
+  });
+
+  const payExpenseSchema = z.object({
+    paymentDate: z.coerce.date().optional(),
+    paymentReference: z.string().trim().min(1).optional(),
+  });
+
+  app.get("/api/vendors", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const vendorList = await storage.getVendors(user.societyId);
+      res.json(vendorList);
+    } catch (error) {
+      console.error("Error fetching vendors:", error);
+      res.status(500).json({ message: "Failed to fetch vendors" });
+    }
+  });
+
+  app.post("/api/vendors", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const validationResult = insertVendorSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid vendor data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const vendor = await storage.createVendor({ ...validationResult.data, societyId: user.societyId });
+      res.status(201).json(vendor);
+    } catch (error) {
+      console.error("Error creating vendor:", error);
+      res.status(500).json({ message: "Failed to create vendor" });
+    }
+  });
+
+  app.patch("/api/vendors/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const vendor = await storage.getVendor(req.params.id);
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      if (vendor.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = insertVendorSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid vendor data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const updated = await storage.updateVendor(vendor.id, validationResult.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating vendor:", error);
+      res.status(500).json({ message: "Failed to update vendor" });
+    }
+  });
+
+  app.get("/api/expenses", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const expenseList = await storage.getExpensesBySociety(user.societyId);
+      res.json(expenseList);
+    } catch (error) {
+      console.error("Error fetching expenses:", error);
+      res.status(500).json({ message: "Failed to fetch expenses" });
+    }
+  });
+
+  app.post("/api/expenses", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const validationResult = insertExpenseSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid expense data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      if (validationResult.data.vendorId) {
+        const vendor = await storage.getVendor(validationResult.data.vendorId);
+        if (!vendor || vendor.societyId !== user.societyId) {
+          return res.status(404).json({ message: "Vendor not found" });
+        }
+      }
+      
+      const expense = await storage.createExpense({
+        ...validationResult.data,
+        societyId: user.societyId,
+        submittedBy: user.id,
+      });
+      res.status(201).json(expense);
+    } catch (error) {
+      console.error("Error creating expense:", error);
+      res.status(500).json({ message: "Failed to create expense" });
+    }
+  });
+
+  app.patch("/api/expenses/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      // Approved amounts are final; a mistake needs a rejected expense and a new one
+      if (expense.status !== 'pending') {
+        return res.status(409).json({ message: `Expense is already ${expense.status}` });
+      }
+      
+      const validationResult = insertExpenseSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid expense data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      if (validationResult.data.vendorId) {
+        const vendor = await storage.getVendor(validationResult.data.vendorId);
+        if (!vendor || vendor.societyId !== user.societyId) {
+          return res.status(404).json({ message: "Vendor not found" });
+        }
+      }
+      
+      const updated = await storage.updateExpense(expense.id, validationResult.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating expense:", error);
+      res.status(500).json({ message: "Failed to update expense" });
+    }
+  });
+
+  app.delete("/api/expenses/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (expense.status === 'approved' || expense.status === 'paid') {
+        return res.status(409).json({ message: `Expense is already ${expense.status}` });
+      }
+      
+      await storage.deleteExpense(expense.id);
+      if (expense.invoiceFile) {
+        await deleteUpload(expense.invoiceFile);
+      }
+      res.json({ message: "Expense deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting expense:", error);
+      res.status(500).json({ message: "Failed to delete expense" });
+    }
+  });
+
+  app.post("/api/expenses/:id/approve", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (expense.status !== 'pending') {
+        return res.status(409).json({ message: `Expense is already ${expense.status}` });
+      }
+      
+      const updated = await storage.approveExpense(expense.id, user.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error approving expense:", error);
+      res.status(500).json({ message: "Failed to approve expense" });
+    }
+  });
+
+  app.post("/api/expenses/:id/reject", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (expense.status !== 'pending') {
+        return res.status(409).json({ message: `Expense is already ${expense.status}` });
+      }
+      
+      const validationResult = rejectExpenseSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'A rejection reason is required',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const updated = await storage.updateExpense(expense.id, {
+        status: 'rejected',
+        rejectionReason: validationResult.data.reason,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rejecting expense:", error);
+      res.status(500).json({ message: "Failed to reject expense" });
+    }
+  });
+
+  app.post("/api/expenses/:id/pay", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (expense.status !== 'approved') {
+        return res.status(409).json({ message: "Only approved expenses can be paid" });
+      }
+      
+      const validationResult = payExpenseSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid payment details',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const updated = await storage.payExpense(expense.id, {
+        paymentDate: validationResult.data.paymentDate || new Date(),
+        paymentReference: validationResult.data.paymentReference || null,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error paying expense:", error);
+      res.status(500).json({ message: "Failed to record expense payment" });
+    }
+  });
+
+  app.post("/api/expenses/:id/invoice", isSimpleAuthenticated, rawUpload(), async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const body = Buffer.isBuffer(req.body) ? req.body : null;
+      if (!body || body.length === 0) {
+        return res.status(400).json({ message: "Invoice file is required" });
+      }
+      const mimeType = detectMimeType(body);
+      if (!mimeType || !documentMimeTypes[mimeType] || mimeType !== req.headers['content-type']) {
+        return res.status(400).json({ message: "Invoices must be PDF, JPEG or PNG files" });
+      }
+      
+      const invoiceFile = await saveUpload(`invoices/${expense.societyId}`, body, mimeType);
+      const updated = await storage.updateExpense(expense.id, { invoiceFile, invoiceMimeType: mimeType });
+      if (expense.invoiceFile) {
+        await deleteUpload(expense.invoiceFile);
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error uploading invoice:", error);
+      res.status(500).json({ message: "Failed to upload invoice" });
+    }
+  });
+
+  app.get("/api/expenses/:id/invoice", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage expenses" });
+      }
+      
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense || !expense.invoiceFile) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (expense.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.setHeader("Content-Type", expense.invoiceMimeType || "application/octet-stream");
+      res.sendFile(resolveUpload(expense.invoiceFile));
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  });
+
+  // Financial report routes
+  app.get("/api/reports/financial/:period", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view financial reports" });
+      }
+      
+      const period = req.params.period;
+      if (period !== 'month' && period !== 'quarter' && period !== 'year') {
+        return res.status(400).json({ message: "Period must be month, quarter or year" });
+      }
+      
+      const report = await buildFinancialReport(user.societyId, period, new Date());
+      res.json(report);
+    } catch (error) {
+      console.error("Error building financial report:", error);
+      res.status(500).json({ message: "Failed to build financial report" });
+    }
+  });
+
+  app.get("/api/reports/complaints/:period", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view complaint analytics" });
+      }
+      
+      const period = req.params.period;
+      if (period !== 'month' && period !== 'quarter' && period !== 'year') {
+        return res.status(400).json({ message: "Period must be month, quarter or year" });
+      }
+      
+      const analytics = await buildComplaintAnalytics(user.societyId, period, new Date());
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error building complaint analytics:", error);
+      res.status(500).json({ message: "Failed to build complaint analytics" });
+    }
+  });
+
+  // Accounting routes
+  const reportDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+  // Report dates are inclusive calendar days; the ledger queries take an exclusive end
+  const parseReportRange = (query: any): { from: Date | null; to: Date } | null => {
+    const from = query.from === undefined ? undefined : reportDateSchema.safeParse(query.from);
+    const to = query.to === undefined ? undefined : reportDateSchema.safeParse(query.to);
+    if ((from && !from.success) || (to && !to.success)) return null;
+
+    const end = to ? new Date(`${to.data}T00:00:00.000Z`) : new Date(new Date().toISOString().slice(0, 10) + "T00:00:00.000Z");
+    end.setUTCDate(end.getUTCDate() + 1);
+    return { from: from ? new Date(`${from.data}T00:00:00.000Z`) : null, to: end };
+  };
+
+  app.get("/api/accounting/accounts", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view the accounts" });
+      }
+      
+      const range = parseReportRange(req.query);
+      if (!range) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+      
+      const trialBalance = await buildTrialBalance(user.societyId, null, range.to);
+      res.json(trialBalance.accounts);
+    } catch (error) {
+      console.error("Error fetching accounts:", error);
+      res.status(500).json({ message: "Failed to fetch accounts" });
+    }
+  });
+
+  app.get("/api/accounting/journal", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view the accounts" });
+      }
+      
+      const range = parseReportRange(req.query);
+      if (!range) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+      
+      const entries = await storage.getJournalEntries(user.societyId, range.from, range.to);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching journal:", error);
+      res.status(500).json({ message: "Failed to fetch journal" });
+    }
+  });
+
+  app.get("/api/accounting/trial-balance", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view the accounts" });
+      }
+      
+      const range = parseReportRange(req.query);
+      if (!range) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+      
+      const trialBalance = await buildTrialBalance(user.societyId, range.from, range.to);
+      res.json(trialBalance);
+    } catch (error) {
+      console.error("Error building trial balance:", error);
+      res.status(500).json({ message: "Failed to build trial balance" });
+    }
+  });
+
+  app.get("/api/accounting/income-expenditure", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view the accounts" });
+      }
+      
+      const range = parseReportRange(req.query);
+      if (!range) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+      
+      const statement = await buildIncomeExpenditure(user.societyId, range.from, range.to);
+      res.json(statement);
+    } catch (error) {
+      console.error("Error building income and expenditure statement:", error);
+      res.status(500).json({ message: "Failed to build income and expenditure statement" });
+    }
+  });
+
+  app.get("/api/accounting/balance-sheet", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can view the accounts" });
+      }
+      
+      // A balance sheet is a position at a date, so only the end of the range applies
+      const range = parseReportRange({ to: req.query.asOf });
+      if (!range) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+      
+      const balanceSheet = await buildBalanceSheet(user.societyId, range.to);
+      res.json(balanceSheet);
+    } catch (error) {
+      console.error("Error building balance sheet:", error);
+      res.status(500).json({ message: "Failed to build balance sheet" });
+    }
+  });
+
+  // Society fund routes
+  const fundWithdrawalBodySchema = insertFundWithdrawalSchema.extend({
+    // How long residents have to vote on the withdrawal
+    votingDays: z.number().int().min(1).max(60).default(7),
+  });
+
+  const disburseWithdrawalSchema = z.object({
+    disbursedAt: z.coerce.date().optional(),
+    paymentReference: z.string().trim().min(1).optional(),
+  });
+
+  app.get("/api/funds", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage funds" });
+      }
+      
+      const fundList = await getFundsWithBalances(user.societyId);
+      res.json(fundList);
+    } catch (error) {
+      console.error("Error fetching funds:", error);
+      res.status(500).json({ message: "Failed to fetch funds" });
+    }
+  });
+
+  app.post("/api/funds", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage funds" });
+      }
+      
+      const validationResult = insertFundSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid fund data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const fund = await storage.createFund({ ...validationResult.data, societyId: user.societyId });
+      res.json(fund);
+    } catch (error) {
+      console.error("Error creating fund:", error);
+      res.status(500).json({ message: "Failed to create fund" });
+    }
+  });
+
+  app.patch("/api/funds/:id", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage funds" });
+      }
+      
+      const fund = await storage.getFund(req.params.id);
+      if (!fund) {
+        return res.status(404).json({ message: "Fund not found" });
+      }
+      if (fund.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = insertFundSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid fund data',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const updated = await storage.updateFund(fund.id, validationResult.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating fund:", error);
+      res.status(500).json({ message: "Failed to update fund" });
+    }
+  });
+
+  app.get("/api/funds/withdrawals", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage funds" });
+      }
+      
+      const withdrawals = await getFundWithdrawals(user.societyId, new Date());
+      res.json(withdrawals);
+    } catch (error) {
+      console.error("Error fetching fund withdrawals:", error);
+      res.status(500).json({ message: "Failed to fetch fund withdrawals" });
+    }
+  });
+
+  app.get("/api/funds/:id/statement", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage funds" });
+      }
+      
+      const fund = await storage.getFund(req.params.id);
+      if (!fund) {
+        return res.status(404).json({ message: "Fund not found" });
+      }
+      if (fund.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const range = parseReportRange(req.query);
+      if (!range) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+      
+      const statement = await buildFundStatement(fund, range.from, range.to);
+      res.json(statement);
+    } catch (error) {
+      console.error("Error building fund statement:", error);
+      res.status(500).json({ message: "Failed to build fund statement" });
+    }
+  });
+
+  app.post("/api/funds/:id/withdrawals", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage funds" });
+      }
+      
+      const fund = await storage.getFund(req.params.id);
+      if (!fund) {
+        return res.status(404).json({ message: "Fund not found" });
+      }
+      if (fund.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const validationResult = fundWithdrawalBodySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid withdrawal request',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const { votingDays, ...withdrawal } = validationResult.data;
+      if (withdrawal.vendorId) {
+        const vendor = await storage.getVendor(withdrawal.vendorId);
+        if (!vendor || vendor.societyId !== user.societyId) {
+          return res.status(400).json({ message: "Vendor not found" });
+        }
+      }
+      
+      const funds = await getFundsWithBalances(user.societyId);
+      const balance = funds.find(row => row.id === fund.id)?.balance || 0;
+      if (withdrawal.amount > balance) {
+        return res.status(409).json({ message: `${fund.name} only holds ₹${balance.toLocaleString('en-IN')}` });
+      }
+      
+      const endDate = new Date();
+      endDate.setDate(endDate.getDate() + votingDays);
+      const created = await storage.createFundWithdrawal(
+        { ...withdrawal, fundId: fund.id, societyId: user.societyId, requestedBy: user.id },
+        {
+          title: `Approve ₹${withdrawal.amount.toLocaleString('en-IN')} withdrawal from ${fund.name}`,
+          description: withdrawal.purpose,
+          endDate,
+          status: 'active',
+          pollType: 'yes_no',
+          isAnonymous: false,
+        },
+        WITHDRAWAL_POLL_OPTIONS,
+      );
+      
+      await notifyResidentsOfPoll(user, created.poll);
+      
+      res.json(created.withdrawal);
+    } catch (error) {
+      console.error("Error requesting fund withdrawal:", error);
+      res.status(500).json({ message: "Failed to request fund withdrawal" });
+    }
+  });
+
+  app.post("/api/funds/withdrawals/:id/cancel", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage funds" });
+      }
+      
+      const withdrawal = await storage.getFundWithdrawal(req.params.id);
+      if (!withdrawal) {
+        return res.status(404).json({ message: "Withdrawal not found" });
+      }
+      if (withdrawal.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (withdrawal.status !== 'pending') {
+        return res.status(409).json({ message: `Withdrawal is already ${withdrawal.status}` });
+      }
+      
+      const updated = await storage.closeFundWithdrawal(withdrawal.id, 'cancelled');
+      res.json(updated);
+    } catch (error) {
+      console.error("Error cancelling fund withdrawal:", error);
+      res.status(500).json({ message: "Failed to cancel fund withdrawal" });
+    }
+  });
+
+  app.post("/api/funds/withdrawals/:id/disburse", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage funds" });
+      }
+      
+      const withdrawal = await storage.getFundWithdrawal(req.params.id);
+      if (!withdrawal) {
+        return res.status(404).json({ message: "Withdrawal not found" });
+      }
+      if (withdrawal.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (withdrawal.status !== 'pending') {
+        return res.status(409).json({ message: `Withdrawal is already ${withdrawal.status}` });
+      }
+      
+      const validationResult = disburseWithdrawalSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid disbursal details',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const poll = await storage.getPoll(withdrawal.pollId);
+      if (!poll) {
+        return res.status(404).json({ message: "Poll not found" });
+      }
+      const { outcome } = getWithdrawalOutcome(poll, await storage.getPollResults(poll.id), new Date());
+      if (outcome === 'open') {
+        return res.status(409).json({ message: "Residents are still voting on this withdrawal" });
+      }
+      if (outcome === 'rejected') {
+        await storage.closeFundWithdrawal(withdrawal.id, 'rejected');
+        return res.status(409).json({ message: "Residents did not approve this withdrawal" });
+      }
+      
+      const funds = await getFundsWithBalances(user.societyId);
+      const balance = funds.find(row => row.id === withdrawal.fundId)?.balance || 0;
+      if (withdrawal.amount > balance) {
+        return res.status(409).json({ message: `The fund only holds ₹${balance.toLocaleString('en-IN')}` });
+      }
+      
+      const disbursed = await storage.disburseFundWithdrawal(withdrawal.id, {
+        disbursedAt: validationResult.data.disbursedAt || new Date(),
+        paymentReference: validationResult.data.paymentReference || null,
+      });
+      if (!disbursed) {
+        return res.status(409).json({ message: "Withdrawal is no longer pending" });
+      }
+      res.json(disbursed);
+    } catch (error) {
+      console.error("Error disbursing fund withdrawal:", error);
+      res.status(500).json({ message: "Failed to disburse fund withdrawal" });
+    }
+  });
+
+  // Dashboard stats routes
+  app.get("/api/dashboard/stats", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (user.role === 'super_admin') {
+        const stats = await storage.getGlobalStats();
+        res.json(stats);
+      } else if ((user.role === 'admin' || user.role === 'resident') && user.societyId) {
+        const stats = await storage.getSocietyStats(user.societyId);
+        res.json(stats);
+      } else {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+    } catch (error) {
+      console.error("Error fetching stats:", error);
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  // Facilities routes
+  const MAX_PHOTOS_PER_FACILITY = 10;
+
+  // Residents see the facilities open for booking; admins see every facility so they can manage them
+  app.get("/api/facilities", isSimpleAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      if (!user || !user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const facilities = await getFacilitiesWithPhotos(user.societyId, user.role === 'admin');
+      res.json(facilities);
+    } catch (error) {
+      console.error("Error fetching facilities:", error);
+      res.status(500).json({ message: "Failed to fetch facilities" });
+    }
+  });
+
+  app.post("/api/facilities", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (user?.role !== 'super_admin') {
-        return res.status(403).json({ message: "Only super admin can access this resource" });
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage facilities" });
       }
       
-      const admin = await storage.getAdminBySociety(req.params.societyId);
-      res.json(admin || null);
+      const validationResult = insertFacilitySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid facility',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const hoursError = getFacilityHoursError(validationResult.data);
+      if (hoursError) {
+        return res.status(400).json({ message: hoursError });
+      }
+      
+      const facility = await storage.createFacility({ ...validationResult.data, societyId: user.societyId });
+      res.status(201).json({ ...facility, photos: [] });
     } catch (error) {
-      console.error("Error fetching society admin:", error);
-      res.status(500).json({ message: "Failed to fetch society admin" });
+      console.error("Error creating facility:", error);
+      res.status(500).json({ message: "Failed to create facility" });
     }
   });
 
-  // Residents routes
-  app.get("/api/societies/:societyId/residents", isSimpleAuthenticated, async (req: any, res) => {
+  app.patch("/api/facilities/:id", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      const societyId = req.params.societyId;
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage facilities" });
+      }
       
-      // Check permission
-      if (user?.role === 'resident' && user.societyId !== societyId) {
-        return res.status(403).json({ message: "Forbidden" });
+      const facility = await storage.getFacility(req.params.id);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
       }
-      if (user?.role === 'admin' && user.societyId !== societyId) {
+      if (facility.societyId !== user.societyId) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const residents = await storage.getResidentsBySociety(societyId);
-      res.json(residents);
+      const validationResult = insertFacilitySchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid facility',
+          details: validationResult.error.issues
+        });
+      }
+      
+      const hoursError = getFacilityHoursError({ ...facility, ...validationResult.data });
+      if (hoursError) {
+        return res.status(400).json({ message: hoursError });
+      }
+      
+      const updated = await storage.updateFacility(facility.id, validationResult.data);
+      const photos = await storage.getFacilityPhotos(facility.id);
+      res.json({ ...updated, photos: photos.map(toFacilityPhotoInfo) });
     } catch (error) {
-      console.error("Error fetching residents:", error);
-      res.status(500).json({ message: "Failed to fetch residents" });
+      console.error("Error updating facility:", error);
+      res.status(500).json({ message: "Failed to update facility" });
     }
   });
 
-  // Complaints routes
-  app.get("/api/complaints", isSimpleAuthenticated, async (req: any, res) => {
+  // Facilities with booking history are kept for the record; admins mark them unavailable instead
+  app.delete("/api/facilities/:id", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage facilities" });
       }
       
-      let complaints;
-      if (user.role === 'resident') {
-        complaints = await storage.getComplaintsByResident(user.id);
-      } else if (user.role === 'admin' && user.societyId) {
-        complaints = await storage.getComplaintsBySociety(user.societyId);
-      } else {
+      const facility = await storage.getFacility(req.params.id);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (facility.societyId !== user.societyId) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      res.json(complaints);
+      if (await storage.countFacilityBookings(facility.id) > 0) {
+        return res.status(409).json({ message: "This facility has bookings; mark it unavailable instead" });
+      }
+      
+      const photos = await storage.getFacilityPhotos(facility.id);
+      await storage.deleteFacility(facility.id);
+      for (const photo of photos) {
+        await deleteUpload(photo.filePath);
+        await deleteUpload(photo.thumbnailPath);
+      }
+      res.json({ message: "Facility deleted" });
     } catch (error) {
-      console.error("Error fetching complaints:", error);
-      res.status(500).json({ message: "Failed to fetch complaints" });
+      console.error("Error deleting facility:", error);
+      res.status(500).json({ message: "Failed to delete facility" });
     }
   });
 
-  app.post("/api/complaints", isSimpleAuthenticated, async (req: any, res) => {
+  // Photos are sent raw with their own Content-Type, like complaint attachments
+  app.post("/api/facilities/:id/photos", isSimpleAuthenticated, rawUpload(getMaxUploadBytes), async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user || user.role !== 'resident' || !user.societyId) {
-        return res.status(403).json({ message: "Only residents can create complaints" });
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage facilities" });
       }
       
-      const validatedData = insertComplaintSchema.parse({
-        ...req.body,
-        residentId: user.id,
-        societyId: user.societyId,
-      });
+      const facility = await storage.getFacility(req.params.id);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (facility.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
       
-      const complaint = await storage.createComplaint(validatedData);
+      const existing = await storage.getFacilityPhotos(facility.id);
+      if (existing.length >= MAX_PHOTOS_PER_FACILITY) {
+        return res.status(409).json({ message: `A facility can have at most ${MAX_PHOTOS_PER_FACILITY} photos` });
+      }
       
-      // Send email notification to admins
+      const body = Buffer.isBuffer(req.body) ? req.body : null;
+      if (!body || body.length === 0) {
+        return res.status(400).json({ message: "Photo file is required" });
+      }
+      const mimeType = detectMimeType(body);
+      if (!mimeType || !isImageMimeType(mimeType) || mimeType !== req.headers['content-type']) {
+        return res.status(400).json({ message: "Photos must be JPEG, PNG or WebP images" });
+      }
+      
+      let thumbnail: Buffer;
       try {
-        const society = await storage.getSociety(user.societyId);
-        if (society) {
-          const admin = await storage.getAdminBySociety(user.societyId);
-          const adminEmails = admin?.email ? [admin.email] : [];
-          
-          if (adminEmails.length > 0) {
-            await sendComplaintNotification(adminEmails, {
-              id: complaint.id,
-              title: complaint.title,
-              description: complaint.description,
-              category: complaint.category || 'General',
-              priority: complaint.priority || 'medium',
-              residentName: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
-              flatNumber: user.flatNumber || 'N/A',
-              societyName: society.name
-            });
-          }
-        }
-      } catch (emailError) {
-        console.error('Error sending complaint notification emails:', emailError);
-        // Don't fail the complaint creation if email fails
+        thumbnail = await createThumbnail(body);
+      } catch (imageError) {
+        return res.status(400).json({ message: "The image could not be read" });
       }
       
-      res.json(complaint);
+      let fileName = 'photo';
+      try {
+        fileName = decodeURIComponent(String(req.headers['x-file-name'] || '')).trim().slice(0, 200) || fileName;
+      } catch (decodeError) {
+        // Keep the default name when the header is not valid URI encoding
+      }
+      
+      const folder = `facilities/${facility.societyId}`;
+      const filePath = await saveUpload(folder, body, mimeType);
+      const thumbnailPath = await saveUpload(folder, thumbnail, 'image/jpeg');
+      const photo = await storage.createFacilityPhoto({
+        facilityId: facility.id,
+        societyId: facility.societyId,
+        uploadedBy: user.id,
+        fileName,
+        mimeType,
+        size: body.length,
+        filePath,
+        thumbnailPath,
+      });
+      res.status(201).json(toFacilityPhotoInfo(photo));
     } catch (error) {
-      console.error("Error creating complaint:", error);
-      res.status(500).json({ message: "Failed to create complaint" });
+      console.error("Error uploading facility photo:", error);
+      res.status(500).json({ message: "Failed to upload facility photo" });
     }
   });
 
-  app.patch("/api/complaints/:id/status", isSimpleAuthenticated, async (req: any, res) => {
+  app.get("/api/facility-photos/:id/:variant", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user || user.role === 'resident') {
-        return res.status(403).json({ message: "Only admins can update complaint status" });
+      const variant = req.params.variant;
+      if (variant !== 'file' && variant !== 'thumbnail') {
+        return res.status(404).json({ message: "Photo not found" });
       }
       
-      const { status, resolutionNotes } = req.body;
-      const complaint = await storage.updateComplaintStatus(req.params.id, status, resolutionNotes);
-      res.json(complaint);
+      const photo = await storage.getFacilityPhoto(req.params.id);
+      if (!photo) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      if (!user || user.societyId !== photo.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.setHeader("Content-Type", variant === 'file' ? photo.mimeType : "image/jpeg");
+      res.sendFile(resolveUpload(variant === 'file' ? photo.filePath : photo.thumbnailPath));
     } catch (error) {
-      console.error("Error updating complaint:", error);
-      res.status(500).json({ message: "Failed to update complaint" });
+      console.error("Error fetching facility photo:", error);
+      res.status(500).json({ message: "Failed to fetch facility photo" });
     }
   });
 
-  // Facility bookings routes
-  app.get("/api/facility-bookings", isSimpleAuthenticated, async (req: any, res) => {
+  app.delete("/api/facility-photos/:id", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage facilities" });
       }
       
-      let bookings;
-      if (user.role === 'resident') {
-        bookings = await storage.getResidentBookings(user.id);
-      } else if (user.role === 'admin' && user.societyId) {
-        bookings = await storage.getFacilityBookings(user.societyId);
-      } else {
+      const photo = await storage.getFacilityPhoto(req.params.id);
+      if (!photo) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      if (photo.societyId !== user.societyId) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      res.json(bookings);
+      await storage.deleteFacilityPhoto(photo.id);
+      await deleteUpload(photo.filePath);
+      await deleteUpload(photo.thumbnailPath);
+      res.json({ message: "Photo deleted" });
     } catch (error) {
-      console.error("Error fetching bookings:", error);
-      res.status(500).json({ message: "Failed to fetch bookings" });
+      console.error("Error deleting facility photo:", error);
+      res.status(500).json({ message: "Failed to delete facility photo" });
     }
   });
 
-  app.post("/api/facility-bookings", isSimpleAuthenticated, async (req: any, res) => {
+  // ?from=YYYY-MM-DD (default today) and ?days= (default 7) pick the range of days returned
+  app.get("/api/facilities/:id/availability", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user || user.role !== 'resident' || !user.societyId) {
-        return res.status(403).json({ message: "Only residents can create bookings" });
+      const facility = await storage.getFacility(req.params.id);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (!user || user.societyId !== facility.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
       }
       
-      const validatedData = insertFacilityBookingSchema.parse({
-        ...req.body,
-        residentId: user.id,
-        societyId: user.societyId,
-      });
+      const now = new Date();
+      const from = typeof req.query.from === 'string' ? req.query.from : getSocietyDate(now);
+      if (!DATE_PATTERN.test(from)) {
+        return res.status(400).json({ message: "from must be a YYYY-MM-DD date" });
+      }
+      const days = req.query.days === undefined ? 7 : Number(req.query.days);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_AVAILABILITY_DAYS) {
+        return res.status(400).json({ message: `days must be between 1 and ${MAX_AVAILABILITY_DAYS}` });
+      }
       
-      const booking = await storage.createFacilityBooking(validatedData);
-      res.json(booking);
+      const availability = await buildFacilityAvailability(facility, from, days, now);
+      res.json(availability);
     } catch (error) {
-      console.error("Error creating booking:", error);
-      res.status(500).json({ message: "Failed to create booking" });
+      console.error("Error fetching facility availability:", error);
+      res.status(500).json({ message: "Failed to fetch facility availability" });
     }
   });
 
-  app.patch("/api/facility-bookings/:id/status", isSimpleAuthenticated, async (req: any, res) => {
+  // Previews the price of a window before booking; the booking route computes it again
+  app.get("/api/facilities/:id/quote", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user || user.role === 'resident') {
-        return res.status(403).json({ message: "Only admins can update booking status" });
+      const facility = await storage.getFacility(req.params.id);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (!user || user.societyId !== facility.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
       }
       
-      const { status } = req.body;
-      const booking = await storage.updateBookingStatus(req.params.id, status);
+      const validationResult = facilityBookingRequestSchema
+        .pick({ bookingDate: true, startTime: true, endTime: true })
+        .safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid booking window',
+          details: validationResult.error.issues
+        });
+      }
       
-      // Send email notification to resident about booking status change
-      try {
-        const resident = await storage.getUser(booking.residentId);
-        const facilities = await storage.getFacilitiesBySociety(booking.societyId);
-        const facility = facilities.find(f => f.id === booking.facilityId);
-        const society = await storage.getSociety(booking.societyId);
-        
-        if (resident && resident.email && facility && society) {
-          await sendBookingNotification(resident.email, {
-            id: booking.id,
-            facilityName: facility.name,
-            bookingDate: booking.bookingDate?.toISOString() || new Date().toISOString(),
-            startTime: booking.startTime,
-            endTime: booking.endTime,
-            status: booking.status || 'pending',
-            totalAmount: booking.totalAmount || 0,
-            residentName: `${resident.firstName || ''} ${resident.lastName || ''}`.trim(),
-            societyName: society.name
-          });
-        }
-      } catch (emailError) {
-        console.error('Error sending booking notification email:', emailError);
-        // Don't fail the booking update if email fails
+      const { bookingDate, startTime, endTime } = validationResult.data;
+      const windowError = getBookingWindowError(facility, startTime, endTime);
+      if (windowError) {
+        return res.status(400).json({ message: windowError });
       }
       
-      res.json(booking);
+      res.json(computeBookingQuote(facility, bookingDate, startTime, endTime, req.query.forGuest === 'true'));
     } catch (error) {
-      console.error("Error updating booking:", error);
-      res.status(500).json({ message: "Failed to update booking" });
+      console.error("Error pricing facility booking:", error);
+      res.status(500).json({ message: "Failed to price facility booking" });
     }
   });
 
-  // Announcements routes
-  app.get("/api/announcements", isSimpleAuthenticated, async (req: any, res) => {
+  app.get("/api/facilities/:id/blackouts", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user || !user.societyId) {
+      const facility = await storage.getFacility(req.params.id);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (!user || user.societyId !== facility.societyId) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const announcements = await storage.getAnnouncementsBySociety(user.societyId);
-      res.json(announcements);
+      const blackouts = await storage.getFacilityBlackouts(facility.id);
+      res.json(blackouts);
     } catch (error) {
-      console.error("Error fetching announcements:", error);
-      res.status(500).json({ message: "Failed to fetch announcements" });
+      console.error("Error fetching facility blackouts:", error);
+      res.status(500).json({ message: "Failed to fetch facility blackouts" });
     }
   });
 
-  app.post("/api/announcements", isSimpleAuthenticated, async (req: any, res) => {
+  // Bookings already on the day are left alone; the admin sorts those out with the residents
+  app.post("/api/facilities/:id/blackouts", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user || user.role === 'resident' || !user.societyId) {
-        return res.status(403).json({ message: "Only admins can create announcements" });
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage facilities" });
       }
       
-      const validatedData = insertAnnouncementSchema.parse({
-        ...req.body,
-        authorId: user.id,
-        societyId: user.societyId,
-      });
+      const facility = await storage.getFacility(req.params.id);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found" });
+      }
+      if (facility.societyId !== user.societyId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
       
-      const announcement = await storage.createAnnouncement(validatedData);
+      const validationResult = insertFacilityBlackoutSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid blackout date',
+          details: validationResult.error.issues
+        });
+      }
       
-      // Send email notifications to all residents in the society
-      try {
-        const residents = await storage.getResidentsBySociety(user.societyId);
-        const society = await storage.getSociety(user.societyId);
-        
-        if (residents.length > 0 && society) {
-          const emailSuccess = await sendAnnouncementToResidents(
-            residents.map(resident => ({
-              email: resident.email || '',
-              firstName: resident.firstName || '',
-              lastName: resident.lastName || undefined,
-            })),
-            {
-              title: announcement.title,
-              content: announcement.content,
-              isUrgent: announcement.isUrgent || false,
-              societyName: society.name,
-            }
-          );
-          
-          if (emailSuccess) {
-            console.log(`Announcement emails sent to ${residents.length} residents`);
-          } else {
-            console.warn('Failed to send announcement emails, but announcement was created');
-          }
-        }
-      } catch (emailError) {
-        console.error('Error sending announcement emails:', emailError);
-        // Don't fail the announcement creation if email fails
+      const existing = await storage.getFacilityBlackouts(facility.id);
+      if (existing.some(row => row.date === validationResult.data.date)) {
+        return res.status(409).json({ message: `${facility.name} is already blacked out on ${validationResult.data.date}` });
       }
       
-      res.json(announcement);
+      const blackout = await storage.createFacilityBlackout({
+        ...validationResult.data,
+        facilityId: facility.id,
+        societyId: facility.societyId,
+        createdBy: user.id,
+      });
+      res.status(201).json(blackout);
     } catch (error) {
-      console.error("Error creating announcement:", error);
-      res.status(500).json({ message: "Failed to create announcement" });
+      console.error("Error creating facility blackout:", error);
+      res.status(500).json({ message: "Failed to create facility blackout" });
     }
   });
 
-  // Dashboard stats routes
-  app.get("/api/dashboard/stats", isSimpleAuthenticated, async (req: any, res) => {
+  app.delete("/api/facility-blackouts/:id", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (!user || user.role !== 'admin' || !user.societyId) {
+        return res.status(403).json({ message: "Only society admins can manage facilities" });
       }
       
-      if (user.role === 'super_admin') {
-        const stats = await storage.getGlobalStats();
-        res.json(stats);
-      } else if ((user.role === 'admin' || user.role === 'resident') && user.societyId) {
-        const stats = await storage.getSocietyStats(user.societyId);
-        res.json(stats);
-      } else {
-        return res.status(403).json({ message: "Forbidden" });
+      const blackout = await storage.getFacilityBlackout(req.params.id);
+      if (!blackout) {
+        return res.status(404).json({ message: "Blackout date not found" });
       }
-    } catch (error) {
-      console.error("Error fetching stats:", error);
-      res.status(500).json({ message: "Failed to fetch stats" });
-    }
-  });
-
-  // Facilities routes
-  app.get("/api/facilities", isSimpleAuthenticated, async (req: any, res) => {
-    try {
-      const user = req.user;
-      if (!user || !user.societyId) {
+      if (blackout.societyId !== user.societyId) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const facilities = await storage.getFacilitiesBySociety(user.societyId);
-      res.json(facilities);
+      await storage.deleteFacilityBlackout(blackout.id);
+      res.json({ message: "Blackout date removed" });
     } catch (error) {
-      console.error("Error fetching facilities:", error);
-      res.status(500).json({ message: "Failed to fetch facilities" });
+      console.error("Error deleting facility blackout:", error);
+      res.status(500).json({ message: "Failed to delete facility blackout" });
     }
   });
 
@@ -554,7 +4128,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/polls", isSimpleAuthenticated, async (req: any, res) => {
     try {
       const user = req.user;
-      if (!user || user.role === 'resident') {
+      if (!user || (user.role !== 'admin' && user.role !== 'super_admin')) {
         return res.status(403).json({ message: "Only admins can create polls" });
       }
       
@@ -578,33 +4152,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Send email notifications to residents about new poll
-      try {
-        const society = await storage.getSociety(user.societyId);
-        if (society) {
-          const residents = await storage.getResidentsBySociety(user.societyId);
-          const residentsWithEmails = residents
-            .filter(resident => resident.email)
-            .map(resident => ({
-              email: resident.email!,
-              firstName: resident.firstName || 'Resident'
-            }));
-          
-          if (residentsWithEmails.length > 0) {
-            await sendVotingNotification(residentsWithEmails, {
-              id: poll.id,
-              title: poll.title,
-              description: poll.description,
-              endDate: poll.endDate.toISOString(),
-              societyName: society.name,
-              createdByName: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
-              isAnonymous: poll.isAnonymous || false
-            });
-          }
-        }
-      } catch (emailError) {
-        console.error('Error sending voting notification emails:', emailError);
-        // Don't fail the poll creation if email fails
-      }
+      await notifyResidentsOfPoll(user, poll);
       
       res.json(poll);
     } catch (error) {
@@ -744,7 +4292,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user;
       
       // Only admins can change poll status
-      if (user.role === 'resident') {
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
       
@@ -758,6 +4306,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Forbidden" });
       }
       
+      // Closing a withdrawal's approval poll early would let whoever has voted so far decide it
+      const withdrawal = await storage.getFundWithdrawalByPoll(pollId);
+      if (withdrawal && !isPollOver(poll, new Date())) {
+        return res.status(409).json({ message: "This poll decides a fund withdrawal and stays open until its end date" });
+      }
+      
       const updatedPoll = await storage.updatePollStatus(pollId, status);
       res.json(updatedPoll);
     } catch (error: any) {
@@ -772,7 +4326,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user;
       
       // Only admins and super admins can create residents
-      if (user.role === 'resident') {
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
@@ -795,7 +4349,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user;
       
       // Only admins and super admins can view all residents
-      if (user.role === 'resident') {
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
@@ -818,7 +4372,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const residentId = req.params.id;
       
       // Only admins and super admins can update residents
-      if (user.role === 'resident') {
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
@@ -857,7 +4411,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const residentId = req.params.id;
       
       // Only admins and super admins can delete residents
-      if (user.role === 'resident') {
+      if (user.role !== 'admin' && user.role !== 'super_admin') {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
@@ -1018,62 +4572,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // System Settings Schema
-  const systemSettingsSchema = z.object({
-    security: z.object({
-      sessionTimeout: z.number().min(5).max(480),
-      enforceStrongPasswords: z.boolean(),
-      enableTwoFactor: z.boolean(),
-      maxLoginAttempts: z.number().min(1).max(20),
-    }),
-    notifications: z.object({
-      emailNotifications: z.boolean(),
-      smsNotifications: z.boolean(),
-      pushNotifications: z.boolean(),
-      maintenanceAlerts: z.boolean(),
-    }),
-    system: z.object({
-      maintenanceMode: z.boolean(),
-      autoBackup: z.boolean(),
-      logRetention: z.number().min(1).max(365),
-      maxFileSize: z.number().min(1).max(100),
-    }),
-    application: z.object({
-      systemName: z.string().min(1).max(100),
-      contactEmail: z.string().email(),
-      maxSocieties: z.number().min(1).max(1000),
-      defaultLanguage: z.string().min(2).max(5),
-    })
-  });
-
-  // In-memory system settings storage (in production, this would be in database)
-  let systemSettings = {
-    security: {
-      sessionTimeout: 60,
-      enforceStrongPasswords: true,
-      enableTwoFactor: false,
-      maxLoginAttempts: 5,
-    },
-    notifications: {
-      emailNotifications: true,
-      smsNotifications: false,
-      pushNotifications: true,
-      maintenanceAlerts: true,
-    },
-    system: {
-      maintenanceMode: false,
-      autoBackup: true,
-      logRetention: 30,
-      maxFileSize: 10,
-    },
-    application: {
-      systemName: "SocietyHub",
-      contactEmail: "admin@societyhub.com",
-      maxSocieties: 100,
-      defaultLanguage: "en",
-    }
-  };
-
   // System Settings routes (Super Admin only)
   app.get("/api/system/settings", isSimpleAuthenticated, async (req: any, res) => {
     try {
@@ -1082,7 +4580,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Only super admin can access system settings" });
       }
       
-      res.json(systemSettings);
+      res.json(getSystemSettings());
     } catch (error) {
       console.error("Error fetching system settings:", error);
       res.status(500).json({ message: "Failed to fetch system settings" });
@@ -1106,7 +4604,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Update the system settings
-      systemSettings = validationResult.data;
+      const systemSettings = updateSystemSettings(validationResult.data);
       
       console.log("System settings updated:", systemSettings);
       res.json(systemSettings);
@@ -0,0 +1,184 @@
+import type { Complaint, SlaPolicy, SlaBreach, SlaCompliance, Society } from "@shared/schema";
+import { storage } from "./storage";
+import { isComplaintOpen } from "./complaints";
+import { sendSlaEscalation } from "./emailService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Often enough that a breach is flagged within a quarter of an hour of its due time
+const SLA_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Compliance on the dashboards covers complaints raised in this window
+const COMPLIANCE_WINDOW_DAYS = 30;
+
+type SlaBreachKind = SlaBreach["kind"];
+
+// Exact category and priority beats category alone, which beats priority alone, which beats a catch-all
+export function findSlaPolicy(policies: SlaPolicy[], complaint: Complaint): SlaPolicy | undefined {
+  let best: SlaPolicy | undefined;
+  let bestScore = -1;
+  for (const policy of policies) {
+    if (!policy.isActive) continue;
+    if (policy.category && policy.category !== complaint.category) continue;
+    if (policy.priority && policy.priority !== (complaint.priority || 'medium')) continue;
+    const score = (policy.category ? 2 : 0) + (policy.priority ? 1 : 0);
+    if (score > bestScore) {
+      best = policy;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Keeps the category-wide policy (no priority set) in step with the targets edited on a category;
+// null targets switch it off
+export async function setCategorySla(
+  societyId: string,
+  category: string,
+  targets: { firstResponseHours: number; resolutionHours: number } | null,
+): Promise<void> {
+  const policies = await storage.getSlaPolicies(societyId);
+  const matching = policies.filter(policy => policy.category === category && !policy.priority);
+  const existing = matching.find(policy => policy.isActive) || matching[0];
+
+  if (!targets) {
+    if (existing?.isActive) await storage.updateSlaPolicy(existing.id, { isActive: false });
+    return;
+  }
+  if (existing) {
+    await storage.updateSlaPolicy(existing.id, { ...targets, isActive: true });
+  } else {
+    await storage.createSlaPolicy({ ...targets, category, priority: null, societyId });
+  }
+}
+
+export function getSlaDueAt(complaint: Complaint, policy: SlaPolicy, kind: SlaBreachKind): Date {
+  const hours = kind === 'first_response' ? policy.firstResponseHours : policy.resolutionHours;
+  return new Date(new Date(complaint.createdAt!).getTime() + hours * HOUR_MS);
+}
+
+// When the target stopped being measured: the first response, or resolution/closure
+function getCompletedAt(complaint: Complaint, kind: SlaBreachKind): Date | null {
+  if (kind === 'first_response') return complaint.firstRespondedAt;
+  return isComplaintOpen(complaint) ? null : complaint.resolvedAt;
+}
+
+// null while the target is still running and can yet be met
+export function isSlaMet(complaint: Complaint, policy: SlaPolicy, kind: SlaBreachKind, asOf: Date): boolean | null {
+  const dueAt = getSlaDueAt(complaint, policy, kind);
+  const completedAt = getCompletedAt(complaint, kind);
+  if (completedAt) return completedAt <= dueAt;
+  return asOf > dueAt ? false : null;
+}
+
+export async function buildSlaCompliance(societyId: string, asOf: Date): Promise<SlaCompliance> {
+  const since = new Date(asOf.getTime() - COMPLIANCE_WINDOW_DAYS * 24 * HOUR_MS);
+  const [complaints, policies, openBreaches] = await Promise.all([
+    storage.getComplaintsCreatedSince(societyId, since),
+    storage.getSlaPolicies(societyId),
+    storage.getOpenSlaBreaches(societyId),
+  ]);
+
+  const tally = { first_response: { tracked: 0, met: 0 }, resolution: { tracked: 0, met: 0 } };
+  for (const complaint of complaints) {
+    if (complaint.parentId) continue;
+    const policy = findSlaPolicy(policies, complaint);
+    if (!policy) continue;
+    for (const kind of ['first_response', 'resolution'] as const) {
+      const met = isSlaMet(complaint, policy, kind, asOf);
+      if (met === null) continue;
+      tally[kind].tracked++;
+      if (met) tally[kind].met++;
+    }
+  }
+
+  const rate = ({ tracked, met }: { tracked: number; met: number }) =>
+    tracked === 0 ? null : Math.round((met / tracked) * 1000) / 10;
+
+  return {
+    windowDays: COMPLIANCE_WINDOW_DAYS,
+    firstResponseTracked: tally.first_response.tracked,
+    firstResponseMet: tally.first_response.met,
+    resolutionTracked: tally.resolution.tracked,
+    resolutionMet: tally.resolution.met,
+    firstResponseRate: rate(tally.first_response),
+    resolutionRate: rate(tally.resolution),
+    openBreaches: openBreaches.length,
+  };
+}
+
+async function escalateBreach(society: Society, breach: SlaBreach, complaint: Complaint, level: 1 | 2): Promise<void> {
+  const recipient = level === 1 ? await storage.getAdminBySociety(society.id) : await storage.getSuperAdmin();
+  if (recipient?.email) {
+    await sendSlaEscalation(recipient.email, {
+      level: level === 1 ? 'admin' : 'super_admin',
+      kind: breach.kind,
+      complaintId: complaint.id,
+      title: complaint.title,
+      category: complaint.category,
+      priority: complaint.priority || 'medium',
+      targetHours: breach.targetHours,
+      dueAt: breach.dueAt,
+      societyName: society.name,
+    });
+  }
+  // The level moves on even without an email so the breach is not re-sent every run;
+  // it stays visible on the dashboards either way
+  await storage.updateSlaBreachEscalation(breach.id, level);
+}
+
+// Flags newly missed targets, emails the society admin about them, and goes on to the
+// super admin once a breached complaint has stayed open for another full target period
+export async function checkSocietySlas(society: Society, asOf: Date): Promise<void> {
+  const [complaints, policies] = await Promise.all([
+    storage.getComplaintsBySociety(society.id),
+    storage.getSlaPolicies(society.id),
+  ]);
+  // Merged duplicates are measured through the complaint they joined
+  const openComplaints = complaints.filter(complaint => isComplaintOpen(complaint) && !complaint.parentId);
+
+  for (const complaint of openComplaints) {
+    const policy = findSlaPolicy(policies, complaint);
+    if (!policy) continue;
+    for (const kind of ['first_response', 'resolution'] as const) {
+      if (isSlaMet(complaint, policy, kind, asOf) !== false) continue;
+      await storage.recordSlaBreach({
+        complaintId: complaint.id,
+        societyId: society.id,
+        policyId: policy.id,
+        kind,
+        targetHours: kind === 'first_response' ? policy.firstResponseHours : policy.resolutionHours,
+        dueAt: getSlaDueAt(complaint, policy, kind),
+      });
+    }
+  }
+
+  const breaches = await storage.getSlaBreaches(society.id);
+  for (const breach of breaches) {
+    const complaint = openComplaints.find(row => row.id === breach.complaintId);
+    // Nothing left to chase once the complaint is resolved or has had its first response
+    if (!complaint || getCompletedAt(complaint, breach.kind)) continue;
+
+    if (breach.escalationLevel === 0) {
+      await escalateBreach(society, breach, complaint, 1);
+    } else if (breach.escalationLevel === 1 && asOf.getTime() >= breach.dueAt.getTime() + breach.targetHours * HOUR_MS) {
+      await escalateBreach(society, breach, complaint, 2);
+    }
+  }
+}
+
+export function startSlaEscalationJob() {
+  const run = async () => {
+    try {
+      const societies = await storage.getSocieties();
+      for (const society of societies) {
+        await checkSocietySlas(society, new Date());
+      }
+    } catch (error) {
+      console.error("Error checking complaint SLAs:", error);
+    }
+  };
+
+  run();
+  setInterval(run, SLA_CHECK_INTERVAL_MS);
+}
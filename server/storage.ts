@@ -11,6 +11,35 @@ import {
   pollOptions,
   votes,
   marketplaceItems,
+  chargeHeads,
+  billLineItems,
+  penaltyRules,
+  paymentIntents,
+  paymentWebhookEvents,
+  payments,
+  paymentAllocations,
+  receiptCounters,
+  flatAccounts,
+  vendors,
+  expenses,
+  ledgerAccounts,
+  journalEntries,
+  journalLines,
+  funds,
+  fundWithdrawals,
+  taxSettings,
+  invoiceCounters,
+  staffMembers,
+  complaintEvents,
+  complaintComments,
+  complaintAttachments,
+  slaPolicies,
+  slaBreaches,
+  complaintCategories,
+  facilityPhotos,
+  facilityBlackouts,
+  facilityBookingSeries,
+  facilityWaitlist,
   type User,
   type UpsertUser,
   type Society,
@@ -20,9 +49,68 @@ import {
   type Facility,
   type FacilityBooking,
   type InsertFacilityBooking,
+  type InsertFacility,
+  type FacilityPhoto,
+  type InsertFacilityPhoto,
+  type FacilityBlackout,
+  type InsertFacilityBlackout,
+  type FacilityBookingSeries,
+  type InsertFacilityBookingSeries,
+  type FacilityWaitlistEntry,
+  type FacilityBookingWithResident,
+  type InsertFacilityWaitlistEntry,
   type Announcement,
   type InsertAnnouncement,
   type MaintenanceBill,
+  type InsertMaintenanceBill,
+  type MaintenanceBillWithLineItems,
+  type ChargeHead,
+  type InsertChargeHead,
+  type BillLineItem,
+  type InsertBillLineItem,
+  type PenaltyRule,
+  type InsertPenaltyRule,
+  type BillPenaltyLine,
+  type PaymentIntent,
+  type InsertPaymentIntent,
+  type Payment,
+  type PaymentWithAllocations,
+  type FlatBalance,
+  type FlatAccount,
+  type OfflinePaymentMethod,
+  offlinePaymentMethods,
+  type Vendor,
+  type InsertVendor,
+  type Expense,
+  type InsertExpense,
+  type ExpenseWithVendor,
+  type LedgerAccount,
+  type JournalEntry,
+  type JournalEntryWithLines,
+  type Fund,
+  type InsertFund,
+  type FundWithdrawal,
+  type InsertFundWithdrawal,
+  type TaxSettings,
+  type InsertTaxSettings,
+  type StaffMember,
+  type InsertStaffMember,
+  type ComplaintAssigneeType,
+  type ComplaintPriority,
+  type ComplaintEventWithActor,
+  type ComplaintCommentWithAuthor,
+  type ComplaintComment,
+  type InsertComplaintComment,
+  type ComplaintAttachment,
+  type InsertComplaintAttachment,
+  type SlaPolicy,
+  type InsertSlaPolicy,
+  type SlaBreach,
+  type SlaBreachWithComplaint,
+  type ComplaintFeedback,
+  type ComplaintStatus,
+  type ComplaintCategory,
+  type InsertComplaintCategory,
   type Flat,
   type Poll,
   type PollOption,
@@ -35,7 +123,161 @@ import {
   type InsertMarketplaceItem,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, count, sql } from "drizzle-orm";
+import { postJournalEntry, createFundAccount } from "./ledger";
+import { eq, and, or, desc, count, sql, inArray, asc, isNull, like, ne, gte, gt, lt, lte } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Receipt numbers are sequential per society and issued inside the payment's transaction
+async function issueReceiptNumber(tx: Transaction, societyId: string): Promise<string> {
+  const [counter] = await tx
+    .insert(receiptCounters)
+    .values({ societyId, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: receiptCounters.societyId,
+      set: { lastNumber: sql`${receiptCounters.lastNumber} + 1` },
+    })
+    .returning();
+  return `REC-${String(counter.lastNumber).padStart(6, '0')}`;
+}
+
+// Tax invoice numbers run per society and restart each April with the Indian financial year
+async function issueInvoiceNumber(tx: Transaction, societyId: string, prefix: string, issuedAt: Date): Promise<string> {
+  const startYear = issuedAt.getMonth() >= 3 ? issuedAt.getFullYear() : issuedAt.getFullYear() - 1;
+  const financialYear = `${String(startYear % 100).padStart(2, '0')}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  const [counter] = await tx
+    .insert(invoiceCounters)
+    .values({ societyId, financialYear, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: [invoiceCounters.societyId, invoiceCounters.financialYear],
+      set: { lastNumber: sql`${invoiceCounters.lastNumber} + 1` },
+    })
+    .returning();
+  return `${prefix}/${financialYear}/${String(counter.lastNumber).padStart(5, '0')}`;
+}
+
+// Every change to a complaint is written alongside it so the timeline cannot drift from the record
+async function recordComplaintEvent(tx: Transaction, event: typeof complaintEvents.$inferInsert): Promise<void> {
+  await tx.insert(complaintEvents).values(event);
+}
+
+// The first-response SLA clock stops at the first action or reply by anyone but the resident
+async function markFirstResponse(tx: Transaction, complaintId: string, actorId: string | null): Promise<void> {
+  if (!actorId) return;
+  await tx
+    .update(complaints)
+    .set({ firstRespondedAt: new Date() })
+    .where(and(eq(complaints.id, complaintId), isNull(complaints.firstRespondedAt), ne(complaints.residentId, actorId)));
+}
+
+// Duplicates merged into a complaint take on its status, so every reporter sees the same progress
+async function syncMergedComplaints(tx: Transaction, parent: Complaint, actorId: string | null): Promise<void> {
+  const status = parent.status || 'open';
+  const outOfStep = await tx
+    .select()
+    .from(complaints)
+    .where(and(eq(complaints.parentId, parent.id), ne(complaints.status, status)))
+    .for('update');
+  for (const child of outOfStep) {
+    await tx
+      .update(complaints)
+      .set({
+        status,
+        resolvedAt: parent.resolvedAt,
+        resolutionNotes: parent.resolutionNotes,
+        closedAt: parent.closedAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(complaints.id, child.id));
+    await recordComplaintEvent(tx, {
+      complaintId: child.id,
+      actorId,
+      type: 'status_changed',
+      fromValue: child.status,
+      toValue: status,
+      note: 'Updated with the complaint this was merged into',
+    });
+  }
+}
+
+// Settles open bills oldest first; whatever is left over becomes advance credit on the flat.
+// Given billIds, those bills are settled first, as when a resident paid for particular bills,
+// and any remainder still goes to the flat's other open bills before becoming credit
+async function allocatePayment(
+  tx: Transaction,
+  params: { societyId: string; residentId: string; flatId: string | null; amount: number; paidAt: Date; billIds?: string[] },
+): Promise<{ allocations: { billId: string; billingMonth: string; amount: number }[]; credit: number }> {
+  const openBills = await tx
+    .select()
+    .from(maintenanceBills)
+    .where(and(
+      params.flatId ? eq(maintenanceBills.flatId, params.flatId) : eq(maintenanceBills.residentId, params.residentId),
+      eq(maintenanceBills.isPaid, false),
+    ))
+    .orderBy(asc(maintenanceBills.dueDate), asc(maintenanceBills.createdAt))
+    .for('update');
+  const targeted = openBills.filter(bill => params.billIds?.includes(bill.id));
+
+  let remaining = params.amount;
+  const allocations: { billId: string; billingMonth: string; amount: number }[] = [];
+  for (const bill of [...targeted, ...openBills.filter(bill => !targeted.includes(bill))]) {
+    if (remaining <= 0) break;
+
+    const applied = Math.min(remaining, bill.amount - bill.amountPaid);
+    if (applied <= 0) continue;
+
+    const amountPaid = bill.amountPaid + applied;
+    const isPaid = amountPaid >= bill.amount;
+    await tx
+      .update(maintenanceBills)
+      .set({ amountPaid, isPaid, paidAt: isPaid ? params.paidAt : null })
+      .where(eq(maintenanceBills.id, bill.id));
+
+    allocations.push({ billId: bill.id, billingMonth: bill.billingMonth, amount: applied });
+    remaining -= applied;
+  }
+
+  if (remaining > 0) {
+    if (!params.flatId) {
+      throw new Error('Advance payments require the resident to be assigned to a flat');
+    }
+    await tx
+      .insert(flatAccounts)
+      .values({ flatId: params.flatId, societyId: params.societyId, creditBalance: remaining })
+      .onConflictDoUpdate({
+        target: flatAccounts.flatId,
+        set: { creditBalance: sql`${flatAccounts.creditBalance} + ${remaining}`, updatedAt: new Date() },
+      });
+  }
+
+  return { allocations, credit: remaining };
+}
+
+async function postPaymentReceived(tx: Transaction, payment: Payment): Promise<void> {
+  await postJournalEntry(tx, {
+    societyId: payment.societyId,
+    entryDate: payment.paidAt || new Date(),
+    description: `Payment received, receipt ${payment.receiptNumber}`,
+    sourceType: 'payment',
+    sourceId: payment.id,
+    lines: [
+      { account: payment.method === 'cash' ? 'cash' : 'bank', debit: payment.amount },
+      { account: 'receivables', credit: payment.amount - payment.creditAmount },
+      { account: 'advance_credit', credit: payment.creditAmount },
+    ],
+  });
+}
+
+function describeAllocation(allocations: { billingMonth: string }[], credit: number): string {
+  const parts = [];
+  if (allocations.length > 0) {
+    parts.push(`Maintenance dues for ${allocations.map(allocation => allocation.billingMonth).join(", ")}`);
+  }
+  if (credit > 0) {
+    parts.push(`Advance credit of ₹${credit}`);
+  }
+  return parts.join(" + ");
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -70,28 +312,210 @@ export interface IStorage {
   assignResidentToFlat(residentId: string, flatNumber: string, societyId: string): Promise<void>;
   
   // Complaints operations
-  createComplaint(complaint: InsertComplaint): Promise<Complaint>;
+  createComplaint(complaint: InsertComplaint, assignee?: { type: ComplaintAssigneeType; id: string } | null): Promise<Complaint>;
   getComplaintsBySociety(societyId: string): Promise<Complaint[]>;
   getComplaintsByResident(residentId: string): Promise<Complaint[]>;
-  updateComplaintStatus(id: string, status: string, resolutionNotes?: string): Promise<Complaint>;
+  updateComplaintStatus(id: string, transition: { from: ComplaintStatus; to: ComplaintStatus }, actorId: string | null, note?: string): Promise<Complaint | undefined>;
+  getComplaint(id: string): Promise<Complaint | undefined>;
+  getComplaintsByAssignee(assigneeType: ComplaintAssigneeType, assigneeId: string): Promise<Complaint[]>;
+  assignComplaint(id: string, assignee: { type: ComplaintAssigneeType; id: string } | null, actorId: string): Promise<Complaint>;
+  updateComplaintPriority(id: string, priority: ComplaintPriority, actorId: string): Promise<Complaint>;
+  confirmComplaintResolution(id: string, residentId: string, feedback: ComplaintFeedback): Promise<Complaint | undefined>;
+  reopenComplaint(id: string, residentId: string, reason: string): Promise<Complaint | undefined>;
+  rateComplaint(id: string, residentId: string, feedback: ComplaintFeedback): Promise<Complaint | undefined>;
+  getResolvedComplaintsBefore(societyId: string, resolvedBefore: Date): Promise<Complaint[]>;
+  getMergedComplaints(parentId: string): Promise<Complaint[]>;
+  mergeComplaint(id: string, parentId: string, actorId: string): Promise<Complaint | undefined>;
+
+  // Complaint activity operations
+  getComplaintEvents(complaintId: string): Promise<Omit<ComplaintEventWithActor, 'fromLabel' | 'toLabel'>[]>;
+  getComplaintComments(complaintId: string): Promise<ComplaintCommentWithAuthor[]>;
+  createComplaintComment(comment: InsertComplaintComment & { complaintId: string; authorId: string }): Promise<ComplaintComment>;
+  getComplaintComment(id: string): Promise<ComplaintComment | undefined>;
+  getComplaintAttachments(complaintId: string): Promise<ComplaintAttachment[]>;
+  getComplaintAttachment(id: string): Promise<ComplaintAttachment | undefined>;
+  createComplaintAttachment(attachment: InsertComplaintAttachment): Promise<ComplaintAttachment>;
+
+  // Complaint category operations
+  getComplaintCategories(societyId: string): Promise<ComplaintCategory[]>;
+  getComplaintCategory(id: string): Promise<ComplaintCategory | undefined>;
+  getComplaintCategoryByName(societyId: string, name: string): Promise<ComplaintCategory | undefined>;
+  createComplaintCategory(category: InsertComplaintCategory & { societyId: string }): Promise<ComplaintCategory>;
+  updateComplaintCategory(id: string, updates: Partial<InsertComplaintCategory>): Promise<ComplaintCategory>;
+  seedComplaintCategories(societyId: string, names: string[]): Promise<void>;
+
+  // Complaint SLA operations
+  getSlaPolicies(societyId: string): Promise<SlaPolicy[]>;
+  getSlaPolicy(id: string): Promise<SlaPolicy | undefined>;
+  createSlaPolicy(policy: InsertSlaPolicy & { societyId: string }): Promise<SlaPolicy>;
+  updateSlaPolicy(id: string, updates: Partial<InsertSlaPolicy>): Promise<SlaPolicy>;
+  getComplaintsCreatedSince(societyId: string, since: Date): Promise<Complaint[]>;
+  getSlaBreaches(societyId: string): Promise<SlaBreach[]>;
+  getOpenSlaBreaches(societyId: string): Promise<SlaBreachWithComplaint[]>;
+  recordSlaBreach(breach: typeof slaBreaches.$inferInsert): Promise<SlaBreach | undefined>;
+  updateSlaBreachEscalation(id: string, escalationLevel: number): Promise<SlaBreach>;
   
   // Facility operations
   getFacilitiesBySociety(societyId: string): Promise<Facility[]>;
+  getFacility(id: string): Promise<Facility | undefined>;
+  createFacility(facility: InsertFacility & { societyId: string }): Promise<Facility>;
+  updateFacility(id: string, updates: Partial<InsertFacility>): Promise<Facility>;
+  deleteFacility(id: string): Promise<void>;
+  countFacilityBookings(facilityId: string): Promise<number>;
+  getFacilityPhotosBySociety(societyId: string): Promise<FacilityPhoto[]>;
+  getFacilityPhotos(facilityId: string): Promise<FacilityPhoto[]>;
+  getFacilityPhoto(id: string): Promise<FacilityPhoto | undefined>;
+  createFacilityPhoto(photo: InsertFacilityPhoto): Promise<FacilityPhoto>;
+  deleteFacilityPhoto(id: string): Promise<void>;
+  getFacilityBlackouts(facilityId: string): Promise<FacilityBlackout[]>;
+  getFacilityBlackout(id: string): Promise<FacilityBlackout | undefined>;
+  createFacilityBlackout(blackout: InsertFacilityBlackout & { facilityId: string; societyId: string; createdBy: string }): Promise<FacilityBlackout>;
+  deleteFacilityBlackout(id: string): Promise<void>;
+  getActiveFacilityBookings(facilityId: string, from: Date, to: Date): Promise<FacilityBooking[]>;
   createFacilityBooking(booking: InsertFacilityBooking): Promise<FacilityBooking>;
-  getFacilityBookings(societyId: string): Promise<FacilityBooking[]>;
-  getResidentBookings(residentId: string): Promise<FacilityBooking[]>;
+  createFacilityBookingWithinCapacity(booking: InsertFacilityBooking, asOf: Date, charge?: { bill: InsertMaintenanceBill; lineItems: Omit<InsertBillLineItem, 'billId'>[] }, waitlistEntryId?: string): Promise<FacilityBooking | undefined>;
+  getBookingBill(bookingId: string): Promise<MaintenanceBillWithLineItems | undefined>;
+  getFacilityBooking(id: string): Promise<FacilityBooking | undefined>;
+  cancelFacilityBooking(id: string, cancellation: { status: 'cancelled' | 'rejected'; refundPercent: number; cancelledBy: string; reason: string | null }): Promise<FacilityBooking | undefined>;
+  getFacilityBookings(societyId: string, range?: { from: Date; to: Date }): Promise<FacilityBookingWithResident[]>;
+  getResidentBookings(residentId: string, range?: { from: Date; to: Date }): Promise<FacilityBooking[]>;
   updateBookingStatus(id: string, status: string): Promise<FacilityBooking>;
+  createBookingSeries(series: InsertFacilityBookingSeries): Promise<FacilityBookingSeries>;
+  getBookingSeries(id: string): Promise<FacilityBookingSeries | undefined>;
+  getResidentBookingSeries(residentId: string): Promise<FacilityBookingSeries[]>;
+  getSeriesBookings(seriesId: string): Promise<FacilityBooking[]>;
+  cancelBookingSeries(id: string): Promise<FacilityBookingSeries | undefined>;
+  createWaitlistEntry(entry: InsertFacilityWaitlistEntry): Promise<FacilityWaitlistEntry>;
+  getWaitlistEntry(id: string): Promise<FacilityWaitlistEntry | undefined>;
+  getResidentWaitlist(residentId: string): Promise<FacilityWaitlistEntry[]>;
+  getOpenWaitlistEntries(facilityId: string, date: string): Promise<FacilityWaitlistEntry[]>;
+  getHeldWaitlistOffers(facilityId: string, from: string, to: string, asOf: Date): Promise<FacilityWaitlistEntry[]>;
+  updateWaitlistEntry(id: string, updates: Partial<InsertFacilityWaitlistEntry>): Promise<FacilityWaitlistEntry>;
+  expireWaitlistEntries(asOf: Date, today: string): Promise<FacilityWaitlistEntry[]>;
   
   // Announcements operations
   createAnnouncement(announcement: InsertAnnouncement): Promise<Announcement>;
   getAnnouncementsBySociety(societyId: string): Promise<Announcement[]>;
   
+  // Billing operations
+  getChargeHeads(societyId: string): Promise<ChargeHead[]>;
+  getChargeHead(id: string): Promise<ChargeHead | undefined>;
+  createChargeHead(head: InsertChargeHead): Promise<ChargeHead>;
+  updateChargeHead(id: string, updates: Partial<InsertChargeHead>): Promise<ChargeHead>;
+  deleteChargeHead(id: string): Promise<void>;
+  getOccupiedFlatsBySociety(societyId: string): Promise<Flat[]>;
+  getBilledFlatIds(societyId: string, billingMonth: string): Promise<string[]>;
+  createMaintenanceBill(bill: InsertMaintenanceBill, lineItems: Omit<InsertBillLineItem, 'billId'>[]): Promise<MaintenanceBill | undefined>;
+  getMaintenanceBill(id: string): Promise<MaintenanceBillWithLineItems | undefined>;
+  getMaintenanceBillsByResident(residentId: string): Promise<MaintenanceBillWithLineItems[]>;
+  getMaintenanceBillsBySociety(societyId: string, billingMonth?: string): Promise<MaintenanceBillWithLineItems[]>;
+  getUnpaidBillsBySociety(societyId: string): Promise<MaintenanceBillWithLineItems[]>;
+  
+  // Penalty operations
+  getPenaltyRules(societyId: string): Promise<PenaltyRule[]>;
+  getPenaltyRule(id: string): Promise<PenaltyRule | undefined>;
+  createPenaltyRule(rule: InsertPenaltyRule): Promise<PenaltyRule>;
+  updatePenaltyRule(id: string, updates: Partial<InsertPenaltyRule>): Promise<PenaltyRule>;
+  deletePenaltyRule(id: string): Promise<void>;
+  replaceBillPenalties(billId: string, penalties: BillPenaltyLine[], amount: number): Promise<void>;
+  getBillPayments(billIds: string[]): Promise<{ billId: string; amount: number; paidAt: Date }[]>;
+  
+  // Payment gateway operations
+  getMaintenanceBillsByIds(ids: string[]): Promise<MaintenanceBill[]>;
+  getOpenBillsForResident(residentId: string): Promise<MaintenanceBill[]>;
+  getFlatByResident(residentId: string): Promise<Flat | undefined>;
+  getResidentBalance(residentId: string): Promise<FlatBalance>;
+  getFlatBalances(societyId: string): Promise<FlatBalance[]>;
+  createPaymentIntent(intent: InsertPaymentIntent): Promise<PaymentIntent>;
+  getPaymentIntent(id: string): Promise<PaymentIntent | undefined>;
+  applyPaymentEvent(provider: string, event: { eventId: string; type: string; providerReference: string; failureReason?: string }): Promise<{ intent: PaymentIntent | undefined; duplicate: boolean }>;
+  
+  // Payment ledger operations
+  getPayment(id: string): Promise<PaymentWithAllocations | undefined>;
+  getPaymentsByResident(residentId: string): Promise<PaymentWithAllocations[]>;
+  getPaymentsBySociety(societyId: string): Promise<PaymentWithAllocations[]>;
+  
+  // Offline payment operations
+  recordOfflinePayment(payment: {
+    societyId: string;
+    residentId: string;
+    amount: number;
+    method: OfflinePaymentMethod;
+    instrumentNumber?: string;
+    bankName?: string;
+    instrumentDate?: Date;
+    paidAt: Date;
+    recordedBy: string;
+  }): Promise<PaymentWithAllocations>;
+  bouncePayment(id: string, bounce: { reason: string; bounceCharge: number }): Promise<PaymentWithAllocations | undefined>;
+  getUnreconciledPayments(societyId: string): Promise<PaymentWithAllocations[]>;
+  markPaymentsReconciled(societyId: string, matches: { paymentId: string; statementReference: string }[]): Promise<number>;
+  
+  // Expense operations
+  getVendors(societyId: string): Promise<Vendor[]>;
+  getVendor(id: string): Promise<Vendor | undefined>;
+  createVendor(vendor: InsertVendor & { societyId: string }): Promise<Vendor>;
+  updateVendor(id: string, updates: Partial<InsertVendor>): Promise<Vendor>;
+  getExpensesBySociety(societyId: string): Promise<ExpenseWithVendor[]>;
+  getExpense(id: string): Promise<Expense | undefined>;
+  createExpense(expense: InsertExpense & { societyId: string; submittedBy: string }): Promise<Expense>;
+  updateExpense(id: string, updates: Partial<Omit<Expense, 'id' | 'societyId' | 'createdAt'>>): Promise<Expense>;
+  deleteExpense(id: string): Promise<void>;
+  approveExpense(id: string, approvedBy: string): Promise<Expense>;
+  payExpense(id: string, payment: { paymentDate: Date; paymentReference: string | null }): Promise<Expense>;
+  
+  // Financial report operations
+  getCollectionsByMonth(societyId: string, from: Date, to: Date): Promise<{ month: string; amount: number }[]>;
+  getPaidExpensesByMonth(societyId: string, from: Date, to: Date): Promise<{ month: string; amount: number }[]>;
+  getPaidExpensesByCategory(societyId: string, from: Date, to: Date): Promise<{ category: Expense["category"]; amount: number }[]>;
+  getBilledAmount(societyId: string, fromMonth: string, toMonth: string): Promise<number>;
+  
+  // Accounting ledger operations
+  getLedgerAccounts(societyId: string): Promise<LedgerAccount[]>;
+  getAccountTotals(societyId: string, from: Date | null, to: Date): Promise<{ accountId: string; debit: number; credit: number }[]>;
+  getJournalEntries(societyId: string, from: Date | null, to: Date): Promise<JournalEntryWithLines[]>;
+
+  // Society fund operations
+  getFunds(societyId: string): Promise<Fund[]>;
+  getFund(id: string): Promise<Fund | undefined>;
+  createFund(fund: InsertFund & { societyId: string }): Promise<Fund>;
+  updateFund(id: string, updates: Partial<InsertFund>): Promise<Fund>;
+  getFundBalances(societyId: string): Promise<{ fundId: string; balance: number }[]>;
+  getFundLedgerLines(fundId: string, to: Date): Promise<{ entryId: string; entryDate: Date; description: string; sourceType: JournalEntry["sourceType"]; debit: number; credit: number }[]>;
+  getFundWithdrawalsBySociety(societyId: string): Promise<(FundWithdrawal & { fundName: string; vendorName: string | null; poll: Poll })[]>;
+  getFundWithdrawal(id: string): Promise<FundWithdrawal | undefined>;
+  getFundWithdrawalByPoll(pollId: string): Promise<FundWithdrawal | undefined>;
+  createFundWithdrawal(
+    withdrawal: InsertFundWithdrawal & { fundId: string; societyId: string; requestedBy: string },
+    poll: Omit<InsertPoll, 'societyId' | 'createdById'>,
+    options: string[],
+  ): Promise<{ withdrawal: FundWithdrawal; poll: Poll }>;
+  closeFundWithdrawal(id: string, status: 'rejected' | 'cancelled'): Promise<FundWithdrawal>;
+  disburseFundWithdrawal(id: string, payment: { disbursedAt: Date; paymentReference: string | null }): Promise<FundWithdrawal | undefined>;
+
+  // GST operations
+  getTaxSettings(societyId: string): Promise<TaxSettings | undefined>;
+  upsertTaxSettings(societyId: string, settings: InsertTaxSettings): Promise<TaxSettings>;
+
+  // Complaint assignee operations
+  getStaffMembers(societyId: string): Promise<StaffMember[]>;
+  getStaffMember(id: string): Promise<StaffMember | undefined>;
+  getStaffMemberByUser(userId: string): Promise<StaffMember | undefined>;
+  createStaffMember(staffMember: InsertStaffMember & { societyId: string }): Promise<StaffMember>;
+  updateStaffMember(id: string, updates: Partial<InsertStaffMember>): Promise<StaffMember>;
+  getVendorByUser(userId: string): Promise<Vendor | undefined>;
+  createAssigneeLogin(
+    assignee: { type: ComplaintAssigneeType; id: string },
+    login: { email: string; password: string; firstName: string; societyId: string },
+  ): Promise<User>;
+  
   // Dashboard stats
   getSocietyStats(societyId: string): Promise<{
     totalResidents: number;
     openComplaints: number;
     facilityBookings: number;
     pendingDues: number;
+    pendingPenalties: number;
   }>;
   
   getGlobalStats(): Promise<{
@@ -418,9 +842,35 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Complaints operations
-  async createComplaint(complaint: InsertComplaint): Promise<Complaint> {
-    const [newComplaint] = await db.insert(complaints).values(complaint).returning();
-    return newComplaint;
+  // An assignee given here comes from the category's routing rule and is recorded as an automatic assignment
+  async createComplaint(complaint: InsertComplaint, assignee?: { type: ComplaintAssigneeType; id: string } | null): Promise<Complaint> {
+    return await db.transaction(async (tx) => {
+      const [newComplaint] = await tx
+        .insert(complaints)
+        .values({
+          ...complaint,
+          assignedTo: assignee?.id ?? null,
+          assigneeType: assignee?.type ?? null,
+          assignedAt: assignee ? new Date() : null,
+        })
+        .returning();
+      await recordComplaintEvent(tx, {
+        complaintId: newComplaint.id,
+        actorId: complaint.residentId,
+        type: 'created',
+        toValue: newComplaint.status,
+      });
+      if (assignee) {
+        await recordComplaintEvent(tx, {
+          complaintId: newComplaint.id,
+          actorId: null,
+          type: 'assigned',
+          toValue: `${assignee.type}:${assignee.id}`,
+          note: `Routed by the ${complaint.category} category`,
+        });
+      }
+      return newComplaint;
+    });
   }
 
   async getComplaintsBySociety(societyId: string): Promise<Complaint[]> {
@@ -439,19 +889,446 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(complaints.createdAt));
   }
 
-  async updateComplaintStatus(id: string, status: string, resolutionNotes?: string): Promise<Complaint> {
+  // Applies a transition the caller has already validated. Returns undefined when the complaint
+  // has moved on from the expected status in the meantime. A null actor marks an automatic change.
+  async updateComplaintStatus(id: string, transition: { from: ComplaintStatus; to: ComplaintStatus }, actorId: string | null, note?: string): Promise<Complaint | undefined> {
+    const status = transition.to;
     const updates: any = { status, updatedAt: new Date() };
-    if (status === 'resolved' || status === 'closed') {
+    if (status === 'resolved') {
       updates.resolvedAt = new Date();
-      if (resolutionNotes) {
-        updates.resolutionNotes = resolutionNotes;
+      if (note) {
+        updates.resolutionNotes = note;
       }
     }
+    if (status === 'closed') {
+      updates.closedAt = new Date();
+    }
+
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(complaints).where(eq(complaints.id, id)).for('update');
+      if (!current || (current.status || 'open') !== transition.from) return undefined;
+      await markFirstResponse(tx, id, actorId);
+      const [updated] = await tx
+        .update(complaints)
+        .set(updates)
+        .where(eq(complaints.id, id))
+        .returning();
+      await recordComplaintEvent(tx, {
+        complaintId: id,
+        actorId,
+        type: 'status_changed',
+        fromValue: current.status,
+        toValue: updated.status,
+        note: note || null,
+      });
+      await syncMergedComplaints(tx, updated, actorId);
+      return updated;
+    });
+  }
+
+  async confirmComplaintResolution(id: string, residentId: string, feedback: ComplaintFeedback): Promise<Complaint | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(complaints).where(eq(complaints.id, id)).for('update');
+      if (!current || current.status !== 'resolved') return undefined;
+      const [updated] = await tx
+        .update(complaints)
+        .set({
+          status: 'closed',
+          closedAt: new Date(),
+          rating: feedback.rating,
+          feedback: feedback.feedback || null,
+          ratedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(complaints.id, id))
+        .returning();
+      await recordComplaintEvent(tx, {
+        complaintId: id,
+        actorId: residentId,
+        type: 'status_changed',
+        fromValue: current.status,
+        toValue: 'closed',
+        note: 'Resident confirmed the fix',
+      });
+      await recordComplaintEvent(tx, {
+        complaintId: id,
+        actorId: residentId,
+        type: 'rated',
+        toValue: String(feedback.rating),
+        note: feedback.feedback || null,
+      });
+      await syncMergedComplaints(tx, updated, residentId);
+      return updated;
+    });
+  }
+
+  // Back to open with the same assignee, who now owes the resident another fix
+  async reopenComplaint(id: string, residentId: string, reason: string): Promise<Complaint | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(complaints).where(eq(complaints.id, id)).for('update');
+      if (!current || current.status !== 'resolved') return undefined;
+      const [updated] = await tx
+        .update(complaints)
+        .set({
+          status: 'open',
+          resolvedAt: null,
+          reopenCount: current.reopenCount + 1,
+          updatedAt: new Date(),
+        })
+        .where(eq(complaints.id, id))
+        .returning();
+      await recordComplaintEvent(tx, {
+        complaintId: id,
+        actorId: residentId,
+        type: 'reopened',
+        fromValue: current.status,
+        toValue: 'open',
+        note: reason,
+      });
+      await syncMergedComplaints(tx, updated, residentId);
+      return updated;
+    });
+  }
+
+  async rateComplaint(id: string, residentId: string, feedback: ComplaintFeedback): Promise<Complaint | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(complaints)
+        .set({
+          rating: feedback.rating,
+          feedback: feedback.feedback || null,
+          ratedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(complaints.id, id), eq(complaints.status, 'closed'), isNull(complaints.rating)))
+        .returning();
+      if (!updated) return undefined;
+      await recordComplaintEvent(tx, {
+        complaintId: id,
+        actorId: residentId,
+        type: 'rated',
+        toValue: String(feedback.rating),
+        note: feedback.feedback || null,
+      });
+      return updated;
+    });
+  }
+
+  // Merged duplicates are left out; they close along with the complaint they were merged into
+  async getResolvedComplaintsBefore(societyId: string, resolvedBefore: Date): Promise<Complaint[]> {
+    return await db
+      .select()
+      .from(complaints)
+      .where(and(
+        eq(complaints.societyId, societyId),
+        eq(complaints.status, 'resolved'),
+        lt(complaints.resolvedAt, resolvedBefore),
+        isNull(complaints.parentId),
+      ));
+  }
+
+  async getMergedComplaints(parentId: string): Promise<Complaint[]> {
+    return await db
+      .select()
+      .from(complaints)
+      .where(eq(complaints.parentId, parentId))
+      .orderBy(asc(complaints.createdAt));
+  }
 
+  // Folds a duplicate (and anything already merged into it) into the parent. The duplicate hands
+  // its work back to the parent's assignee and follows the parent's status from then on.
+  // Returns undefined when either complaint has changed since the caller checked them.
+  async mergeComplaint(id: string, parentId: string, actorId: string): Promise<Complaint | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(complaints).where(eq(complaints.id, id)).for('update');
+      const [parent] = await tx.select().from(complaints).where(eq(complaints.id, parentId)).for('update');
+      if (!current || !parent || current.parentId || parent.parentId) return undefined;
+      if (current.status === 'resolved' || current.status === 'closed' || parent.status === 'closed') return undefined;
+
+      await markFirstResponse(tx, id, actorId);
+      await tx
+        .update(complaints)
+        .set({ parentId, updatedAt: new Date() })
+        .where(eq(complaints.parentId, id));
+      await tx
+        .update(complaints)
+        .set({
+          parentId,
+          mergedAt: new Date(),
+          assignedTo: null,
+          assigneeType: null,
+          assignedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(complaints.id, id));
+      if (current.assigneeType && current.assignedTo) {
+        await recordComplaintEvent(tx, {
+          complaintId: id,
+          actorId,
+          type: 'assigned',
+          fromValue: `${current.assigneeType}:${current.assignedTo}`,
+          toValue: null,
+          note: 'Handled through the complaint this was merged into',
+        });
+      }
+      await recordComplaintEvent(tx, {
+        complaintId: id,
+        actorId,
+        type: 'merged',
+        toValue: parentId,
+        note: `Merged into "${parent.title}"`,
+      });
+      await recordComplaintEvent(tx, {
+        complaintId: parentId,
+        actorId,
+        type: 'merged',
+        fromValue: id,
+        note: `"${current.title}" merged in as a duplicate`,
+      });
+      await syncMergedComplaints(tx, parent, actorId);
+      const [merged] = await tx.select().from(complaints).where(eq(complaints.id, id));
+      return merged;
+    });
+  }
+
+  async getComplaint(id: string): Promise<Complaint | undefined> {
+    const [complaint] = await db.select().from(complaints).where(eq(complaints.id, id));
+    return complaint;
+  }
+
+  async getComplaintsByAssignee(assigneeType: ComplaintAssigneeType, assigneeId: string): Promise<Complaint[]> {
+    return await db
+      .select()
+      .from(complaints)
+      .where(and(eq(complaints.assigneeType, assigneeType), eq(complaints.assignedTo, assigneeId)))
+      .orderBy(asc(complaints.createdAt));
+  }
+
+  // Passing null returns the complaint to the unassigned pool
+  async assignComplaint(id: string, assignee: { type: ComplaintAssigneeType; id: string } | null, actorId: string): Promise<Complaint> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(complaints).where(eq(complaints.id, id)).for('update');
+      await markFirstResponse(tx, id, actorId);
+      const [updated] = await tx
+        .update(complaints)
+        .set({
+          assignedTo: assignee?.id ?? null,
+          assigneeType: assignee?.type ?? null,
+          assignedAt: assignee ? new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(complaints.id, id))
+        .returning();
+      await recordComplaintEvent(tx, {
+        complaintId: id,
+        actorId,
+        type: 'assigned',
+        fromValue: current.assigneeType && current.assignedTo ? `${current.assigneeType}:${current.assignedTo}` : null,
+        toValue: assignee ? `${assignee.type}:${assignee.id}` : null,
+      });
+      return updated;
+    });
+  }
+
+  async updateComplaintPriority(id: string, priority: ComplaintPriority, actorId: string): Promise<Complaint> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(complaints).where(eq(complaints.id, id)).for('update');
+      await markFirstResponse(tx, id, actorId);
+      const [updated] = await tx
+        .update(complaints)
+        .set({ priority, updatedAt: new Date() })
+        .where(eq(complaints.id, id))
+        .returning();
+      await recordComplaintEvent(tx, {
+        complaintId: id,
+        actorId,
+        type: 'priority_changed',
+        fromValue: current.priority,
+        toValue: priority,
+      });
+      return updated;
+    });
+  }
+
+  // Complaint activity operations
+  async getComplaintEvents(complaintId: string): Promise<Omit<ComplaintEventWithActor, 'fromLabel' | 'toLabel'>[]> {
+    const rows = await db
+      .select({ event: complaintEvents, firstName: users.firstName, lastName: users.lastName, role: users.role })
+      .from(complaintEvents)
+      .leftJoin(users, eq(complaintEvents.actorId, users.id))
+      .where(eq(complaintEvents.complaintId, complaintId))
+      .orderBy(asc(complaintEvents.createdAt));
+    return rows.map(row => ({
+      ...row.event,
+      actorName: row.event.actorId ? `${row.firstName || ''} ${row.lastName || ''}`.trim() : 'System',
+      actorRole: row.role,
+    }));
+  }
+
+  async getComplaintComments(complaintId: string): Promise<ComplaintCommentWithAuthor[]> {
+    const rows = await db
+      .select({ comment: complaintComments, firstName: users.firstName, lastName: users.lastName, role: users.role })
+      .from(complaintComments)
+      .innerJoin(users, eq(complaintComments.authorId, users.id))
+      .where(eq(complaintComments.complaintId, complaintId))
+      .orderBy(asc(complaintComments.createdAt));
+    return rows.map(row => ({
+      ...row.comment,
+      authorName: `${row.firstName || ''} ${row.lastName || ''}`.trim(),
+      authorRole: row.role,
+    }));
+  }
+
+  async createComplaintComment(comment: InsertComplaintComment & { complaintId: string; authorId: string }): Promise<ComplaintComment> {
+    return await db.transaction(async (tx) => {
+      const [newComment] = await tx.insert(complaintComments).values(comment).returning();
+      await markFirstResponse(tx, comment.complaintId, comment.authorId);
+      return newComment;
+    });
+  }
+
+  async getComplaintComment(id: string): Promise<ComplaintComment | undefined> {
+    const [comment] = await db.select().from(complaintComments).where(eq(complaintComments.id, id));
+    return comment;
+  }
+
+  async getComplaintAttachments(complaintId: string): Promise<ComplaintAttachment[]> {
+    return await db
+      .select()
+      .from(complaintAttachments)
+      .where(eq(complaintAttachments.complaintId, complaintId))
+      .orderBy(asc(complaintAttachments.createdAt));
+  }
+
+  async getComplaintAttachment(id: string): Promise<ComplaintAttachment | undefined> {
+    const [attachment] = await db.select().from(complaintAttachments).where(eq(complaintAttachments.id, id));
+    return attachment;
+  }
+
+  async createComplaintAttachment(attachment: InsertComplaintAttachment): Promise<ComplaintAttachment> {
+    const [newAttachment] = await db.insert(complaintAttachments).values(attachment).returning();
+    return newAttachment;
+  }
+
+  // Complaint category operations
+  async getComplaintCategories(societyId: string): Promise<ComplaintCategory[]> {
+    return await db
+      .select()
+      .from(complaintCategories)
+      .where(eq(complaintCategories.societyId, societyId))
+      .orderBy(asc(complaintCategories.name));
+  }
+
+  async getComplaintCategory(id: string): Promise<ComplaintCategory | undefined> {
+    const [category] = await db.select().from(complaintCategories).where(eq(complaintCategories.id, id));
+    return category;
+  }
+
+  async getComplaintCategoryByName(societyId: string, name: string): Promise<ComplaintCategory | undefined> {
+    const [category] = await db
+      .select()
+      .from(complaintCategories)
+      .where(and(eq(complaintCategories.societyId, societyId), eq(complaintCategories.name, name)));
+    return category;
+  }
+
+  async createComplaintCategory(category: InsertComplaintCategory & { societyId: string }): Promise<ComplaintCategory> {
+    const [newCategory] = await db.insert(complaintCategories).values(category).returning();
+    return newCategory;
+  }
+
+  async updateComplaintCategory(id: string, updates: Partial<InsertComplaintCategory>): Promise<ComplaintCategory> {
     const [updated] = await db
-      .update(complaints)
-      .set(updates)
-      .where(eq(complaints.id, id))
+      .update(complaintCategories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(complaintCategories.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Safe to call concurrently; names that already exist are left alone
+  async seedComplaintCategories(societyId: string, names: string[]): Promise<void> {
+    await db
+      .insert(complaintCategories)
+      .values(names.map(name => ({ societyId, name })))
+      .onConflictDoNothing({ target: [complaintCategories.societyId, complaintCategories.name] });
+  }
+
+  // Complaint SLA operations
+  async getSlaPolicies(societyId: string): Promise<SlaPolicy[]> {
+    return await db
+      .select()
+      .from(slaPolicies)
+      .where(eq(slaPolicies.societyId, societyId))
+      .orderBy(asc(slaPolicies.createdAt));
+  }
+
+  async getSlaPolicy(id: string): Promise<SlaPolicy | undefined> {
+    const [policy] = await db.select().from(slaPolicies).where(eq(slaPolicies.id, id));
+    return policy;
+  }
+
+  async createSlaPolicy(policy: InsertSlaPolicy & { societyId: string }): Promise<SlaPolicy> {
+    const [newPolicy] = await db.insert(slaPolicies).values(policy).returning();
+    return newPolicy;
+  }
+
+  async updateSlaPolicy(id: string, updates: Partial<InsertSlaPolicy>): Promise<SlaPolicy> {
+    const [updated] = await db
+      .update(slaPolicies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(slaPolicies.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getComplaintsCreatedSince(societyId: string, since: Date): Promise<Complaint[]> {
+    return await db
+      .select()
+      .from(complaints)
+      .where(and(eq(complaints.societyId, societyId), gte(complaints.createdAt, since)))
+      .orderBy(desc(complaints.createdAt));
+  }
+
+  async getSlaBreaches(societyId: string): Promise<SlaBreach[]> {
+    return await db
+      .select()
+      .from(slaBreaches)
+      .where(eq(slaBreaches.societyId, societyId))
+      .orderBy(desc(slaBreaches.breachedAt));
+  }
+
+  // Breaches on complaints that are still waiting on the society
+  // A merged duplicate's breach stops counting; the complaint it joined carries the work
+  async getOpenSlaBreaches(societyId: string): Promise<SlaBreachWithComplaint[]> {
+    const rows = await db
+      .select({ breach: slaBreaches, title: complaints.title, status: complaints.status })
+      .from(slaBreaches)
+      .innerJoin(complaints, eq(slaBreaches.complaintId, complaints.id))
+      .where(and(eq(slaBreaches.societyId, societyId), inArray(complaints.status, ['open', 'in_progress']), isNull(complaints.parentId)))
+      .orderBy(asc(slaBreaches.dueAt));
+    return rows.map(row => ({
+      ...row.breach,
+      complaintTitle: row.title,
+      complaintStatus: row.status,
+    }));
+  }
+
+  // Returns undefined when the breach was already recorded by an earlier run
+  async recordSlaBreach(breach: typeof slaBreaches.$inferInsert): Promise<SlaBreach | undefined> {
+    const [recorded] = await db
+      .insert(slaBreaches)
+      .values(breach)
+      .onConflictDoNothing({ target: [slaBreaches.complaintId, slaBreaches.kind] })
+      .returning();
+    return recorded;
+  }
+
+  async updateSlaBreachEscalation(id: string, escalationLevel: number): Promise<SlaBreach> {
+    const [updated] = await db
+      .update(slaBreaches)
+      .set({ escalationLevel, lastEscalatedAt: new Date() })
+      .where(eq(slaBreaches.id, id))
       .returning();
     return updated;
   }
@@ -461,7 +1338,112 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(facilities)
-      .where(eq(facilities.societyId, societyId));
+      .where(eq(facilities.societyId, societyId))
+      .orderBy(asc(facilities.name));
+  }
+
+  async getFacility(id: string): Promise<Facility | undefined> {
+    const [facility] = await db.select().from(facilities).where(eq(facilities.id, id));
+    return facility;
+  }
+
+  async createFacility(facility: InsertFacility & { societyId: string }): Promise<Facility> {
+    const [newFacility] = await db.insert(facilities).values(facility).returning();
+    return newFacility;
+  }
+
+  async updateFacility(id: string, updates: Partial<InsertFacility>): Promise<Facility> {
+    const [updated] = await db
+      .update(facilities)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(facilities.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Photo and blackout rows go with the facility; the caller removes the files
+  async deleteFacility(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(facilityPhotos).where(eq(facilityPhotos.facilityId, id));
+      await tx.delete(facilityBlackouts).where(eq(facilityBlackouts.facilityId, id));
+      await tx.delete(facilityWaitlist).where(eq(facilityWaitlist.facilityId, id));
+      await tx.delete(facilityBookingSeries).where(eq(facilityBookingSeries.facilityId, id));
+      await tx.delete(facilities).where(eq(facilities.id, id));
+    });
+  }
+
+  async countFacilityBookings(facilityId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(facilityBookings)
+      .where(eq(facilityBookings.facilityId, facilityId));
+    return result.count;
+  }
+
+  async getFacilityPhotosBySociety(societyId: string): Promise<FacilityPhoto[]> {
+    return await db
+      .select()
+      .from(facilityPhotos)
+      .where(eq(facilityPhotos.societyId, societyId))
+      .orderBy(asc(facilityPhotos.createdAt));
+  }
+
+  async getFacilityPhotos(facilityId: string): Promise<FacilityPhoto[]> {
+    return await db
+      .select()
+      .from(facilityPhotos)
+      .where(eq(facilityPhotos.facilityId, facilityId))
+      .orderBy(asc(facilityPhotos.createdAt));
+  }
+
+  async getFacilityPhoto(id: string): Promise<FacilityPhoto | undefined> {
+    const [photo] = await db.select().from(facilityPhotos).where(eq(facilityPhotos.id, id));
+    return photo;
+  }
+
+  async createFacilityPhoto(photo: InsertFacilityPhoto): Promise<FacilityPhoto> {
+    const [newPhoto] = await db.insert(facilityPhotos).values(photo).returning();
+    return newPhoto;
+  }
+
+  async deleteFacilityPhoto(id: string): Promise<void> {
+    await db.delete(facilityPhotos).where(eq(facilityPhotos.id, id));
+  }
+
+  async getFacilityBlackouts(facilityId: string): Promise<FacilityBlackout[]> {
+    return await db
+      .select()
+      .from(facilityBlackouts)
+      .where(eq(facilityBlackouts.facilityId, facilityId))
+      .orderBy(asc(facilityBlackouts.date));
+  }
+
+  async getFacilityBlackout(id: string): Promise<FacilityBlackout | undefined> {
+    const [blackout] = await db.select().from(facilityBlackouts).where(eq(facilityBlackouts.id, id));
+    return blackout;
+  }
+
+  async createFacilityBlackout(blackout: InsertFacilityBlackout & { facilityId: string; societyId: string; createdBy: string }): Promise<FacilityBlackout> {
+    const [newBlackout] = await db.insert(facilityBlackouts).values(blackout).returning();
+    return newBlackout;
+  }
+
+  async deleteFacilityBlackout(id: string): Promise<void> {
+    await db.delete(facilityBlackouts).where(eq(facilityBlackouts.id, id));
+  }
+
+  // Pending requests hold their slot just like approved bookings
+  async getActiveFacilityBookings(facilityId: string, from: Date, to: Date): Promise<FacilityBooking[]> {
+    return await db
+      .select()
+      .from(facilityBookings)
+      .where(and(
+        eq(facilityBookings.facilityId, facilityId),
+        inArray(facilityBookings.status, ['pending', 'approved']),
+        gte(facilityBookings.bookingDate, from),
+        lt(facilityBookings.bookingDate, to),
+      ))
+      .orderBy(asc(facilityBookings.bookingDate), asc(facilityBookings.startTime));
   }
 
   async createFacilityBooking(booking: InsertFacilityBooking): Promise<FacilityBooking> {
@@ -469,19 +1451,215 @@ export class DatabaseStorage implements IStorage {
     return newBooking;
   }
 
-  async getFacilityBookings(societyId: string): Promise<FacilityBooking[]> {
-    return await db
-      .select()
+  // Locks the facility so concurrent requests queue up, then inserts only if every slot
+  // in the window still has room. Unexpired waitlist offers hold their room too, except the
+  // one being taken up. Returns undefined when the window is full. Any charge is raised as
+  // a one-off bill for the booking in the same transaction.
+  async createFacilityBookingWithinCapacity(
+    booking: InsertFacilityBooking,
+    asOf: Date,
+    charge?: { bill: InsertMaintenanceBill; lineItems: Omit<InsertBillLineItem, 'billId'>[] },
+    waitlistEntryId?: string,
+  ): Promise<FacilityBooking | undefined> {
+    return await db.transaction(async (tx) => {
+      const [facility] = await tx
+        .select()
+        .from(facilities)
+        .where(eq(facilities.id, booking.facilityId))
+        .for('update');
+      if (!facility) return undefined;
+
+      // HH:MM strings compare in time order
+      const bookings = await tx
+        .select()
+        .from(facilityBookings)
+        .where(and(
+          eq(facilityBookings.facilityId, booking.facilityId),
+          eq(facilityBookings.bookingDate, booking.bookingDate),
+          inArray(facilityBookings.status, ['pending', 'approved']),
+          lt(facilityBookings.startTime, booking.endTime),
+          gt(facilityBookings.endTime, booking.startTime),
+        ));
+      const offers = await tx
+        .select()
+        .from(facilityWaitlist)
+        .where(and(
+          eq(facilityWaitlist.facilityId, booking.facilityId),
+          eq(facilityWaitlist.bookingDate, booking.bookingDate.toISOString().slice(0, 10)),
+          eq(facilityWaitlist.status, 'offered'),
+          gt(facilityWaitlist.offerExpiresAt, asOf),
+          lt(facilityWaitlist.startTime, booking.endTime),
+          gt(facilityWaitlist.endTime, booking.startTime),
+          waitlistEntryId ? ne(facilityWaitlist.id, waitlistEntryId) : undefined,
+        ));
+      const overlapping = [...bookings, ...offers];
+
+      // Occupancy only rises where a booking starts, so those are the points to check
+      const points = [booking.startTime, ...overlapping.map(row => row.startTime)]
+        .filter(point => point >= booking.startTime && point < booking.endTime);
+      const peak = Math.max(...points.map(point =>
+        overlapping.filter(row => row.startTime <= point && row.endTime > point).length
+      ));
+      if (peak >= (facility.capacity ?? 1)) return undefined;
+
+      const [newBooking] = await tx.insert(facilityBookings).values(booking).returning();
+      if (!charge) return newBooking;
+
+      const [bill] = await tx
+        .insert(maintenanceBills)
+        .values({ ...charge.bill, bookingId: newBooking.id })
+        .returning();
+      await tx.insert(billLineItems).values(charge.lineItems.map(item => ({ ...item, billId: bill.id })));
+
+      const sumOf = (kind: BillLineItem["kind"]) => charge.lineItems
+        .filter(item => item.kind === kind)
+        .reduce((sum, item) => sum + item.amount, 0);
+      await postJournalEntry(tx, {
+        societyId: bill.societyId,
+        entryDate: new Date(),
+        description: bill.description || `Facility booking ${newBooking.id}`,
+        sourceType: 'facility_booking',
+        sourceId: newBooking.id,
+        lines: [
+          { account: 'receivables', debit: bill.amount },
+          { account: 'facility_income', credit: sumOf('facility_charge') },
+          { account: 'security_deposits', credit: sumOf('security_deposit') },
+        ],
+      });
+      return newBooking;
+    });
+  }
+
+  async getFacilityBooking(id: string): Promise<FacilityBooking | undefined> {
+    const [booking] = await db.select().from(facilityBookings).where(eq(facilityBookings.id, id));
+    return booking;
+  }
+
+  // Refunds the given share of the usage charge plus the whole deposit. The booking's bill is
+  // reduced by the refund; anything already paid beyond the new amount becomes advance credit
+  // for the flat, or a payable when the resident has no flat. Returns undefined when the
+  // booking is no longer pending or approved.
+  async cancelFacilityBooking(
+    id: string,
+    cancellation: { status: 'cancelled' | 'rejected'; refundPercent: number; cancelledBy: string; reason: string | null },
+  ): Promise<FacilityBooking | undefined> {
+    return await db.transaction(async (tx) => {
+      const [booking] = await tx.select().from(facilityBookings).where(eq(facilityBookings.id, id)).for('update');
+      if (!booking || (booking.status !== 'pending' && booking.status !== 'approved')) return undefined;
+
+      const usageRefund = Math.round(((booking.totalAmount || 0) * cancellation.refundPercent) / 100);
+      const refundAmount = usageRefund + booking.depositAmount;
+      let refundCredit = 0;
+
+      const [bill] = await tx
+        .select()
+        .from(maintenanceBills)
+        .where(eq(maintenanceBills.bookingId, booking.id))
+        .for('update');
+      if (bill && refundAmount > 0) {
+        const amount = Math.max(0, bill.amount - refundAmount);
+        refundCredit = Math.max(0, bill.amountPaid - amount);
+        const amountPaid = bill.amountPaid - refundCredit;
+        await tx.insert(billLineItems).values({
+          billId: bill.id,
+          kind: 'adjustment',
+          description: `Refund on ${cancellation.status === 'rejected' ? 'rejected' : 'cancelled'} booking`,
+          amount: -refundAmount,
+        });
+        await tx
+          .update(maintenanceBills)
+          .set({
+            amount,
+            amountPaid,
+            isPaid: amountPaid >= amount,
+            paidAt: amountPaid >= amount ? bill.paidAt ?? new Date() : null,
+          })
+          .where(eq(maintenanceBills.id, bill.id));
+
+        if (refundCredit > 0 && bill.flatId) {
+          const [account] = await tx.select().from(flatAccounts).where(eq(flatAccounts.flatId, bill.flatId)).for('update');
+          if (account) {
+            await tx
+              .update(flatAccounts)
+              .set({ creditBalance: account.creditBalance + refundCredit, updatedAt: new Date() })
+              .where(eq(flatAccounts.flatId, bill.flatId));
+          } else {
+            await tx.insert(flatAccounts).values({ flatId: bill.flatId, societyId: bill.societyId, creditBalance: refundCredit });
+          }
+        }
+
+        await postJournalEntry(tx, {
+          societyId: bill.societyId,
+          entryDate: new Date(),
+          description: `Refund on ${bill.description || `facility booking ${booking.id}`}`,
+          sourceType: 'facility_cancellation',
+          sourceId: booking.id,
+          lines: [
+            { account: 'facility_income', debit: usageRefund },
+            { account: 'security_deposits', debit: booking.depositAmount },
+            { account: 'receivables', credit: refundAmount - refundCredit },
+            { account: bill.flatId ? 'advance_credit' : 'payables', credit: refundCredit },
+          ],
+        });
+      }
+
+      const [updated] = await tx
+        .update(facilityBookings)
+        .set({
+          status: cancellation.status,
+          cancelledAt: new Date(),
+          cancelledBy: cancellation.cancelledBy,
+          cancellationReason: cancellation.reason,
+          refundAmount: bill ? refundAmount : 0,
+          refundCredit,
+          updatedAt: new Date(),
+        })
+        .where(eq(facilityBookings.id, booking.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getBookingBill(bookingId: string): Promise<MaintenanceBillWithLineItems | undefined> {
+    const bills = await db.select().from(maintenanceBills).where(eq(maintenanceBills.bookingId, bookingId));
+    const [bill] = await this.attachLineItems(bills);
+    return bill;
+  }
+
+  // The optional range covers booking dates from `from` up to but not including `to`
+  async getFacilityBookings(societyId: string, range?: { from: Date; to: Date }): Promise<FacilityBookingWithResident[]> {
+    const rows = await db
+      .select({
+        booking: facilityBookings,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        flatNumber: users.flatNumber,
+      })
       .from(facilityBookings)
-      .where(eq(facilityBookings.societyId, societyId))
+      .innerJoin(users, eq(facilityBookings.residentId, users.id))
+      .where(and(
+        eq(facilityBookings.societyId, societyId),
+        range ? gte(facilityBookings.bookingDate, range.from) : undefined,
+        range ? lt(facilityBookings.bookingDate, range.to) : undefined,
+      ))
       .orderBy(desc(facilityBookings.createdAt));
+
+    return rows.map(row => ({
+      ...row.booking,
+      residentName: `${row.firstName || ''} ${row.lastName || ''}`.trim(),
+      flatNumber: row.flatNumber,
+    }));
   }
 
-  async getResidentBookings(residentId: string): Promise<FacilityBooking[]> {
+  async getResidentBookings(residentId: string, range?: { from: Date; to: Date }): Promise<FacilityBooking[]> {
     return await db
       .select()
       .from(facilityBookings)
-      .where(eq(facilityBookings.residentId, residentId))
+      .where(and(
+        eq(facilityBookings.residentId, residentId),
+        range ? gte(facilityBookings.bookingDate, range.from) : undefined,
+        range ? lt(facilityBookings.bookingDate, range.to) : undefined,
+      ))
       .orderBy(desc(facilityBookings.createdAt));
   }
 
@@ -494,31 +1672,1348 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  // Announcements operations
-  async createAnnouncement(announcement: InsertAnnouncement): Promise<Announcement> {
-    const [newAnnouncement] = await db.insert(announcements).values(announcement).returning();
-    return newAnnouncement;
+  async createBookingSeries(series: InsertFacilityBookingSeries): Promise<FacilityBookingSeries> {
+    const [newSeries] = await db.insert(facilityBookingSeries).values(series).returning();
+    return newSeries;
   }
 
-  async getAnnouncementsBySociety(societyId: string): Promise<Announcement[]> {
+  async getBookingSeries(id: string): Promise<FacilityBookingSeries | undefined> {
+    const [series] = await db.select().from(facilityBookingSeries).where(eq(facilityBookingSeries.id, id));
+    return series;
+  }
+
+  async getResidentBookingSeries(residentId: string): Promise<FacilityBookingSeries[]> {
     return await db
       .select()
-      .from(announcements)
-      .where(eq(announcements.societyId, societyId))
-      .orderBy(desc(announcements.createdAt));
+      .from(facilityBookingSeries)
+      .where(eq(facilityBookingSeries.residentId, residentId))
+      .orderBy(desc(facilityBookingSeries.createdAt));
   }
 
-  // Dashboard stats
-  async getSocietyStats(societyId: string): Promise<{
-    totalResidents: number;
-    openComplaints: number;
-    facilityBookings: number;
-    pendingDues: number;
-  }> {
-    const [residentsCount] = await db
-      .select({ count: count() })
-      .from(users)
-      .where(and(eq(users.societyId, societyId), eq(users.role, 'resident')));
+  async getSeriesBookings(seriesId: string): Promise<FacilityBooking[]> {
+    return await db
+      .select()
+      .from(facilityBookings)
+      .where(eq(facilityBookings.seriesId, seriesId))
+      .orderBy(asc(facilityBookings.bookingDate));
+  }
+
+  // Returns undefined when the series was already cancelled
+  async cancelBookingSeries(id: string): Promise<FacilityBookingSeries | undefined> {
+    const [updated] = await db
+      .update(facilityBookingSeries)
+      .set({ status: 'cancelled', cancelledAt: new Date() })
+      .where(and(eq(facilityBookingSeries.id, id), eq(facilityBookingSeries.status, 'active')))
+      .returning();
+    return updated;
+  }
+
+  async createWaitlistEntry(entry: InsertFacilityWaitlistEntry): Promise<FacilityWaitlistEntry> {
+    const [newEntry] = await db.insert(facilityWaitlist).values(entry).returning();
+    return newEntry;
+  }
+
+  async getWaitlistEntry(id: string): Promise<FacilityWaitlistEntry | undefined> {
+    const [entry] = await db.select().from(facilityWaitlist).where(eq(facilityWaitlist.id, id));
+    return entry;
+  }
+
+  async getResidentWaitlist(residentId: string): Promise<FacilityWaitlistEntry[]> {
+    return await db
+      .select()
+      .from(facilityWaitlist)
+      .where(eq(facilityWaitlist.residentId, residentId))
+      .orderBy(desc(facilityWaitlist.createdAt));
+  }
+
+  // Waiting and offered entries for the day, longest-waiting first
+  async getOpenWaitlistEntries(facilityId: string, date: string): Promise<FacilityWaitlistEntry[]> {
+    return await db
+      .select()
+      .from(facilityWaitlist)
+      .where(and(
+        eq(facilityWaitlist.facilityId, facilityId),
+        eq(facilityWaitlist.bookingDate, date),
+        inArray(facilityWaitlist.status, ['waiting', 'offered']),
+      ))
+      .orderBy(asc(facilityWaitlist.createdAt));
+  }
+
+  // Offers still open to their resident on the given days (inclusive), which keep their room off the market
+  async getHeldWaitlistOffers(facilityId: string, from: string, to: string, asOf: Date): Promise<FacilityWaitlistEntry[]> {
+    return await db
+      .select()
+      .from(facilityWaitlist)
+      .where(and(
+        eq(facilityWaitlist.facilityId, facilityId),
+        eq(facilityWaitlist.status, 'offered'),
+        gt(facilityWaitlist.offerExpiresAt, asOf),
+        gte(facilityWaitlist.bookingDate, from),
+        lte(facilityWaitlist.bookingDate, to),
+      ));
+  }
+
+  async updateWaitlistEntry(id: string, updates: Partial<InsertFacilityWaitlistEntry>): Promise<FacilityWaitlistEntry> {
+    const [updated] = await db
+      .update(facilityWaitlist)
+      .set(updates)
+      .where(eq(facilityWaitlist.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Lapses offers past their deadline, and waiting entries whose day is before the society's today
+  async expireWaitlistEntries(asOf: Date, today: string): Promise<FacilityWaitlistEntry[]> {
+    return await db
+      .update(facilityWaitlist)
+      .set({ status: 'expired' })
+      .where(or(
+        and(eq(facilityWaitlist.status, 'offered'), lt(facilityWaitlist.offerExpiresAt, asOf)),
+        and(eq(facilityWaitlist.status, 'waiting'), lt(facilityWaitlist.bookingDate, today)),
+      ))
+      .returning();
+  }
+
+  // Announcements operations
+  async createAnnouncement(announcement: InsertAnnouncement): Promise<Announcement> {
+    const [newAnnouncement] = await db.insert(announcements).values(announcement).returning();
+    return newAnnouncement;
+  }
+
+  async getAnnouncementsBySociety(societyId: string): Promise<Announcement[]> {
+    return await db
+      .select()
+      .from(announcements)
+      .where(eq(announcements.societyId, societyId))
+      .orderBy(desc(announcements.createdAt));
+  }
+
+  // Billing operations
+  async getChargeHeads(societyId: string): Promise<ChargeHead[]> {
+    return await db
+      .select()
+      .from(chargeHeads)
+      .where(eq(chargeHeads.societyId, societyId))
+      .orderBy(chargeHeads.createdAt);
+  }
+
+  async getChargeHead(id: string): Promise<ChargeHead | undefined> {
+    const [head] = await db.select().from(chargeHeads).where(eq(chargeHeads.id, id));
+    return head;
+  }
+
+  async createChargeHead(head: InsertChargeHead): Promise<ChargeHead> {
+    const [newHead] = await db.insert(chargeHeads).values(head).returning();
+    return newHead;
+  }
+
+  async updateChargeHead(id: string, updates: Partial<InsertChargeHead>): Promise<ChargeHead> {
+    const [updated] = await db
+      .update(chargeHeads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(chargeHeads.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteChargeHead(id: string): Promise<void> {
+    await db.delete(chargeHeads).where(eq(chargeHeads.id, id));
+  }
+
+  async getOccupiedFlatsBySociety(societyId: string): Promise<Flat[]> {
+    return await db
+      .select()
+      .from(flats)
+      .where(and(eq(flats.societyId, societyId), eq(flats.isOccupied, true)))
+      .orderBy(flats.flatNumber);
+  }
+
+  async getBilledFlatIds(societyId: string, billingMonth: string): Promise<string[]> {
+    const rows = await db
+      .select({ flatId: maintenanceBills.flatId })
+      .from(maintenanceBills)
+      .where(and(
+        eq(maintenanceBills.societyId, societyId),
+        eq(maintenanceBills.billingMonth, billingMonth),
+        isNull(maintenanceBills.bookingId),
+      ));
+    return rows.map(row => row.flatId).filter((flatId): flatId is string => !!flatId);
+  }
+
+  async createMaintenanceBill(bill: InsertMaintenanceBill, lineItems: Omit<InsertBillLineItem, 'billId'>[]): Promise<MaintenanceBill | undefined> {
+    return await db.transaction(async (tx) => {
+      // A concurrent or repeated run for the same flat and month inserts nothing
+      const [newBill] = await tx
+        .insert(maintenanceBills)
+        .values(bill)
+        .onConflictDoNothing({ target: [maintenanceBills.flatId, maintenanceBills.billingMonth], where: isNull(maintenanceBills.bookingId) })
+        .returning();
+      if (!newBill) return undefined;
+
+      if (lineItems.length > 0) {
+        await tx.insert(billLineItems).values(lineItems.map(item => ({ ...item, billId: newBill.id })));
+      }
+
+      // Numbered only once the bill exists so skipped re-runs leave no gaps in the invoice series
+      const [tax] = await tx.select().from(taxSettings).where(eq(taxSettings.societyId, newBill.societyId));
+      if (tax?.isEnabled) {
+        const invoiceNumber = await issueInvoiceNumber(tx, newBill.societyId, tax.invoicePrefix, newBill.createdAt || new Date());
+        await tx.update(maintenanceBills).set({ invoiceNumber }).where(eq(maintenanceBills.id, newBill.id));
+        newBill.invoiceNumber = invoiceNumber;
+      }
+
+      // Fund contributions are credited straight to each fund and GST to the output tax accounts
+      const contributions = lineItems.filter(item => item.kind === 'fund_contribution' && item.fundId);
+      const contributionTotal = contributions.reduce((sum, item) => sum + item.amount, 0);
+      const cgstAmount = newBill.cgstAmount;
+      const sgstAmount = newBill.sgstAmount;
+      await postJournalEntry(tx, {
+        societyId: newBill.societyId,
+        entryDate: new Date(),
+        description: newBill.invoiceNumber
+          ? `Maintenance bill ${newBill.billingMonth} (invoice ${newBill.invoiceNumber})`
+          : `Maintenance bill ${newBill.billingMonth}`,
+        sourceType: 'bill',
+        sourceId: newBill.id,
+        lines: [
+          { account: 'receivables', debit: newBill.amount },
+          { account: 'maintenance_income', credit: newBill.amount - contributionTotal - cgstAmount - sgstAmount },
+          ...contributions.map(item => ({ account: `fund:${item.fundId}` as const, credit: item.amount })),
+          { account: 'cgst_payable', credit: cgstAmount },
+          { account: 'sgst_payable', credit: sgstAmount },
+        ],
+      });
+
+      // Advance credit from earlier overpayments settles the new bill first
+      if (!newBill.flatId) return newBill;
+      const [account] = await tx
+        .select()
+        .from(flatAccounts)
+        .where(eq(flatAccounts.flatId, newBill.flatId))
+        .for('update');
+      if (!account || account.creditBalance <= 0) return newBill;
+
+      const creditApplied = Math.min(account.creditBalance, newBill.amount);
+      await tx
+        .update(flatAccounts)
+        .set({ creditBalance: account.creditBalance - creditApplied, updatedAt: new Date() })
+        .where(eq(flatAccounts.flatId, newBill.flatId));
+
+      const isPaid = creditApplied >= newBill.amount;
+      const [creditedBill] = await tx
+        .update(maintenanceBills)
+        .set({ creditApplied, amountPaid: creditApplied, isPaid, paidAt: isPaid ? new Date() : null })
+        .where(eq(maintenanceBills.id, newBill.id))
+        .returning();
+      await postJournalEntry(tx, {
+        societyId: newBill.societyId,
+        entryDate: new Date(),
+        description: `Advance credit applied to bill ${newBill.billingMonth}`,
+        sourceType: 'advance_credit',
+        sourceId: newBill.id,
+        lines: [
+          { account: 'advance_credit', debit: creditApplied },
+          { account: 'receivables', credit: creditApplied },
+        ],
+      });
+      return creditedBill;
+    });
+  }
+
+  private async attachLineItems(bills: MaintenanceBill[]): Promise<MaintenanceBillWithLineItems[]> {
+    if (bills.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(billLineItems)
+      .where(inArray(billLineItems.billId, bills.map(bill => bill.id)))
+      .orderBy(billLineItems.createdAt);
+
+    const itemsByBill = new Map<string, BillLineItem[]>();
+    for (const item of items) {
+      if (!itemsByBill.has(item.billId)) {
+        itemsByBill.set(item.billId, []);
+      }
+      itemsByBill.get(item.billId)!.push(item);
+    }
+
+    return bills.map(bill => ({ ...bill, lineItems: itemsByBill.get(bill.id) || [] }));
+  }
+
+  async getMaintenanceBill(id: string): Promise<MaintenanceBillWithLineItems | undefined> {
+    const [bill] = await db.select().from(maintenanceBills).where(eq(maintenanceBills.id, id));
+    if (!bill) return undefined;
+    const [withLineItems] = await this.attachLineItems([bill]);
+    return withLineItems;
+  }
+
+  async getMaintenanceBillsByResident(residentId: string): Promise<MaintenanceBillWithLineItems[]> {
+    const bills = await db
+      .select()
+      .from(maintenanceBills)
+      .where(eq(maintenanceBills.residentId, residentId))
+      .orderBy(desc(maintenanceBills.dueDate));
+    return await this.attachLineItems(bills);
+  }
+
+  async getMaintenanceBillsBySociety(societyId: string, billingMonth?: string): Promise<MaintenanceBillWithLineItems[]> {
+    const conditions = [eq(maintenanceBills.societyId, societyId)];
+    if (billingMonth) {
+      conditions.push(eq(maintenanceBills.billingMonth, billingMonth));
+    }
+
+    const bills = await db
+      .select()
+      .from(maintenanceBills)
+      .where(and(...conditions))
+      .orderBy(desc(maintenanceBills.dueDate));
+    return await this.attachLineItems(bills);
+  }
+
+  async getUnpaidBillsBySociety(societyId: string): Promise<MaintenanceBillWithLineItems[]> {
+    const bills = await db
+      .select()
+      .from(maintenanceBills)
+      .where(and(eq(maintenanceBills.societyId, societyId), eq(maintenanceBills.isPaid, false)))
+      .orderBy(maintenanceBills.dueDate);
+    return await this.attachLineItems(bills);
+  }
+
+  // Penalty operations
+  async getPenaltyRules(societyId: string): Promise<PenaltyRule[]> {
+    return await db
+      .select()
+      .from(penaltyRules)
+      .where(eq(penaltyRules.societyId, societyId))
+      .orderBy(penaltyRules.createdAt);
+  }
+
+  async getPenaltyRule(id: string): Promise<PenaltyRule | undefined> {
+    const [rule] = await db.select().from(penaltyRules).where(eq(penaltyRules.id, id));
+    return rule;
+  }
+
+  async createPenaltyRule(rule: InsertPenaltyRule): Promise<PenaltyRule> {
+    const [newRule] = await db.insert(penaltyRules).values(rule).returning();
+    return newRule;
+  }
+
+  async updatePenaltyRule(id: string, updates: Partial<InsertPenaltyRule>): Promise<PenaltyRule> {
+    const [updated] = await db
+      .update(penaltyRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(penaltyRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deletePenaltyRule(id: string): Promise<void> {
+    await db.delete(penaltyRules).where(eq(penaltyRules.id, id));
+  }
+
+  async replaceBillPenalties(billId: string, penalties: BillPenaltyLine[], amount: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(billLineItems)
+        .where(and(eq(billLineItems.billId, billId), eq(billLineItems.kind, 'penalty')))
+        .returning();
+
+      if (penalties.length > 0) {
+        await tx.insert(billLineItems).values(penalties.map(penalty => ({
+          billId,
+          kind: 'penalty' as const,
+          penaltyRuleId: penalty.penaltyRuleId,
+          description: penalty.description,
+          amount: penalty.amount,
+        })));
+      }
+
+      const [current] = await tx.select().from(maintenanceBills).where(eq(maintenanceBills.id, billId)).for('update');
+
+      // Lower charges (a rule turned off or reduced) can leave more paid than is now owed; the
+      // excess becomes the flat's advance credit, or is owed back to a resident without a flat
+      const excess = Math.max(0, current.amountPaid - amount);
+      const amountPaid = current.amountPaid - excess;
+      const isPaid = amountPaid >= amount;
+      const [bill] = await tx
+        .update(maintenanceBills)
+        .set({ amount, amountPaid, isPaid, paidAt: isPaid ? current.paidAt ?? new Date() : null })
+        .where(eq(maintenanceBills.id, billId))
+        .returning();
+
+      if (excess > 0 && bill.flatId) {
+        await tx
+          .insert(flatAccounts)
+          .values({ flatId: bill.flatId, societyId: bill.societyId, creditBalance: excess })
+          .onConflictDoUpdate({
+            target: flatAccounts.flatId,
+            set: { creditBalance: sql`${flatAccounts.creditBalance} + ${excess}`, updatedAt: new Date() },
+          });
+      }
+      if (excess > 0) {
+        await postJournalEntry(tx, {
+          societyId: bill.societyId,
+          entryDate: new Date(),
+          description: `Overpayment on bill ${bill.billingMonth} after late charges were reduced`,
+          sourceType: 'advance_credit',
+          sourceId: billId,
+          lines: [
+            { account: 'receivables', debit: excess },
+            { account: bill.flatId ? 'advance_credit' : 'payables', credit: excess },
+          ],
+        });
+      }
+
+      // Only the change since the last accrual is posted
+      const change = penalties.reduce((sum, penalty) => sum + penalty.amount, 0) -
+        removed.reduce((sum, item) => sum + item.amount, 0);
+      await postJournalEntry(tx, {
+        societyId: bill.societyId,
+        entryDate: new Date(),
+        description: `Late payment charges on bill ${bill.billingMonth}`,
+        sourceType: 'penalty',
+        sourceId: billId,
+        lines: change >= 0
+          ? [{ account: 'receivables', debit: change }, { account: 'penalty_income', credit: change }]
+          : [{ account: 'penalty_income', debit: -change }, { account: 'receivables', credit: -change }],
+      });
+    });
+  }
+
+  // Successful payments settled against the bills; bounced ones no longer count
+  async getBillPayments(billIds: string[]): Promise<{ billId: string; amount: number; paidAt: Date }[]> {
+    if (billIds.length === 0) return [];
+    const rows = await db
+      .select({ billId: paymentAllocations.billId, amount: paymentAllocations.amount, paidAt: payments.paidAt, allocatedAt: paymentAllocations.createdAt })
+      .from(paymentAllocations)
+      .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+      .where(and(inArray(paymentAllocations.billId, billIds), eq(payments.status, 'success')));
+    return rows.map(row => ({ billId: row.billId, amount: row.amount, paidAt: row.paidAt ?? row.allocatedAt ?? new Date() }));
+  }
+
+  // Payment gateway operations
+  async getMaintenanceBillsByIds(ids: string[]): Promise<MaintenanceBill[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(maintenanceBills)
+      .where(inArray(maintenanceBills.id, ids))
+      .orderBy(maintenanceBills.dueDate);
+  }
+
+  // Unpaid bills of the resident's flat, whoever they were raised to, or their own without a flat
+  async getOpenBillsForResident(residentId: string): Promise<MaintenanceBill[]> {
+    const flat = await this.getFlatByResident(residentId);
+    return await db
+      .select()
+      .from(maintenanceBills)
+      .where(and(
+        flat ? eq(maintenanceBills.flatId, flat.id) : eq(maintenanceBills.residentId, residentId),
+        eq(maintenanceBills.isPaid, false),
+      ))
+      .orderBy(asc(maintenanceBills.dueDate));
+  }
+
+  async getFlatByResident(residentId: string): Promise<Flat | undefined> {
+    const [flat] = await db.select().from(flats).where(eq(flats.residentId, residentId));
+    return flat;
+  }
+
+  async getResidentBalance(residentId: string): Promise<FlatBalance> {
+    const flat = await this.getFlatByResident(residentId);
+
+    const [outstanding] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${maintenanceBills.amount} - ${maintenanceBills.amountPaid}), 0)` })
+      .from(maintenanceBills)
+      .where(and(
+        flat ? eq(maintenanceBills.flatId, flat.id) : eq(maintenanceBills.residentId, residentId),
+        eq(maintenanceBills.isPaid, false),
+      ));
+
+    const [account] = flat
+      ? await db.select().from(flatAccounts).where(eq(flatAccounts.flatId, flat.id))
+      : [];
+
+    return {
+      flatId: flat?.id || null,
+      flatNumber: flat?.flatNumber || null,
+      residentId,
+      outstanding: Number(outstanding.total),
+      credit: account?.creditBalance || 0,
+    };
+  }
+
+  async getFlatBalances(societyId: string): Promise<FlatBalance[]> {
+    const rows = await db
+      .select({
+        flatId: flats.id,
+        flatNumber: flats.flatNumber,
+        residentId: flats.residentId,
+        outstanding: sql<number>`COALESCE((
+          SELECT SUM(${maintenanceBills.amount} - ${maintenanceBills.amountPaid})
+          FROM ${maintenanceBills}
+          WHERE ${maintenanceBills.flatId} = ${flats.id} AND ${maintenanceBills.isPaid} = false
+        ), 0)`,
+        credit: sql<number>`COALESCE(${flatAccounts.creditBalance}, 0)`,
+      })
+      .from(flats)
+      .leftJoin(flatAccounts, eq(flatAccounts.flatId, flats.id))
+      .where(eq(flats.societyId, societyId))
+      .orderBy(flats.flatNumber);
+
+    return rows.map(row => ({
+      ...row,
+      outstanding: Number(row.outstanding),
+      credit: Number(row.credit),
+    }));
+  }
+
+  async createPaymentIntent(intent: InsertPaymentIntent): Promise<PaymentIntent> {
+    const [newIntent] = await db.insert(paymentIntents).values(intent).returning();
+    return newIntent;
+  }
+
+  async getPaymentIntent(id: string): Promise<PaymentIntent | undefined> {
+    const [intent] = await db.select().from(paymentIntents).where(eq(paymentIntents.id, id));
+    return intent;
+  }
+
+  async applyPaymentEvent(
+    provider: string,
+    event: { eventId: string; type: string; providerReference: string; failureReason?: string },
+  ): Promise<{ intent: PaymentIntent | undefined; duplicate: boolean }> {
+    return await db.transaction(async (tx) => {
+      // Lock the intent so concurrent deliveries of the same payment are applied one at a time
+      const [intent] = await tx
+        .select()
+        .from(paymentIntents)
+        .where(and(eq(paymentIntents.provider, provider), eq(paymentIntents.providerReference, event.providerReference)))
+        .for('update');
+      if (!intent) {
+        return { intent: undefined, duplicate: false };
+      }
+
+      const [recorded] = await tx
+        .insert(paymentWebhookEvents)
+        .values({ provider, eventId: event.eventId, type: event.type, paymentIntentId: intent.id })
+        .onConflictDoNothing({ target: [paymentWebhookEvents.provider, paymentWebhookEvents.eventId] })
+        .returning();
+      if (!recorded) {
+        return { intent, duplicate: true };
+      }
+
+      // A settled intent never changes again, whatever order events arrive in
+      if (intent.status !== 'created') {
+        return { intent, duplicate: false };
+      }
+
+      const now = new Date();
+      const paymentRecord = {
+        societyId: intent.societyId,
+        residentId: intent.residentId,
+        paymentIntentId: intent.id,
+        amount: intent.amount,
+        method: intent.method,
+        reference: intent.providerReference,
+      };
+
+      if (event.type === 'payment.succeeded') {
+        const [updated] = await tx
+          .update(paymentIntents)
+          .set({ status: 'succeeded', completedAt: now, updatedAt: now })
+          .where(eq(paymentIntents.id, intent.id))
+          .returning();
+        const [flat] = await tx.select().from(flats).where(eq(flats.residentId, intent.residentId));
+        const { allocations, credit } = await allocatePayment(tx, {
+          societyId: intent.societyId,
+          residentId: intent.residentId,
+          flatId: flat?.id || null,
+          amount: intent.amount,
+          paidAt: now,
+          billIds: intent.billIds,
+        });
+
+        const [payment] = await tx
+          .insert(payments)
+          .values({
+            ...paymentRecord,
+            flatId: flat?.id || null,
+            creditAmount: credit,
+            status: 'success',
+            receiptNumber: await issueReceiptNumber(tx, intent.societyId),
+            description: describeAllocation(allocations, credit),
+            paidAt: now,
+          })
+          .returning();
+        await postPaymentReceived(tx, payment);
+        if (allocations.length > 0) {
+          await tx.insert(paymentAllocations).values(allocations.map(allocation => ({
+            paymentId: payment.id,
+            billId: allocation.billId,
+            amount: allocation.amount,
+          })));
+        }
+        return { intent: updated, duplicate: false };
+      }
+
+      if (event.type === 'payment.failed') {
+        const [updated] = await tx
+          .update(paymentIntents)
+          .set({ status: 'failed', failureReason: event.failureReason || null, completedAt: now, updatedAt: now })
+          .where(eq(paymentIntents.id, intent.id))
+          .returning();
+        await tx.insert(payments).values({
+          ...paymentRecord,
+          status: 'failed',
+          description: event.failureReason || 'Payment failed',
+        });
+        return { intent: updated, duplicate: false };
+      }
+
+      return { intent, duplicate: false };
+    });
+  }
+
+  // Payment ledger operations
+  private async attachAllocations(paymentRows: Payment[]): Promise<PaymentWithAllocations[]> {
+    if (paymentRows.length === 0) return [];
+
+    const rows = await db
+      .select({ allocation: paymentAllocations, billingMonth: maintenanceBills.billingMonth })
+      .from(paymentAllocations)
+      .innerJoin(maintenanceBills, eq(paymentAllocations.billId, maintenanceBills.id))
+      .where(inArray(paymentAllocations.paymentId, paymentRows.map(payment => payment.id)))
+      .orderBy(maintenanceBills.dueDate);
+
+    const allocationsByPayment = new Map<string, PaymentWithAllocations["allocations"]>();
+    for (const row of rows) {
+      if (!allocationsByPayment.has(row.allocation.paymentId)) {
+        allocationsByPayment.set(row.allocation.paymentId, []);
+      }
+      allocationsByPayment.get(row.allocation.paymentId)!.push({ ...row.allocation, billingMonth: row.billingMonth });
+    }
+
+    return paymentRows.map(payment => ({ ...payment, allocations: allocationsByPayment.get(payment.id) || [] }));
+  }
+
+  async getPayment(id: string): Promise<PaymentWithAllocations | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    if (!payment) return undefined;
+    const [withAllocations] = await this.attachAllocations([payment]);
+    return withAllocations;
+  }
+
+  async getPaymentsByResident(residentId: string): Promise<PaymentWithAllocations[]> {
+    const rows = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.residentId, residentId))
+      .orderBy(desc(payments.createdAt));
+    return await this.attachAllocations(rows);
+  }
+
+  async getPaymentsBySociety(societyId: string): Promise<PaymentWithAllocations[]> {
+    const rows = await db
+      .select({
+        payment: payments,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        flatNumber: users.flatNumber,
+      })
+      .from(payments)
+      .innerJoin(users, eq(payments.residentId, users.id))
+      .where(eq(payments.societyId, societyId))
+      .orderBy(desc(payments.createdAt));
+
+    const withAllocations = await this.attachAllocations(rows.map(row => row.payment));
+    return withAllocations.map((payment, index) => ({
+      ...payment,
+      residentName: `${rows[index].firstName || ''} ${rows[index].lastName || ''}`.trim(),
+      flatNumber: rows[index].flatNumber,
+    }));
+  }
+
+  // Offline payment operations
+  async recordOfflinePayment(payment: {
+    societyId: string;
+    residentId: string;
+    amount: number;
+    method: OfflinePaymentMethod;
+    instrumentNumber?: string;
+    bankName?: string;
+    instrumentDate?: Date;
+    paidAt: Date;
+    recordedBy: string;
+  }): Promise<PaymentWithAllocations> {
+    const paymentId = await db.transaction(async (tx) => {
+      const [flat] = await tx.select().from(flats).where(eq(flats.residentId, payment.residentId));
+      const { allocations, credit } = await allocatePayment(tx, {
+        societyId: payment.societyId,
+        residentId: payment.residentId,
+        flatId: flat?.id || null,
+        amount: payment.amount,
+        paidAt: payment.paidAt,
+      });
+
+      const [newPayment] = await tx
+        .insert(payments)
+        .values({
+          ...payment,
+          flatId: flat?.id || null,
+          creditAmount: credit,
+          status: 'success',
+          receiptNumber: await issueReceiptNumber(tx, payment.societyId),
+          description: describeAllocation(allocations, credit),
+        })
+        .returning();
+      await postPaymentReceived(tx, newPayment);
+      if (allocations.length > 0) {
+        await tx.insert(paymentAllocations).values(allocations.map(allocation => ({
+          paymentId: newPayment.id,
+          billId: allocation.billId,
+          amount: allocation.amount,
+        })));
+      }
+      return newPayment.id;
+    });
+
+    return (await this.getPayment(paymentId))!;
+  }
+
+  // Undoes everything the payment settled and charges the flat for the bounce. Returns undefined,
+  // leaving the payment untouched, when there are charges to add but no bill to add them to
+  async bouncePayment(id: string, bounce: { reason: string; bounceCharge: number }): Promise<PaymentWithAllocations | undefined> {
+    const bounced = await db.transaction(async (tx) => {
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, id)).for('update');
+      if (!payment || payment.status !== 'success') {
+        throw new Error('Only successful payments can bounce');
+      }
+
+      const allocations = await tx
+        .select({ allocation: paymentAllocations, bill: maintenanceBills })
+        .from(paymentAllocations)
+        .innerJoin(maintenanceBills, eq(paymentAllocations.billId, maintenanceBills.id))
+        .where(eq(paymentAllocations.paymentId, id))
+        .orderBy(asc(maintenanceBills.dueDate));
+
+      // Advance credit that later bills already used cannot be taken back from the account
+      let recoveredCredit = 0;
+      let unrecoveredCredit = 0;
+      let account: FlatAccount | undefined;
+      if (payment.creditAmount > 0 && payment.flatId) {
+        [account] = await tx
+          .select()
+          .from(flatAccounts)
+          .where(eq(flatAccounts.flatId, payment.flatId))
+          .for('update');
+        recoveredCredit = Math.min(account?.creditBalance || 0, payment.creditAmount);
+        unrecoveredCredit = payment.creditAmount - recoveredCredit;
+      }
+
+      const charges = [
+        { kind: 'bounce_charge' as const, description: `Cheque bounce charge (${payment.receiptNumber})`, amount: bounce.bounceCharge },
+        { kind: 'adjustment' as const, description: `Advance credit reversed (${payment.receiptNumber})`, amount: unrecoveredCredit },
+      ].filter(charge => charge.amount > 0);
+
+      // Charges go on the oldest bill the payment had settled, otherwise on the latest bill of the flat
+      let [target] = allocations.map(row => row.bill);
+      if (charges.length > 0 && !target) {
+        [target] = await tx
+          .select()
+          .from(maintenanceBills)
+          .where(payment.flatId ? eq(maintenanceBills.flatId, payment.flatId) : eq(maintenanceBills.residentId, payment.residentId))
+          .orderBy(desc(maintenanceBills.dueDate))
+          .limit(1);
+        if (!target) return false;
+      }
+
+      for (const { allocation, bill } of allocations) {
+        await tx
+          .update(maintenanceBills)
+          .set({ amountPaid: Math.max(0, bill.amountPaid - allocation.amount), isPaid: false, paidAt: null })
+          .where(eq(maintenanceBills.id, bill.id));
+      }
+
+      if (account && recoveredCredit > 0) {
+        await tx
+          .update(flatAccounts)
+          .set({ creditBalance: account.creditBalance - recoveredCredit, updatedAt: new Date() })
+          .where(eq(flatAccounts.flatId, account.flatId));
+      }
+
+      if (charges.length > 0) {
+        await tx.insert(billLineItems).values(charges.map(charge => ({ ...charge, billId: target.id })));
+        await tx
+          .update(maintenanceBills)
+          .set({
+            amount: sql`${maintenanceBills.amount} + ${charges.reduce((sum, charge) => sum + charge.amount, 0)}`,
+            isPaid: false,
+            paidAt: null,
+          })
+          .where(eq(maintenanceBills.id, target.id));
+      }
+
+      const now = new Date();
+      const allocatedTotal = allocations.reduce((sum, row) => sum + row.allocation.amount, 0);
+      await postJournalEntry(tx, {
+        societyId: payment.societyId,
+        entryDate: now,
+        description: `Cheque returned, receipt ${payment.receiptNumber}`,
+        sourceType: 'payment_reversal',
+        sourceId: payment.id,
+        lines: [
+          { account: 'receivables', debit: allocatedTotal + unrecoveredCredit },
+          { account: 'advance_credit', debit: recoveredCredit },
+          { account: 'bank', credit: payment.amount },
+        ],
+      });
+      await postJournalEntry(tx, {
+        societyId: payment.societyId,
+        entryDate: now,
+        description: `Cheque bounce charge, receipt ${payment.receiptNumber}`,
+        sourceType: 'payment_reversal',
+        sourceId: payment.id,
+        lines: [
+          { account: 'receivables', debit: bounce.bounceCharge },
+          { account: 'bounce_income', credit: bounce.bounceCharge },
+        ],
+      });
+
+      await tx
+        .update(payments)
+        .set({
+          status: 'reversed',
+          bouncedAt: now,
+          bounceReason: bounce.reason,
+          bounceCharge: bounce.bounceCharge,
+        })
+        .where(eq(payments.id, id));
+      return true;
+    });
+
+    return bounced ? await this.getPayment(id) : undefined;
+  }
+
+  async getUnreconciledPayments(societyId: string): Promise<PaymentWithAllocations[]> {
+    const rows = await db
+      .select({
+        payment: payments,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        flatNumber: users.flatNumber,
+      })
+      .from(payments)
+      .innerJoin(users, eq(payments.residentId, users.id))
+      .where(and(
+        eq(payments.societyId, societyId),
+        eq(payments.status, 'success'),
+        inArray(payments.method, [...offlinePaymentMethods]),
+        isNull(payments.reconciledAt),
+      ))
+      .orderBy(desc(payments.paidAt));
+
+    const withAllocations = await this.attachAllocations(rows.map(row => row.payment));
+    return withAllocations.map((payment, index) => ({
+      ...payment,
+      residentName: `${rows[index].firstName || ''} ${rows[index].lastName || ''}`.trim(),
+      flatNumber: rows[index].flatNumber,
+    }));
+  }
+
+  async markPaymentsReconciled(societyId: string, matches: { paymentId: string; statementReference: string }[]): Promise<number> {
+    return await db.transaction(async (tx) => {
+      let reconciled = 0;
+      for (const match of matches) {
+        const updated = await tx
+          .update(payments)
+          .set({ reconciledAt: new Date(), statementReference: match.statementReference })
+          .where(and(
+            eq(payments.id, match.paymentId),
+            eq(payments.societyId, societyId),
+            isNull(payments.reconciledAt),
+          ))
+          .returning({ id: payments.id });
+        reconciled += updated.length;
+      }
+      return reconciled;
+    });
+  }
+
+  // Expense operations
+  async getVendors(societyId: string): Promise<Vendor[]> {
+    return await db
+      .select()
+      .from(vendors)
+      .where(eq(vendors.societyId, societyId))
+      .orderBy(vendors.name);
+  }
+
+  async getVendor(id: string): Promise<Vendor | undefined> {
+    const [vendor] = await db.select().from(vendors).where(eq(vendors.id, id));
+    return vendor;
+  }
+
+  async createVendor(vendor: InsertVendor & { societyId: string }): Promise<Vendor> {
+    const [newVendor] = await db.insert(vendors).values(vendor).returning();
+    return newVendor;
+  }
+
+  async updateVendor(id: string, updates: Partial<InsertVendor>): Promise<Vendor> {
+    const [updated] = await db
+      .update(vendors)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(vendors.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getExpensesBySociety(societyId: string): Promise<ExpenseWithVendor[]> {
+    const rows = await db
+      .select({ expense: expenses, vendorName: vendors.name })
+      .from(expenses)
+      .leftJoin(vendors, eq(expenses.vendorId, vendors.id))
+      .where(eq(expenses.societyId, societyId))
+      .orderBy(desc(expenses.createdAt));
+    return rows.map(row => ({ ...row.expense, vendorName: row.vendorName }));
+  }
+
+  async getExpense(id: string): Promise<Expense | undefined> {
+    const [expense] = await db.select().from(expenses).where(eq(expenses.id, id));
+    return expense;
+  }
+
+  async createExpense(expense: InsertExpense & { societyId: string; submittedBy: string }): Promise<Expense> {
+    const [newExpense] = await db.insert(expenses).values(expense).returning();
+    return newExpense;
+  }
+
+  async updateExpense(id: string, updates: Partial<Omit<Expense, 'id' | 'societyId' | 'createdAt'>>): Promise<Expense> {
+    const [updated] = await db
+      .update(expenses)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(expenses.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteExpense(id: string): Promise<void> {
+    await db.delete(expenses).where(eq(expenses.id, id));
+  }
+
+  // Approval books the liability to the vendor; payment settles it
+  async approveExpense(id: string, approvedBy: string): Promise<Expense> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [approved] = await tx
+        .update(expenses)
+        .set({ status: 'approved', approvedBy, approvedAt: now, updatedAt: now })
+        .where(eq(expenses.id, id))
+        .returning();
+
+      await postJournalEntry(tx, {
+        societyId: approved.societyId,
+        entryDate: approved.invoiceDate || now,
+        description: approved.invoiceNumber
+          ? `${approved.description} (invoice ${approved.invoiceNumber})`
+          : approved.description,
+        sourceType: 'expense',
+        sourceId: approved.id,
+        lines: [
+          { account: `expense:${approved.category}`, debit: approved.amount },
+          { account: 'payables', credit: approved.amount },
+        ],
+      });
+      return approved;
+    });
+  }
+
+  async payExpense(id: string, payment: { paymentDate: Date; paymentReference: string | null }): Promise<Expense> {
+    return await db.transaction(async (tx) => {
+      const [paid] = await tx
+        .update(expenses)
+        .set({ ...payment, status: 'paid', updatedAt: new Date() })
+        .where(eq(expenses.id, id))
+        .returning();
+
+      await postJournalEntry(tx, {
+        societyId: paid.societyId,
+        entryDate: payment.paymentDate,
+        description: `Paid: ${paid.description}`,
+        sourceType: 'expense_payment',
+        sourceId: paid.id,
+        lines: [
+          { account: 'payables', debit: paid.amount },
+          { account: 'bank', credit: paid.amount },
+        ],
+      });
+      return paid;
+    });
+  }
+
+  // Financial report operations
+  async getCollectionsByMonth(societyId: string, from: Date, to: Date): Promise<{ month: string; amount: number }[]> {
+    const month = sql<string>`to_char(${payments.paidAt}, 'YYYY-MM')`;
+    const rows = await db
+      .select({ month, amount: sql<number>`COALESCE(SUM(${payments.amount}), 0)` })
+      .from(payments)
+      .where(and(
+        eq(payments.societyId, societyId),
+        eq(payments.status, 'success'),
+        sql`${payments.paidAt} >= ${from} AND ${payments.paidAt} < ${to}`,
+      ))
+      .groupBy(month);
+    return rows.map(row => ({ month: row.month, amount: Number(row.amount) }));
+  }
+
+  async getPaidExpensesByMonth(societyId: string, from: Date, to: Date): Promise<{ month: string; amount: number }[]> {
+    const month = sql<string>`to_char(${expenses.paymentDate}, 'YYYY-MM')`;
+    const rows = await db
+      .select({ month, amount: sql<number>`COALESCE(SUM(${expenses.amount}), 0)` })
+      .from(expenses)
+      .where(and(
+        eq(expenses.societyId, societyId),
+        eq(expenses.status, 'paid'),
+        sql`${expenses.paymentDate} >= ${from} AND ${expenses.paymentDate} < ${to}`,
+      ))
+      .groupBy(month);
+    return rows.map(row => ({ month: row.month, amount: Number(row.amount) }));
+  }
+
+  async getPaidExpensesByCategory(societyId: string, from: Date, to: Date): Promise<{ category: Expense["category"]; amount: number }[]> {
+    const rows = await db
+      .select({ category: expenses.category, amount: sql<number>`COALESCE(SUM(${expenses.amount}), 0)` })
+      .from(expenses)
+      .where(and(
+        eq(expenses.societyId, societyId),
+        eq(expenses.status, 'paid'),
+        sql`${expenses.paymentDate} >= ${from} AND ${expenses.paymentDate} < ${to}`,
+      ))
+      .groupBy(expenses.category);
+    return rows
+      .map(row => ({ category: row.category, amount: Number(row.amount) }))
+      .sort((a, b) => b.amount - a.amount);
+  }
+
+  async getBilledAmount(societyId: string, fromMonth: string, toMonth: string): Promise<number> {
+    const [billed] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${maintenanceBills.amount}), 0)` })
+      .from(maintenanceBills)
+      .where(and(
+        eq(maintenanceBills.societyId, societyId),
+        sql`${maintenanceBills.billingMonth} >= ${fromMonth} AND ${maintenanceBills.billingMonth} <= ${toMonth}`,
+      ));
+    return Number(billed.total);
+  }
+
+  // Accounting ledger operations
+  async getLedgerAccounts(societyId: string): Promise<LedgerAccount[]> {
+    return await db
+      .select()
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.societyId, societyId))
+      .orderBy(ledgerAccounts.code);
+  }
+
+  // Ranges include from and exclude to; a null from means since the first entry
+  async getAccountTotals(societyId: string, from: Date | null, to: Date): Promise<{ accountId: string; debit: number; credit: number }[]> {
+    const rows = await db
+      .select({
+        accountId: journalLines.accountId,
+        debit: sql<number>`COALESCE(SUM(${journalLines.debit}), 0)`,
+        credit: sql<number>`COALESCE(SUM(${journalLines.credit}), 0)`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .where(and(
+        eq(journalEntries.societyId, societyId),
+        from ? sql`${journalEntries.entryDate} >= ${from}` : undefined,
+        sql`${journalEntries.entryDate} < ${to}`,
+      ))
+      .groupBy(journalLines.accountId);
+    return rows.map(row => ({ accountId: row.accountId, debit: Number(row.debit), credit: Number(row.credit) }));
+  }
+
+  async getJournalEntries(societyId: string, from: Date | null, to: Date): Promise<JournalEntryWithLines[]> {
+    const entries = await db
+      .select()
+      .from(journalEntries)
+      .where(and(
+        eq(journalEntries.societyId, societyId),
+        from ? sql`${journalEntries.entryDate} >= ${from}` : undefined,
+        sql`${journalEntries.entryDate} < ${to}`,
+      ))
+      .orderBy(desc(journalEntries.entryDate), desc(journalEntries.createdAt));
+    if (entries.length === 0) return [];
+
+    const lines = await db
+      .select({ line: journalLines, accountCode: ledgerAccounts.code, accountName: ledgerAccounts.name })
+      .from(journalLines)
+      .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+      .where(inArray(journalLines.entryId, entries.map(entry => entry.id)));
+
+    return entries.map(entry => ({
+      ...entry,
+      lines: lines
+        .filter(row => row.line.entryId === entry.id)
+        .map(row => ({ ...row.line, accountCode: row.accountCode, accountName: row.accountName })),
+    }));
+  }
+
+  // Society fund operations
+  async getFunds(societyId: string): Promise<Fund[]> {
+    return await db
+      .select()
+      .from(funds)
+      .where(eq(funds.societyId, societyId))
+      .orderBy(funds.createdAt);
+  }
+
+  async getFund(id: string): Promise<Fund | undefined> {
+    const [fund] = await db.select().from(funds).where(eq(funds.id, id));
+    return fund;
+  }
+
+  async createFund(fund: InsertFund & { societyId: string }): Promise<Fund> {
+    return await db.transaction(async (tx) => {
+      const [newFund] = await tx.insert(funds).values(fund).returning();
+      await createFundAccount(tx, newFund);
+      return newFund;
+    });
+  }
+
+  async updateFund(id: string, updates: Partial<InsertFund>): Promise<Fund> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(funds)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(funds.id, id))
+        .returning();
+
+      // Keep the fund's ledger account named after the fund
+      if (updates.name) {
+        await tx
+          .update(ledgerAccounts)
+          .set({ name: updates.name })
+          .where(and(eq(ledgerAccounts.societyId, updated.societyId), eq(ledgerAccounts.systemKey, `fund:${id}`)));
+      }
+      return updated;
+    });
+  }
+
+  // A fund's balance is its ledger account: contributions credit it, withdrawals debit it
+  async getFundBalances(societyId: string): Promise<{ fundId: string; balance: number }[]> {
+    const rows = await db
+      .select({
+        systemKey: ledgerAccounts.systemKey,
+        balance: sql<number>`COALESCE(SUM(${journalLines.credit} - ${journalLines.debit}), 0)`,
+      })
+      .from(ledgerAccounts)
+      .leftJoin(journalLines, eq(journalLines.accountId, ledgerAccounts.id))
+      .where(and(eq(ledgerAccounts.societyId, societyId), like(ledgerAccounts.systemKey, 'fund:%')))
+      .groupBy(ledgerAccounts.systemKey);
+    return rows.map(row => ({ fundId: row.systemKey!.slice('fund:'.length), balance: Number(row.balance) }));
+  }
+
+  async getFundLedgerLines(fundId: string, to: Date): Promise<{ entryId: string; entryDate: Date; description: string; sourceType: JournalEntry["sourceType"]; debit: number; credit: number }[]> {
+    return await db
+      .select({
+        entryId: journalEntries.id,
+        entryDate: journalEntries.entryDate,
+        description: journalEntries.description,
+        sourceType: journalEntries.sourceType,
+        debit: journalLines.debit,
+        credit: journalLines.credit,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+      .where(and(
+        eq(ledgerAccounts.systemKey, `fund:${fundId}`),
+        sql`${journalEntries.entryDate} < ${to}`,
+      ))
+      .orderBy(asc(journalEntries.entryDate), asc(journalEntries.createdAt));
+  }
+
+  async getFundWithdrawalsBySociety(societyId: string): Promise<(FundWithdrawal & { fundName: string; vendorName: string | null; poll: Poll })[]> {
+    const rows = await db
+      .select({ withdrawal: fundWithdrawals, fundName: funds.name, vendorName: vendors.name, poll: polls })
+      .from(fundWithdrawals)
+      .innerJoin(funds, eq(fundWithdrawals.fundId, funds.id))
+      .innerJoin(polls, eq(fundWithdrawals.pollId, polls.id))
+      .leftJoin(vendors, eq(fundWithdrawals.vendorId, vendors.id))
+      .where(eq(fundWithdrawals.societyId, societyId))
+      .orderBy(desc(fundWithdrawals.createdAt));
+    return rows.map(row => ({ ...row.withdrawal, fundName: row.fundName, vendorName: row.vendorName, poll: row.poll }));
+  }
+
+  async getFundWithdrawal(id: string): Promise<FundWithdrawal | undefined> {
+    const [withdrawal] = await db.select().from(fundWithdrawals).where(eq(fundWithdrawals.id, id));
+    return withdrawal;
+  }
+
+  async getFundWithdrawalByPoll(pollId: string): Promise<FundWithdrawal | undefined> {
+    const [withdrawal] = await db.select().from(fundWithdrawals).where(eq(fundWithdrawals.pollId, pollId));
+    return withdrawal;
+  }
+
+  // The approval poll and the request are created together so a withdrawal never exists without its vote
+  async createFundWithdrawal(
+    withdrawal: InsertFundWithdrawal & { fundId: string; societyId: string; requestedBy: string },
+    poll: Omit<InsertPoll, 'societyId' | 'createdById'>,
+    options: string[],
+  ): Promise<{ withdrawal: FundWithdrawal; poll: Poll }> {
+    return await db.transaction(async (tx) => {
+      const [newPoll] = await tx
+        .insert(polls)
+        .values({ ...poll, societyId: withdrawal.societyId, createdById: withdrawal.requestedBy })
+        .returning();
+      await tx.insert(pollOptions).values(options.map((optionText, orderIndex) => ({ pollId: newPoll.id, optionText, orderIndex })));
+      const [newWithdrawal] = await tx
+        .insert(fundWithdrawals)
+        .values({ ...withdrawal, pollId: newPoll.id })
+        .returning();
+      return { withdrawal: newWithdrawal, poll: newPoll };
+    });
+  }
+
+  async closeFundWithdrawal(id: string, status: 'rejected' | 'cancelled'): Promise<FundWithdrawal> {
+    return await db.transaction(async (tx) => {
+      const [closed] = await tx
+        .update(fundWithdrawals)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(fundWithdrawals.id, id))
+        .returning();
+      await tx
+        .update(polls)
+        .set({ status: 'closed', updatedAt: new Date() })
+        .where(eq(polls.id, closed.pollId));
+      return closed;
+    });
+  }
+
+  // Returns undefined when the withdrawal is no longer pending, e.g. after a concurrent disbursal
+  async disburseFundWithdrawal(id: string, payment: { disbursedAt: Date; paymentReference: string | null }): Promise<FundWithdrawal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [disbursed] = await tx
+        .update(fundWithdrawals)
+        .set({ ...payment, status: 'disbursed', updatedAt: new Date() })
+        .where(and(eq(fundWithdrawals.id, id), eq(fundWithdrawals.status, 'pending')))
+        .returning();
+      if (!disbursed) return undefined;
+
+      await tx
+        .update(polls)
+        .set({ status: 'closed', updatedAt: new Date() })
+        .where(eq(polls.id, disbursed.pollId));
+      await postJournalEntry(tx, {
+        societyId: disbursed.societyId,
+        entryDate: payment.disbursedAt,
+        description: `Withdrawal: ${disbursed.purpose}`,
+        sourceType: 'fund_withdrawal',
+        sourceId: disbursed.id,
+        lines: [
+          { account: `fund:${disbursed.fundId}`, debit: disbursed.amount },
+          { account: 'bank', credit: disbursed.amount },
+        ],
+      });
+      return disbursed;
+    });
+  }
+
+  // GST operations
+  async getTaxSettings(societyId: string): Promise<TaxSettings | undefined> {
+    const [settings] = await db.select().from(taxSettings).where(eq(taxSettings.societyId, societyId));
+    return settings;
+  }
+
+  async upsertTaxSettings(societyId: string, settings: InsertTaxSettings): Promise<TaxSettings> {
+    const [saved] = await db
+      .insert(taxSettings)
+      .values({ ...settings, societyId })
+      .onConflictDoUpdate({
+        target: taxSettings.societyId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Complaint assignee operations
+  async getStaffMembers(societyId: string): Promise<StaffMember[]> {
+    return await db
+      .select()
+      .from(staffMembers)
+      .where(eq(staffMembers.societyId, societyId))
+      .orderBy(staffMembers.name);
+  }
+
+  async getStaffMember(id: string): Promise<StaffMember | undefined> {
+    const [staffMember] = await db.select().from(staffMembers).where(eq(staffMembers.id, id));
+    return staffMember;
+  }
+
+  async getStaffMemberByUser(userId: string): Promise<StaffMember | undefined> {
+    const [staffMember] = await db.select().from(staffMembers).where(eq(staffMembers.userId, userId));
+    return staffMember;
+  }
+
+  async createStaffMember(staffMember: InsertStaffMember & { societyId: string }): Promise<StaffMember> {
+    const [newStaffMember] = await db.insert(staffMembers).values(staffMember).returning();
+    return newStaffMember;
+  }
+
+  async updateStaffMember(id: string, updates: Partial<InsertStaffMember>): Promise<StaffMember> {
+    const [updated] = await db
+      .update(staffMembers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(staffMembers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getVendorByUser(userId: string): Promise<Vendor | undefined> {
+    const [vendor] = await db.select().from(vendors).where(eq(vendors.userId, userId));
+    return vendor;
+  }
+
+  // The login and its link to the staff member or vendor are created together
+  async createAssigneeLogin(
+    assignee: { type: ComplaintAssigneeType; id: string },
+    login: { email: string; password: string; firstName: string; societyId: string },
+  ): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [newUser] = await tx
+        .insert(users)
+        .values({ ...login, role: 'staff' })
+        .returning();
+
+      if (assignee.type === 'staff') {
+        await tx
+          .update(staffMembers)
+          .set({ userId: newUser.id, updatedAt: new Date() })
+          .where(eq(staffMembers.id, assignee.id));
+      } else {
+        await tx
+          .update(vendors)
+          .set({ userId: newUser.id, updatedAt: new Date() })
+          .where(eq(vendors.id, assignee.id));
+      }
+      return newUser;
+    });
+  }
+
+  // Dashboard stats
+  async getSocietyStats(societyId: string): Promise<{
+    totalResidents: number;
+    openComplaints: number;
+    facilityBookings: number;
+    pendingDues: number;
+    pendingPenalties: number;
+  }> {
+    const [residentsCount] = await db
+      .select({ count: count() })
+      .from(users)
+      .where(and(eq(users.societyId, societyId), eq(users.role, 'resident')));
 
     const [complaintsCount] = await db
       .select({ count: count() })
@@ -531,15 +3026,26 @@ export class DatabaseStorage implements IStorage {
       .where(eq(facilityBookings.societyId, societyId));
 
     const [duesSum] = await db
-      .select({ total: sql<number>`COALESCE(SUM(${maintenanceBills.amount}), 0)` })
+      .select({ total: sql<number>`COALESCE(SUM(${maintenanceBills.amount} - ${maintenanceBills.amountPaid}), 0)` })
       .from(maintenanceBills)
       .where(and(eq(maintenanceBills.societyId, societyId), eq(maintenanceBills.isPaid, false)));
 
+    const [penaltiesSum] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${billLineItems.amount}), 0)` })
+      .from(billLineItems)
+      .innerJoin(maintenanceBills, eq(billLineItems.billId, maintenanceBills.id))
+      .where(and(
+        eq(maintenanceBills.societyId, societyId),
+        eq(maintenanceBills.isPaid, false),
+        eq(billLineItems.kind, 'penalty'),
+      ));
+
     return {
       totalResidents: residentsCount.count,
       openComplaints: complaintsCount.count,
       facilityBookings: bookingsCount.count,
       pendingDues: Number(duesSum.total),
+      pendingPenalties: Number(penaltiesSum.total),
     };
   }
 
@@ -553,9 +3059,8 @@ export class DatabaseStorage implements IStorage {
     const [usersCount] = await db.select({ count: count() }).from(users);
     
     const [revenueSum] = await db
-      .select({ total: sql<number>`COALESCE(SUM(${maintenanceBills.amount}), 0)` })
-      .from(maintenanceBills)
-      .where(eq(maintenanceBills.isPaid, true));
+      .select({ total: sql<number>`COALESCE(SUM(${maintenanceBills.amountPaid}), 0)` })
+      .from(maintenanceBills);
 
     return {
       totalSocieties: societiesCount.count,
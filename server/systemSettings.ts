@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+// System Settings Schema
+export const systemSettingsSchema = z.object({
+  security: z.object({
+    sessionTimeout: z.number().min(5).max(480),
+    enforceStrongPasswords: z.boolean(),
+    enableTwoFactor: z.boolean(),
+    maxLoginAttempts: z.number().min(1).max(20),
+  }),
+  notifications: z.object({
+    emailNotifications: z.boolean(),
+    smsNotifications: z.boolean(),
+    pushNotifications: z.boolean(),
+    maintenanceAlerts: z.boolean(),
+  }),
+  system: z.object({
+    maintenanceMode: z.boolean(),
+    autoBackup: z.boolean(),
+    logRetention: z.number().min(1).max(365),
+    maxFileSize: z.number().min(1).max(100),
+  }),
+  application: z.object({
+    systemName: z.string().min(1).max(100),
+    contactEmail: z.string().email(),
+    maxSocieties: z.number().min(1).max(1000),
+    defaultLanguage: z.string().min(2).max(5),
+  })
+});
+
+export type SystemSettings = z.infer<typeof systemSettingsSchema>;
+
+// In-memory system settings storage (in production, this would be in database)
+let systemSettings: SystemSettings = {
+  security: {
+    sessionTimeout: 60,
+    enforceStrongPasswords: true,
+    enableTwoFactor: false,
+    maxLoginAttempts: 5,
+  },
+  notifications: {
+    emailNotifications: true,
+    smsNotifications: false,
+    pushNotifications: true,
+    maintenanceAlerts: true,
+  },
+  system: {
+    maintenanceMode: false,
+    autoBackup: true,
+    logRetention: 30,
+    maxFileSize: 10,
+  },
+  application: {
+    systemName: "SocietyHub",
+    contactEmail: "admin@societyhub.com",
+    maxSocieties: 100,
+    defaultLanguage: "en",
+  }
+};
+
+export function getSystemSettings(): SystemSettings {
+  return systemSettings;
+}
+
+export function updateSystemSettings(settings: SystemSettings): SystemSettings {
+  systemSettings = settings;
+  return systemSettings;
+}
+
+// The upload size limit is set in megabytes by the super admin
+export function getMaxUploadBytes(): number {
+  return systemSettings.system.maxFileSize * 1024 * 1024;
+}
@@ -0,0 +1,99 @@
+import type { BillLineItem, MaintenanceBillWithLineItems, TaxConfiguration, TaxSettings, TaxSummary } from "@shared/schema";
+import { storage } from "./storage";
+
+export const defaultTaxSettings: Omit<TaxSettings, 'societyId' | 'updatedAt'> = {
+  isEnabled: false,
+  gstRate: 1800,
+  exemptionLimit: 7500,
+  sacCode: "999598",
+  invoicePrefix: "INV",
+};
+
+// Line kinds that make up the invoiced value; penalties and adjustments are added to the bill later
+const invoicedKinds: BillLineItem["kind"][] = ["charge", "fund_contribution", "cgst", "sgst"];
+
+// Once a flat's monthly charges cross the exemption limit GST is due on the whole amount, not only the excess
+export function computeGst(
+  taxableAmount: number,
+  settings: TaxSettings | undefined,
+): { taxableAmount: number; cgstAmount: number; sgstAmount: number } {
+  if (!settings?.isEnabled || taxableAmount <= settings.exemptionLimit) {
+    return { taxableAmount: 0, cgstAmount: 0, sgstAmount: 0 };
+  }
+
+  // Supplies within the state split GST equally between the centre and the state
+  const halfTax = Math.round((taxableAmount * settings.gstRate) / 2 / 10000);
+  return { taxableAmount, cgstAmount: halfTax, sgstAmount: halfTax };
+}
+
+export function formatGstRate(basisPoints: number): string {
+  return `${basisPoints / 100}%`;
+}
+
+export function getInvoiceTotal(bill: MaintenanceBillWithLineItems): number {
+  return bill.lineItems
+    .filter(item => invoicedKinds.includes(item.kind))
+    .reduce((sum, item) => sum + item.amount, 0);
+}
+
+export async function getTaxConfiguration(societyId: string): Promise<TaxConfiguration> {
+  const [settings, society] = await Promise.all([
+    storage.getTaxSettings(societyId),
+    storage.getSociety(societyId),
+  ]);
+  const configured = settings || defaultTaxSettings;
+  return {
+    isEnabled: configured.isEnabled,
+    gstRate: configured.gstRate,
+    exemptionLimit: configured.exemptionLimit,
+    sacCode: configured.sacCode,
+    invoicePrefix: configured.invoicePrefix,
+    gstin: society?.gstin || null,
+  };
+}
+
+export async function buildTaxSummary(societyId: string, billingMonth: string): Promise<TaxSummary> {
+  const [configuration, bills, residents] = await Promise.all([
+    getTaxConfiguration(societyId),
+    storage.getMaintenanceBillsBySociety(societyId, billingMonth),
+    storage.getResidentsBySociety(societyId),
+  ]);
+
+  const invoices = bills
+    .filter(bill => bill.invoiceNumber)
+    .map(bill => {
+      const resident = residents.find(row => row.id === bill.residentId);
+      return {
+        billId: bill.id,
+        invoiceNumber: bill.invoiceNumber!,
+        invoiceDate: new Date(bill.createdAt || bill.dueDate).toISOString(),
+        flatNumber: resident?.flatNumber || null,
+        residentName: resident ? `${resident.firstName || ''} ${resident.lastName || ''}`.trim() : '',
+        taxableAmount: bill.taxableAmount,
+        cgstAmount: bill.cgstAmount,
+        sgstAmount: bill.sgstAmount,
+        total: getInvoiceTotal(bill),
+      };
+    })
+    .sort((a, b) => a.invoiceNumber.localeCompare(b.invoiceNumber));
+
+  const taxableAmount = invoices.reduce((sum, invoice) => sum + invoice.taxableAmount, 0);
+  const cgstAmount = invoices.reduce((sum, invoice) => sum + invoice.cgstAmount, 0);
+  const sgstAmount = invoices.reduce((sum, invoice) => sum + invoice.sgstAmount, 0);
+  const totalAmount = invoices.reduce((sum, invoice) => sum + invoice.total, 0);
+
+  return {
+    billingMonth,
+    gstin: configuration.gstin,
+    sacCode: configuration.sacCode,
+    gstRate: configuration.gstRate,
+    invoices,
+    invoiceCount: invoices.length,
+    taxableAmount,
+    // Everything invoiced without GST: flats under the limit and non-taxable charge heads
+    exemptAmount: totalAmount - taxableAmount - cgstAmount - sgstAmount,
+    cgstAmount,
+    sgstAmount,
+    totalAmount,
+  };
+}
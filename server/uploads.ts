@@ -0,0 +1,80 @@
+import express, { type RequestHandler } from "express";
+import path from "path";
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+
+// Uploaded files live on local disk, outside the client build
+const UPLOAD_ROOT = path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export const documentMimeTypes: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+};
+
+// Complaint photos may also come from phones that save WebP
+export const attachmentMimeTypes: Record<string, string> = {
+  ...documentMimeTypes,
+  "image/webp": ".webp",
+};
+
+const THUMBNAIL_SIZE = 320;
+
+// Reads the request body as-is, so files are sent with their own Content-Type instead of multipart.
+// A function limit is read on every request so a changed setting applies without a restart.
+export function rawUpload(limitBytes: number | (() => number) = MAX_UPLOAD_BYTES): RequestHandler {
+  return (req, res, next) => {
+    const limit = typeof limitBytes === "function" ? limitBytes() : limitBytes;
+    express.raw({ type: () => true, limit })(req, res, (err?: any) => {
+      if (err?.type === "entity.too.large") {
+        return res.status(413).json({ message: `Files must be ${Math.floor(limit / (1024 * 1024))} MB or smaller` });
+      }
+      next(err);
+    });
+  };
+}
+
+// The declared Content-Type is client controlled, so it must agree with the file's leading bytes
+export function detectMimeType(body: Buffer): string | null {
+  if (body.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  if (body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff) return "image/jpeg";
+  if (body.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (body.subarray(0, 4).toString("latin1") === "RIFF" && body.subarray(8, 12).toString("latin1") === "WEBP") return "image/webp";
+  return null;
+}
+
+export async function saveUpload(folder: string, body: Buffer, mimeType: string): Promise<string> {
+  const relativePath = path.join(folder, `${randomUUID()}${attachmentMimeTypes[mimeType] || ""}`);
+  const absolutePath = resolveUpload(relativePath);
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.writeFile(absolutePath, body);
+  return relativePath;
+}
+
+export function resolveUpload(relativePath: string): string {
+  const absolutePath = path.resolve(UPLOAD_ROOT, relativePath);
+  if (!absolutePath.startsWith(UPLOAD_ROOT + path.sep)) {
+    throw new Error("Upload path escapes the upload directory");
+  }
+  return absolutePath;
+}
+
+export async function deleteUpload(relativePath: string): Promise<void> {
+  await fs.rm(resolveUpload(relativePath), { force: true });
+}
+
+export function isImageMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("image/");
+}
+
+// Small JPEG previews keep attachment lists light; EXIF orientation is applied so phone photos stay upright
+export async function createThumbnail(body: Buffer): Promise<Buffer> {
+  return await sharp(body)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+}
@@ -28,11 +28,17 @@ export const sessions = pgTable(
 );
 
 // User roles enum
-export const userRoleEnum = pgEnum('user_role', ['super_admin', 'admin', 'resident']);
+export const userRoleEnum = pgEnum('user_role', ['super_admin', 'admin', 'resident', 'staff']);
 
 // Complaint status enum
 export const complaintStatusEnum = pgEnum('complaint_status', ['open', 'in_progress', 'resolved', 'closed']);
 
+// Complaint assignee type enum
+export const complaintAssigneeTypeEnum = pgEnum('complaint_assignee_type', ['staff', 'vendor']);
+
+// Complaint scope enum
+export const complaintScopeEnum = pgEnum('complaint_scope', ['in_flat', 'common_area']);
+
 // Facility booking status enum
 export const bookingStatusEnum = pgEnum('booking_status', ['pending', 'approved', 'rejected', 'cancelled']);
 
@@ -66,6 +72,8 @@ export const societies = pgTable("societies", {
   adminId: varchar("admin_id"),
   totalFlats: integer("total_flats").default(0),
   totalParkingSlots: integer("total_parking_slots").default(0),
+  gstin: varchar("gstin"), // GST registration number printed on tax invoices
+  complaintConfirmationDays: integer("complaint_confirmation_days").default(7).notNull(), // resolved complaints close on their own after this
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -88,27 +96,64 @@ export const complaints = pgTable("complaints", {
   title: varchar("title").notNull(),
   description: text("description").notNull(),
   category: varchar("category").notNull(), // plumbing, electrical, security, etc.
+  scope: complaintScopeEnum("scope").default('in_flat').notNull(),
+  location: varchar("location"), // the resident's flat for in-flat complaints, e.g. "Tower B lift" for common areas
   status: complaintStatusEnum("status").default('open'),
   priority: varchar("priority").default('medium'), // low, medium, high
   residentId: varchar("resident_id").notNull(),
   societyId: varchar("society_id").notNull(),
-  assignedTo: varchar("assigned_to"), // staff/vendor id
+  assignedTo: varchar("assigned_to"), // staff member or vendor id, see assigneeType
+  assigneeType: complaintAssigneeTypeEnum("assignee_type"),
+  assignedAt: timestamp("assigned_at"),
+  firstRespondedAt: timestamp("first_responded_at"), // first action or reply by anyone other than the resident
   resolutionNotes: text("resolution_notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   resolvedAt: timestamp("resolved_at"),
+  closedAt: timestamp("closed_at"),
+  reopenCount: integer("reopen_count").default(0).notNull(),
+  rating: integer("rating"), // 1-5, given by the resident once the complaint is closed
+  feedback: text("feedback"),
+  ratedAt: timestamp("rated_at"),
+  parentId: varchar("parent_id"), // the complaint this duplicate was merged into
+  mergedAt: timestamp("merged_at"),
 });
 
+// Facility cancellation windows, checked from the longest notice down
+export interface FacilityCancellationTier {
+  hoursBefore: number; // cancelling at least this long before the start...
+  refundPercent: number; // ...refunds this share of the usage charge
+}
+
+export const DEFAULT_CANCELLATION_TIERS: FacilityCancellationTier[] = [
+  { hoursBefore: 48, refundPercent: 100 },
+  { hoursBefore: 24, refundPercent: 50 },
+];
+
 // Facilities table
 export const facilities = pgTable("facilities", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
   societyId: varchar("society_id").notNull(),
   description: text("description"),
-  capacity: integer("capacity").default(1),
+  capacity: integer("capacity").default(1), // bookings that can share a slot
   isAvailable: boolean("is_available").default(true),
   hourlyRate: integer("hourly_rate").default(0), // in rupees
+  openingTime: varchar("opening_time").default('06:00').notNull(), // HH:MM, society local time
+  closingTime: varchar("closing_time").default('22:00').notNull(),
+  slotMinutes: integer("slot_minutes").default(60).notNull(), // bookings start on and run in whole slots
+  rules: text("rules"),
+  // Pricing; peak, weekend and guest rates fall back to hourlyRate when unset
+  peakStartTime: varchar("peak_start_time"), // HH:MM
+  peakEndTime: varchar("peak_end_time"),
+  peakRate: integer("peak_rate"), // in rupees per hour
+  weekendRate: integer("weekend_rate"), // in rupees per hour, Saturdays and Sundays
+  guestRatePercent: integer("guest_rate_percent").default(100).notNull(), // applied on top of the rate for guest bookings
+  securityDeposit: integer("security_deposit").default(0).notNull(), // in rupees, refundable
+  // Refund of the usage charge by notice given; the deposit is always returned on cancellation
+  cancellationTiers: jsonb("cancellation_tiers").$type<FacilityCancellationTier[]>().default(DEFAULT_CANCELLATION_TIERS).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Facility bookings table
@@ -121,8 +166,17 @@ export const facilityBookings = pgTable("facility_bookings", {
   startTime: varchar("start_time").notNull(),
   endTime: varchar("end_time").notNull(),
   status: bookingStatusEnum("status").default('pending'),
-  totalAmount: integer("total_amount").default(0),
+  totalAmount: integer("total_amount").default(0), // in rupees, the usage charge computed by the server
+  depositAmount: integer("deposit_amount").default(0).notNull(), // in rupees, refundable
+  forGuest: boolean("for_guest").default(false).notNull(),
+  paymentMode: varchar("payment_mode", { enum: ["dues", "immediate"] }).default("dues").notNull(),
   notes: text("notes"),
+  seriesId: varchar("series_id"), // set when the booking is one occurrence of a recurring series
+  cancelledAt: timestamp("cancelled_at"), // also set when an admin rejects the request
+  cancelledBy: varchar("cancelled_by"),
+  cancellationReason: text("cancellation_reason"),
+  refundAmount: integer("refund_amount").default(0).notNull(), // in rupees, usage refund plus deposit
+  refundCredit: integer("refund_credit").default(0).notNull(), // in rupees, the part already paid and returned as advance credit
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -150,6 +204,73 @@ export const maintenanceBills = pgTable("maintenance_bills", {
   paidAt: timestamp("paid_at"),
   billingMonth: varchar("billing_month").notNull(),
   description: text("description"),
+  flatId: varchar("flat_id"),
+  amountPaid: integer("amount_paid").default(0).notNull(), // in rupees, including credit applied
+  creditApplied: integer("credit_applied").default(0).notNull(), // in rupees, from the flat's advance balance
+  invoiceNumber: varchar("invoice_number"), // issued when the society charges GST
+  taxableAmount: integer("taxable_amount").default(0).notNull(), // in rupees, the value GST was charged on
+  cgstAmount: integer("cgst_amount").default(0).notNull(), // in rupees
+  sgstAmount: integer("sgst_amount").default(0).notNull(), // in rupees
+  bookingId: varchar("booking_id"), // set on one-off bills for facility booking charges
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // One bill per flat per billing month keeps generation re-runs idempotent; booking bills sit outside it
+  uniqueFlatBillingMonth: uniqueIndex("unique_flat_billing_month").on(table.flatId, table.billingMonth).where(sql`${table.bookingId} IS NULL`),
+}));
+
+// Advance credit held per flat, applied to the next generated bill
+export const flatAccounts = pgTable("flat_accounts", {
+  flatId: varchar("flat_id").primaryKey().references(() => flats.id),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  creditBalance: integer("credit_balance").default(0).notNull(), // in rupees
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Charge head calculation enum
+export const chargeCalculationEnum = pgEnum('charge_calculation', ['per_sqft', 'fixed']);
+
+// Billing charge heads table
+export const chargeHeads = pgTable("charge_heads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  name: varchar("name").notNull(),
+  category: varchar("category", { enum: ["maintenance", "parking", "water", "other"] }).default("maintenance").notNull(),
+  calculation: chargeCalculationEnum("calculation").default('fixed').notNull(),
+  rate: integer("rate").notNull(), // in paise, per sq ft for per_sqft heads
+  // Pass-through charges such as property tax are outside GST
+  isTaxable: boolean("is_taxable").default(true).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Penalty rule type enum
+export const penaltyTypeEnum = pgEnum('penalty_type', ['flat_fee', 'daily_interest', 'monthly_interest']);
+
+// Late-payment penalty rules table
+export const penaltyRules = pgTable("penalty_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  name: varchar("name").notNull(),
+  type: penaltyTypeEnum("type").notNull(),
+  value: integer("value").notNull(), // rupees for flat_fee, basis points per period for interest
+  graceDays: integer("grace_days").default(0).notNull(),
+  capAmount: integer("cap_amount"), // in rupees, per bill
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Bill line items table
+export const billLineItems = pgTable("bill_line_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  billId: varchar("bill_id").notNull().references(() => maintenanceBills.id, { onDelete: "cascade" }),
+  chargeHeadId: varchar("charge_head_id"),
+  kind: varchar("kind", { enum: ["charge", "fund_contribution", "cgst", "sgst", "penalty", "bounce_charge", "adjustment", "facility_charge", "security_deposit"] }).default("charge").notNull(),
+  penaltyRuleId: varchar("penalty_rule_id"),
+  fundId: varchar("fund_id"),
+  description: varchar("description").notNull(),
+  amount: integer("amount").notNull(), // in rupees
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -235,7 +356,7 @@ export const announcementsRelations = relations(announcements, ({ one }) => ({
   }),
 }));
 
-export const maintenanceBillsRelations = relations(maintenanceBills, ({ one }) => ({
+export const maintenanceBillsRelations = relations(maintenanceBills, ({ one, many }) => ({
   resident: one(users, {
     fields: [maintenanceBills.residentId],
     references: [users.id],
@@ -244,6 +365,40 @@ export const maintenanceBillsRelations = relations(maintenanceBills, ({ one }) =
     fields: [maintenanceBills.societyId],
     references: [societies.id],
   }),
+  flat: one(flats, {
+    fields: [maintenanceBills.flatId],
+    references: [flats.id],
+  }),
+  lineItems: many(billLineItems),
+}));
+
+export const chargeHeadsRelations = relations(chargeHeads, ({ one }) => ({
+  society: one(societies, {
+    fields: [chargeHeads.societyId],
+    references: [societies.id],
+  }),
+}));
+
+export const penaltyRulesRelations = relations(penaltyRules, ({ one }) => ({
+  society: one(societies, {
+    fields: [penaltyRules.societyId],
+    references: [societies.id],
+  }),
+}));
+
+export const billLineItemsRelations = relations(billLineItems, ({ one }) => ({
+  bill: one(maintenanceBills, {
+    fields: [billLineItems.billId],
+    references: [maintenanceBills.id],
+  }),
+  chargeHead: one(chargeHeads, {
+    fields: [billLineItems.chargeHeadId],
+    references: [chargeHeads.id],
+  }),
+  penaltyRule: one(penaltyRules, {
+    fields: [billLineItems.penaltyRuleId],
+    references: [penaltyRules.id],
+  }),
 }));
 
 // Insert schemas
@@ -259,11 +414,27 @@ export const insertSocietySchema = createInsertSchema(societies).omit({
   updatedAt: true,
 });
 
-export const insertComplaintSchema = createInsertSchema(complaints).omit({
+export const insertComplaintSchema = createInsertSchema(complaints, {
+  location: z.string().trim().max(100).optional().nullable(),
+}).omit({
   id: true,
+  // New complaints always start open; later states only come through the status transitions
+  status: true,
+  resolutionNotes: true,
+  assignedTo: true,
+  assigneeType: true,
+  assignedAt: true,
+  firstRespondedAt: true,
   createdAt: true,
   updatedAt: true,
   resolvedAt: true,
+  closedAt: true,
+  reopenCount: true,
+  rating: true,
+  feedback: true,
+  ratedAt: true,
+  parentId: true,
+  mergedAt: true,
 });
 
 export const insertFacilityBookingSchema = createInsertSchema(facilityBookings).omit({
@@ -277,6 +448,36 @@ export const insertAnnouncementSchema = createInsertSchema(announcements).omit({
   createdAt: true,
 });
 
+export const insertMaintenanceBillSchema = createInsertSchema(maintenanceBills).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertChargeHeadSchema = createInsertSchema(chargeHeads, {
+  name: z.string().min(1, "Name is required"),
+  rate: z.number().int().min(0, "Rate cannot be negative"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPenaltyRuleSchema = createInsertSchema(penaltyRules, {
+  name: z.string().min(1, "Name is required"),
+  value: z.number().int().min(0, "Value cannot be negative"),
+  graceDays: z.number().int().min(0, "Grace days cannot be negative"),
+  capAmount: z.number().int().min(0, "Cap cannot be negative").nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertBillLineItemSchema = createInsertSchema(billLineItems).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Auth user schema (allows setting ID for Replit Auth)
 export const upsertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
@@ -293,11 +494,19 @@ export type Facility = typeof facilities.$inferSelect;
 export type FacilityBooking = typeof facilityBookings.$inferSelect;
 export type Announcement = typeof announcements.$inferSelect;
 export type MaintenanceBill = typeof maintenanceBills.$inferSelect;
+export type FlatAccount = typeof flatAccounts.$inferSelect;
+export type ChargeHead = typeof chargeHeads.$inferSelect;
+export type BillLineItem = typeof billLineItems.$inferSelect;
+export type PenaltyRule = typeof penaltyRules.$inferSelect;
 
 export type InsertSociety = z.infer<typeof insertSocietySchema>;
 export type InsertComplaint = z.infer<typeof insertComplaintSchema>;
 export type InsertFacilityBooking = z.infer<typeof insertFacilityBookingSchema>;
 export type InsertAnnouncement = z.infer<typeof insertAnnouncementSchema>;
+export type InsertMaintenanceBill = z.infer<typeof insertMaintenanceBillSchema>;
+export type InsertChargeHead = z.infer<typeof insertChargeHeadSchema>;
+export type InsertBillLineItem = z.infer<typeof insertBillLineItemSchema>;
+export type InsertPenaltyRule = z.infer<typeof insertPenaltyRuleSchema>;
 
 // API Response Types
 export interface SocietyStats {
@@ -305,6 +514,59 @@ export interface SocietyStats {
   openComplaints: number;
   facilityBookings: number;
   pendingDues: number;
+  pendingPenalties: number;
+}
+
+export interface MaintenanceBillWithLineItems extends MaintenanceBill {
+  lineItems: BillLineItem[];
+}
+
+export interface BillPreviewLine {
+  kind: "charge" | "fund_contribution" | "cgst" | "sgst";
+  chargeHeadId: string | null;
+  fundId: string | null;
+  description: string;
+  amount: number;
+}
+
+export interface BillPreview {
+  flatId: string;
+  flatNumber: string;
+  residentId: string;
+  billingMonth: string;
+  dueDate: string;
+  amount: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  lineItems: BillPreviewLine[];
+  warnings: string[];
+  alreadyBilled: boolean;
+}
+
+export interface FlatBalance {
+  flatId: string | null;
+  flatNumber: string | null;
+  residentId: string | null;
+  outstanding: number;
+  credit: number;
+}
+
+export interface BillPenaltyLine {
+  penaltyRuleId: string;
+  description: string;
+  amount: number;
+}
+
+export interface BillPenaltyPreview {
+  billId: string;
+  residentId: string;
+  billingMonth: string;
+  baseAmount: number; // the bill before penalties, gross of payments
+  interestBase: number; // the part of baseAmount unpaid on the date; each overdue period is charged on what was unpaid then
+  daysOverdue: number;
+  penalties: BillPenaltyLine[];
+  penaltyTotal: number;
 }
 
 export interface GlobalStats {
@@ -461,3 +723,1352 @@ export const insertMarketplaceItemSchema = createInsertSchema(marketplaceItems).
 });
 
 export type InsertMarketplaceItem = z.infer<typeof insertMarketplaceItemSchema>;
+
+
+// Payment gateway tables
+export const paymentIntentStatusEnum = pgEnum("payment_intent_status", ["created", "succeeded", "failed", "cancelled"]);
+
+export const paymentIntents = pgTable("payment_intents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  residentId: varchar("resident_id").notNull().references(() => users.id),
+  billIds: text("bill_ids").array().notNull(),
+  amount: integer("amount").notNull(), // in rupees
+  method: varchar("method", { enum: ["card", "upi", "netbanking"] }).notNull(),
+  provider: varchar("provider").notNull(),
+  providerReference: varchar("provider_reference").notNull().unique(),
+  status: paymentIntentStatusEnum("status").default("created").notNull(),
+  failureReason: text("failure_reason"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every provider event is recorded once so duplicate webhook deliveries are ignored
+export const paymentWebhookEvents = pgTable("payment_webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(),
+  eventId: varchar("event_id").notNull(),
+  type: varchar("type").notNull(),
+  paymentIntentId: varchar("payment_intent_id").references(() => paymentIntents.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueProviderEvent: uniqueIndex("unique_provider_event").on(table.provider, table.eventId),
+}));
+
+// Payment gateway relations
+export const paymentIntentsRelations = relations(paymentIntents, ({ one }) => ({
+  society: one(societies, {
+    fields: [paymentIntents.societyId],
+    references: [societies.id],
+  }),
+  resident: one(users, {
+    fields: [paymentIntents.residentId],
+    references: [users.id],
+  }),
+}));
+
+// Payment gateway types
+export type PaymentIntent = typeof paymentIntents.$inferSelect;
+export type PaymentWebhookEvent = typeof paymentWebhookEvents.$inferSelect;
+
+// Payment gateway insert schemas
+export const insertPaymentIntentSchema = createInsertSchema(paymentIntents).omit({
+  id: true,
+  status: true,
+  failureReason: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertPaymentIntent = z.infer<typeof insertPaymentIntentSchema>;
+
+// Payment ledger tables
+export const paymentStatusEnum = pgEnum("payment_status", ["success", "pending", "failed", "reversed"]);
+
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  residentId: varchar("resident_id").notNull().references(() => users.id),
+  paymentIntentId: varchar("payment_intent_id").references(() => paymentIntents.id),
+  flatId: varchar("flat_id").references(() => flats.id),
+  amount: integer("amount").notNull(), // in rupees
+  creditAmount: integer("credit_amount").default(0).notNull(), // in rupees, held as advance after allocation
+  method: varchar("method", { enum: ["card", "upi", "netbanking", "cash", "cheque", "bank_transfer"] }).notNull(),
+  reference: varchar("reference"), // gateway reference
+  status: paymentStatusEnum("status").default("pending").notNull(),
+  receiptNumber: varchar("receipt_number"),
+  description: text("description"),
+  // Offline payments recorded by an admin
+  instrumentNumber: varchar("instrument_number"), // cheque number or bank transfer UTR
+  bankName: varchar("bank_name"),
+  instrumentDate: timestamp("instrument_date"),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  bouncedAt: timestamp("bounced_at"),
+  bounceReason: text("bounce_reason"),
+  bounceCharge: integer("bounce_charge").default(0).notNull(), // in rupees
+  reconciledAt: timestamp("reconciled_at"),
+  statementReference: varchar("statement_reference"), // bank statement line the payment was matched to
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueSocietyReceipt: uniqueIndex("unique_society_receipt").on(table.societyId, table.receiptNumber),
+}));
+
+export const paymentAllocations = pgTable("payment_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id, { onDelete: "cascade" }),
+  billId: varchar("bill_id").notNull().references(() => maintenanceBills.id),
+  amount: integer("amount").notNull(), // in rupees
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Last issued receipt number per society
+export const receiptCounters = pgTable("receipt_counters", {
+  societyId: varchar("society_id").primaryKey().references(() => societies.id),
+  lastNumber: integer("last_number").default(0).notNull(),
+});
+
+// Payment ledger relations
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
+  society: one(societies, {
+    fields: [payments.societyId],
+    references: [societies.id],
+  }),
+  resident: one(users, {
+    fields: [payments.residentId],
+    references: [users.id],
+  }),
+  paymentIntent: one(paymentIntents, {
+    fields: [payments.paymentIntentId],
+    references: [paymentIntents.id],
+  }),
+  allocations: many(paymentAllocations),
+}));
+
+export const paymentAllocationsRelations = relations(paymentAllocations, ({ one }) => ({
+  payment: one(payments, {
+    fields: [paymentAllocations.paymentId],
+    references: [payments.id],
+  }),
+  bill: one(maintenanceBills, {
+    fields: [paymentAllocations.billId],
+    references: [maintenanceBills.id],
+  }),
+}));
+
+// Payment ledger types
+export type Payment = typeof payments.$inferSelect;
+export type PaymentAllocation = typeof paymentAllocations.$inferSelect;
+
+export interface PaymentWithAllocations extends Payment {
+  allocations: (PaymentAllocation & { billingMonth: string })[];
+  residentName?: string;
+  flatNumber?: string | null;
+}
+
+export const offlinePaymentMethods = ["cash", "cheque", "bank_transfer"] as const;
+export type OfflinePaymentMethod = typeof offlinePaymentMethods[number];
+
+// A credit line of an uploaded bank statement
+export interface BankStatementRow {
+  rowNumber: number;
+  date: string; // YYYY-MM-DD
+  description: string;
+  reference: string;
+  amount: number; // in rupees
+}
+
+export interface ReconciliationMatch {
+  row: BankStatementRow;
+  paymentId: string;
+  receiptNumber: string | null;
+  residentName?: string;
+  matchedOn: 'reference' | 'amount_and_date';
+}
+
+export interface ReconciliationResult {
+  matches: ReconciliationMatch[];
+  unmatchedRows: BankStatementRow[];
+  unmatchedPayments: PaymentWithAllocations[];
+  errors: string[];
+}
+
+// Expense tables
+export const expenseCategoryEnum = pgEnum("expense_category", ["staff", "utilities", "security", "cleaning", "repairs", "supplies", "other"]);
+export const expenseStatusEnum = pgEnum("expense_status", ["pending", "approved", "rejected", "paid"]);
+
+export const vendors = pgTable("vendors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  name: varchar("name").notNull(),
+  service: varchar("service"), // e.g. plumbing, security agency
+  contactName: varchar("contact_name"),
+  phone: varchar("phone"),
+  email: varchar("email"),
+  userId: varchar("user_id").references(() => users.id), // staff login used to work assigned complaints
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const expenses = pgTable("expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  category: expenseCategoryEnum("category").notNull(),
+  vendorId: varchar("vendor_id").references(() => vendors.id),
+  description: text("description").notNull(),
+  amount: integer("amount").notNull(), // in rupees
+  invoiceNumber: varchar("invoice_number"),
+  invoiceDate: timestamp("invoice_date"),
+  invoiceFile: varchar("invoice_file"), // path relative to the upload directory
+  invoiceMimeType: varchar("invoice_mime_type"),
+  status: expenseStatusEnum("status").default("pending").notNull(),
+  submittedBy: varchar("submitted_by").notNull().references(() => users.id),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  rejectionReason: text("rejection_reason"),
+  paymentDate: timestamp("payment_date"),
+  paymentReference: varchar("payment_reference"), // cheque number or UTR of the payout
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Expense relations
+export const vendorsRelations = relations(vendors, ({ one, many }) => ({
+  society: one(societies, {
+    fields: [vendors.societyId],
+    references: [societies.id],
+  }),
+  expenses: many(expenses),
+}));
+
+export const expensesRelations = relations(expenses, ({ one }) => ({
+  society: one(societies, {
+    fields: [expenses.societyId],
+    references: [societies.id],
+  }),
+  vendor: one(vendors, {
+    fields: [expenses.vendorId],
+    references: [vendors.id],
+  }),
+  submitter: one(users, {
+    fields: [expenses.submittedBy],
+    references: [users.id],
+  }),
+}));
+
+// Expense types
+export type Vendor = typeof vendors.$inferSelect;
+export type Expense = typeof expenses.$inferSelect;
+
+export const expenseCategoryLabels: Record<Expense["category"], string> = {
+  staff: "Maintenance Staff",
+  utilities: "Utilities",
+  security: "Security",
+  cleaning: "Cleaning",
+  repairs: "Repairs",
+  supplies: "Supplies",
+  other: "Others",
+};
+
+export interface ExpenseWithVendor extends Expense {
+  vendorName: string | null;
+}
+
+export interface MonthlyIncomeExpense {
+  month: string; // YYYY-MM
+  income: number;
+  expenses: number;
+}
+
+export interface FinancialReport {
+  period: 'month' | 'quarter' | 'year';
+  from: string;
+  to: string;
+  income: number;
+  expenses: number;
+  billed: number;
+  pendingDues: number;
+  // Change in income against the previous period of the same length, in percent
+  incomeGrowth: number | null;
+  months: MonthlyIncomeExpense[];
+  expenseBreakdown: { category: Expense["category"]; amount: number }[];
+  recentTransactions: { id: string; type: 'credit' | 'debit'; description: string; amount: number; date: string }[];
+}
+
+// Expense insert schemas
+export const insertVendorSchema = createInsertSchema(vendors).omit({
+  id: true,
+  societyId: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertExpenseSchema = createInsertSchema(expenses, {
+  amount: z.number().int().positive(),
+  invoiceDate: z.coerce.date().optional().nullable(),
+}).omit({
+  id: true,
+  societyId: true,
+  invoiceFile: true,
+  invoiceMimeType: true,
+  status: true,
+  submittedBy: true,
+  approvedBy: true,
+  approvedAt: true,
+  rejectionReason: true,
+  paymentDate: true,
+  paymentReference: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertVendor = z.infer<typeof insertVendorSchema>;
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+
+// Accounting ledger tables
+export const accountTypeEnum = pgEnum("account_type", ["asset", "liability", "equity", "income", "expense"]);
+
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  code: varchar("code").notNull(),
+  name: varchar("name").notNull(),
+  type: accountTypeEnum("type").notNull(),
+  // Identifies the accounts that automatic postings go to
+  systemKey: varchar("system_key"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueSocietyCode: uniqueIndex("unique_society_account_code").on(table.societyId, table.code),
+  uniqueSocietySystemKey: uniqueIndex("unique_society_account_system_key").on(table.societyId, table.systemKey),
+}));
+
+export const journalEntries = pgTable("journal_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  entryDate: timestamp("entry_date").notNull(),
+  description: text("description").notNull(),
+  sourceType: varchar("source_type", {
+    enum: ["bill", "advance_credit", "penalty", "payment", "payment_reversal", "expense", "expense_payment", "fund_withdrawal", "facility_booking", "facility_cancellation"],
+  }).notNull(),
+  sourceId: varchar("source_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_journal_society_date").on(table.societyId, table.entryDate),
+]);
+
+export const journalLines = pgTable("journal_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull().references(() => journalEntries.id, { onDelete: "cascade" }),
+  accountId: varchar("account_id").notNull().references(() => ledgerAccounts.id),
+  debit: integer("debit").default(0).notNull(), // in rupees
+  credit: integer("credit").default(0).notNull(), // in rupees
+});
+
+// Accounting ledger relations
+export const ledgerAccountsRelations = relations(ledgerAccounts, ({ one, many }) => ({
+  society: one(societies, {
+    fields: [ledgerAccounts.societyId],
+    references: [societies.id],
+  }),
+  lines: many(journalLines),
+}));
+
+export const journalEntriesRelations = relations(journalEntries, ({ one, many }) => ({
+  society: one(societies, {
+    fields: [journalEntries.societyId],
+    references: [societies.id],
+  }),
+  lines: many(journalLines),
+}));
+
+export const journalLinesRelations = relations(journalLines, ({ one }) => ({
+  entry: one(journalEntries, {
+    fields: [journalLines.entryId],
+    references: [journalEntries.id],
+  }),
+  account: one(ledgerAccounts, {
+    fields: [journalLines.accountId],
+    references: [ledgerAccounts.id],
+  }),
+}));
+
+// Accounting ledger types
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type JournalLine = typeof journalLines.$inferSelect;
+
+export interface JournalEntryWithLines extends JournalEntry {
+  lines: (JournalLine & { accountCode: string; accountName: string })[];
+}
+
+export interface AccountBalance {
+  accountId: string;
+  code: string;
+  name: string;
+  type: LedgerAccount["type"];
+  debit: number;
+  credit: number;
+  // Positive on the account's normal side: debit for assets and expenses, credit for the rest
+  balance: number;
+}
+
+export interface TrialBalance {
+  from: string | null;
+  to: string;
+  accounts: AccountBalance[];
+  totalDebit: number;
+  totalCredit: number;
+}
+
+export interface IncomeExpenditureStatement {
+  from: string | null;
+  to: string;
+  income: AccountBalance[];
+  expenditure: AccountBalance[];
+  totalIncome: number;
+  totalExpenditure: number;
+  surplus: number;
+}
+
+export interface BalanceSheet {
+  asOf: string;
+  assets: AccountBalance[];
+  liabilities: AccountBalance[];
+  equity: AccountBalance[];
+  // Income less expenditure to date, carried into equity
+  accumulatedSurplus: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+}
+
+// Society fund tables
+export const fundTypeEnum = pgEnum("fund_type", ["sinking", "repair", "reserve", "other"]);
+export const fundWithdrawalStatusEnum = pgEnum("fund_withdrawal_status", ["pending", "rejected", "cancelled", "disbursed"]);
+
+export const funds = pgTable("funds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  name: varchar("name").notNull(),
+  type: fundTypeEnum("type").default("sinking").notNull(),
+  description: text("description"),
+  // Contribution rule added to every generated bill, calculated like a charge head
+  calculation: chargeCalculationEnum("calculation").default('fixed').notNull(),
+  rate: integer("rate").default(0).notNull(), // in paise, per sq ft for per_sqft funds
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const fundWithdrawals = pgTable("fund_withdrawals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fundId: varchar("fund_id").notNull().references(() => funds.id),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  amount: integer("amount").notNull(), // in rupees
+  purpose: text("purpose").notNull(),
+  vendorId: varchar("vendor_id").references(() => vendors.id),
+  // Residents approve or reject the withdrawal by voting on this poll
+  pollId: varchar("poll_id").notNull().references(() => polls.id),
+  status: fundWithdrawalStatusEnum("status").default("pending").notNull(),
+  requestedBy: varchar("requested_by").notNull().references(() => users.id),
+  disbursedAt: timestamp("disbursed_at"),
+  paymentReference: varchar("payment_reference"), // cheque number or UTR of the payout
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Society fund relations
+export const fundsRelations = relations(funds, ({ one, many }) => ({
+  society: one(societies, {
+    fields: [funds.societyId],
+    references: [societies.id],
+  }),
+  withdrawals: many(fundWithdrawals),
+}));
+
+export const fundWithdrawalsRelations = relations(fundWithdrawals, ({ one }) => ({
+  fund: one(funds, {
+    fields: [fundWithdrawals.fundId],
+    references: [funds.id],
+  }),
+  vendor: one(vendors, {
+    fields: [fundWithdrawals.vendorId],
+    references: [vendors.id],
+  }),
+  poll: one(polls, {
+    fields: [fundWithdrawals.pollId],
+    references: [polls.id],
+  }),
+}));
+
+// Society fund types
+export type Fund = typeof funds.$inferSelect;
+export type FundWithdrawal = typeof fundWithdrawals.$inferSelect;
+
+export const fundTypeLabels: Record<Fund["type"], string> = {
+  sinking: "Sinking Fund",
+  repair: "Repair Fund",
+  reserve: "Reserve Fund",
+  other: "Other Fund",
+};
+
+export interface FundWithBalance extends Fund {
+  balance: number;
+}
+
+export interface FundWithdrawalWithPoll extends FundWithdrawal {
+  fundName: string;
+  vendorName: string | null;
+  pollStatus: Poll["status"];
+  pollEndDate: string;
+  approveVotes: number;
+  rejectVotes: number;
+  // Decided once the poll has closed or passed its end date
+  outcome: 'open' | 'approved' | 'rejected';
+}
+
+export interface FundStatementEntry {
+  entryId: string;
+  date: string;
+  description: string;
+  sourceType: JournalEntry["sourceType"];
+  contribution: number;
+  withdrawal: number;
+  balance: number;
+}
+
+export interface FundStatement {
+  fund: Fund;
+  from: string | null;
+  to: string;
+  openingBalance: number;
+  entries: FundStatementEntry[];
+  totalContributions: number;
+  totalWithdrawals: number;
+  closingBalance: number;
+}
+
+// Society fund insert schemas
+export const insertFundSchema = createInsertSchema(funds, {
+  rate: z.number().int().nonnegative(),
+}).omit({
+  id: true,
+  societyId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertFundWithdrawalSchema = createInsertSchema(fundWithdrawals, {
+  amount: z.number().int().positive(),
+}).omit({
+  id: true,
+  fundId: true,
+  societyId: true,
+  pollId: true,
+  status: true,
+  requestedBy: true,
+  disbursedAt: true,
+  paymentReference: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertFund = z.infer<typeof insertFundSchema>;
+export type InsertFundWithdrawal = z.infer<typeof insertFundWithdrawalSchema>;
+
+// GST tables
+export const taxSettings = pgTable("tax_settings", {
+  societyId: varchar("society_id").primaryKey().references(() => societies.id),
+  isEnabled: boolean("is_enabled").default(false).notNull(),
+  gstRate: integer("gst_rate").default(1800).notNull(), // in basis points, split equally into CGST and SGST
+  // Flats whose monthly taxable charges do not exceed this are exempt
+  exemptionLimit: integer("exemption_limit").default(7500).notNull(), // in rupees
+  sacCode: varchar("sac_code").default("999598").notNull(),
+  invoicePrefix: varchar("invoice_prefix").default("INV").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Last issued invoice number per society and financial year, since GST series restart every April
+export const invoiceCounters = pgTable("invoice_counters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  financialYear: varchar("financial_year").notNull(), // e.g. "25-26"
+  lastNumber: integer("last_number").default(0).notNull(),
+}, (table) => ({
+  uniqueSocietyYear: uniqueIndex("unique_invoice_counter_society_year").on(table.societyId, table.financialYear),
+}));
+
+// GST relations
+export const taxSettingsRelations = relations(taxSettings, ({ one }) => ({
+  society: one(societies, {
+    fields: [taxSettings.societyId],
+    references: [societies.id],
+  }),
+}));
+
+// GST types
+export type TaxSettings = typeof taxSettings.$inferSelect;
+
+// 2-digit state code, PAN, entity number, 'Z' and a check character
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export interface TaxConfiguration extends Omit<TaxSettings, 'societyId' | 'updatedAt'> {
+  gstin: string | null;
+}
+
+export interface TaxInvoiceRow {
+  billId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  flatNumber: string | null;
+  residentName: string;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  total: number;
+}
+
+export interface TaxSummary {
+  billingMonth: string;
+  gstin: string | null;
+  sacCode: string;
+  gstRate: number;
+  invoices: TaxInvoiceRow[];
+  invoiceCount: number;
+  taxableAmount: number;
+  // Invoiced value below the exemption limit, reported separately as exempt supplies
+  exemptAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  totalAmount: number;
+}
+
+// GST insert schemas
+export const insertTaxSettingsSchema = createInsertSchema(taxSettings, {
+  gstRate: z.number().int().min(0).max(2800),
+  exemptionLimit: z.number().int().nonnegative(),
+  sacCode: z.string().regex(/^\d{6}$/, "SAC code must be 6 digits"),
+  invoicePrefix: z.string().regex(/^[A-Z0-9]{1,5}$/, "Invoice prefix must be up to 5 capital letters or digits"),
+}).omit({
+  societyId: true,
+  updatedAt: true,
+});
+
+export type InsertTaxSettings = z.infer<typeof insertTaxSettingsSchema>;
+
+// Complaint assignment tables
+export const staffMembers = pgTable("staff_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  name: varchar("name").notNull(),
+  designation: varchar("designation"), // e.g. plumber, electrician, housekeeping
+  phone: varchar("phone"),
+  email: varchar("email"),
+  userId: varchar("user_id").references(() => users.id), // staff login used to work assigned complaints
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Complaint assignment relations
+export const staffMembersRelations = relations(staffMembers, ({ one }) => ({
+  society: one(societies, {
+    fields: [staffMembers.societyId],
+    references: [societies.id],
+  }),
+  user: one(users, {
+    fields: [staffMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+// Complaint assignment types
+export type StaffMember = typeof staffMembers.$inferSelect;
+export type ComplaintAssigneeType = NonNullable<Complaint["assigneeType"]>;
+
+// Staff members and vendors share one assignee list so complaints can go to either
+export interface ComplaintAssignee {
+  type: ComplaintAssigneeType;
+  id: string;
+  name: string;
+  role: string | null; // designation for staff, service for vendors
+  phone: string | null;
+  email: string | null;
+  isActive: boolean;
+  hasLogin: boolean;
+}
+
+export interface AssigneeWorkload {
+  type: ComplaintAssigneeType;
+  id: string;
+  name: string;
+  isActive: boolean;
+  openCount: number;
+  inProgressCount: number;
+  // Creation date of the oldest complaint still open or in progress
+  oldestOpenAt: string | null;
+}
+
+export interface ComplaintWorkloadSummary {
+  assignees: AssigneeWorkload[];
+  unassignedCount: number;
+  oldestUnassignedAt: string | null;
+}
+
+// Complaint assignment insert schemas
+export const insertStaffMemberSchema = createInsertSchema(staffMembers, {
+  name: z.string().trim().min(1),
+  email: z.string().email().optional().nullable(),
+}).omit({
+  id: true,
+  societyId: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertStaffMember = z.infer<typeof insertStaffMemberSchema>;
+
+// Complaint activity tables
+export const complaintEventTypeEnum = pgEnum("complaint_event_type", ["created", "status_changed", "assigned", "priority_changed", "reopened", "rated", "merged"]);
+
+// Events are only ever inserted, so the timeline is a permanent record of the complaint
+export const complaintEvents = pgTable("complaint_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  actorId: varchar("actor_id").references(() => users.id), // null for automatic changes such as auto-closure
+  type: complaintEventTypeEnum("type").notNull(),
+  fromValue: varchar("from_value"), // status, priority, "type:id" of the assignee or id of a merged complaint
+  toValue: varchar("to_value"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const complaintComments = pgTable("complaint_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Complaint activity relations
+export const complaintEventsRelations = relations(complaintEvents, ({ one }) => ({
+  complaint: one(complaints, {
+    fields: [complaintEvents.complaintId],
+    references: [complaints.id],
+  }),
+  actor: one(users, {
+    fields: [complaintEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const complaintCommentsRelations = relations(complaintComments, ({ one }) => ({
+  complaint: one(complaints, {
+    fields: [complaintComments.complaintId],
+    references: [complaints.id],
+  }),
+  author: one(users, {
+    fields: [complaintComments.authorId],
+    references: [users.id],
+  }),
+}));
+
+// Complaint activity types
+export type ComplaintEvent = typeof complaintEvents.$inferSelect;
+export type ComplaintComment = typeof complaintComments.$inferSelect;
+
+export const complaintPriorities = ["low", "medium", "high"] as const;
+export type ComplaintPriority = typeof complaintPriorities[number];
+
+export interface ComplaintEventWithActor extends ComplaintEvent {
+  actorName: string;
+  actorRole: User["role"] | null;
+  // Assignment events carry assignee keys; these are the names they resolve to
+  fromLabel: string | null;
+  toLabel: string | null;
+}
+
+export interface ComplaintCommentWithAuthor extends ComplaintComment {
+  authorName: string;
+  authorRole: User["role"];
+}
+
+// Complaint activity insert schemas
+export const insertComplaintCommentSchema = createInsertSchema(complaintComments, {
+  body: z.string().trim().min(1).max(2000),
+}).omit({
+  id: true,
+  complaintId: true,
+  authorId: true,
+  createdAt: true,
+});
+
+export type InsertComplaintComment = z.infer<typeof insertComplaintCommentSchema>;
+
+// Complaint attachment tables
+export const complaintAttachments = pgTable("complaint_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  commentId: varchar("comment_id").references(() => complaintComments.id), // null when attached to the complaint itself
+  uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  fileName: varchar("file_name").notNull(), // original name as sent by the browser
+  mimeType: varchar("mime_type").notNull(),
+  size: integer("size").notNull(), // in bytes
+  filePath: varchar("file_path").notNull(), // path relative to the upload directory
+  thumbnailPath: varchar("thumbnail_path"), // only images get a thumbnail
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Complaint attachment relations
+export const complaintAttachmentsRelations = relations(complaintAttachments, ({ one }) => ({
+  complaint: one(complaints, {
+    fields: [complaintAttachments.complaintId],
+    references: [complaints.id],
+  }),
+  comment: one(complaintComments, {
+    fields: [complaintAttachments.commentId],
+    references: [complaintComments.id],
+  }),
+  uploader: one(users, {
+    fields: [complaintAttachments.uploadedBy],
+    references: [users.id],
+  }),
+}));
+
+// Complaint attachment types
+export type ComplaintAttachment = typeof complaintAttachments.$inferSelect;
+export type InsertComplaintAttachment = typeof complaintAttachments.$inferInsert;
+
+// Storage paths stay on the server; clients fetch files through the attachment routes
+export type ComplaintAttachmentInfo = Omit<ComplaintAttachment, 'filePath' | 'thumbnailPath'> & {
+  hasThumbnail: boolean;
+};
+
+// Complaint SLA tables
+export const slaBreachKindEnum = pgEnum("sla_breach_kind", ["first_response", "resolution"]);
+
+// A null category or priority matches any value; the most specific active policy wins
+export const slaPolicies = pgTable("sla_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  category: varchar("category"),
+  priority: varchar("priority"),
+  firstResponseHours: integer("first_response_hours").notNull(),
+  resolutionHours: integer("resolution_hours").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const slaBreaches = pgTable("sla_breaches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  complaintId: varchar("complaint_id").notNull().references(() => complaints.id),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  policyId: varchar("policy_id").notNull().references(() => slaPolicies.id),
+  kind: slaBreachKindEnum("kind").notNull(),
+  targetHours: integer("target_hours").notNull(),
+  dueAt: timestamp("due_at").notNull(),
+  breachedAt: timestamp("breached_at").defaultNow().notNull(),
+  // 1 once the society admin was emailed, 2 once it went on to the super admin
+  escalationLevel: integer("escalation_level").default(0).notNull(),
+  lastEscalatedAt: timestamp("last_escalated_at"),
+}, (table) => ({
+  // Each target can only be missed once per complaint
+  uniqueComplaintKind: uniqueIndex("sla_breaches_complaint_kind_idx").on(table.complaintId, table.kind),
+}));
+
+// Complaint SLA relations
+export const slaPoliciesRelations = relations(slaPolicies, ({ one, many }) => ({
+  society: one(societies, {
+    fields: [slaPolicies.societyId],
+    references: [societies.id],
+  }),
+  breaches: many(slaBreaches),
+}));
+
+export const slaBreachesRelations = relations(slaBreaches, ({ one }) => ({
+  complaint: one(complaints, {
+    fields: [slaBreaches.complaintId],
+    references: [complaints.id],
+  }),
+  policy: one(slaPolicies, {
+    fields: [slaBreaches.policyId],
+    references: [slaPolicies.id],
+  }),
+}));
+
+// Complaint SLA types
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type SlaBreach = typeof slaBreaches.$inferSelect;
+
+export const defaultComplaintCategories = ["plumbing", "electrical", "security", "maintenance", "cleaning", "other"];
+
+export interface SlaBreachWithComplaint extends SlaBreach {
+  complaintTitle: string;
+  complaintStatus: Complaint["status"];
+}
+
+export interface SlaCompliance {
+  windowDays: number;
+  // Complaints with a matching policy whose target has either been met or missed
+  firstResponseTracked: number;
+  firstResponseMet: number;
+  resolutionTracked: number;
+  resolutionMet: number;
+  // Met as a share of tracked, in percent; null when nothing was tracked
+  firstResponseRate: number | null;
+  resolutionRate: number | null;
+  openBreaches: number;
+}
+
+export interface SocietySlaCompliance extends SlaCompliance {
+  societyId: string;
+  societyName: string;
+}
+
+// Complaint SLA insert schemas
+export const insertSlaPolicySchema = createInsertSchema(slaPolicies, {
+  category: z.string().trim().min(1).optional().nullable(),
+  priority: z.enum(complaintPriorities).optional().nullable(),
+  firstResponseHours: z.number().int().positive().max(24 * 30),
+  resolutionHours: z.number().int().positive().max(24 * 90),
+}).omit({
+  id: true,
+  societyId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertSlaPolicy = z.infer<typeof insertSlaPolicySchema>;
+
+// Complaint satisfaction types
+export const complaintFeedbackSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  feedback: z.string().trim().max(1000).optional().nullable(),
+});
+
+export const complaintReopenSchema = z.object({
+  reason: z.string().trim().min(5, "Please say what is still wrong").max(1000),
+});
+
+export type ComplaintFeedback = z.infer<typeof complaintFeedbackSchema>;
+
+export interface SatisfactionStats {
+  ratingCount: number;
+  averageRating: number | null;
+  reopenedCount: number;
+  closedCount: number;
+}
+
+export interface ComplaintSatisfactionSummary {
+  overall: SatisfactionStats;
+  byAssignee: (SatisfactionStats & { type: ComplaintAssigneeType; id: string; name: string })[];
+  byCategory: (SatisfactionStats & { category: string })[];
+}
+
+// Complaint status workflow
+export type ComplaintStatus = typeof complaintStatusEnum.enumValues[number];
+
+// Resolved complaints only move on through the resident (confirm or reopen) or auto-closure;
+// closed is final
+export const complaintStatusTransitions: Record<ComplaintStatus, ComplaintStatus[]> = {
+  open: ['in_progress', 'resolved'],
+  in_progress: ['open', 'resolved'],
+  resolved: ['open', 'closed'],
+  closed: [],
+};
+
+// Complaint category tables
+// Complaints store the category name, so names are fixed once created; retire a category by deactivating it
+export const complaintCategories = pgTable("complaint_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  name: varchar("name").notNull(),
+  defaultPriority: varchar("default_priority").default('medium').notNull(),
+  // New complaints in this category go straight to this staff member or vendor
+  defaultAssigneeType: complaintAssigneeTypeEnum("default_assignee_type"),
+  defaultAssigneeId: varchar("default_assignee_id"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  uniqueSocietyCategory: uniqueIndex("unique_society_complaint_category").on(table.societyId, table.name),
+}));
+
+// Complaint category relations
+export const complaintCategoriesRelations = relations(complaintCategories, ({ one }) => ({
+  society: one(societies, {
+    fields: [complaintCategories.societyId],
+    references: [societies.id],
+  }),
+}));
+
+// Complaint category types
+export type ComplaintCategory = typeof complaintCategories.$inferSelect;
+
+// The category-wide SLA is the active SLA policy for the category with no priority set
+export interface ComplaintCategoryWithRouting extends ComplaintCategory {
+  defaultAssigneeName: string | null;
+  firstResponseHours: number | null;
+  resolutionHours: number | null;
+}
+
+// Complaint category insert schemas
+export const insertComplaintCategorySchema = createInsertSchema(complaintCategories, {
+  name: z.string().trim().min(1, "Name is required").max(50),
+  defaultPriority: z.enum(complaintPriorities),
+}).omit({
+  id: true,
+  societyId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertComplaintCategory = z.infer<typeof insertComplaintCategorySchema>;
+
+// Complaint duplicate types
+export type ComplaintScope = typeof complaintScopeEnum.enumValues[number];
+
+export interface ComplaintDuplicateCandidate {
+  complaint: Complaint;
+  similarity: number; // 0-1 share of the shorter report's words found in the other
+}
+
+export interface ComplaintDuplicates {
+  candidates: ComplaintDuplicateCandidate[];
+  merged: Complaint[]; // duplicates already merged into this complaint
+}
+
+// Complaint duplicate insert schemas
+export const complaintMergeSchema = z.object({
+  parentId: z.string().min(1, "Choose the complaint to merge into"),
+});
+
+// Complaint analytics types
+export interface ComplaintBacklogPoint {
+  date: string; // YYYY-MM-DD start of the day, week or month
+  opened: number;
+  resolved: number;
+  backlog: number; // still unresolved at the end of the bucket
+}
+
+export interface ComplaintBreakdownRow {
+  key: string;
+  label: string;
+  total: number;
+  open: number;
+  resolved: number;
+  averageResolutionHours: number | null;
+}
+
+export interface ComplaintHotspot {
+  kind: 'flat' | 'tower' | 'common_area';
+  location: string;
+  complaintCount: number;
+  topCategory: string;
+  topCategoryCount: number;
+}
+
+export interface ComplaintAnalytics {
+  period: FinancialReport["period"];
+  from: string;
+  to: string;
+  raised: number;
+  resolved: number;
+  openNow: number;
+  // Over complaints resolved within the period
+  meanResolutionHours: number | null;
+  medianResolutionHours: number | null;
+  backlog: ComplaintBacklogPoint[];
+  byCategory: ComplaintBreakdownRow[];
+  byPriority: ComplaintBreakdownRow[];
+  byAssignee: ComplaintBreakdownRow[];
+  hotspots: ComplaintHotspot[];
+}
+
+// Facility photo tables
+export const facilityPhotos = pgTable("facility_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull().references(() => facilities.id),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  fileName: varchar("file_name").notNull(),
+  mimeType: varchar("mime_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  filePath: varchar("file_path").notNull(), // relative to the upload directory
+  thumbnailPath: varchar("thumbnail_path").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Facility photo relations
+export const facilityPhotosRelations = relations(facilityPhotos, ({ one }) => ({
+  facility: one(facilities, {
+    fields: [facilityPhotos.facilityId],
+    references: [facilities.id],
+  }),
+  uploader: one(users, {
+    fields: [facilityPhotos.uploadedBy],
+    references: [users.id],
+  }),
+}));
+
+// Facility photo types
+export type FacilityPhoto = typeof facilityPhotos.$inferSelect;
+export type InsertFacilityPhoto = typeof facilityPhotos.$inferInsert;
+
+// What clients see of a photo; files are fetched through the photo routes
+export type FacilityPhotoInfo = Omit<FacilityPhoto, 'filePath' | 'thumbnailPath'>;
+
+export interface FacilityWithPhotos extends Facility {
+  photos: FacilityPhotoInfo[];
+}
+
+// Facility insert schemas
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const insertFacilitySchema = createInsertSchema(facilities, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(1000).optional().nullable(),
+  capacity: z.number().int().positive().max(1000),
+  hourlyRate: z.number().int().min(0),
+  openingTime: z.string().regex(TIME_OF_DAY_PATTERN, "Times must be HH:MM"),
+  closingTime: z.string().regex(TIME_OF_DAY_PATTERN, "Times must be HH:MM"),
+  slotMinutes: z.number().int().min(15).max(24 * 60),
+  rules: z.string().trim().max(4000).optional().nullable(),
+  peakStartTime: z.string().regex(TIME_OF_DAY_PATTERN, "Times must be HH:MM").optional().nullable(),
+  peakEndTime: z.string().regex(TIME_OF_DAY_PATTERN, "Times must be HH:MM").optional().nullable(),
+  peakRate: z.number().int().min(0).optional().nullable(),
+  weekendRate: z.number().int().min(0).optional().nullable(),
+  guestRatePercent: z.number().int().min(0).max(1000),
+  securityDeposit: z.number().int().min(0),
+  cancellationTiers: z.array(z.object({
+    hoursBefore: z.number().int().min(0).max(24 * 365),
+    refundPercent: z.number().int().min(0).max(100),
+  })).max(5),
+}).omit({
+  id: true,
+  societyId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertFacility = z.infer<typeof insertFacilitySchema>;
+
+// Facility blackout tables
+export const facilityBlackouts = pgTable("facility_blackouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull().references(() => facilities.id),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  date: varchar("date").notNull(), // YYYY-MM-DD; no bookings on this day
+  reason: varchar("reason"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueFacilityDate: uniqueIndex("unique_facility_blackout_date").on(table.facilityId, table.date),
+}));
+
+// Facility blackout relations
+export const facilityBlackoutsRelations = relations(facilityBlackouts, ({ one }) => ({
+  facility: one(facilities, {
+    fields: [facilityBlackouts.facilityId],
+    references: [facilities.id],
+  }),
+}));
+
+// Facility blackout types
+export type FacilityBlackout = typeof facilityBlackouts.$inferSelect;
+
+export const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export const insertFacilityBlackoutSchema = createInsertSchema(facilityBlackouts, {
+  date: z.string().regex(DATE_PATTERN, "Dates must be YYYY-MM-DD"),
+  reason: z.string().trim().max(200).optional().nullable(),
+}).omit({
+  id: true,
+  facilityId: true,
+  societyId: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+export type InsertFacilityBlackout = z.infer<typeof insertFacilityBlackoutSchema>;
+
+// Facility availability types
+export interface FacilitySlot {
+  startTime: string; // HH:MM
+  endTime: string;
+  booked: number; // pending and approved bookings overlapping the slot
+  remaining: number;
+}
+
+export interface FacilityDayAvailability {
+  date: string; // YYYY-MM-DD
+  blackoutReason: string | null;
+  isBlackout: boolean;
+  slots: FacilitySlot[];
+}
+
+export interface FacilityAvailability {
+  facilityId: string;
+  capacity: number;
+  slotMinutes: number;
+  days: FacilityDayAvailability[];
+}
+
+// What residents send to book; the server fills in who and which society
+export const facilityBookingRequestSchema = z.object({
+  facilityId: z.string().min(1, "Please select a facility"),
+  bookingDate: z.string().regex(DATE_PATTERN, "Dates must be YYYY-MM-DD"),
+  startTime: z.string().regex(TIME_OF_DAY_PATTERN, "Times must be HH:MM"),
+  endTime: z.string().regex(TIME_OF_DAY_PATTERN, "Times must be HH:MM"),
+  notes: z.string().trim().max(500).optional().nullable(),
+  forGuest: z.boolean().default(false),
+  paymentMode: z.enum(["dues", "immediate"]).default("dues"),
+});
+
+// Facility pricing types
+export interface FacilityQuoteLine {
+  description: string;
+  hours: number;
+  rate: number; // in rupees per hour, after any guest adjustment
+  amount: number; // in rupees
+}
+
+export interface FacilityQuote {
+  lines: FacilityQuoteLine[];
+  rentAmount: number; // in rupees
+  depositAmount: number; // in rupees, refundable
+  totalAmount: number; // in rupees, rent plus deposit
+}
+
+// Facility cancellation types
+export interface FacilityCancellationQuote {
+  refundPercent: number; // share of the usage charge returned
+  usageRefund: number; // in rupees
+  depositRefund: number; // in rupees
+  refundAmount: number; // in rupees
+  hoursBeforeStart: number;
+}
+
+export const bookingCancellationSchema = z.object({
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
+// Admins must say why; they can also waive the policy with their own refund share
+export const adminBookingCancellationSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+  refundPercent: z.number().int().min(0).max(100).optional(),
+});
+
+export const bookingStatusUpdateSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
+// Recurring booking series tables
+export const facilityBookingSeries = pgTable("facility_booking_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull().references(() => facilities.id),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  residentId: varchar("resident_id").notNull().references(() => users.id),
+  frequency: varchar("frequency", { enum: ["weekly", "monthly"] }).notNull(),
+  daysOfWeek: jsonb("days_of_week").$type<number[]>().default([]).notNull(), // 0 = Sunday; weekly series only
+  startDate: varchar("start_date").notNull(), // YYYY-MM-DD; monthly series repeat on this day of the month
+  endDate: varchar("end_date").notNull(), // YYYY-MM-DD, inclusive
+  startTime: varchar("start_time").notNull(),
+  endTime: varchar("end_time").notNull(),
+  forGuest: boolean("for_guest").default(false).notNull(),
+  paymentMode: varchar("payment_mode", { enum: ["dues", "immediate"] }).default("dues").notNull(),
+  notes: text("notes"),
+  status: varchar("status", { enum: ["active", "cancelled"] }).default("active").notNull(),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Residents waiting for a full slot; entries are offered the slot in the order they joined
+export const facilityWaitlist = pgTable("facility_waitlist", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull().references(() => facilities.id),
+  societyId: varchar("society_id").notNull().references(() => societies.id),
+  residentId: varchar("resident_id").notNull().references(() => users.id),
+  bookingDate: varchar("booking_date").notNull(), // YYYY-MM-DD
+  startTime: varchar("start_time").notNull(),
+  endTime: varchar("end_time").notNull(),
+  forGuest: boolean("for_guest").default(false).notNull(),
+  paymentMode: varchar("payment_mode", { enum: ["dues", "immediate"] }).default("dues").notNull(),
+  notes: text("notes"),
+  status: varchar("status", { enum: ["waiting", "offered", "booked", "expired", "withdrawn"] }).default("waiting").notNull(),
+  offeredAt: timestamp("offered_at"),
+  offerExpiresAt: timestamp("offer_expires_at"), // the offer lapses and moves down the list after this
+  bookingId: varchar("booking_id").references(() => facilityBookings.id), // set once the offer is taken up
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Recurring booking series relations
+export const facilityBookingSeriesRelations = relations(facilityBookingSeries, ({ one }) => ({
+  facility: one(facilities, {
+    fields: [facilityBookingSeries.facilityId],
+    references: [facilities.id],
+  }),
+  resident: one(users, {
+    fields: [facilityBookingSeries.residentId],
+    references: [users.id],
+  }),
+}));
+
+export const facilityWaitlistRelations = relations(facilityWaitlist, ({ one }) => ({
+  facility: one(facilities, {
+    fields: [facilityWaitlist.facilityId],
+    references: [facilities.id],
+  }),
+  resident: one(users, {
+    fields: [facilityWaitlist.residentId],
+    references: [users.id],
+  }),
+  booking: one(facilityBookings, {
+    fields: [facilityWaitlist.bookingId],
+    references: [facilityBookings.id],
+  }),
+}));
+
+// Recurring booking series types
+export type FacilityBookingSeries = typeof facilityBookingSeries.$inferSelect;
+export type InsertFacilityBookingSeries = typeof facilityBookingSeries.$inferInsert;
+export type FacilityWaitlistEntry = typeof facilityWaitlist.$inferSelect;
+export type InsertFacilityWaitlistEntry = typeof facilityWaitlist.$inferInsert;
+
+export const MAX_SERIES_OCCURRENCES = 60;
+
+export const bookingSeriesRequestSchema = facilityBookingRequestSchema.omit({ bookingDate: true }).extend({
+  frequency: z.enum(["weekly", "monthly"]),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).default([]),
+  startDate: z.string().regex(DATE_PATTERN, "Dates must be YYYY-MM-DD"),
+  endDate: z.string().regex(DATE_PATTERN, "Dates must be YYYY-MM-DD"),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "The series must end on or after its start date",
+  path: ["endDate"],
+});
+
+// One row per date the series asked for; conflicts say why that date couldn't be booked
+export interface BookingSeriesOccurrence {
+  date: string; // YYYY-MM-DD
+  bookingId: string | null;
+  conflict: string | null;
+}
+
+export interface FacilityBookingSeriesResult {
+  series: FacilityBookingSeries;
+  occurrences: BookingSeriesOccurrence[];
+}
+
+// Facility booking calendar types
+export interface FacilityBookingWithResident extends FacilityBooking {
+  residentName: string;
+  flatNumber: string | null;
+}